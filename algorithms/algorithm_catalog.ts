@@ -0,0 +1,710 @@
+export type ComplexityGrowth = 'constant' | 'log' | 'linear' | 'linearithmic' | 'quadratic';
+
+export interface AlgorithmCondition {
+  pattern: RegExp; // Matched against the problem statement
+  reason: string;
+}
+
+export interface AlgorithmTemplate {
+  id: string;
+  name: string;
+  family: 'sorting' | 'search' | 'graph' | 'dynamic-programming' | 'streaming' | 'probabilistic';
+  tasks: RegExp;
+  excludes?: RegExp; // Problem statements the algorithm does not solve even though `tasks` matches them
+  time: string;
+  space: string;
+  query?: string; // Cost of one lookup, for structures built once and then queried
+  update?: string; // Cost of one insert or change; absent when a change means a rebuild
+  growth: ComplexityGrowth;
+  query_growth?: ComplexityGrowth;
+  memory: ComplexityGrowth;
+  bytes_per_item: number;
+  fixed_kb?: number; // Footprint when memory is 'constant'
+  exact: boolean;
+  external?: boolean; // Works on data larger than memory
+  streaming?: boolean; // One pass with bounded memory
+  favoured_by?: AlgorithmCondition[];
+  penalized_by?: AlgorithmCondition[];
+  requires?: AlgorithmCondition;
+  pseudocode: string[];
+  pros: string[];
+  cons: string[];
+}
+
+// Algorithms the algorithmic strategy chooses from. `tasks` matches the problem statements an
+// algorithm solves and `excludes` the look-alikes it does not; `growth` is the work to process all n items and `query_growth` the work per
+// lookup for structures that are built once and then queried. `bytes_per_item` sizes the working
+// set including the input, `fixed_kb` the footprint of structures whose memory does not grow with n.
+export const ALGORITHM_CATALOG: AlgorithmTemplate[] = [
+  {
+    id: 'merge-sort',
+    name: 'Merge sort',
+    family: 'sorting',
+    tasks: /\bsort|\bordering\b|\border (?:by|them)\b|\brank(?:ing)?\b/i,
+    time: 'O(n log n) worst case',
+    space: 'O(n) auxiliary',
+    growth: 'linearithmic',
+    memory: 'linear',
+    bytes_per_item: 16,
+    exact: true,
+    favoured_by: [{ pattern: /\bstable\b|\blinked lists?\b/i, reason: 'a stable order is required' }],
+    pseudocode: [
+      'mergeSort(a):',
+      '  if len(a) <= 1: return a',
+      '  mid = len(a) / 2',
+      '  return merge(mergeSort(a[0:mid]), mergeSort(a[mid:]))',
+      'merge(left, right): repeatedly append the smaller head of the two runs'
+    ],
+    pros: ['Guaranteed O(n log n) and stable', 'Sequential access suits linked lists and disks'],
+    cons: ['Needs an O(n) merge buffer', 'Slower than in-place quicksort on arrays in practice']
+  },
+  {
+    id: 'introsort',
+    name: 'Introsort (quicksort with heapsort fallback)',
+    family: 'sorting',
+    tasks: /\bsort|\bordering\b|\border (?:by|them)\b|\brank(?:ing)?\b/i,
+    time: 'O(n log n) average and worst case',
+    space: 'O(log n) stack, in place',
+    growth: 'linearithmic',
+    memory: 'linear',
+    bytes_per_item: 8,
+    exact: true,
+    penalized_by: [{ pattern: /\bstable\b/i, reason: 'it is not stable' }],
+    pseudocode: [
+      'introsort(a, lo, hi, depth = 2·log2(n)):',
+      '  if hi - lo < 16: insertionSort(a, lo, hi); return',
+      '  if depth == 0: heapSort(a, lo, hi); return',
+      '  p = partition(a, lo, hi, medianOfThree(a, lo, hi))',
+      '  introsort(a, lo, p, depth - 1); introsort(a, p + 1, hi, depth - 1)'
+    ],
+    pros: ['Fastest comparison sort on in-memory arrays', 'In place, so memory is the input alone'],
+    cons: ['Not stable', 'Random access pattern is poor for data on disk']
+  },
+  {
+    id: 'radix-sort',
+    name: 'LSD radix sort',
+    family: 'sorting',
+    tasks: /\bsort|\bordering\b|\border (?:by|them)\b/i,
+    time: 'O(d·(n + b)) for d digits of base b',
+    space: 'O(n + b)',
+    growth: 'linear',
+    memory: 'linear',
+    bytes_per_item: 16,
+    exact: true,
+    requires: { pattern: /\bintegers?\b|\bnumeric\b|\bids?\b|fixed[- ]width|fixed[- ]length|timestamps?|\bzip codes?\b/i, reason: 'integer or fixed-width keys' },
+    pseudocode: [
+      'radixSort(a, digits d, base b):',
+      '  for digit in 0 .. d - 1:',
+      '    counts = histogram of digit(x) for x in a',
+      '    prefix-sum counts into bucket offsets',
+      '    scatter a into out by digit, stably; swap a and out'
+    ],
+    pros: ['Linear time beats comparison sorts on large integer inputs', 'Stable'],
+    cons: ['Only for integer or fixed-width keys', 'Needs an O(n) scatter buffer and is cache-unfriendly for wide keys']
+  },
+  {
+    id: 'external-merge-sort',
+    name: 'External merge sort',
+    family: 'sorting',
+    tasks: /\bsort|\bordering\b|\border (?:by|them)\b/i,
+    time: 'O(n log n) CPU, O((n/B)·log_{M/B}(n/B)) block transfers',
+    space: 'O(M) memory for runs, O(n) disk',
+    growth: 'linearithmic',
+    memory: 'constant',
+    bytes_per_item: 16,
+    fixed_kb: 65_536,
+    exact: true,
+    external: true,
+    pseudocode: [
+      'externalSort(file, memory M):',
+      '  while input remains: read M bytes, sort in memory, write a sorted run',
+      '  while more than one run:',
+      '    k-way merge up to M/B runs with a min-heap of run heads',
+      '  return the single remaining run'
+    ],
+    pros: ['Sorts data far larger than memory', 'Sequential I/O only'],
+    cons: ['Dominated by disk I/O', 'Needs scratch space of about the input size']
+  },
+  {
+    id: 'top-k-heap',
+    name: 'Bounded min-heap (top-k)',
+    family: 'sorting',
+    tasks: /\btop[- ]?k\b|\btop \d+|\bk (?:largest|smallest|highest)|\bleaderboard|\bhighest[- ]scoring/i,
+    // Ranking by frequency needs a counter per distinct item, not just the k best seen so far
+    excludes: /\bmost (?:frequent|common|popular|viewed|visited)\b|\bfrequen(?:t|cy|cies)\b|\bheavy hitters?\b|\btrending\b|\boccurrences?\b|\bhow many times/i,
+    time: 'O(n log k)',
+    space: 'O(k)',
+    query: 'O(k log k) to read the ranking',
+    update: 'O(log k) per item',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'constant',
+    bytes_per_item: 16,
+    fixed_kb: 16,
+    exact: true,
+    streaming: true,
+    penalized_by: [{ pattern: /\bscore (?:updates|changes)|\bscores? (?:change|are updated)|\bupdat(?:e|es|ing) (?:existing |their )?scores?/i, reason: 'scores already seen can change, which a bounded heap cannot undo' }],
+    pseudocode: [
+      'topK(stream, k):',
+      '  heap = empty min-heap',
+      '  for x in stream:',
+      '    if len(heap) < k: push(heap, x)',
+      '    else if x > heap.min: replace heap.min with x',
+      '  return heap sorted descending'
+    ],
+    pros: ['One pass with memory bounded by k', 'Exact'],
+    cons: ['Scores must not change after they are seen', 'Only the k best are kept']
+  },
+  {
+    id: 'binary-search',
+    name: 'Sorted array with binary search',
+    family: 'search',
+    tasks: /\bsearch|\blook ?ups?\b|\bfind (?:a |an |the )?(?:keys?|values?|records?|items?|elements?|entr(?:y|ies))\b|\bquer(?:y|ies)\b|\bexists?\b|\brange quer/i,
+    time: 'O(n log n) to sort once',
+    space: 'O(n)',
+    query: 'O(log n)',
+    growth: 'linearithmic',
+    query_growth: 'log',
+    memory: 'linear',
+    bytes_per_item: 8,
+    exact: true,
+    favoured_by: [{ pattern: /\branges?\b|\bsorted\b|\bordered\b|\bnearest\b|\bpredecessor|\bsuccessor|\bfloor\b|\bceiling\b/i, reason: 'ordered or range queries are needed' }],
+    pseudocode: [
+      'lowerBound(a, key):',
+      '  lo = 0; hi = len(a)',
+      '  while lo < hi:',
+      '    mid = (lo + hi) / 2',
+      '    if a[mid] < key: lo = mid + 1 else: hi = mid',
+      '  return lo'
+    ],
+    pros: ['Compact: just the sorted keys', 'Ordered and range queries come free'],
+    cons: ['Inserts shift O(n) elements, so changes mean a rebuild', 'O(log n) random accesses per lookup']
+  },
+  {
+    id: 'hash-table',
+    name: 'Hash table',
+    family: 'search',
+    tasks: /\blook ?ups?\b|\bfind (?:a |an |the )?(?:keys?|values?|records?|items?|elements?|entr(?:y|ies))\b|\bmembership|\bexists?\b|\bdedup|\bduplicates?\b|\bseen before|\bfrequenc|\bcount (?:occurrences|each)|\bjoin\b|\bquer(?:y|ies) by (?:key|id)/i,
+    time: 'O(n) to build',
+    space: 'O(n)',
+    query: 'O(1) average',
+    update: 'O(1) amortized',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'linear',
+    bytes_per_item: 48,
+    exact: true,
+    penalized_by: [{ pattern: /\brange quer|\bsorted order|\bnearest\b|\bpredecessor|\bsuccessor|\bprefix/i, reason: 'ordered, range or prefix queries are needed, which hashing does not keep' }],
+    pseudocode: [
+      'get(table, key):',
+      '  i = hash(key) mod capacity',
+      '  probe slots i, i + 1, ... until the key or an empty slot is found',
+      'put(table, key, value):',
+      '  if size / capacity > 0.75: rehash into twice the capacity',
+      '  probe as in get and store at the first empty slot'
+    ],
+    pros: ['Constant-time lookups and inserts on average', 'Simple and available in every standard library'],
+    cons: ['Pointer and load-factor overhead of several times the key size', 'No ordering; resizing causes latency spikes']
+  },
+  {
+    id: 'b-tree',
+    name: 'B-tree (balanced search tree)',
+    family: 'search',
+    tasks: /\bsearch|\blook ?ups?\b|\bfind (?:a |an |the )?(?:keys?|values?|records?|items?|elements?|entr(?:y|ies))\b|\bquer(?:y|ies)\b|\brange quer|\bindex(?:ing)?\b/i,
+    time: 'O(n log n) to build',
+    space: 'O(n)',
+    query: 'O(log n)',
+    update: 'O(log n)',
+    growth: 'linearithmic',
+    query_growth: 'log',
+    memory: 'linear',
+    bytes_per_item: 64,
+    exact: true,
+    external: true,
+    favoured_by: [{ pattern: /\branges?\b|\bsorted\b|\bordered\b|\bnearest\b|\bpredecessor|\bsuccessor|\bon disk\b/i, reason: 'ordered or range queries are needed' }],
+    pseudocode: [
+      'search(node, key):',
+      '  i = first index with node.keys[i] >= key (binary search)',
+      '  if node.keys[i] == key: return node.values[i]',
+      '  if node is a leaf: return not found',
+      '  return search(node.children[i], key)',
+      'insert splits full nodes on the way down, so the tree stays balanced'
+    ],
+    pros: ['Logarithmic lookups and updates with ordered iteration', 'Pages map onto disk blocks, so it works beyond memory'],
+    cons: ['Several times slower than hashing for point lookups', 'More complex to implement than a sorted array']
+  },
+  {
+    id: 'trie',
+    name: 'Trie (prefix tree)',
+    family: 'search',
+    tasks: /\bprefix|\bautocomplete|\bauto-complete|\btypeahead|\bdictionary\b|\bspell/i,
+    time: 'O(total characters) to build',
+    space: 'O(total characters)',
+    query: 'O(L) for a key of length L',
+    update: 'O(L)',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'linear',
+    bytes_per_item: 96,
+    exact: true,
+    pseudocode: [
+      'insert(root, word):',
+      '  node = root',
+      '  for c in word: node = node.children[c] (create if missing)',
+      '  node.terminal = true',
+      'withPrefix(root, p): walk p, then depth-first collect terminal nodes'
+    ],
+    pros: ['Prefix queries in time independent of the number of keys', 'Shares storage between keys with common prefixes'],
+    cons: ['Pointer-heavy; use a radix tree or DAWG to compress it', 'Poor cache locality compared with sorted arrays']
+  },
+  {
+    id: 'bfs',
+    name: 'Breadth-first search',
+    family: 'graph',
+    tasks: /\bshortest paths?\b|\bfewest hops|\bdegrees? of separation|\breachab|\btravers|\bfriends? of friends|\bgraph\b/i,
+    time: 'O(V + E)',
+    space: 'O(V)',
+    growth: 'linear',
+    memory: 'linear',
+    bytes_per_item: 16,
+    exact: true,
+    favoured_by: [{ pattern: /\bunweighted\b|\bhops?\b|\bdegrees? of separation|\bfriends? of friends/i, reason: 'edges are unweighted' }],
+    penalized_by: [{ pattern: /\bweighted\b|\bweights?\b|\bedge costs?\b|\bdistances?\b|\btravel times?\b/i, reason: 'edges are weighted, which breadth-first search ignores' }],
+    pseudocode: [
+      'bfs(graph, source):',
+      '  dist[source] = 0; queue = [source]',
+      '  while queue is not empty:',
+      '    u = queue.popFront()',
+      '    for v in graph.neighbors(u) where v is unvisited:',
+      '      dist[v] = dist[u] + 1; queue.pushBack(v)'
+    ],
+    pros: ['Linear time', 'Shortest paths by hop count for free'],
+    cons: ['Ignores edge weights', 'Frontier can hold most of the graph']
+  },
+  {
+    id: 'dijkstra',
+    name: "Dijkstra's algorithm with a binary heap",
+    family: 'graph',
+    tasks: /\bshortest paths?\b|\brout(?:e|es|ing)\b|\bnavigation\b|\bcheapest path|\bminimum[- ]cost path|\bgraph\b/i,
+    time: 'O((V + E) log V)',
+    space: 'O(V)',
+    growth: 'linearithmic',
+    memory: 'linear',
+    bytes_per_item: 24,
+    exact: true,
+    favoured_by: [{ pattern: /\bweighted\b|\bweights?\b|\bedge costs?\b|\bdistances?\b|\btravel times?\b/i, reason: 'edges are weighted' }],
+    penalized_by: [{ pattern: /\bnegative (?:edge )?(?:weights?|costs?|cycles?)|\b(?:weights?|costs?) (?:may|can|could|might) be negative/i, reason: 'negative edge weights make it return wrong distances' }],
+    pseudocode: [
+      'dijkstra(graph, source):',
+      '  dist[*] = ∞; dist[source] = 0; heap = [(0, source)]',
+      '  while heap is not empty:',
+      '    (d, u) = popMin(heap); if d > dist[u]: continue',
+      '    for (v, w) in graph.edges(u):',
+      '      if d + w < dist[v]: dist[v] = d + w; push(heap, (dist[v], v))'
+    ],
+    pros: ['Near-linear shortest paths on weighted graphs', 'Stops early once the target is settled'],
+    cons: ['Wrong with negative weights', 'Recomputed on every graph change; add A* or contraction hierarchies for road networks']
+  },
+  {
+    id: 'bellman-ford',
+    name: 'Bellman-Ford',
+    family: 'graph',
+    tasks: /\bshortest paths?\b|\bnegative (?:edge )?(?:weights?|costs?|cycles?)|\b(?:weights?|costs?) (?:may|can|could|might) be negative|\barbitrage\b/i,
+    time: 'O(V·E)',
+    space: 'O(V)',
+    growth: 'quadratic',
+    memory: 'linear',
+    bytes_per_item: 16,
+    exact: true,
+    favoured_by: [{ pattern: /\bnegative (?:edge )?(?:weights?|costs?|cycles?)|\b(?:weights?|costs?) (?:may|can|could|might) be negative|\barbitrage\b/i, reason: 'edges can have negative weights' }],
+    pseudocode: [
+      'bellmanFord(graph, source):',
+      '  dist[*] = ∞; dist[source] = 0',
+      '  repeat V - 1 times:',
+      '    for (u, v, w) in graph.edges: dist[v] = min(dist[v], dist[u] + w)',
+      '  if any edge still relaxes: report a negative cycle'
+    ],
+    pros: ['Handles negative weights', 'Detects negative cycles'],
+    cons: ['Quadratic in the worst case', 'Impractical beyond about 10^5 edges']
+  },
+  {
+    id: 'topological-sort',
+    name: "Topological sort (Kahn's algorithm)",
+    family: 'graph',
+    tasks: /\bdependenc(?:y|ies)\b|\bprerequisites?\b|\bbuild order\b|\bschedul|\bdag\b|\btask order|\bordering constraints/i,
+    time: 'O(V + E)',
+    space: 'O(V)',
+    growth: 'linear',
+    memory: 'linear',
+    bytes_per_item: 16,
+    exact: true,
+    pseudocode: [
+      'topoSort(graph):',
+      '  indegree[v] = number of incoming edges',
+      '  ready = all v with indegree 0; order = []',
+      '  while ready is not empty:',
+      '    u = ready.pop(); order.append(u)',
+      '    for v in graph.neighbors(u): if --indegree[v] == 0: ready.push(v)',
+      '  if len(order) < V: report a cycle'
+    ],
+    pros: ['Linear time', 'Nodes in `ready` can be processed in parallel'],
+    cons: ['Only defined on acyclic graphs', 'Any valid order is returned unless ties are ranked']
+  },
+  {
+    id: 'union-find',
+    name: 'Union-find (disjoint sets)',
+    family: 'graph',
+    tasks: /\bconnected components?\b|\bconnectivity\b|\bclusters?\b|\bgroup(?:ing)?s?\b|\bmerge sets\b|\bsame (?:group|network|component)|\bislands?\b|\bequivalen/i,
+    time: 'O(n·α(n))',
+    space: 'O(n)',
+    query: 'O(α(n)) find',
+    update: 'O(α(n)) union',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'linear',
+    bytes_per_item: 8,
+    exact: true,
+    penalized_by: [{ pattern: /\bdelet|\bremov|\bsplit/i, reason: 'sets cannot be split once merged' }],
+    pseudocode: [
+      'find(x): while parent[x] != x: parent[x] = parent[parent[x]]; x = parent[x]; return x',
+      'union(a, b):',
+      '  ra = find(a); rb = find(b); if ra == rb: return',
+      '  attach the smaller-rank root under the larger one'
+    ],
+    pros: ['Effectively constant time per operation', 'Handles edges arriving one at a time'],
+    cons: ['No deletions or splits', 'Answers only connectivity, not paths']
+  },
+  {
+    id: 'kruskal',
+    name: "Kruskal's minimum spanning tree",
+    family: 'graph',
+    tasks: /\bminimum spanning tree|\bmst\b|\bcheapest network|\bconnect all\b.*\b(?:minimum|cheapest|lowest)\b|\bcable layout|\bpipeline layout/i,
+    time: 'O(E log E)',
+    space: 'O(V + E)',
+    growth: 'linearithmic',
+    memory: 'linear',
+    bytes_per_item: 24,
+    exact: true,
+    pseudocode: [
+      'kruskal(graph):',
+      '  sort edges by weight',
+      '  for (u, v, w) in edges:',
+      '    if find(u) != find(v): union(u, v); tree.add((u, v, w))',
+      '  return tree'
+    ],
+    pros: ['Simple with union-find', 'Works on edge lists without adjacency structures'],
+    cons: ['Sorting all edges dominates on dense graphs; Prim is better there']
+  },
+  {
+    id: 'knapsack-dp',
+    name: '0/1 knapsack dynamic programming',
+    family: 'dynamic-programming',
+    tasks: /\bknapsack\b|\bbudget allocation|\bselect items\b|\bmaximi[sz]e (?:the )?(?:total )?value|\bcapacity constraint|\bsubset sum|\bresource allocation/i,
+    time: 'O(n·W) for capacity W',
+    space: 'O(W) with a single row',
+    growth: 'quadratic',
+    memory: 'linear',
+    bytes_per_item: 8,
+    exact: true,
+    pseudocode: [
+      'knapsack(items, W):',
+      '  best[0..W] = 0',
+      '  for (weight, value) in items:',
+      '    for c from W down to weight:',
+      '      best[c] = max(best[c], best[c - weight] + value)',
+      '  return best[W]'
+    ],
+    pros: ['Exact optimum', 'Single-row table keeps memory at O(W)'],
+    cons: ['Pseudo-polynomial: large capacities need scaling or an approximation scheme', 'Recovering the chosen items needs the full table or a second pass']
+  },
+  {
+    id: 'edit-distance-dp',
+    name: 'Edit distance / longest common subsequence',
+    family: 'dynamic-programming',
+    tasks: /\bedit distance|\blevenshtein|\bdiff\b|\blongest common subsequence|\blcs\b|\bsequence alignment|\bfuzzy match|\bspelling correction|\bsimilar strings/i,
+    time: 'O(n·m)',
+    space: 'O(min(n, m)) with two rows',
+    growth: 'quadratic',
+    memory: 'linear',
+    bytes_per_item: 8,
+    exact: true,
+    pseudocode: [
+      'editDistance(a, b):',
+      '  prev = [0 .. len(b)]',
+      '  for i in 1 .. len(a):',
+      '    cur[0] = i',
+      '    for j in 1 .. len(b):',
+      '      cur[j] = min(prev[j] + 1, cur[j-1] + 1, prev[j-1] + (a[i] != b[j]))',
+      '    swap prev and cur',
+      '  return prev[len(b)]'
+    ],
+    pros: ['Exact and simple', 'Two rows keep memory linear'],
+    cons: ['Quadratic time for long sequences; band it when distances are small', 'The alignment itself needs Hirschberg or the full table']
+  },
+  {
+    id: 'lis-dp',
+    name: 'Longest increasing subsequence (patience sorting)',
+    family: 'dynamic-programming',
+    tasks: /\blongest increasing|\blongest non-decreasing|\blis\b|\bpatience sort|\bbox stacking|\benvelopes?\b/i,
+    time: 'O(n log n)',
+    space: 'O(n)',
+    growth: 'linearithmic',
+    memory: 'linear',
+    bytes_per_item: 16,
+    exact: true,
+    pseudocode: [
+      'lis(a):',
+      '  tails = []',
+      '  for x in a:',
+      '    i = lowerBound(tails, x)',
+      '    if i == len(tails): tails.append(x) else: tails[i] = x',
+      '  return len(tails)'
+    ],
+    pros: ['O(n log n) instead of the quadratic DP', 'Streams through the input once'],
+    cons: ['Reconstructing the sequence needs predecessor links']
+  },
+  {
+    id: 'weighted-interval-scheduling',
+    name: 'Weighted interval scheduling',
+    family: 'dynamic-programming',
+    tasks: /\binterval scheduling|\bnon-overlapping|\bmeeting rooms?\b|\bbookings?\b|\breservations?\b|\bjob scheduling with (?:profits?|weights?)/i,
+    time: 'O(n log n)',
+    space: 'O(n)',
+    growth: 'linearithmic',
+    memory: 'linear',
+    bytes_per_item: 24,
+    exact: true,
+    pseudocode: [
+      'schedule(intervals):',
+      '  sort intervals by end time',
+      '  for i in 1 .. n:',
+      '    p = last interval ending before intervals[i].start (binary search)',
+      '    best[i] = max(best[i-1], best[p] + intervals[i].weight)',
+      '  return best[n]'
+    ],
+    pros: ['Exact optimum in O(n log n)', 'Unweighted case reduces to greedy by end time'],
+    cons: ['Batch only: new intervals need a rerun from the insertion point']
+  },
+  {
+    id: 'sliding-window',
+    name: 'Sliding-window aggregation (monotonic deque)',
+    family: 'streaming',
+    tasks: /\bsliding window|\bmoving average|\brolling\b|\blast \d+ (?:seconds|minutes|hours|events)|\bwindowed\b|\brate limit/i,
+    time: 'O(n) total',
+    space: 'O(w) for a window of w events',
+    update: 'O(1) amortized per event',
+    growth: 'linear',
+    memory: 'constant',
+    bytes_per_item: 16,
+    fixed_kb: 64,
+    exact: true,
+    streaming: true,
+    pseudocode: [
+      'onEvent(t, x):',
+      '  window.pushBack((t, x)); sum += x',
+      '  while window.front.t <= t - W: sum -= window.popFront().x',
+      '  while maxDeque.back < x: maxDeque.popBack()',
+      '  maxDeque.pushBack(x)   # front is the window maximum',
+      '  return sum / len(window)'
+    ],
+    pros: ['Constant work per event', 'Exact over the window'],
+    cons: ['Memory grows with the window; bucket the window for very high rates']
+  },
+  {
+    id: 'reservoir-sampling',
+    name: 'Reservoir sampling',
+    family: 'streaming',
+    tasks: /\bsampl(?:e|es|ing)\b|\brandom subset|\buniform(?:ly)? random/i,
+    time: 'O(n)',
+    space: 'O(k)',
+    update: 'O(1) per item',
+    growth: 'linear',
+    memory: 'constant',
+    bytes_per_item: 16,
+    fixed_kb: 16,
+    exact: true,
+    streaming: true,
+    pseudocode: [
+      'sample(stream, k):',
+      '  reservoir = first k items',
+      '  for i, x in stream starting at k:',
+      '    j = random integer in [0, i]',
+      '    if j < k: reservoir[j] = x'
+    ],
+    pros: ['Uniform sample of an unbounded stream in one pass', 'Memory bounded by k'],
+    cons: ['Answers are estimates from the sample', 'Weighted sampling needs the A-Res variant']
+  },
+  {
+    id: 'misra-gries',
+    name: 'Misra-Gries heavy hitters',
+    family: 'streaming',
+    tasks: /\bheavy hitters?\b|\bmost frequent|\btop[- ]?k\b|\btrending\b|\bmost popular|\bfrequent items/i,
+    time: 'O(n)',
+    space: 'O(k) counters',
+    update: 'O(1) amortized per item',
+    growth: 'linear',
+    memory: 'constant',
+    bytes_per_item: 16,
+    fixed_kb: 32,
+    exact: false,
+    streaming: true,
+    favoured_by: [{ pattern: /\bheavy hitters?\b|\babove (?:a |the )?(?:frequency )?threshold|\bmore than \d+(?:\.\d+)?\s*% of/i, reason: 'only items above a frequency threshold are wanted' }],
+    pseudocode: [
+      'onItem(x):',
+      '  if x in counters: counters[x] += 1',
+      '  else if len(counters) < k - 1: counters[x] = 1',
+      '  else: decrement every counter; drop counters that reach 0',
+      'items with frequency above n/k are guaranteed to be in counters'
+    ],
+    pros: ['Deterministic error bound of n/k', 'Tiny fixed memory'],
+    cons: ['Counts are underestimates', 'Only finds items above the n/k threshold']
+  },
+  {
+    id: 'space-saving',
+    name: 'Space-Saving top-k counters',
+    family: 'streaming',
+    tasks: /\bheavy hitters?\b|\bmost frequent|\btop[- ]?k\b|\btrending\b|\bmost popular|\bfrequent items/i,
+    time: 'O(n)',
+    space: 'O(k) counters',
+    query: 'O(k) to read the ranking',
+    update: 'O(1) per item with a stream-summary list',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'constant',
+    bytes_per_item: 16,
+    fixed_kb: 32,
+    exact: false,
+    streaming: true,
+    favoured_by: [{ pattern: /\btop[- ]?(?:k|\d+)\s+(?:most\s+)?(?:frequent|common|popular|trending)\b/i, reason: 'it ranks the k most frequent items with a bound on each count' }],
+    pseudocode: [
+      'onItem(x):',
+      '  if x in counters: counters[x].count += 1',
+      '  else if len(counters) < k: counters[x] = { count: 1, error: 0 }',
+      '  else: evict the minimum counter m; counters[x] = { count: m.count + 1, error: m.count }',
+      'topK(): counters by count descending; count - error is a guaranteed lower bound'
+    ],
+    pros: ['Lists the top k directly with per-item error bounds', 'Fixed memory of k counters'],
+    cons: ['Counts overestimate by at most n/k', 'Items with close counts may be ranked in the wrong order']
+  },
+  {
+    id: 't-digest',
+    name: 't-digest quantile sketch',
+    family: 'streaming',
+    tasks: /\bpercentiles?\b|\bquantiles?\b|\bmedian\b|\blatency distribution/i,
+    time: 'O(n log δ)',
+    space: 'O(δ) centroids',
+    query: 'O(δ)',
+    update: 'O(log δ) per item',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'constant',
+    bytes_per_item: 16,
+    fixed_kb: 16,
+    exact: false,
+    streaming: true,
+    pseudocode: [
+      'add(x):',
+      '  buffer x; when the buffer is full, merge it into the centroids',
+      '  merging keeps centroids near q = 0 and q = 1 small (scale function k(q))',
+      'quantile(q): walk the centroids by cumulative weight and interpolate'
+    ],
+    pros: ['Accurate tails (p99, p99.9) in kilobytes', 'Digests from many nodes merge'],
+    cons: ['Approximate, with the least accuracy around the median', 'Results depend on insertion order']
+  },
+  {
+    id: 'bloom-filter',
+    name: 'Bloom filter',
+    family: 'probabilistic',
+    tasks: /\bmembership|\bseen before|\bdedup|\bduplicates?\b|\bexists?\b|\balready (?:visited|crawled|seen|processed)|\bblocklist|\bblacklist/i,
+    time: 'O(n·k) to insert n items',
+    space: '≈9.6 bits per item at 1% false positives',
+    query: 'O(k) hash probes',
+    update: 'O(k) per insert',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'linear',
+    bytes_per_item: 1.2,
+    exact: false,
+    streaming: true,
+    pseudocode: [
+      'add(x): for i in 1 .. k: bits[h_i(x) mod m] = 1',
+      'mightContain(x): return all bits[h_i(x) mod m] == 1 for i in 1 .. k',
+      'size: m = -n·ln(p) / ln(2)^2 bits, k = (m / n)·ln(2) hashes'
+    ],
+    pros: ['Membership in about one byte per item', 'No false negatives'],
+    cons: ['False positives at the configured rate', 'No deletion; use a counting or cuckoo filter']
+  },
+  {
+    id: 'count-min-sketch',
+    name: 'Count-min sketch',
+    family: 'probabilistic',
+    tasks: /\bfrequenc|\bhow many times|\bcount(?:s|ing)? (?:of )?(?:events|occurrences|items|clicks|views)|\bheavy hitters?\b|\bmost frequent|\bmost popular|\btrending\b/i,
+    time: 'O(n·d)',
+    space: 'O(w·d) counters, w = e/ε, d = ln(1/δ)',
+    query: 'O(d)',
+    update: 'O(d) per item',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'constant',
+    bytes_per_item: 4,
+    fixed_kb: 54,
+    exact: false,
+    streaming: true,
+    penalized_by: [{ pattern: /\btop[- ]?(?:k|\d+)\b/i, reason: 'it cannot list the top items without a heap alongside' }],
+    pseudocode: [
+      'add(x, c = 1): for row in 1 .. d: table[row][h_row(x) mod w] += c',
+      'estimate(x): return min over rows of table[row][h_row(x) mod w]',
+      'error: overestimates by at most ε·n with probability 1 - δ'
+    ],
+    pros: ['Fixed memory regardless of the number of distinct items', 'Sketches from many nodes add together'],
+    cons: ['Overestimates, badly for rare items', 'Cannot list the frequent items without a heap alongside']
+  },
+  {
+    id: 'hyperloglog',
+    name: 'HyperLogLog',
+    family: 'probabilistic',
+    tasks: /\bdistinct\b|\bunique (?:visitors|users|counts?|elements|values|items|ips?)|\bcardinality|\bcount unique/i,
+    time: 'O(n)',
+    space: '12 KB for ≈0.8% standard error',
+    query: 'O(m) registers',
+    update: 'O(1) per item',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'constant',
+    bytes_per_item: 0,
+    fixed_kb: 12,
+    exact: false,
+    streaming: true,
+    pseudocode: [
+      'add(x):',
+      '  h = hash64(x); j = first p bits of h',
+      '  register[j] = max(register[j], leading zeros of the remaining bits + 1)',
+      'estimate(): α·m² / Σ 2^-register[j], with small- and large-range corrections'
+    ],
+    pros: ['Distinct counts of billions in kilobytes', 'Mergeable across shards and time windows'],
+    cons: ['About 1% error', 'Cannot say which items were seen']
+  },
+  {
+    id: 'minhash-lsh',
+    name: 'MinHash with locality-sensitive hashing',
+    family: 'probabilistic',
+    tasks: /\bsimilar(?:ity)?\b|\bnear[- ]duplicates?\b|\bjaccard\b|\bplagiarism|\bsimilar (?:documents|items|users)/i,
+    time: 'O(n·k) to compute signatures',
+    space: 'O(n·k) signatures',
+    query: 'O(b) bucket lookups plus candidate checks',
+    update: 'O(k) per item',
+    growth: 'linear',
+    query_growth: 'constant',
+    memory: 'linear',
+    bytes_per_item: 512,
+    exact: false,
+    pseudocode: [
+      'signature(set S): for i in 1 .. k: sig[i] = min over x in S of h_i(x)',
+      'index: split sig into b bands of r rows; bucket each band by its hash',
+      'query(S): candidates = items sharing any band bucket with S',
+      '  return candidates whose estimated Jaccard similarity exceeds the threshold'
+    ],
+    pros: ['Sub-linear similarity search over huge collections', 'Tunable recall with bands and rows'],
+    cons: ['Misses some similar pairs (false negatives)', 'Signature storage grows with k per item']
+  }
+];
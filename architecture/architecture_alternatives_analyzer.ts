@@ -0,0 +1,447 @@
+import type { DecisionOption, ExtractedRequirement } from "./architecture_interfaces.ts";
+
+export interface QualityAttribute {
+  id: string;
+  name: string;
+  drivers: Partial<Record<ExtractedRequirement['kind'], number>>;
+  functional?: { pattern: RegExp; weight: number };
+}
+
+// Rules an option out, whatever its weighted score, once a requirement reaches a magnitude the
+// option cannot serve. `qualifier` and `pattern` narrow it to matching requirements and statements.
+export interface OptionDisqualifier {
+  kind: ExtractedRequirement['kind'];
+  min: number;
+  qualifier?: RegExp;
+  pattern?: RegExp;
+  reason: string;
+}
+
+export interface AlternativeOption extends DecisionOption {
+  id: string;
+  summary: string;
+  scores: Record<string, number>; // Quality attribute id -> rating 1-5
+  disqualifiers?: OptionDisqualifier[];
+}
+
+export interface AlternativeTopic {
+  id: string;
+  title: string;
+  question: string;
+  focus: string[];
+  pattern?: RegExp;
+  baseline: string;
+  decision: string; // DECISION_CATALOG id of the ADR that records the baseline
+  options: AlternativeOption[];
+}
+
+export interface QualityAttributeWeight {
+  attribute: string;
+  name: string;
+  weight: number;
+  drivers: string[]; // Requirement ids that raised the weight
+}
+
+export interface DecisionMatrixRow {
+  option: string;
+  name: string;
+  scores: Record<string, number>;
+  weighted_score: number;
+  rank: number;
+  disqualified?: string; // Why the option is ruled out; it is ranked after every option that is not
+}
+
+export interface SensitivityResult {
+  attribute: string;
+  weight: number;
+  // Weight at which another option overtakes the recommendation, when one exists
+  break_even_weight?: number;
+  new_leader?: string;
+  robust: boolean; // No leader change within ±50% of the current weight
+  detail: string;
+}
+
+export interface DesignAlternatives {
+  topic: string;
+  title: string;
+  question: string;
+  step: number;
+  focus: string;
+  options: AlternativeOption[];
+  attributes: QualityAttributeWeight[];
+  matrix: DecisionMatrixRow[];
+  recommended: string;
+  baseline: string;
+  margin?: number; // Over the best option not ruled out; absent when every other option is
+  sensitivity: SensitivityResult[];
+  robust: boolean;
+  conflict?: string; // Set when the generated design takes another option than the recommendation
+  markdown: string;
+}
+
+// Quality attributes the design alternatives are scored on. Every attribute starts at weight 1;
+// each requirement of a listed kind adds its increment, and functional requirements matching
+// `functional` add theirs. Weights are normalized to sum to 1.
+const QUALITY_ATTRIBUTES: QualityAttribute[] = [
+  { id: 'performance', name: 'Performance', drivers: { latency: 2, throughput: 1 } },
+  { id: 'scalability', name: 'Scalability', drivers: { throughput: 2, 'user-scale': 2, 'data-volume': 1 } },
+  { id: 'availability', name: 'Availability', drivers: { availability: 2 } },
+  { id: 'consistency', name: 'Consistency', drivers: { compliance: 1 }, functional: { pattern: /payment|billing|transaction|order|inventory|ledger/i, weight: 2 } },
+  { id: 'security', name: 'Security', drivers: { compliance: 2 }, functional: { pattern: /auth|login|payment|billing/i, weight: 1 } },
+  { id: 'cost', name: 'Cost', drivers: { budget: 2, 'data-volume': 1 } },
+  { id: 'delivery-speed', name: 'Delivery speed', drivers: { deadline: 2, 'team-size': 1 } },
+  { id: 'operability', name: 'Operability', drivers: { 'team-size': 2 } }
+];
+
+// Statements that need long-lived client connections, which request-driven functions cannot hold
+const PERSISTENT_CONNECTIONS = /websocket|socket\.io|server-sent events|\bsse\b|long[- ]poll|persistent connection/i;
+
+// Competing options per design decision, with 1-5 ratings on every quality attribute.
+// `baseline` is the option the generated design takes; `focus` lists the design phases
+// that compare the options, and `pattern` restricts a topic to matching problem statements.
+export const ALTERNATIVE_TOPICS: AlternativeTopic[] = [
+  {
+    id: 'architecture-style',
+    title: 'Architecture style',
+    question: 'How should the system be split into deployable units?',
+    focus: ['solution-architecture', 'component-design'],
+    baseline: 'microservices',
+    decision: 'architecture-style',
+    options: [
+      {
+        id: 'modular-monolith',
+        name: 'Modular monolith',
+        summary: 'One deployable with enforced module boundaries and a single database',
+        scores: { performance: 4, scalability: 2, availability: 3, consistency: 5, security: 4, cost: 5, 'delivery-speed': 5, operability: 5 },
+        pros: ['In-process calls and local transactions', 'One pipeline and one runtime to operate'],
+        cons: ['Modules scale and release together', 'A bad deploy affects every module'],
+        disqualifiers: [
+          { kind: 'throughput', min: 20_000, reason: 'every module scales as one deployable on one database, which cannot absorb 20,000 req/s or more' },
+          { kind: 'user-scale', min: 1_000_000, qualifier: /concurrent/, reason: 'one deployable and one database cannot serve a million or more concurrent users' }
+        ]
+      },
+      {
+        id: 'microservices',
+        name: 'Microservices',
+        summary: 'Independently deployable services per domain, each owning its data',
+        scores: { performance: 3, scalability: 5, availability: 4, consistency: 2, security: 3, cost: 2, 'delivery-speed': 2, operability: 2 },
+        pros: ['Services scale and deploy independently', 'Failures stay contained to one service'],
+        cons: ['Cross-service data is eventually consistent', 'Needs service discovery, tracing and a mature platform team']
+      },
+      {
+        id: 'serverless',
+        name: 'Serverless functions',
+        summary: 'Functions behind a managed gateway, with managed datastores',
+        scores: { performance: 2, scalability: 5, availability: 4, consistency: 2, security: 4, cost: 3, 'delivery-speed': 4, operability: 4 },
+        pros: ['No servers to manage and scales to zero', 'Pay per invocation'],
+        cons: ['Cold starts and execution time limits', 'Long-lived connections such as WebSockets are awkward'],
+        disqualifiers: [
+          { kind: 'user-scale', min: 100_000, qualifier: /concurrent/, pattern: PERSISTENT_CONNECTIONS, reason: 'functions cannot hold 100,000 or more long-lived connections' }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'conflict-resolution',
+    title: 'Concurrent editing',
+    question: 'How are concurrent edits to the same document merged?',
+    focus: ['solution-architecture', 'component-design'],
+    pattern: /collaborat|co-?edit|concurrent edit|real-?time (?:edit|sync)|offline/i,
+    baseline: 'operational-transformation',
+    decision: 'conflict-resolution',
+    options: [
+      {
+        id: 'operational-transformation',
+        name: 'Operational Transformation (OT)',
+        summary: 'A central server orders operations and transforms concurrent ones against each other',
+        scores: { performance: 4, scalability: 2, availability: 3, consistency: 5, security: 4, cost: 4, 'delivery-speed': 3, operability: 3 },
+        pros: ['Server-authoritative history that preserves user intent', 'Compact operations and mature libraries (ShareDB)'],
+        cons: ['Every document needs a sequencing server', 'Offline editing is limited']
+      },
+      {
+        id: 'crdt',
+        name: 'CRDTs (Yjs, Automerge)',
+        summary: 'Replicated data types that merge concurrent edits without coordination',
+        scores: { performance: 4, scalability: 5, availability: 5, consistency: 4, security: 3, cost: 3, 'delivery-speed': 4, operability: 4 },
+        pros: ['No central sequencing; works offline and peer-to-peer', 'Replicas converge without coordination'],
+        cons: ['Metadata overhead grows with edit history', 'Validating merged state on the server is harder']
+      },
+      {
+        id: 'section-locking',
+        name: 'Section locking with last-writer-wins',
+        summary: 'Editors lock a section while editing; other changes overwrite on save',
+        scores: { performance: 3, scalability: 3, availability: 3, consistency: 3, security: 4, cost: 5, 'delivery-speed': 5, operability: 5 },
+        pros: ['Simple to build and reason about', 'No merge algorithm to maintain'],
+        cons: ['No simultaneous editing of the same section', 'Stale locks need timeouts and recovery']
+      }
+    ]
+  },
+  {
+    id: 'service-communication',
+    title: 'Service communication',
+    question: 'How do services exchange events and requests?',
+    focus: ['integration-strategy'],
+    baseline: 'event-streaming',
+    decision: 'messaging-backbone',
+    options: [
+      {
+        id: 'event-streaming',
+        name: 'Event streaming (Apache Kafka)',
+        summary: 'A partitioned, replayable log shared by all services',
+        scores: { performance: 5, scalability: 5, availability: 4, consistency: 3, security: 3, cost: 2, 'delivery-speed': 2, operability: 2 },
+        pros: ['High throughput with replay and event sourcing', 'Consumers are decoupled from producers'],
+        cons: ['Cluster, partitions and schemas to operate', 'Eventual consistency between services']
+      },
+      {
+        id: 'message-broker',
+        name: 'Message broker (RabbitMQ)',
+        summary: 'Queues and exchanges with per-message acknowledgement',
+        scores: { performance: 3, scalability: 3, availability: 4, consistency: 3, security: 3, cost: 4, 'delivery-speed': 4, operability: 3 },
+        pros: ['Flexible routing and work queues', 'Simpler to run than a streaming platform'],
+        cons: ['No long-term replay', 'Throughput well below a partitioned log']
+      },
+      {
+        id: 'managed-queues',
+        name: 'Managed queues (Amazon SQS/SNS, Google Pub/Sub)',
+        summary: 'Cloud-managed topics and queues',
+        scores: { performance: 3, scalability: 4, availability: 5, consistency: 3, security: 4, cost: 4, 'delivery-speed': 4, operability: 5 },
+        pros: ['Nothing to operate, with built-in redundancy', 'Pay per message'],
+        cons: ['Vendor lock-in', 'Limited ordering and replay']
+      },
+      {
+        id: 'synchronous',
+        name: 'Synchronous REST/gRPC only',
+        summary: 'Services call each other directly, without a broker',
+        scores: { performance: 3, scalability: 2, availability: 2, consistency: 4, security: 4, cost: 5, 'delivery-speed': 5, operability: 4 },
+        pros: ['No extra infrastructure', 'Immediate, easy-to-follow request flow'],
+        cons: ['Callers fail when a dependency is down', 'Load spikes propagate through the call chain']
+      }
+    ]
+  },
+  {
+    id: 'primary-datastore',
+    title: 'Primary datastore',
+    question: 'Where does the system of record live?',
+    focus: ['database-design'],
+    baseline: 'relational',
+    decision: 'primary-database',
+    options: [
+      {
+        id: 'relational',
+        name: 'Relational database (PostgreSQL)',
+        summary: 'ACID transactions with read replicas',
+        scores: { performance: 4, scalability: 3, availability: 4, consistency: 5, security: 5, cost: 4, 'delivery-speed': 4, operability: 4 },
+        pros: ['ACID transactions and constraints', 'Mature tooling, row-level security and auditing'],
+        cons: ['Write scaling needs sharding or partitioning', 'Schema migrations on large tables']
+      },
+      {
+        id: 'document',
+        name: 'Document store (MongoDB)',
+        summary: 'Flexible JSON documents sharded by key',
+        scores: { performance: 4, scalability: 4, availability: 4, consistency: 3, security: 4, cost: 3, 'delivery-speed': 5, operability: 3 },
+        pros: ['Flexible schema for evolving content', 'Built-in sharding and replica sets'],
+        cons: ['Multi-document transactions are costlier', 'Denormalized data can drift']
+      },
+      {
+        id: 'wide-column',
+        name: 'Wide-column store (Cassandra, DynamoDB)',
+        summary: 'Partitioned key-value rows replicated across zones',
+        scores: { performance: 5, scalability: 5, availability: 5, consistency: 2, security: 4, cost: 3, 'delivery-speed': 2, operability: 2 },
+        pros: ['Linear write scaling', 'Multi-zone and multi-region replication'],
+        cons: ['Queries must be designed up front per access pattern', 'Tunable but mostly eventual consistency']
+      }
+    ]
+  },
+  {
+    id: 'deployment-platform',
+    title: 'Deployment platform',
+    question: 'What runs the services in production?',
+    focus: ['deployment-architecture'],
+    baseline: 'kubernetes',
+    decision: 'orchestration',
+    options: [
+      {
+        id: 'kubernetes',
+        name: 'Kubernetes',
+        summary: 'Self-managed or hosted clusters with autoscaling',
+        scores: { performance: 4, scalability: 5, availability: 5, consistency: 3, security: 4, cost: 3, 'delivery-speed': 2, operability: 2 },
+        pros: ['Portable, with fine-grained scaling and rollout control', 'Large ecosystem for networking and observability'],
+        cons: ['Steep learning curve and cluster upkeep', 'Needs dedicated platform engineering']
+      },
+      {
+        id: 'managed-containers',
+        name: 'Managed containers (Amazon ECS, Azure Container Apps)',
+        summary: 'Containers on a provider-managed scheduler',
+        scores: { performance: 4, scalability: 4, availability: 4, consistency: 3, security: 4, cost: 4, 'delivery-speed': 4, operability: 4 },
+        pros: ['Containers without running a control plane', 'Integrated load balancing and autoscaling'],
+        cons: ['Tied to one provider', 'Fewer controls than Kubernetes']
+      },
+      {
+        id: 'serverless-platform',
+        name: 'Serverless (AWS Lambda, Google Cloud Run)',
+        summary: 'Request-driven instances billed per use',
+        scores: { performance: 3, scalability: 5, availability: 4, consistency: 3, security: 4, cost: 4, 'delivery-speed': 5, operability: 5 },
+        pros: ['Scales to zero with no capacity planning', 'Fastest path to production'],
+        cons: ['Cold starts and request time limits', 'Costly at sustained high load'],
+        disqualifiers: [
+          { kind: 'user-scale', min: 100_000, qualifier: /concurrent/, pattern: PERSISTENT_CONNECTIONS, reason: 'request-driven instances cannot hold 100,000 or more long-lived connections' }
+        ]
+      }
+    ]
+  }
+];
+
+// Compares competing options for the decisions a design phase makes. Options are scored on
+// quality attributes weighted from the extracted requirements, and a one-at-a-time sensitivity
+// analysis finds the weight at which each attribute would change the recommendation.
+export class AlternativesAnalyzer {
+  analyze(focus: string, step: number, problemStatement: string, requirements: ExtractedRequirement[], exclude: string[] = []): DesignAlternatives[] {
+    const topics = ALTERNATIVE_TOPICS.filter(topic =>
+      topic.focus.includes(focus) && (!topic.pattern || topic.pattern.test(problemStatement)) && !exclude.includes(topic.id)
+    );
+    if (topics.length === 0) {
+      return [];
+    }
+    const attributes = this.weights(requirements);
+    return topics.map(topic => this.compare(topic, attributes, step, focus, this.disqualifications(topic, problemStatement, requirements)));
+  }
+
+  // Options a requirement rules out, with the reason and the requirement that triggered it
+  private disqualifications(topic: AlternativeTopic, problemStatement: string, requirements: ExtractedRequirement[]): Map<string, string> {
+    const ruledOut = new Map<string, string>();
+    for (const option of topic.options) {
+      for (const rule of option.disqualifiers || []) {
+        if (rule.pattern && !rule.pattern.test(problemStatement)) continue;
+        const requirement = requirements.find(candidate => candidate.kind === rule.kind && candidate.value !== undefined && candidate.value >= rule.min
+          && (!rule.qualifier || rule.qualifier.test(candidate.qualifier || '')));
+        if (requirement) {
+          ruledOut.set(option.id, `${requirement.id} (${requirement.source.text}): ${rule.reason}`);
+          break;
+        }
+      }
+    }
+    // With every option ruled out the weighted scores decide alone
+    return ruledOut.size === topic.options.length ? new Map() : ruledOut;
+  }
+
+  weights(requirements: ExtractedRequirement[]): QualityAttributeWeight[] {
+    const raw = QUALITY_ATTRIBUTES.map(attribute => {
+      let weight = 1;
+      const drivers: string[] = [];
+      for (const requirement of requirements) {
+        const increment = attribute.drivers[requirement.kind]
+          ?? (requirement.kind === 'functional' && attribute.functional?.pattern.test(requirement.description) ? attribute.functional.weight : 0);
+        if (increment > 0) {
+          weight += increment;
+          drivers.push(requirement.id);
+        }
+      }
+      return { attribute: attribute.id, name: attribute.name, weight, drivers };
+    });
+    const total = raw.reduce((sum, attribute) => sum + attribute.weight, 0);
+    return raw.map(attribute => ({ ...attribute, weight: this.round(attribute.weight / total, 3) }));
+  }
+
+  private compare(topic: AlternativeTopic, attributes: QualityAttributeWeight[], step: number, focus: string, ruledOut: Map<string, string>): DesignAlternatives {
+    const weighted = (option: AlternativeOption) => attributes.reduce((sum, attribute) => sum + attribute.weight * option.scores[attribute.attribute], 0);
+    const ranked = [...topic.options].sort((a, b) => Number(ruledOut.has(a.id)) - Number(ruledOut.has(b.id)) || weighted(b) - weighted(a));
+    const matrix = ranked.map((option, index) => ({
+      option: option.id,
+      name: option.name,
+      scores: Object.fromEntries(attributes.map(attribute => [attribute.attribute, option.scores[attribute.attribute]])),
+      weighted_score: this.round(weighted(option), 2),
+      rank: index + 1,
+      ...(ruledOut.has(option.id) ? { disqualified: ruledOut.get(option.id) } : {})
+    }));
+    // No weight can bring back a ruled-out option, so only the others challenge the leader
+    const challengers = ranked.slice(1).filter(option => !ruledOut.has(option.id));
+    const sensitivity = attributes.map(attribute => this.sensitivity(attribute, attributes, ranked[0], challengers));
+    const baseline = topic.options.find(option => option.id === topic.baseline)!;
+
+    const analysis: DesignAlternatives = {
+      topic: topic.id,
+      title: topic.title,
+      question: topic.question,
+      step,
+      focus,
+      options: topic.options,
+      attributes,
+      matrix,
+      recommended: ranked[0].id,
+      baseline: topic.baseline,
+      ...(challengers.length > 0 ? { margin: this.round(weighted(ranked[0]) - weighted(challengers[0]), 2) } : {}),
+      sensitivity,
+      robust: sensitivity.every(result => result.robust),
+      // The design text, ADRs, model and scaffold all come from the baseline, so a different
+      // recommendation stays advisory and is flagged rather than silently contradicting them
+      ...(ranked[0].id !== baseline.id ? { conflict: `The generated design, its ADR, the architecture model and the scaffold use ${baseline.name}; adopting ${ranked[0].name} means revising them` } : {}),
+      markdown: ''
+    };
+    analysis.markdown = this.renderMarkdown(analysis);
+    return analysis;
+  }
+
+  // Varies one attribute's weight with the others fixed. The leader L keeps its place while
+  // Σ w_a (s_La - s_Ca) stays positive for every challenger C, so each challenger has at most
+  // one break-even weight; the nearest one is reported as a share of the renormalized weights.
+  private sensitivity(attribute: QualityAttributeWeight, attributes: QualityAttributeWeight[], leader: AlternativeOption, challengers: AlternativeOption[]): SensitivityResult {
+    const others = attributes.filter(other => other.attribute !== attribute.attribute);
+    const otherWeight = others.reduce((sum, other) => sum + other.weight, 0);
+    let nearest: { weight: number; option: AlternativeOption } | undefined;
+
+    for (const challenger of challengers) {
+      const rest = others.reduce((sum, other) => sum + other.weight * (leader.scores[other.attribute] - challenger.scores[other.attribute]), 0);
+      const slope = leader.scores[attribute.attribute] - challenger.scores[attribute.attribute];
+      if (slope === 0) continue;
+      const breakEven = -rest / slope;
+      if (breakEven < 0) continue;
+      if (!nearest || Math.abs(breakEven - attribute.weight) < Math.abs(nearest.weight - attribute.weight)) {
+        nearest = { weight: breakEven, option: challenger };
+      }
+    }
+
+    if (!nearest) {
+      return { attribute: attribute.attribute, weight: attribute.weight, robust: true, detail: `No weight on ${attribute.name} changes the recommendation` };
+    }
+    const share = this.round(nearest.weight / (otherWeight + nearest.weight), 3);
+    const direction = nearest.weight > attribute.weight ? 'above' : 'below';
+    return {
+      attribute: attribute.attribute,
+      weight: attribute.weight,
+      break_even_weight: share,
+      new_leader: nearest.option.id,
+      robust: Math.abs(nearest.weight - attribute.weight) > attribute.weight * 0.5,
+      detail: `${nearest.option.name} overtakes ${direction} ${share} (now ${attribute.weight})`
+    };
+  }
+
+  private renderMarkdown(analysis: DesignAlternatives): string {
+    const name = (id: string) => analysis.options.find(option => option.id === id)!.name;
+    const runnerUp = analysis.matrix.find((row, index) => index > 0 && !row.disqualified);
+    const lines = [
+      `#### ${analysis.title}`,
+      analysis.question,
+      '',
+      `| Option | ${analysis.attributes.map(attribute => `${attribute.name} (${attribute.weight})`).join(' | ')} | Weighted score |`,
+      `|--------|${analysis.attributes.map(() => '---').join('|')}|---|`,
+      ...analysis.matrix.map(row => `| ${row.name} | ${analysis.attributes.map(attribute => row.scores[attribute.attribute]).join(' | ')} | ${row.weighted_score} |`),
+      '',
+      `**Recommended (advisory):** ${name(analysis.recommended)}, ${runnerUp ? `${analysis.margin} ahead of ${runnerUp.name}` : 'the only option not ruled out'}. ${analysis.conflict ? `**Conflict:** ${analysis.conflict}.` : 'The generated design takes the same option.'}`,
+      ...analysis.matrix.filter(row => row.disqualified).map(row => `**Ruled out:** ${row.name}, ${row.disqualified}.`),
+      '',
+      `Weights: ${analysis.attributes.map(attribute => `${attribute.name} ${attribute.weight}${attribute.drivers.length > 0 ? ` (${attribute.drivers.join(', ')})` : ''}`).join(', ')}`,
+      '',
+      `Sensitivity (${analysis.robust ? 'robust to ±50% on every weight' : 'sensitive to some weights'}):`,
+      ...analysis.sensitivity.map(result => `- ${analysis.attributes.find(attribute => attribute.attribute === result.attribute)!.name}: ${result.detail}${result.robust ? '' : ' — sensitive'}`),
+      '',
+      'Options:',
+      ...analysis.options.map(option => `- **${option.name}**: ${option.summary}. Pros: ${option.pros.join('; ')}. Cons: ${option.cons.join('; ')}.`)
+    ];
+    return lines.join('\n');
+  }
+
+  private round(value: number, digits: number): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  }
+}
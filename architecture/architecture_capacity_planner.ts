@@ -0,0 +1,339 @@
+import type { DesignElement, ExtractedRequirement } from "./architecture_interfaces.ts";
+
+export interface CapacityParameters {
+  requests_per_instance?: number; // Sustained req/s one application instance serves
+  connections_per_instance?: number; // Concurrent WebSocket connections one node holds
+  db_reads_per_node?: number; // Queries/s one database node serves
+  db_writes_per_node?: number; // Writes/s one primary accepts
+  db_connections_per_node?: number; // Connection limit of one database node
+  pool_size_per_instance?: number; // Database connections each application instance opens
+  cache_ops_per_node?: number; // Operations/s one cache node serves
+  storage_per_node_gb?: number; // Usable disk per database node
+  peak_to_average?: number;
+  read_ratio?: number; // Share of requests that only read (0-1)
+  request_kb?: number;
+  response_kb?: number;
+  record_kb?: number; // Bytes stored per write, in KB
+  replication_factor?: number;
+  concurrency_ratio?: number; // Share of users online at peak when no concurrent figure is stated
+  requests_per_user_per_minute?: number;
+  horizon_months?: number;
+}
+
+export interface CapacityProjection {
+  months: number;
+  logical_gb: number;
+  raw_gb: number; // After replication
+}
+
+export interface CapacityCheck {
+  check: string;
+  status: 'ok' | 'shortfall';
+  detail: string;
+  design_components: string[];
+  remedy?: string;
+}
+
+export interface CapacityPlan {
+  load: { peak_rps: number; average_rps: number; peak_reads: number; peak_writes: number; basis: string };
+  storage: { initial_gb: number; daily_growth_gb: number; projections: CapacityProjection[]; basis: string };
+  connections: { concurrent_users: number; persistent: boolean; database_connections: number; database_connection_limit: number };
+  bandwidth: { ingress_mbps: number; egress_mbps: number; monthly_egress_tb: number };
+  instances: { application: number; services: number; per_service: number; websocket: number; write_primaries: number; read_replicas: number; cache: number; storage_nodes: number };
+  target_utilization: number;
+  requirements: string[]; // Requirement ids the plan was sized from
+  parameters: Required<CapacityParameters>;
+  assumptions: string[];
+  checks?: CapacityCheck[]; // Added by validation
+}
+
+export interface NumericBound {
+  min: number;
+  exclusive?: boolean; // `min` itself is out of range
+  max?: number;
+  integer?: boolean;
+}
+
+// Checks an optional object of numeric tuning parameters against per-field bounds. Returns the
+// first violation as "<name>.<field> must be ...", or null when every given field is in range.
+export function numericParameterError(name: string, parameters: unknown, bounds: Record<string, NumericBound>): string | null {
+  if (parameters === undefined) return null;
+  if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+    return `${name} must be an object`;
+  }
+  for (const [field, value] of Object.entries(parameters)) {
+    const bound = bounds[field];
+    if (!bound || value === undefined) continue;
+    const valid = typeof value === 'number' && Number.isFinite(value)
+      && (bound.exclusive ? value > bound.min : value >= bound.min)
+      && (bound.max === undefined || value <= bound.max)
+      && (!bound.integer || Number.isInteger(value));
+    if (!valid) {
+      const range = `${bound.exclusive ? 'greater than' : 'at least'} ${bound.min}${bound.max !== undefined ? ` and at most ${bound.max}` : ''}`;
+      return `${name}.${field} must be ${bound.integer ? 'an integer' : 'a finite number'} ${range} (got ${typeof value === 'number' ? value : JSON.stringify(value)})`;
+    }
+  }
+  return null;
+}
+
+// Back-of-the-envelope capacity model. Peak load comes from the throughput requirement, or from
+// concurrent users × request rate; storage growth from the data-volume requirement, or from the
+// write rate × record size. Node counts divide the load by per-node capacities (tunable through
+// the `capacity` input) at a target utilization that leaves headroom for the latency target.
+export class CapacityPlanner {
+  static readonly DEFAULTS: Required<CapacityParameters> = {
+    requests_per_instance: 500,
+    connections_per_instance: 50_000,
+    db_reads_per_node: 5_000,
+    db_writes_per_node: 2_000,
+    db_connections_per_node: 500,
+    pool_size_per_instance: 20,
+    cache_ops_per_node: 100_000,
+    storage_per_node_gb: 2_000,
+    peak_to_average: 3,
+    read_ratio: 0.8,
+    request_kb: 2,
+    response_kb: 16,
+    record_kb: 2,
+    replication_factor: 3,
+    concurrency_ratio: 0.1,
+    requests_per_user_per_minute: 6,
+    horizon_months: 36
+  };
+
+  // Same ranges as the `capacity` input schema; a zero capacity would divide into Infinity nodes
+  static readonly BOUNDS: Record<keyof CapacityParameters, NumericBound> = {
+    requests_per_instance: { min: 0, exclusive: true },
+    connections_per_instance: { min: 0, exclusive: true },
+    db_reads_per_node: { min: 0, exclusive: true },
+    db_writes_per_node: { min: 0, exclusive: true },
+    db_connections_per_node: { min: 1, integer: true },
+    pool_size_per_instance: { min: 1, integer: true },
+    cache_ops_per_node: { min: 0, exclusive: true },
+    storage_per_node_gb: { min: 0, exclusive: true },
+    peak_to_average: { min: 1 },
+    read_ratio: { min: 0, max: 1 },
+    request_kb: { min: 0 },
+    response_kb: { min: 0 },
+    record_kb: { min: 0 },
+    replication_factor: { min: 1, integer: true },
+    concurrency_ratio: { min: 0, exclusive: true, max: 1 },
+    requests_per_user_per_minute: { min: 0, exclusive: true },
+    horizon_months: { min: 1, integer: true }
+  };
+
+  private static readonly DAYS_PER_PERIOD: Record<string, number> = { 'per hour': 1 / 24, 'per day': 1, 'per week': 7, 'per month': 30.4, 'per year': 365 };
+
+  /** Returns why the `capacity` input is out of range, or null when it can be planned with. */
+  validate(parameters: unknown): string | null {
+    return numericParameterError('capacity', parameters, CapacityPlanner.BOUNDS);
+  }
+
+  plan(requirements: ExtractedRequirement[], elements: DesignElement[], services: number, parameters: CapacityParameters = {}): CapacityPlan {
+    const invalid = this.validate(parameters);
+    if (invalid) {
+      throw new Error(`Invalid capacity parameters: ${invalid}`);
+    }
+    const p: Required<CapacityParameters> = { ...CapacityPlanner.DEFAULTS, ...parameters };
+    const assumptions: string[] = [];
+    const used = new Set<string>();
+    const designText = elements.map(element => `${element.name} ${element.details.join(' ')}`).join(' ');
+    const largest = (kind: ExtractedRequirement['kind'], qualifier?: (value?: string) => boolean) => requirements
+      .filter(requirement => requirement.kind === kind && requirement.value !== undefined && (!qualifier || qualifier(requirement.qualifier)))
+      .sort((a, b) => b.value! - a.value!)[0];
+    const number = (value: number) => Math.round(value).toLocaleString('en-US');
+
+    const latency = requirements.filter(requirement => requirement.kind === 'latency' && requirement.value !== undefined).sort((a, b) => a.value! - b.value!)[0];
+    const availability = largest('availability');
+    const utilization = latency && latency.value! <= 100 ? 0.6 : 0.7;
+    const minimum = availability && availability.value! >= 99.99 ? 3 : 2;
+    const redundant = availability !== undefined && availability.value! >= 99.9;
+    [latency, availability].forEach(requirement => requirement && used.add(requirement.id));
+    assumptions.push(`Nodes sized to ${Math.round(utilization * 100)}% utilization${latency ? `, given the ${latency.value} ms latency target (${latency.id})` : ''}`);
+    assumptions.push(`At least ${minimum} instances per tier${availability ? ` for ${availability.value}% availability (${availability.id})` : ' for redundancy'}`);
+
+    // Load
+    const throughput = largest('throughput');
+    const concurrentRequirement = largest('user-scale', qualifier => qualifier === 'concurrent');
+    const userRequirement = largest('user-scale', qualifier => qualifier !== 'concurrent');
+    const concurrentUsers = concurrentRequirement ? concurrentRequirement.value! : userRequirement ? userRequirement.value! * p.concurrency_ratio : 0;
+    if (!concurrentRequirement && userRequirement) {
+      assumptions.push(`${Math.round(p.concurrency_ratio * 100)}% of ${number(userRequirement.value!)} users online at peak`);
+    }
+    [throughput, concurrentRequirement || userRequirement].forEach(requirement => requirement && used.add(requirement.id));
+
+    let peak = 0;
+    let loadBasis = 'no throughput or user-scale requirement; sized to the redundancy minimum';
+    if (throughput) {
+      peak = throughput.value!;
+      loadBasis = `${throughput.id} ${throughput.source.text}, taken as the peak`;
+    } else if (concurrentUsers > 0) {
+      peak = concurrentUsers * p.requests_per_user_per_minute / 60;
+      loadBasis = `${number(concurrentUsers)} concurrent users × ${p.requests_per_user_per_minute} requests/minute`;
+    }
+    const average = peak / p.peak_to_average;
+    const reads = peak * p.read_ratio;
+    const writes = peak - reads;
+    assumptions.push(`Peak-to-average ratio ${p.peak_to_average}, ${Math.round(p.read_ratio * 100)}% reads`);
+
+    // Storage
+    const volumes = requirements.filter(requirement => requirement.kind === 'data-volume' && requirement.value !== undefined);
+    const periodic = volumes.filter(requirement => requirement.qualifier && CapacityPlanner.DAYS_PER_PERIOD[requirement.qualifier] !== undefined)
+      .sort((a, b) => b.value! / CapacityPlanner.DAYS_PER_PERIOD[b.qualifier!] - a.value! / CapacityPlanner.DAYS_PER_PERIOD[a.qualifier!])[0];
+    const total = volumes.filter(requirement => !requirement.qualifier).sort((a, b) => b.value! - a.value!)[0];
+    [periodic, total].forEach(requirement => requirement && used.add(requirement.id));
+    const initial = total ? total.value! : 0;
+    const daily = periodic
+      ? periodic.value! / CapacityPlanner.DAYS_PER_PERIOD[periodic.qualifier!]
+      : average * (1 - p.read_ratio) * p.record_kb * 86_400 / 1_000_000;
+    const storageBasis = periodic
+      ? `${periodic.id} ${periodic.source.text}${total ? ` on top of ${total.id} ${total.source.text}` : ''}`
+      : `${number(average * (1 - p.read_ratio))} average writes/s × ${p.record_kb} KB${total ? ` on top of ${total.id} ${total.source.text}` : ''}`;
+    const projections = [...new Set([1, 12, p.horizon_months])].sort((a, b) => a - b).map(months => {
+      const logical = initial + daily * 30.4 * months;
+      return { months, logical_gb: this.round(logical), raw_gb: this.round(logical * p.replication_factor) };
+    });
+    assumptions.push(`Replication factor ${p.replication_factor}; no deletion or compaction over ${p.horizon_months} months`);
+
+    // Instances
+    const persistent = /websocket|socket\.io|server-sent events|\bsse\b|long[- ]poll/i.test(designText);
+    const cached = /redis|memcached|\bcache\b|caching/i.test(designText);
+    const application = Math.max(minimum, Math.ceil(peak / (p.requests_per_instance * utilization)));
+    const perService = Math.max(minimum, Math.ceil(application / Math.max(1, services)));
+    const writePrimaries = Math.max(1, Math.ceil(writes / (p.db_writes_per_node * utilization)));
+    const readReplicas = Math.max(redundant ? 1 : 0, Math.ceil(reads / (p.db_reads_per_node * utilization)));
+    const horizonRaw = projections[projections.length - 1].raw_gb;
+    if (services > 1) {
+      assumptions.push(`Request load spread evenly over ${services} services`);
+    }
+    if (!cached) {
+      assumptions.push('No cache in the design, so every read reaches the database');
+    }
+
+    return {
+      load: { peak_rps: this.round(peak), average_rps: this.round(average), peak_reads: this.round(reads), peak_writes: this.round(writes), basis: loadBasis },
+      storage: { initial_gb: initial, daily_growth_gb: this.round(daily), projections, basis: storageBasis },
+      connections: {
+        concurrent_users: Math.round(concurrentUsers),
+        persistent,
+        database_connections: perService * Math.max(1, services) * p.pool_size_per_instance,
+        database_connection_limit: p.db_connections_per_node
+      },
+      bandwidth: {
+        ingress_mbps: this.round(peak * p.request_kb * 8 / 1000),
+        egress_mbps: this.round(peak * p.response_kb * 8 / 1000),
+        monthly_egress_tb: this.round(average * p.response_kb * 86_400 * 30.4 / 1_000_000_000)
+      },
+      instances: {
+        application: perService * Math.max(1, services),
+        services: Math.max(1, services),
+        per_service: perService,
+        websocket: persistent ? Math.max(minimum, Math.ceil(concurrentUsers / (p.connections_per_instance * utilization))) : 0,
+        write_primaries: writePrimaries,
+        read_replicas: readReplicas,
+        cache: cached ? Math.max(redundant ? 2 : 1, Math.ceil(reads / (p.cache_ops_per_node * utilization))) : 0,
+        storage_nodes: Math.max(1, Math.ceil(horizonRaw / p.storage_per_node_gb))
+      },
+      target_utilization: utilization,
+      requirements: requirements.filter(requirement => used.has(requirement.id)).map(requirement => requirement.id),
+      parameters: p,
+      assumptions
+    };
+  }
+
+  // Compares what the design states (connection counts, replica counts, pooling, sharding) with the plan.
+  check(plan: CapacityPlan, elements: DesignElement[]): CapacityCheck[] {
+    const checks: CapacityCheck[] = [];
+    const number = (value: number) => Math.round(value).toLocaleString('en-US');
+    const textOf = (element: DesignElement) => `${element.name} ${element.details.join(' ')}`;
+    const carrying = (pattern: RegExp) => elements.filter(element => pattern.test(textOf(element))).map(element => element.id);
+    const multipliers: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+    for (const element of elements) {
+      const claim = textOf(element).match(/(\d+(?:[.,]\d+)*)\s*([kKmM])?\s+concurrent\b/);
+      if (!claim || plan.connections.concurrent_users === 0) continue;
+      const claimed = parseFloat(claim[1].replace(/,/g, '')) * (claim[2] ? multipliers[claim[2].toLowerCase()] : 1);
+      const enough = claimed >= plan.connections.concurrent_users;
+      checks.push({
+        check: 'concurrent connections',
+        status: enough ? 'ok' : 'shortfall',
+        detail: `${element.id} handles ${number(claimed)} concurrent connections; the plan needs ${number(plan.connections.concurrent_users)}`,
+        design_components: [element.id],
+        ...(enough ? {} : { remedy: `Scale ${element.name} to ${plan.instances.websocket} connection nodes of ${number(plan.parameters.connections_per_instance)} connections each` })
+      });
+    }
+
+    for (const element of elements) {
+      const claim = textOf(element).match(/\b(\d+)\s+(?:read\s+)?replicas\b/i);
+      if (!claim) continue;
+      const claimed = parseInt(claim[1], 10);
+      const enough = claimed >= plan.instances.read_replicas;
+      checks.push({
+        check: 'read replicas',
+        status: enough ? 'ok' : 'shortfall',
+        detail: `${element.id} has ${claimed} read replicas; ${number(plan.load.peak_reads)} peak reads/s need ${plan.instances.read_replicas}`,
+        design_components: [element.id],
+        ...(enough ? {} : { remedy: `Add read replicas to ${plan.instances.read_replicas}, or cache the hot reads` })
+      });
+    }
+
+    if (plan.connections.database_connections > plan.connections.database_connection_limit) {
+      const poolers = carrying(/pgbouncer|pgpool|connection pool|rds proxy|proxysql/i);
+      checks.push({
+        check: 'database connections',
+        status: poolers.length > 0 ? 'ok' : 'shortfall',
+        detail: `${plan.instances.application} application instances × ${plan.parameters.pool_size_per_instance} pooled connections = ${number(plan.connections.database_connections)} against a limit of ${number(plan.connections.database_connection_limit)} per database node${poolers.length > 0 ? `, multiplexed by ${poolers.join(', ')}` : ''}`,
+        design_components: poolers,
+        ...(poolers.length > 0 ? {} : { remedy: 'Put a connection pooler such as PgBouncer in front of the database, or lower the pool size per instance' })
+      });
+    }
+
+    if (plan.instances.write_primaries > 1) {
+      const sharded = carrying(/shard|partition/i);
+      checks.push({
+        check: 'write capacity',
+        status: sharded.length > 0 ? 'ok' : 'shortfall',
+        detail: `${number(plan.load.peak_writes)} peak writes/s need ${plan.instances.write_primaries} write primaries of ${number(plan.parameters.db_writes_per_node)} writes/s${sharded.length > 0 ? `, spread by ${sharded.join(', ')}` : ''}`,
+        design_components: sharded,
+        ...(sharded.length > 0 ? {} : { remedy: `Shard or partition the write path across ${plan.instances.write_primaries} primaries` })
+      });
+    }
+
+    if (plan.instances.storage_nodes > 1) {
+      const horizon = plan.storage.projections[plan.storage.projections.length - 1];
+      const spread = carrying(/shard|partition|object storage|\bs3\b|gridfs|archiv|tiered|retention|ttl/i);
+      checks.push({
+        check: 'storage growth',
+        status: spread.length > 0 ? 'ok' : 'shortfall',
+        detail: `${this.size(horizon.raw_gb)} replicated after ${horizon.months} months needs ${plan.instances.storage_nodes} nodes of ${this.size(plan.parameters.storage_per_node_gb)}${spread.length > 0 ? `, handled by ${spread.join(', ')}` : ''}`,
+        design_components: spread,
+        ...(spread.length > 0 ? {} : { remedy: 'Partition the data or tier cold data to object storage with a retention policy' })
+      });
+    }
+
+    return checks;
+  }
+
+  describe(plan: CapacityPlan): string {
+    const number = (value: number) => Math.round(value).toLocaleString('en-US');
+    const instances = plan.instances;
+    const lines = [
+      'CAPACITY PLAN:',
+      `LOAD: ${number(plan.load.peak_rps)} req/s at peak (${number(plan.load.average_rps)} average; ${number(plan.load.peak_reads)} reads, ${number(plan.load.peak_writes)} writes) from ${plan.load.basis}`,
+      `STORAGE: +${this.size(plan.storage.daily_growth_gb)}/day from ${plan.storage.basis}; ${plan.storage.projections.map(projection => `${projection.months} month${projection.months === 1 ? '' : 's'} ${this.size(projection.logical_gb)} (${this.size(projection.raw_gb)} replicated)`).join(', ')}`,
+      `CONNECTIONS: ${number(plan.connections.concurrent_users)} concurrent users${plan.connections.persistent ? ' on persistent connections' : ''}; ${number(plan.connections.database_connections)} database connections from application pools (limit ${number(plan.connections.database_connection_limit)} per node)`,
+      `BANDWIDTH: ${number(plan.bandwidth.ingress_mbps)} Mbps in, ${number(plan.bandwidth.egress_mbps)} Mbps out at peak; ${plan.bandwidth.monthly_egress_tb} TB egress/month`,
+      `INSTANCES: ${instances.application} application instances (${instances.per_service} for each of ${instances.services} service${instances.services === 1 ? '' : 's'})${instances.websocket > 0 ? `, ${instances.websocket} WebSocket nodes` : ''}, ${instances.write_primaries} write primar${instances.write_primaries === 1 ? 'y' : 'ies'}, ${instances.read_replicas} read replica${instances.read_replicas === 1 ? '' : 's'}${instances.cache > 0 ? `, ${instances.cache} cache node${instances.cache === 1 ? '' : 's'}` : ''}, ${instances.storage_nodes} storage node${instances.storage_nodes === 1 ? '' : 's'} by ${plan.storage.projections[plan.storage.projections.length - 1].months} months`,
+      `ASSUMPTIONS: ${plan.assumptions.join('; ')}`
+    ];
+    return lines.join('\n');
+  }
+
+  private size(gb: number): string {
+    return gb >= 1000 ? `${this.round(gb / 1000)} TB` : `${this.round(gb)} GB`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -0,0 +1,446 @@
+import * as nodePath from "node:path";
+import { ALTERNATIVE_TOPICS } from "./architecture_alternatives_analyzer.ts";
+import type { DesignAlternatives } from "./architecture_alternatives_analyzer.ts";
+import type { DecisionOption, DesignElement, ExtractedRequirement } from "./architecture_interfaces.ts";
+
+export interface DecisionTemplate {
+  id: string;
+  title: string;
+  pattern: RegExp;
+  chosen: string; // Name of the option the design takes
+  context: string;
+  drivers: Array<ExtractedRequirement['kind']>;
+  options: DecisionOption[];
+  rationale: string;
+  consequences: { positive: string[]; negative: string[] };
+}
+
+export interface ArchitectureDecisionRecord {
+  id: string; // ADR-0001
+  number: number;
+  slug: string;
+  title: string;
+  status: 'proposed';
+  date: string;
+  context: string;
+  drivers: string[];
+  options: DecisionOption[];
+  decision: string;
+  consequences: { positive: string[]; negative: string[] };
+  design_components: string[];
+  alternatives_conflict?: string; // The design alternatives analysis recommends another option
+  markdown: string;
+  file?: { path: string; status: 'written' | 'exists' | 'error'; detail?: string };
+}
+
+// Significant architecture choices recognised in design output. Each entry records the
+// alternatives the design passed over and what the choice commits the team to.
+const DECISION_CATALOG: DecisionTemplate[] = [
+  {
+    id: 'architecture-style',
+    title: 'Split the system into independently deployable microservices',
+    pattern: /microservice|\b(?:user|document|collaboration|notification) service\b/i,
+    chosen: 'Microservices',
+    context: 'The system has several domains with different scaling and release needs, and one deployment unit would couple their release cycles.',
+    drivers: ['user-scale', 'throughput', 'availability'],
+    options: [
+      { name: 'Microservices', pros: ['services scale and deploy independently', 'failures stay contained to one service'], cons: ['network calls and distributed data add operational complexity'] },
+      { name: 'Modular monolith', pros: ['one deployment and in-process calls', 'simpler for a small team'], cons: ['all modules scale and release together'] },
+      { name: 'Serverless functions', pros: ['no servers to manage', 'pay per invocation'], cons: ['cold starts and execution limits', 'long-lived connections are awkward'] }
+    ],
+    rationale: 'independent scaling and fault isolation outweigh the extra operational work at the stated scale',
+    consequences: {
+      positive: ['Each service can be scaled, deployed and owned separately'],
+      negative: ['Needs service discovery, distributed tracing and a strategy for cross-service data consistency']
+    }
+  },
+  {
+    id: 'api-gateway',
+    title: 'Route external traffic through an API gateway',
+    pattern: /api gateway|\bkong\b/i,
+    chosen: 'Managed or self-hosted API gateway (Kong, AWS API Gateway)',
+    context: 'Clients need one entry point with authentication, rate limiting and routing to several services.',
+    drivers: ['throughput', 'compliance'],
+    options: [
+      { name: 'Managed or self-hosted API gateway (Kong, AWS API Gateway)', pros: ['central authentication and rate limiting', 'plugins for common cross-cutting concerns'], cons: ['extra hop and a component that must be highly available'] },
+      { name: 'Ingress controller only (NGINX)', pros: ['already part of the cluster', 'low latency'], cons: ['authentication and rate limiting must be built per service'] },
+      { name: 'Backend for frontend per client', pros: ['responses tailored to each client'], cons: ['more services to build and keep in sync'] }
+    ],
+    rationale: 'cross-cutting policies are enforced once instead of in every service',
+    consequences: {
+      positive: ['Authentication, rate limits and request validation live in one place'],
+      negative: ['The gateway is on every request path and needs its own capacity planning and redundancy']
+    }
+  },
+  {
+    id: 'internal-rpc',
+    title: 'Use gRPC for internal service-to-service calls',
+    pattern: /\bgrpc\b/i,
+    chosen: 'gRPC',
+    context: 'Services call each other synchronously on latency-sensitive paths and need typed contracts.',
+    drivers: ['latency', 'throughput'],
+    options: [
+      { name: 'gRPC', pros: ['binary protocol with HTTP/2 multiplexing', 'generated, typed clients'], cons: ['harder to debug by hand', 'needs HTTP/2-aware load balancing'] },
+      { name: 'REST with JSON', pros: ['universal tooling', 'easy to inspect'], cons: ['larger payloads and looser contracts'] },
+      { name: 'Asynchronous messaging only', pros: ['loose temporal coupling'], cons: ['request/response flows become complex'] }
+    ],
+    rationale: 'lower per-call overhead and schema-checked contracts suit high-volume internal traffic',
+    consequences: {
+      positive: ['Contracts are versioned in protobuf and checked at compile time'],
+      negative: ['Load balancers and proxies must support HTTP/2; browsers still need REST at the edge']
+    }
+  },
+  {
+    id: 'messaging-backbone',
+    title: 'Use Apache Kafka for asynchronous service messaging',
+    pattern: /\bkafka\b/i,
+    chosen: 'Apache Kafka',
+    context: 'Services exchange events asynchronously, and events must be durable and replayable for downstream consumers.',
+    drivers: ['throughput', 'availability', 'data-volume'],
+    options: [
+      { name: 'Apache Kafka', pros: ['high throughput with partitioned, replicated logs', 'consumers can replay history'], cons: ['operationally heavy (brokers, partitions, schema registry)'] },
+      { name: 'RabbitMQ', pros: ['flexible routing', 'simpler to operate at moderate volume'], cons: ['messages are not retained for replay'] },
+      { name: 'Managed queues (AWS SQS/SNS)', pros: ['no brokers to run'], cons: ['vendor lock-in', 'limited ordering and replay'] }
+    ],
+    rationale: 'durable, replayable logs support event sourcing and absorb traffic spikes',
+    consequences: {
+      positive: ['Producers and consumers are decoupled; consumers can be added or rebuilt from history'],
+      negative: ['Requires partitioning, retention and schema evolution policies, plus eventual consistency in consumers']
+    }
+  },
+  {
+    id: 'primary-database',
+    title: 'Use PostgreSQL as the primary transactional store',
+    pattern: /postgres/i,
+    chosen: 'PostgreSQL',
+    context: 'Users, permissions and metadata need transactional consistency and relational queries.',
+    drivers: ['availability', 'compliance', 'data-volume'],
+    options: [
+      { name: 'PostgreSQL', pros: ['ACID transactions and rich SQL', 'mature replication and tooling'], cons: ['write scaling beyond one primary needs sharding'] },
+      { name: 'MySQL', pros: ['widely operated', 'good read scaling'], cons: ['fewer advanced types and indexes'] },
+      { name: 'Distributed SQL (CockroachDB, Spanner)', pros: ['horizontal write scaling', 'multi-region consistency'], cons: ['higher latency per write and cost'] }
+    ],
+    rationale: 'transactional integrity for critical data with proven read scaling through replicas',
+    consequences: {
+      positive: ['Strong consistency for critical records; read replicas scale queries'],
+      negative: ['Connection pooling (PgBouncer) and a sharding plan are needed as writes grow']
+    }
+  },
+  {
+    id: 'document-store',
+    title: 'Store document content in MongoDB alongside the relational store',
+    pattern: /mongodb/i,
+    chosen: 'Polyglot persistence with MongoDB for content',
+    context: 'Document content is large, schema-flexible and grows quickly, unlike the relational metadata.',
+    drivers: ['data-volume', 'user-scale'],
+    options: [
+      { name: 'Polyglot persistence with MongoDB for content', pros: ['flexible schema', 'built-in sharding for large collections'], cons: ['two databases to operate and keep consistent'] },
+      { name: 'PostgreSQL JSONB only', pros: ['one database and transactional updates'], cons: ['large documents strain one primary'] },
+      { name: 'Object storage (S3) with metadata in PostgreSQL', pros: ['cheap, durable storage'], cons: ['no partial updates or queries on content'] }
+    ],
+    rationale: 'content volume and shape differ enough from metadata to justify a store suited to each',
+    consequences: {
+      positive: ['Content scales out by sharding without affecting the transactional store'],
+      negative: ['Cross-store updates need sagas or outbox events; two backup and restore procedures']
+    }
+  },
+  {
+    id: 'cache',
+    title: 'Use Redis for caching, sessions and real-time state',
+    pattern: /\bredis\b/i,
+    chosen: 'Redis',
+    context: 'Hot reads, sessions, presence and locks need sub-millisecond access shared across instances.',
+    drivers: ['latency', 'user-scale'],
+    options: [
+      { name: 'Redis', pros: ['rich data structures and pub/sub', 'cluster mode for scaling'], cons: ['memory-bound; persistence is secondary'] },
+      { name: 'Memcached', pros: ['simple and fast'], cons: ['no persistence, pub/sub or data structures'] },
+      { name: 'In-process caches', pros: ['no network hop'], cons: ['state is not shared between instances'] }
+    ],
+    rationale: 'shared, low-latency state is needed across horizontally scaled instances',
+    consequences: {
+      positive: ['Fast shared state for sessions, presence and caching'],
+      negative: ['Cache invalidation rules and memory sizing must be designed; Redis Cluster needs failover planning']
+    }
+  },
+  {
+    id: 'search',
+    title: 'Use Elasticsearch for full-text search',
+    pattern: /elasticsearch/i,
+    chosen: 'Elasticsearch',
+    context: 'Users search content by text, with autocomplete and relevance ranking.',
+    drivers: ['data-volume', 'latency'],
+    options: [
+      { name: 'Elasticsearch', pros: ['relevance ranking and autocomplete', 'scales by shards'], cons: ['another cluster to run; index is eventually consistent'] },
+      { name: 'PostgreSQL full-text search', pros: ['no extra system', 'transactional'], cons: ['weaker ranking and scaling'] },
+      { name: 'Hosted search (Algolia, OpenSearch Service)', pros: ['managed operations'], cons: ['cost grows with volume', 'data leaves the platform'] }
+    ],
+    rationale: 'search quality and volume exceed what the primary database offers',
+    consequences: {
+      positive: ['Fast, ranked search without loading the primary database'],
+      negative: ['An indexing pipeline must keep the index in sync and handle reindexing']
+    }
+  },
+  {
+    id: 'realtime-transport',
+    title: 'Use WebSockets (Socket.io) for real-time updates',
+    pattern: /websocket|socket\.io/i,
+    chosen: 'WebSockets via Socket.io',
+    context: 'Clients need updates pushed to them as other users act, without polling.',
+    drivers: ['latency', 'user-scale'],
+    options: [
+      { name: 'WebSockets via Socket.io', pros: ['bidirectional, low-latency', 'fallbacks and rooms built in'], cons: ['stateful connections complicate scaling and deploys'] },
+      { name: 'Server-Sent Events', pros: ['plain HTTP, simple to proxy'], cons: ['server-to-client only'] },
+      { name: 'Long polling', pros: ['works everywhere'], cons: ['higher latency and request volume'] }
+    ],
+    rationale: 'bidirectional, low-latency messaging is needed for interactive features',
+    consequences: {
+      positive: ['Updates reach clients within milliseconds'],
+      negative: ['Connection counts drive capacity; sticky sessions or a Redis adapter are needed across nodes']
+    }
+  },
+  {
+    id: 'conflict-resolution',
+    title: 'Resolve concurrent edits with Operational Transformation',
+    pattern: /operational transformation/i,
+    chosen: 'Operational Transformation',
+    context: 'Several users edit the same document at once and must converge on the same content.',
+    drivers: ['latency', 'user-scale'],
+    options: [
+      { name: 'Operational Transformation', pros: ['proven in collaborative editors', 'compact operations'], cons: ['needs a central server to order operations'] },
+      { name: 'CRDTs (Yjs, Automerge)', pros: ['no central ordering', 'offline editing'], cons: ['metadata overhead grows with history'] },
+      { name: 'Pessimistic locking', pros: ['simple'], cons: ['users block each other'] }
+    ],
+    rationale: 'a server already orders edits, and OT keeps operations small',
+    consequences: {
+      positive: ['Concurrent edits merge without locking users out'],
+      negative: ['Transformation functions are subtle to get right and must be tested exhaustively']
+    }
+  },
+  {
+    id: 'distributed-transactions',
+    title: 'Coordinate cross-service transactions with sagas',
+    pattern: /\bsaga\b/i,
+    chosen: 'Saga pattern',
+    context: 'Some operations update data owned by several services, which cannot share one database transaction.',
+    drivers: ['availability', 'compliance'],
+    options: [
+      { name: 'Saga pattern', pros: ['no distributed locks', 'each step commits locally'], cons: ['compensating actions must be designed', 'intermediate states are visible'] },
+      { name: 'Two-phase commit', pros: ['atomic across services'], cons: ['blocking and fragile under failure'] },
+      { name: 'Shared database', pros: ['plain transactions'], cons: ['couples services through the schema'] }
+    ],
+    rationale: 'services keep their own data and stay available when one participant fails',
+    consequences: {
+      positive: ['Services stay autonomous; failures are handled by compensation'],
+      negative: ['Every multi-service flow needs compensations, idempotency and monitoring of stuck sagas']
+    }
+  },
+  {
+    id: 'event-sourcing',
+    title: 'Record changes with event sourcing and CQRS read models',
+    pattern: /event sourcing|\bcqrs\b/i,
+    chosen: 'Event sourcing with CQRS',
+    context: 'Change history must be kept and read traffic far exceeds writes.',
+    drivers: ['compliance', 'throughput'],
+    options: [
+      { name: 'Event sourcing with CQRS', pros: ['complete audit history', 'read models optimised per query'], cons: ['eventual consistency', 'event schema evolution'] },
+      { name: 'State-based CRUD with an audit table', pros: ['familiar and simple'], cons: ['history is partial and easy to bypass'] }
+    ],
+    rationale: 'an append-only history serves both auditing and rebuilding read models',
+    consequences: {
+      positive: ['Full history of changes; read models can be rebuilt or added later'],
+      negative: ['Reads are eventually consistent; snapshots and event versioning are required']
+    }
+  },
+  {
+    id: 'orchestration',
+    title: 'Run services on Kubernetes',
+    pattern: /kubernetes|\bk8s\b/i,
+    chosen: 'Kubernetes',
+    context: 'Many services need automated deployment, scaling and self-healing across zones.',
+    drivers: ['availability', 'user-scale', 'throughput'],
+    options: [
+      { name: 'Kubernetes', pros: ['autoscaling and self-healing', 'portable across clouds'], cons: ['steep learning curve and cluster operations'] },
+      { name: 'Managed containers (ECS, Cloud Run)', pros: ['less to operate'], cons: ['tied to one provider'] },
+      { name: 'Virtual machines', pros: ['simple mental model'], cons: ['manual scaling and slower deploys'] }
+    ],
+    rationale: 'declarative deployment and autoscaling across many services',
+    consequences: {
+      positive: ['Rolling updates, autoscaling and restarts are handled by the platform'],
+      negative: ['The team must own cluster upgrades, networking policies and resource tuning']
+    }
+  },
+  {
+    id: 'observability',
+    title: 'Use Prometheus, Grafana and Jaeger for observability',
+    pattern: /prometheus|jaeger/i,
+    chosen: 'Prometheus, Grafana and Jaeger',
+    context: 'Requests cross many services, so failures and latency must be traced end to end.',
+    drivers: ['availability', 'latency'],
+    options: [
+      { name: 'Prometheus, Grafana and Jaeger', pros: ['open source and widely adopted', 'no per-host licensing'], cons: ['storage and retention are self-managed'] },
+      { name: 'Commercial APM (Datadog, New Relic)', pros: ['integrated and managed'], cons: ['cost grows with hosts and data'] },
+      { name: 'Logs only (ELK)', pros: ['one system'], cons: ['no metrics alerting or cross-service traces'] }
+    ],
+    rationale: 'metrics and traces are needed to meet availability and latency targets without licensing cost',
+    consequences: {
+      positive: ['Metrics, dashboards and traces cover every service'],
+      negative: ['Retention, cardinality and alert rules must be managed by the team']
+    }
+  },
+  {
+    id: 'authentication',
+    title: 'Authenticate with JWT access and refresh tokens',
+    pattern: /\bjwt\b/i,
+    chosen: 'JWT access tokens with refresh tokens',
+    context: 'Every service must authenticate requests without calling a central session store.',
+    drivers: ['compliance', 'latency'],
+    options: [
+      { name: 'JWT access tokens with refresh tokens', pros: ['stateless verification in each service'], cons: ['revocation is delayed until expiry'] },
+      { name: 'Server-side sessions', pros: ['instant revocation'], cons: ['a shared session store on every request'] },
+      { name: 'Opaque tokens with introspection', pros: ['revocable', 'no claims exposed'], cons: ['an introspection call per request'] }
+    ],
+    rationale: 'services can verify identity locally, keeping authentication off the hot path',
+    consequences: {
+      positive: ['No central lookup per request; claims carry roles for access control'],
+      negative: ['Short token lifetimes, key rotation and a revocation list are needed']
+    }
+  }
+];
+
+// Records the significant choices in design output as Architecture Decision Records (ADRs),
+// rendered in MADR or Michael Nygard's format. A record whose option the design alternatives
+// analysis ranked below another keeps the design's choice and flags the conflict.
+export class DecisionRecorder {
+  record(elements: DesignElement[], requirements: ExtractedRequirement[], alternatives: DesignAlternatives[] = [], format: 'madr' | 'nygard' = 'madr', existing: Map<string, number> = new Map(), date: string = new Date().toISOString().substring(0, 10)): ArchitectureDecisionRecord[] {
+    // New records are numbered after any already on disk; a decision recorded before keeps its number.
+    let nextNumber = Math.max(0, ...existing.values());
+    const records: ArchitectureDecisionRecord[] = [];
+
+    for (const template of DECISION_CATALOG) {
+      const components = elements.filter(element => template.pattern.test(`${element.name} ${element.details.join(' ')}`));
+      if (components.length === 0) continue;
+
+      const slug = this.slugify(template.title);
+      const number = existing.get(slug) ?? ++nextNumber;
+      const analysis = alternatives.find(entry => entry.conflict && ALTERNATIVE_TOPICS.find(topic => topic.id === entry.topic)?.decision === template.id);
+      const record: ArchitectureDecisionRecord = {
+        id: `ADR-${String(number).padStart(4, '0')}`,
+        number,
+        slug,
+        title: template.title,
+        status: 'proposed',
+        date,
+        context: `${template.context} The design addresses this in ${components.map(element => `${element.id} ${element.name}`).join(', ')}.`,
+        drivers: requirements
+          .filter(requirement => template.drivers.includes(requirement.kind))
+          .map(requirement => `${requirement.id}: ${requirement.description}`),
+        options: template.options,
+        decision: `Chosen option: "${template.chosen}", because ${template.rationale}.`,
+        consequences: template.consequences,
+        design_components: components.map(element => element.id),
+        ...(analysis ? { alternatives_conflict: this.conflict(analysis) } : {}),
+        markdown: ''
+      };
+      record.markdown = format === 'nygard' ? this.renderNygard(record) : this.renderMadr(record);
+      records.push(record);
+    }
+
+    return records.sort((a, b) => a.number - b.number);
+  }
+
+  private conflict(analysis: DesignAlternatives): string {
+    const [recommended, ...rest] = analysis.matrix;
+    const baseline = rest.find(row => row.option === analysis.baseline)!;
+    return `The design alternatives analysis (step ${analysis.step}) recommends "${recommended.name}" (weighted score ${recommended.weighted_score}) over "${baseline.name}" (${baseline.weighted_score}). This record follows the generated design; revisit the choice before accepting it.`;
+  }
+
+  fileName(record: ArchitectureDecisionRecord): string {
+    return `${String(record.number).padStart(4, '0')}-${record.slug}.md`;
+  }
+
+  /** Maps the slugs of ADR files already in a directory listing to their numbers. */
+  existingNumbers(paths: string[]): Map<string, number> {
+    const existing = new Map<string, number>();
+    for (const path of paths) {
+      const match = /^(\d{4})-(.+)\.md$/.exec(nodePath.basename(path));
+      if (match) existing.set(match[2], Number(match[1]));
+    }
+    return existing;
+  }
+
+  private renderMadr(record: ArchitectureDecisionRecord): string {
+    const bullets = (items: string[]) => items.map(item => `* ${item}`).join('\n');
+    return [
+      `# ${record.title}`,
+      '',
+      `* Status: ${record.status}`,
+      `* Date: ${record.date}`,
+      '',
+      '## Context and Problem Statement',
+      '',
+      record.context,
+      '',
+      '## Decision Drivers',
+      '',
+      record.drivers.length > 0 ? bullets(record.drivers) : '* No stated requirement bears directly on this decision',
+      '',
+      '## Considered Options',
+      '',
+      bullets(record.options.map(option => option.name)),
+      '',
+      '## Decision Outcome',
+      '',
+      record.decision,
+      ...(record.alternatives_conflict ? ['', `Conflict: ${record.alternatives_conflict}`] : []),
+      '',
+      '### Positive Consequences',
+      '',
+      bullets(record.consequences.positive),
+      '',
+      '### Negative Consequences',
+      '',
+      bullets(record.consequences.negative),
+      '',
+      '## Pros and Cons of the Options',
+      ...record.options.flatMap(option => [
+        '',
+        `### ${option.name}`,
+        '',
+        bullets([...option.pros.map(pro => `Good, because ${pro}`), ...option.cons.map(con => `Bad, because ${con}`)])
+      ]),
+      ''
+    ].join('\n');
+  }
+
+  private renderNygard(record: ArchitectureDecisionRecord): string {
+    const drivers = record.drivers.length > 0 ? ` Relevant requirements: ${record.drivers.join('; ')}.` : '';
+    return [
+      `# ${record.number}. ${record.title}`,
+      '',
+      `Date: ${record.date}`,
+      '',
+      '## Status',
+      '',
+      'Proposed',
+      '',
+      '## Context',
+      '',
+      `${record.context}${drivers} Options considered: ${record.options.map(option => option.name).join(', ')}.`,
+      '',
+      '## Decision',
+      '',
+      record.decision,
+      ...(record.alternatives_conflict ? ['', `Conflict: ${record.alternatives_conflict}`] : []),
+      '',
+      '## Consequences',
+      '',
+      ...record.consequences.positive.map(consequence => `* ${consequence}.`),
+      ...record.consequences.negative.map(consequence => `* ${consequence}.`),
+      ''
+    ].join('\n');
+  }
+
+  private slugify(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+}
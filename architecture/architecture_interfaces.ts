@@ -0,0 +1,38 @@
+// Location of an extracted value in the problem statement
+export interface RequirementSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ExtractedRequirement {
+  id: string;
+  kind: 'throughput' | 'latency' | 'availability' | 'data-volume' | 'budget' | 'deadline' | 'team-size' | 'user-scale' | 'compliance' | 'input-size' | 'memory-limit' | 'update-rate' | 'functional';
+  category: 'requirement' | 'constraint' | 'objective';
+  description: string;
+  value?: number; // Normalized to `unit`
+  unit?: string; // req/s, ms, %, GB, USD, days, date, engineers, users, items, MB, updates/s
+  qualifier?: string; // e.g. p99, per day, concurrent, range 8-12
+  source: RequirementSpan;
+}
+
+// A numbered section of a design phase's output, e.g. "1. API GATEWAY:" and its bullets
+export interface DesignElement {
+  id: string; // D<step>.<n>
+  name: string;
+  focus: string;
+  step: number;
+  details: string[];
+}
+
+export interface DecisionOption {
+  name: string;
+  pros: string[];
+  cons: string[];
+}
+
+export interface RemediationTarget {
+  requirement: ExtractedRequirement;
+  status: 'gap' | 'partial';
+  remedies: string[];
+}
@@ -0,0 +1,223 @@
+import type { DesignElement } from "./architecture_interfaces.ts";
+
+export interface ArchitectureNode {
+  id: string;
+  name: string;
+  kind: 'client' | 'gateway' | 'service' | 'datastore' | 'cache' | 'search' | 'queue';
+  technologies: string[];
+  description?: string;
+  design_components: string[];
+}
+
+export interface ArchitectureConnection {
+  from: string;
+  to: string;
+  label: string;
+  mode: 'sync' | 'async';
+}
+
+export interface ArchitectureModel {
+  nodes: ArchitectureNode[];
+  connections: ArchitectureConnection[];
+}
+
+export interface ArchitectureDiagrams {
+  mermaid: string;
+  plantuml: string;
+  c4_container: string;
+}
+
+// Technologies recognised as nodes of the architecture model. Several entries may map to the
+// same node, each adding the product it names.
+const ARCHITECTURE_TECHNOLOGIES: Array<{ id: string; name: string; kind: ArchitectureNode['kind']; pattern: RegExp; technology?: string }> = [
+  { id: 'api-gateway', name: 'API Gateway', kind: 'gateway', pattern: /\bkong\b/i, technology: 'Kong' },
+  { id: 'api-gateway', name: 'API Gateway', kind: 'gateway', pattern: /aws api gateway/i, technology: 'AWS API Gateway' },
+  { id: 'api-gateway', name: 'API Gateway', kind: 'gateway', pattern: /api gateway/i },
+  { id: 'postgresql', name: 'PostgreSQL', kind: 'datastore', pattern: /postgres/i, technology: 'PostgreSQL' },
+  { id: 'mysql', name: 'MySQL', kind: 'datastore', pattern: /\bmysql\b/i, technology: 'MySQL' },
+  { id: 'mongodb', name: 'MongoDB', kind: 'datastore', pattern: /mongodb/i, technology: 'MongoDB' },
+  { id: 'cassandra', name: 'Cassandra', kind: 'datastore', pattern: /cassandra/i, technology: 'Apache Cassandra' },
+  { id: 'dynamodb', name: 'DynamoDB', kind: 'datastore', pattern: /dynamodb/i, technology: 'Amazon DynamoDB' },
+  { id: 'object-storage', name: 'Object Storage', kind: 'datastore', pattern: /\bs3\b|object storage/i, technology: 'Amazon S3' },
+  { id: 'redis', name: 'Redis', kind: 'cache', pattern: /\bredis\b/i, technology: 'Redis' },
+  { id: 'memcached', name: 'Memcached', kind: 'cache', pattern: /memcached/i, technology: 'Memcached' },
+  { id: 'elasticsearch', name: 'Elasticsearch', kind: 'search', pattern: /elasticsearch/i, technology: 'Elasticsearch' },
+  { id: 'kafka', name: 'Apache Kafka', kind: 'queue', pattern: /\bkafka\b/i, technology: 'Apache Kafka' },
+  { id: 'rabbitmq', name: 'RabbitMQ', kind: 'queue', pattern: /rabbitmq/i, technology: 'RabbitMQ' },
+  { id: 'sqs', name: 'Amazon SQS', kind: 'queue', pattern: /\bsqs\b/i, technology: 'Amazon SQS' }
+];
+
+// Builds a structured model of services, datastores, queues and their connections from
+// design components, and renders it as Mermaid, PlantUML and C4 container diagrams.
+export class ArchitectureModeler {
+  build(elements: DesignElement[]): ArchitectureModel {
+    const nodes = new Map<string, ArchitectureNode>();
+    const connections: ArchitectureConnection[] = [];
+    const explicitLinks = new Set<string>(); // "<service>→<store>" from a service's Technology line
+    const storeContexts = new Map<string, string[]>(); // Text describing what each store holds
+    const realtimeServices = new Set<string>(); // Services clients reach over WebSockets
+
+    const addNode = (id: string, name: string, kind: ArchitectureNode['kind'], element: DesignElement, description?: string, technologies: string[] = []) => {
+      const node = nodes.get(id) || { id, name, kind, technologies: [], design_components: [] };
+      node.technologies = [...new Set([...node.technologies, ...technologies])];
+      if (!node.design_components.includes(element.id)) node.design_components.push(element.id);
+      if (!node.description && description) node.description = description;
+      nodes.set(id, node);
+      return node;
+    };
+    const addTechnologies = (text: string, element: DesignElement, description: string) => {
+      const found: ArchitectureNode[] = [];
+      for (const entry of ARCHITECTURE_TECHNOLOGIES) {
+        if (!entry.pattern.test(text)) continue;
+        const node = addNode(entry.id, entry.name, entry.kind, element, description, entry.technology ? [entry.technology] : []);
+        if (!found.includes(node)) found.push(node);
+        storeContexts.set(entry.id, [...(storeContexts.get(entry.id) || []), text]);
+      }
+      return found;
+    };
+
+    for (const element of elements) {
+      // "1. USER SERVICE:" with a "Technology: Node.js + Express + PostgreSQL" bullet
+      const technologyLine = element.details.find(detail => /^technology:/i.test(detail));
+      if (/\bservice$/i.test(element.name)) {
+        const serviceId = this.slugify(element.name);
+        const parts = technologyLine ? technologyLine.replace(/^technology:\s*/i, '').split('+').map(part => part.trim()) : [];
+        const runtime = parts.filter(part => !ARCHITECTURE_TECHNOLOGIES.some(entry => entry.pattern.test(part)));
+        addNode(serviceId, this.titleCase(element.name), 'service', element, element.details.find(detail => detail !== technologyLine), runtime);
+        for (const part of parts) {
+          addTechnologies(part, element, `Used by ${this.titleCase(element.name)}`)
+            .forEach(store => explicitLinks.add(`${serviceId}→${store.id}`));
+        }
+        if (element.details.some(detail => /websocket|socket\.io/i.test(detail))) {
+          realtimeServices.add(serviceId);
+        }
+      }
+
+      // Technologies named in the heading, e.g. "PRIMARY DATABASE (PostgreSQL)", describe the whole section
+      addTechnologies(element.name, element, element.details[0])
+        .forEach(store => storeContexts.get(store.id)!.push(element.details.join(' ')));
+
+      for (const detail of element.details) {
+        if (detail === technologyLine) continue;
+        // "Document Service: Document CRUD, versioning with Git-like diff"
+        const service = detail.match(/^([A-Z][\w-]*(?:\s+[A-Z][\w-]*)*\s+Service):\s*(.+)$/);
+        if (service) {
+          addNode(this.slugify(service[1]), service[1], 'service', element, service[2]);
+          if (/websocket|socket\.io/i.test(service[2])) realtimeServices.add(this.slugify(service[1]));
+          continue;
+        }
+        addTechnologies(detail, element, detail);
+      }
+    }
+
+    const all = [...nodes.values()];
+    const services = all.filter(node => node.kind === 'service');
+    const gateway = all.find(node => node.kind === 'gateway');
+    const connect = (from: string, to: string, label: string, mode: ArchitectureConnection['mode'] = 'sync') => {
+      if (!connections.some(connection => connection.from === from && connection.to === to)) {
+        connections.push({ from, to, label, mode });
+      }
+    };
+
+    if (services.length > 0 || gateway) {
+      nodes.set('client', { id: 'client', name: 'Client', kind: 'client', technologies: [], description: 'Web and mobile clients', design_components: [] });
+      if (gateway) {
+        connect('client', gateway.id, 'HTTPS requests');
+        services.forEach(service => connect(gateway.id, service.id, 'routes requests'));
+      }
+      services.filter(service => !gateway || realtimeServices.has(service.id))
+        .forEach(service => connect('client', service.id, realtimeServices.has(service.id) ? 'WebSocket' : 'HTTPS requests'));
+    }
+
+    // A service uses a store named on its Technology line or whose description mentions the service;
+    // services left without a datastore use the first one, the primary store.
+    const storeLabels: Partial<Record<ArchitectureNode['kind'], string>> = { datastore: 'reads/writes', cache: 'caches state', search: 'indexes and queries' };
+    for (const store of all.filter(node => storeLabels[node.kind])) {
+      const context = (storeContexts.get(store.id) || []).join(' ');
+      for (const service of services) {
+        const keywords = service.name.toLowerCase().split(/\s+/).filter(word => word !== 'service');
+        if (explicitLinks.has(`${service.id}→${store.id}`) || keywords.some(word => new RegExp(`\\b${word}`, 'i').test(context))) {
+          connect(service.id, store.id, storeLabels[store.kind]!);
+        }
+      }
+    }
+    const primaryStore = all.find(node => node.kind === 'datastore');
+    if (primaryStore) {
+      services
+        .filter(service => !connections.some(connection => connection.from === service.id && nodes.get(connection.to)?.kind === 'datastore'))
+        .forEach(service => connect(service.id, primaryStore.id, storeLabels.datastore!));
+    }
+    for (const queue of all.filter(node => node.kind === 'queue')) {
+      services.forEach(service => connect(service.id, queue.id, 'publishes/consumes events', 'async'));
+    }
+
+    const client = nodes.get('client');
+    return { nodes: [...(client ? [client] : []), ...all], connections };
+  }
+
+  render(model: ArchitectureModel, systemName: string): ArchitectureDiagrams {
+    return { mermaid: this.toMermaid(model), plantuml: this.toPlantUml(model), c4_container: this.toC4Container(model, systemName) };
+  }
+
+  private toMermaid(model: ArchitectureModel): string {
+    const label = (node: ArchitectureNode) => `"${[node.name, this.technologyLabel(node)].filter(Boolean).join('<br/>').replace(/"/g, '#quot;')}"`;
+    const shapes: Record<ArchitectureNode['kind'], (text: string) => string> = {
+      client: text => `([${text}])`,
+      gateway: text => `{{${text}}}`,
+      service: text => `[${text}]`,
+      datastore: text => `[(${text})]`,
+      cache: text => `[(${text})]`,
+      search: text => `[(${text})]`,
+      queue: text => `[[${text}]]`
+    };
+    return [
+      'flowchart LR',
+      ...model.nodes.map(node => `  ${this.diagramId(node.id)}${shapes[node.kind](label(node))}`),
+      ...model.connections.map(connection => `  ${this.diagramId(connection.from)} ${connection.mode === 'async' ? '-.->' : '-->'}|"${connection.label}"| ${this.diagramId(connection.to)}`)
+    ].join('\n');
+  }
+
+  private toPlantUml(model: ArchitectureModel): string {
+    const keywords: Record<ArchitectureNode['kind'], string> = { client: 'actor', gateway: 'boundary', service: 'component', datastore: 'database', cache: 'database', search: 'database', queue: 'queue' };
+    return [
+      '@startuml',
+      'left to right direction',
+      ...model.nodes.map(node => `${keywords[node.kind]} "${node.name}${this.technologyLabel(node) ? `\\n[${this.technologyLabel(node)}]` : ''}" as ${this.diagramId(node.id)}`),
+      ...model.connections.map(connection => `${this.diagramId(connection.from)} ${connection.mode === 'async' ? '..>' : '-->'} ${this.diagramId(connection.to)} : ${connection.label}`),
+      '@enduml'
+    ].join('\n');
+  }
+
+  private toC4Container(model: ArchitectureModel, systemName: string): string {
+    const quote = (text: string | undefined) => `"${(text || '').replace(/"/g, "'")}"`;
+    const macros: Record<Exclude<ArchitectureNode['kind'], 'client'>, string> = { gateway: 'Container', service: 'Container', datastore: 'ContainerDb', cache: 'ContainerDb', search: 'ContainerDb', queue: 'ContainerQueue' };
+    const containers = model.nodes.filter(node => node.kind !== 'client');
+    return [
+      '@startuml',
+      '!include https://raw.githubusercontent.com/plantuml-stdlib/C4-PlantUML/master/C4_Container.puml',
+      ...model.nodes.filter(node => node.kind === 'client').map(node => `Person(${this.diagramId(node.id)}, ${quote(node.name)}, ${quote(node.description)})`),
+      `System_Boundary(system, ${quote(systemName)}) {`,
+      ...containers.map(node => `  ${macros[node.kind as Exclude<ArchitectureNode['kind'], 'client'>]}(${this.diagramId(node.id)}, ${quote(node.name)}, ${quote(node.technologies.join(', '))}, ${quote(node.description)})`),
+      '}',
+      ...model.connections.map(connection => `Rel(${this.diagramId(connection.from)}, ${this.diagramId(connection.to)}, ${quote(connection.label)}${connection.mode === 'async' ? ', "async"' : ''})`),
+      '@enduml'
+    ].join('\n');
+  }
+
+  // Technologies other than the node's own name, e.g. none for a node named "PostgreSQL"
+  private technologyLabel(node: ArchitectureNode): string {
+    return node.technologies.filter(technology => technology !== node.name).join(', ');
+  }
+
+  private diagramId(id: string): string {
+    return id.replace(/[^a-zA-Z0-9]/g, '_');
+  }
+
+  private slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  private titleCase(name: string): string {
+    return name.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+  }
+}
@@ -0,0 +1,392 @@
+import type { CapacityCheck } from "./architecture_capacity_planner.ts";
+import type { DesignElement, ExtractedRequirement, RemediationTarget } from "./architecture_interfaces.ts";
+
+export interface RiskCondition {
+  kind?: ExtractedRequirement['kind'];
+  pattern?: RegExp; // Matched against functional requirement descriptions
+  min?: number;
+  max?: number;
+}
+
+export interface RiskTemplate {
+  id: string;
+  title: string; // {requirement} is replaced by the matching requirement's text in the problem statement
+  category: 'scalability' | 'performance' | 'reliability' | 'consistency' | 'security' | 'operations' | 'compliance' | 'delivery' | 'requirements';
+  components?: RegExp;
+  absent?: boolean;
+  requirement?: RiskCondition;
+  likelihood: number;
+  impact: number;
+  escalations?: Array<RiskCondition & { likelihood?: number; impact?: number; reason: string }>;
+  mitigation: string;
+  owner: string;
+  triggers: string[];
+}
+
+export interface RiskEntry {
+  id: string; // RISK-01, ordered by exposure
+  risk: string; // Catalog template id, requirement-gap or capacity-shortfall
+  title: string;
+  category: RiskTemplate['category'];
+  likelihood: number; // 1-5
+  impact: number; // 1-5
+  exposure: number; // likelihood × impact
+  rating: 'high' | 'medium' | 'low';
+  mitigation: string;
+  owner: string;
+  triggers: string[];
+  design_components: string[];
+  requirements: string[];
+  rationale: string[];
+}
+
+export interface RiskRegister {
+  risks: RiskEntry[];
+  counts: { high: number; medium: number; low: number };
+  markdown: string;
+}
+
+// Risks recognised in a design. A template applies when a design component matches `components`
+// (or, with `absent`, when none does), or when a requirement meets `requirement`. Likelihood and
+// impact are rated 1-5 and raised by `escalations` the requirements meet. Owners are the
+// summary_role names, so role digests can route each risk.
+const RISK_CATALOG: RiskTemplate[] = [
+  {
+    id: 'database-write-bottleneck',
+    title: 'Primary database becomes a write bottleneck',
+    category: 'scalability',
+    components: /postgres|mysql|relational|primary database/i,
+    likelihood: 2,
+    impact: 4,
+    escalations: [
+      { kind: 'throughput', min: 5_000, likelihood: 1, reason: 'write volume at the stated throughput' },
+      { kind: 'data-volume', likelihood: 1, reason: 'large data volume' }
+    ],
+    mitigation: 'Partition hot tables, route reads to replicas, pool connections and load-test writes at twice the expected peak',
+    owner: 'devops engineer',
+    triggers: ['Write latency p99 above target', 'Connection pool above 80% utilization', 'Replication lag above 1 s']
+  },
+  {
+    id: 'cache-stampede',
+    title: 'Cache stampede or stale reads after invalidation or restart',
+    category: 'performance',
+    components: /redis|memcached|\bcach(?:e|ing)\b/i,
+    likelihood: 3,
+    impact: 2,
+    escalations: [{ kind: 'latency', max: 200, impact: 1, reason: 'tight latency target depends on cache hits' }],
+    mitigation: 'Coalesce concurrent misses, jitter TTLs and warm caches before shifting traffic',
+    owner: 'developer',
+    triggers: ['Cache hit ratio below 80%', 'Database load spike after a cache flush or restart']
+  },
+  {
+    id: 'consumer-lag',
+    title: 'Consumer lag and message backlog during traffic spikes',
+    category: 'scalability',
+    components: /kafka|rabbitmq|\bsqs\b|message queue|event-driven|dead letter/i,
+    likelihood: 2,
+    impact: 3,
+    escalations: [{ kind: 'throughput', min: 1_000, likelihood: 1, reason: 'sustained event volume' }],
+    mitigation: 'Autoscale consumers on lag, keep retention above the worst-case recovery time and dead-letter poison messages',
+    owner: 'devops engineer',
+    triggers: ['Consumer lag growing for more than 5 minutes', 'Dead-letter queue depth above zero']
+  },
+  {
+    id: 'cross-service-consistency',
+    title: 'Inconsistent state across services after partial failures',
+    category: 'consistency',
+    components: /saga|distributed transaction|eventual(?:ly)? consisten|cqrs/i,
+    likelihood: 3,
+    impact: 3,
+    escalations: [{ pattern: /payment|billing|order|inventory|ledger/i, impact: 2, reason: 'money or stock is involved' }],
+    mitigation: 'Make handlers idempotent, publish through an outbox, test compensating actions and run reconciliation jobs',
+    owner: 'developer',
+    triggers: ['Reconciliation finds mismatched records', 'Compensating actions above their usual rate']
+  },
+  {
+    id: 'connection-storm',
+    title: 'Reconnect storms when real-time connection nodes restart',
+    category: 'reliability',
+    components: /websocket|socket\.io|presence/i,
+    likelihood: 2,
+    impact: 3,
+    escalations: [{ kind: 'user-scale', min: 100_000, likelihood: 1, impact: 1, reason: 'many concurrent connections' }],
+    mitigation: 'Reconnect with jittered backoff, keep presence state outside the node and drain nodes before deploys',
+    owner: 'devops engineer',
+    triggers: ['Reconnect rate spike after a deploy', 'Open connections per node above tested capacity']
+  },
+  {
+    id: 'merge-divergence',
+    title: 'Documents diverge on edge cases of concurrent-edit merging',
+    category: 'consistency',
+    components: /operational transformation|\bcrdt|conflict resolution/i,
+    likelihood: 2,
+    impact: 4,
+    mitigation: 'Property-based convergence tests, server-side checksums of document state and snapshot replay tooling',
+    owner: 'qa engineer',
+    triggers: ['Client and server document checksums differ', 'Support tickets about lost edits']
+  },
+  {
+    id: 'network-partition',
+    title: 'Network partition splits replicas or regions',
+    category: 'reliability',
+    components: /multi-region|replica|failover|cluster/i,
+    likelihood: 2,
+    impact: 4,
+    escalations: [{ kind: 'availability', min: 99.99, impact: 1, reason: 'four-nines availability target' }],
+    mitigation: 'Quorum-based failover, partition drills and a documented consistency choice per datastore',
+    owner: 'devops engineer',
+    triggers: ['Replica heartbeat loss', 'Two primaries or split-brain alerts']
+  },
+  {
+    id: 'gateway-single-point',
+    title: 'API gateway or ingress becomes a single point of failure',
+    category: 'reliability',
+    components: /api gateway|\bkong\b|ingress|load balanc/i,
+    likelihood: 2,
+    impact: 4,
+    escalations: [{ kind: 'availability', min: 99.9, impact: 1, reason: 'every request depends on it' }],
+    mitigation: 'Run at least two gateway instances per zone, health-check them behind DNS failover and canary configuration changes',
+    owner: 'devops engineer',
+    triggers: ['Gateway 5xx rate above 1%', 'Gateway CPU above 70%']
+  },
+  {
+    id: 'search-index-drift',
+    title: 'Search index drifts from the system of record',
+    category: 'consistency',
+    components: /elasticsearch|opensearch|search index/i,
+    likelihood: 3,
+    impact: 2,
+    mitigation: 'Index from change-data-capture, reindex periodically and reconcile document counts',
+    owner: 'developer',
+    triggers: ['Indexing lag above 1 minute', 'Index and database counts differ']
+  },
+  {
+    id: 'platform-complexity',
+    title: "Platform complexity outpaces the team's operational experience",
+    category: 'operations',
+    components: /kubernetes|\bk8s\b|helm|pod autoscaler/i,
+    likelihood: 2,
+    impact: 3,
+    escalations: [{ kind: 'team-size', max: 5, likelihood: 2, reason: 'small team to operate the platform' }],
+    mitigation: 'Use a managed control plane, golden-path templates, runbooks and on-call training',
+    owner: 'devops engineer',
+    triggers: ['Rising deploy failures or rollbacks', 'Incidents caused by cluster configuration']
+  },
+  {
+    id: 'credential-compromise',
+    title: 'Stolen tokens or credentials grant access',
+    category: 'security',
+    components: /jwt|oauth|authenticat|\btokens?\b|api keys?/i,
+    likelihood: 2,
+    impact: 5,
+    escalations: [{ kind: 'compliance', likelihood: 1, reason: 'regulated data raises the value of stolen access' }],
+    mitigation: 'Short-lived tokens with rotation, secrets in a vault, MFA for operators and anomaly detection on logins',
+    owner: 'security engineer',
+    triggers: ['Spike in failed logins', 'Tokens used from unusual locations']
+  },
+  {
+    id: 'missing-observability',
+    title: 'Incidents take long to diagnose without metrics and tracing',
+    category: 'operations',
+    components: /prometheus|grafana|jaeger|tracing|monitoring|observab|logging/i,
+    absent: true,
+    likelihood: 4,
+    impact: 3,
+    mitigation: 'Add metrics, structured logs and distributed tracing with alerting on the service level objectives',
+    owner: 'devops engineer',
+    triggers: ['Mean time to resolve above 1 hour', 'Incidents first reported by users']
+  },
+  {
+    id: 'availability-slo',
+    title: 'Missing the availability target ({requirement})',
+    category: 'reliability',
+    requirement: { kind: 'availability', min: 99.9 },
+    likelihood: 3,
+    impact: 4,
+    escalations: [{ kind: 'availability', min: 99.99, likelihood: 1, impact: 1, reason: 'four nines allow about 4 minutes of downtime a month' }],
+    mitigation: 'Multi-zone redundancy, error budgets with burn-rate alerts and regular failover drills',
+    owner: 'devops engineer',
+    triggers: ['Error budget burn rate above 2x', 'Failover drill exceeds its recovery time objective']
+  },
+  {
+    id: 'latency-target',
+    title: 'Missing the latency target under load ({requirement})',
+    category: 'performance',
+    requirement: { kind: 'latency', max: 200 },
+    likelihood: 3,
+    impact: 3,
+    escalations: [{ kind: 'latency', max: 50, likelihood: 1, reason: 'very tight latency budget' }],
+    mitigation: 'Set a latency budget per hop, cache hot paths and gate releases on load-test percentiles',
+    owner: 'developer',
+    triggers: ['p99 above target in a load test', 'p99 regression after a release']
+  },
+  {
+    id: 'compliance-audit',
+    title: 'Failing a compliance audit ({requirement})',
+    category: 'compliance',
+    requirement: { kind: 'compliance' },
+    likelihood: 2,
+    impact: 5,
+    mitigation: 'Map each control to the components that implement it, automate evidence collection and schedule a pre-audit',
+    owner: 'security engineer',
+    triggers: ['A control has no evidence owner', 'Failed scans or open audit findings']
+  },
+  {
+    id: 'schedule-slip',
+    title: 'Delivery slips past the deadline ({requirement})',
+    category: 'delivery',
+    requirement: { kind: 'deadline' },
+    likelihood: 3,
+    impact: 4,
+    mitigation: 'Ship a walking skeleton first, track burn-up weekly and keep a 20% schedule buffer',
+    owner: 'project manager',
+    triggers: ['Velocity below plan for two sprints', 'Critical-path tasks slipping']
+  },
+  {
+    id: 'budget-overrun',
+    title: 'Costs exceed the budget ({requirement})',
+    category: 'delivery',
+    requirement: { kind: 'budget' },
+    likelihood: 3,
+    impact: 3,
+    mitigation: 'Set cost alerts per environment, review instance sizing monthly and price managed services before adopting them',
+    owner: 'project manager',
+    triggers: ['Monthly spend 10% above forecast', 'Unplanned paid services in use']
+  },
+  {
+    id: 'key-person',
+    title: 'Key-person dependency in a small team ({requirement})',
+    category: 'delivery',
+    requirement: { kind: 'team-size', max: 5 },
+    likelihood: 3,
+    impact: 3,
+    mitigation: 'Pair on critical components, keep runbooks and decision records current and rotate on-call',
+    owner: 'project manager',
+    triggers: ['A component only one engineer has changed', 'Work blocked while someone is away']
+  }
+];
+
+// Builds the risk register from the design components and requirements: the catalog risks the
+// design or requirements carry, plus one risk per requirement validation left unmet. Exposure is
+// likelihood × impact; 15 and above is high, 8 and above medium.
+export class RiskAssessor {
+  assess(elements: DesignElement[], requirements: ExtractedRequirement[], targets: RemediationTarget[] = [], shortfalls: CapacityCheck[] = []): RiskRegister {
+    const entries: Array<Omit<RiskEntry, 'id'>> = [];
+
+    for (const template of RISK_CATALOG) {
+      const rationale: string[] = [];
+      let components: string[] = [];
+      const related = new Set<string>();
+
+      if (template.components) {
+        components = elements.filter(element => template.components!.test(`${element.name} ${element.details.join(' ')}`)).map(element => element.id);
+        if (template.absent) {
+          if (elements.length === 0 || components.length > 0) continue;
+          components = [];
+          rationale.push('No design component addresses it');
+        } else {
+          if (components.length === 0) continue;
+          rationale.push(`Carried by ${components.join(', ')}`);
+        }
+      }
+      if (template.requirement) {
+        const matched = requirements.filter(requirement => this.meets(requirement, template.requirement!));
+        if (matched.length === 0) continue;
+        matched.forEach(requirement => related.add(requirement.id));
+        rationale.push(`Required by ${matched.map(requirement => requirement.id).join(', ')}`);
+      }
+
+      let likelihood = template.likelihood;
+      let impact = template.impact;
+      for (const escalation of template.escalations || []) {
+        const meeting = requirements.filter(requirement => this.meets(requirement, escalation));
+        if (meeting.length === 0) continue;
+        likelihood += escalation.likelihood || 0;
+        impact += escalation.impact || 0;
+        meeting.forEach(requirement => related.add(requirement.id));
+        const raised = [escalation.likelihood ? `likelihood +${escalation.likelihood}` : '', escalation.impact ? `impact +${escalation.impact}` : ''].filter(Boolean).join(', ');
+        rationale.push(`${meeting.map(requirement => requirement.id).join(', ')}: ${escalation.reason} (${raised})`);
+      }
+
+      const requirement = requirements.find(candidate => related.has(candidate.id) && template.requirement && this.meets(candidate, template.requirement));
+      entries.push(this.entry({
+        risk: template.id,
+        title: template.title.replace('{requirement}', requirement?.source.text || ''),
+        category: template.category,
+        likelihood,
+        impact,
+        mitigation: template.mitigation,
+        owner: template.owner,
+        triggers: template.triggers,
+        design_components: components,
+        requirements: [...related],
+        rationale
+      }));
+    }
+
+    for (const target of targets) {
+      const gap = target.status === 'gap';
+      entries.push(this.entry({
+        risk: 'requirement-gap',
+        title: `${target.requirement.id} ${target.requirement.description} is ${gap ? 'not addressed' : 'only partly addressed'} by the design`,
+        category: 'requirements',
+        likelihood: gap ? 4 : 3,
+        impact: target.requirement.category === 'requirement' ? 4 : 3,
+        mitigation: target.remedies.join('; '),
+        owner: 'developer',
+        triggers: [`Validation still reports ${target.requirement.id} as ${target.status}`, `Acceptance test for ${target.requirement.id} fails`],
+        design_components: [],
+        requirements: [target.requirement.id],
+        rationale: [`Traceability status ${target.status}`]
+      }));
+    }
+
+    for (const shortfall of shortfalls) {
+      entries.push(this.entry({
+        risk: 'capacity-shortfall',
+        title: `Capacity shortfall in ${shortfall.check}: ${shortfall.detail}`,
+        category: 'scalability',
+        likelihood: 4,
+        impact: 4,
+        mitigation: shortfall.remedy || 'Resize the component to the capacity plan',
+        owner: 'devops engineer',
+        triggers: [`Load test at the planned peak saturates ${shortfall.check}`, `Utilization of ${shortfall.check} stays above the planned target`],
+        design_components: shortfall.design_components,
+        requirements: [],
+        rationale: ['Design figure is below the capacity plan']
+      }));
+    }
+
+    const risks = entries
+      .sort((a, b) => b.exposure - a.exposure || b.impact - a.impact)
+      .map((entry, index) => ({ id: `RISK-${String(index + 1).padStart(2, '0')}`, ...entry }));
+    const counts = { high: 0, medium: 0, low: 0 };
+    risks.forEach(risk => counts[risk.rating]++);
+
+    return { risks, counts, markdown: this.renderMarkdown(risks) };
+  }
+
+  private meets(requirement: ExtractedRequirement, condition: RiskCondition): boolean {
+    if (condition.kind && requirement.kind !== condition.kind) return false;
+    if (condition.pattern && !(requirement.kind === 'functional' && condition.pattern.test(requirement.description))) return false;
+    if (condition.min !== undefined && (requirement.value === undefined || requirement.value < condition.min)) return false;
+    if (condition.max !== undefined && (requirement.value === undefined || requirement.value > condition.max)) return false;
+    return true;
+  }
+
+  private entry(fields: Omit<RiskEntry, 'id' | 'exposure' | 'rating'>): Omit<RiskEntry, 'id'> {
+    const likelihood = Math.min(5, fields.likelihood);
+    const impact = Math.min(5, fields.impact);
+    const exposure = likelihood * impact;
+    return { ...fields, likelihood, impact, exposure, rating: exposure >= 15 ? 'high' : exposure >= 8 ? 'medium' : 'low' };
+  }
+
+  private renderMarkdown(risks: RiskEntry[]): string {
+    const cell = (text: string) => text.replace(/\|/g, '\\|');
+    return [
+      '| ID | Risk | Category | Likelihood | Impact | Exposure | Owner | Mitigation | Triggers |',
+      '|----|------|----------|------------|--------|----------|-------|------------|----------|',
+      ...risks.map(risk => `| ${risk.id} | ${cell(risk.title)} | ${risk.category} | ${risk.likelihood} | ${risk.impact} | ${risk.exposure} (${risk.rating}) | ${risk.owner} | ${cell(risk.mitigation)} | ${cell(risk.triggers.join('; '))} |`)
+    ].join('\n');
+  }
+}
@@ -0,0 +1,457 @@
+import * as nodePath from "node:path";
+import type { CapacityPlan } from "./architecture_capacity_planner.ts";
+import type { DesignElement, ExtractedRequirement } from "./architecture_interfaces.ts";
+import type { ArchitectureModel, ArchitectureNode } from "./architecture_modeler.ts";
+
+export interface ScaffoldFile {
+  path: string;
+  kind: 'compose' | 'kubernetes' | 'skeleton';
+  content: string;
+  status?: 'written' | 'exists' | 'invalid' | 'error';
+  detail?: string;
+}
+
+export interface ScaffoldIssue {
+  path: string;
+  message: string;
+}
+
+export interface DeploymentScaffold {
+  directory: string;
+  files: ScaffoldFile[];
+  issues: ScaffoldIssue[]; // Schema rule violations; files with issues are not written
+  assumptions: string[];
+}
+
+export interface ComposeService {
+  image?: string;
+  build?: string;
+  command?: string[];
+  environment?: Record<string, string>;
+  ports?: string[]; // "host:container" or "container"
+  depends_on?: string[];
+}
+
+export interface ComposeFile {
+  services: Record<string, ComposeService>;
+}
+
+export interface KubernetesMetadata {
+  name: string;
+  labels?: Record<string, string>;
+}
+
+export interface KubernetesProbe {
+  httpGet: { path: string; port: number };
+  initialDelaySeconds?: number;
+}
+
+export interface KubernetesContainer {
+  name: string;
+  image: string;
+  ports?: Array<{ containerPort: number }>;
+  env?: Array<{ name: string; value: string }>;
+  resources?: { requests?: Record<string, string>; limits?: Record<string, string> };
+  readinessProbe?: KubernetesProbe;
+  livenessProbe?: KubernetesProbe;
+}
+
+export interface KubernetesDeployment {
+  apiVersion: string;
+  kind: 'Deployment';
+  metadata: KubernetesMetadata;
+  spec: {
+    replicas: number;
+    selector: { matchLabels: Record<string, string> };
+    strategy?: { type: string; rollingUpdate?: { maxUnavailable: number; maxSurge: number } };
+    template: { metadata: { labels: Record<string, string> }; spec: { containers: KubernetesContainer[] } };
+  };
+}
+
+export interface KubernetesService {
+  apiVersion: string;
+  kind: 'Service';
+  metadata: KubernetesMetadata;
+  spec: { selector: Record<string, string>; ports: Array<{ name?: string; port: number; targetPort?: number }> };
+}
+
+export interface KubernetesHorizontalPodAutoscaler {
+  apiVersion: string;
+  kind: 'HorizontalPodAutoscaler';
+  metadata: KubernetesMetadata;
+  spec: {
+    scaleTargetRef: { apiVersion: string; kind: string; name: string };
+    minReplicas: number;
+    maxReplicas: number;
+    metrics: Array<{ type: string; resource?: { name: string; target: { type: string; averageUtilization?: number } } }>;
+  };
+}
+
+export type KubernetesManifest = KubernetesDeployment | KubernetesService | KubernetesHorizontalPodAutoscaler;
+
+// Container images and local settings for the backing services in the generated docker-compose.yml.
+// `host_port` publishes the container port on another host port where two images share a default.
+const SCAFFOLD_BACKING_IMAGES: Record<string, { image: string; port: number; host_port?: number; environment?: Record<string, string>; command?: string[] }> = {
+  'api-gateway': { image: 'kong:3.6', port: 8000, environment: { KONG_DATABASE: 'off' } },
+  'postgresql': { image: 'postgres:16', port: 5432, environment: { POSTGRES_PASSWORD: 'change-me' } },
+  'mysql': { image: 'mysql:8.4', port: 3306, environment: { MYSQL_ROOT_PASSWORD: 'change-me' } },
+  'mongodb': { image: 'mongo:7', port: 27017 },
+  'cassandra': { image: 'cassandra:4.1', port: 9042 },
+  'dynamodb': { image: 'amazon/dynamodb-local:2.5.2', port: 8000, host_port: 8100 },
+  'object-storage': { image: 'minio/minio:RELEASE.2024-05-10T01-41-38Z', port: 9000, command: ['server', '/data'] },
+  'redis': { image: 'redis:7', port: 6379 },
+  'memcached': { image: 'memcached:1.6', port: 11211 },
+  'elasticsearch': { image: 'docker.elastic.co/elasticsearch/elasticsearch:8.13.4', port: 9200, environment: { 'discovery.type': 'single-node', 'xpack.security.enabled': 'false' } },
+  'kafka': { image: 'bitnami/kafka:3.7', port: 9092, environment: { KAFKA_CFG_NODE_ID: '0', KAFKA_CFG_PROCESS_ROLES: 'controller,broker', KAFKA_CFG_LISTENERS: 'PLAINTEXT://:9092,CONTROLLER://:9093', KAFKA_CFG_CONTROLLER_QUORUM_VOTERS: '0@kafka:9093', KAFKA_CFG_CONTROLLER_LISTENER_NAMES: 'CONTROLLER' } },
+  'rabbitmq': { image: 'rabbitmq:3-management', port: 5672 },
+  'sqs': { image: 'softwaremill/elasticmq-native:1.5.7', port: 9324 }
+};
+
+// Turns the architecture model and the deployment design into deployable artifacts: a
+// docker-compose.yml, Kubernetes Deployment/Service/HPA manifests and a skeleton per service.
+// Every manifest is checked against basic schema rules before it is offered for writing.
+export class ScaffoldGenerator {
+  static SERVICE_PORT = 8080;
+
+  generate(model: ArchitectureModel, elements: DesignElement[], requirements: ExtractedRequirement[], directory: string, capacityPlan?: CapacityPlan): DeploymentScaffold {
+    const services = model.nodes.filter(node => node.kind === 'service');
+    const backing = model.nodes.filter(node => SCAFFOLD_BACKING_IMAGES[node.id]);
+    const deploymentText = elements.filter(element => element.focus === 'deployment-architecture').flatMap(element => element.details).join('\n');
+    const settings = this.deploymentSettings(deploymentText, requirements, capacityPlan);
+    const files: ScaffoldFile[] = [];
+    const issues: ScaffoldIssue[] = [];
+    const file = (path: string, kind: ScaffoldFile['kind'], content: string) => files.push({ path: nodePath.posix.join(directory, path), kind, content: content.endsWith('\n') ? content : `${content}\n` });
+
+    const compose = this.composeFile(model, services, backing);
+    issues.push(...this.validateCompose(compose).map(message => ({ path: nodePath.posix.join(directory, 'docker-compose.yml'), message })));
+    file('docker-compose.yml', 'compose', this.toYaml(compose));
+
+    for (const service of services) {
+      const manifests = this.kubernetesManifests(service, model, settings);
+      const path = nodePath.posix.join(directory, 'k8s', `${service.id}.yaml`);
+      issues.push(...this.validateKubernetes(manifests).map(message => ({ path, message })));
+      file(`k8s/${service.id}.yaml`, 'kubernetes', manifests.map(manifest => this.toYaml(manifest)).join('\n---\n'));
+      for (const [path, content] of Object.entries(this.serviceSkeleton(service))) {
+        file(`services/${service.id}/${path}`, 'skeleton', content);
+      }
+    }
+
+    const invalid = new Set(issues.map(issue => issue.path));
+    files.filter(entry => invalid.has(entry.path)).forEach(entry => entry.status = 'invalid');
+
+    return {
+      directory,
+      files,
+      issues,
+      assumptions: [
+        ...settings.assumptions,
+        `Services listen on port ${ScaffoldGenerator.SERVICE_PORT} and expose /healthz for liveness and readiness probes`,
+        `Images are tagged <service>:0.1.0; push them to your registry and update the manifests`,
+        'Kubernetes manifests cover the application services only; run datastores, caches and queues as managed services or operators',
+        'docker-compose.yml uses placeholder passwords for local development only'
+      ]
+    };
+  }
+
+  private deploymentSettings(text: string, requirements: ExtractedRequirement[], capacityPlan?: CapacityPlan) {
+    const assumptions: string[] = [];
+    const limits = text.match(/cpu\s*\((\d+m?)\s*-\s*(\d+m?)\).*?memory\s*\((\d+[MG]i)\s*-\s*(\d+[MG]i)\)/i);
+    const resources = limits
+      ? { requests: { cpu: limits[1], memory: limits[3] }, limits: { cpu: limits[2], memory: limits[4] } }
+      : { requests: { cpu: '100m', memory: '128Mi' }, limits: { cpu: '500m', memory: '512Mi' } };
+    assumptions.push(limits ? 'Resource requests and limits taken from the deployment design' : 'Default resources: requests 100m CPU/128Mi, limits 500m CPU/512Mi');
+
+    const hpaBasis = text.match(/horizontal pod autoscaler[^\n]*?based on ([a-z/ ]+)/i)?.[1].toLowerCase() || 'cpu';
+    const metrics = (['cpu', 'memory'] as const).filter(resource => hpaBasis.includes(resource));
+
+    const valueOf = (kind: ExtractedRequirement['kind']) => Math.max(...requirements.filter(requirement => requirement.kind === kind && requirement.value !== undefined).map(requirement => requirement.value!), -Infinity);
+    const minReplicas = valueOf('availability') >= 99.9 ? 3 : 2;
+    // The capacity plan's per-service count already holds the peak load at the target utilization
+    const maxReplicas = capacityPlan
+      ? Math.max(minReplicas, capacityPlan.instances.per_service)
+      : valueOf('throughput') >= 10_000 || valueOf('user-scale') >= 1_000_000 ? 20 : 10;
+    const utilization = Math.round((capacityPlan?.target_utilization ?? 0.7) * 100);
+    assumptions.push(`Replicas ${minReplicas}-${maxReplicas}${capacityPlan ? ` (maximum from the capacity plan's ${capacityPlan.instances.per_service} instances per service)` : ''}, scaling on ${metrics.join(' and ')} at ${utilization}% utilization`);
+
+    return { resources, metrics, minReplicas, maxReplicas, utilization, assumptions };
+  }
+
+  private composeFile(model: ArchitectureModel, services: ArchitectureNode[], backing: ArchitectureNode[]): ComposeFile {
+    const composeServices: Record<string, ComposeService> = {};
+    for (const node of backing) {
+      const settings = SCAFFOLD_BACKING_IMAGES[node.id];
+      composeServices[node.id] = {
+        image: settings.image,
+        ...(settings.command ? { command: settings.command } : {}),
+        ...(settings.environment ? { environment: settings.environment } : {}),
+        ports: [`${settings.host_port ?? settings.port}:${settings.port}`]
+      };
+    }
+    services.forEach((service, index) => {
+      const dependencies = this.dependencies(service, model).filter(node => SCAFFOLD_BACKING_IMAGES[node.id]);
+      composeServices[service.id] = {
+        build: `./services/${service.id}`,
+        environment: { PORT: String(ScaffoldGenerator.SERVICE_PORT), ...this.connectionEnvironment(dependencies) },
+        ports: [`${ScaffoldGenerator.SERVICE_PORT + 1 + index}:${ScaffoldGenerator.SERVICE_PORT}`],
+        ...(dependencies.length > 0 ? { depends_on: dependencies.map(node => node.id) } : {})
+      };
+    });
+    return { services: composeServices };
+  }
+
+  private kubernetesManifests(service: ArchitectureNode, model: ArchitectureModel, settings: ReturnType<ScaffoldGenerator['deploymentSettings']>): KubernetesManifest[] {
+    const labels = { app: service.id };
+    const environment = { PORT: String(ScaffoldGenerator.SERVICE_PORT), ...this.connectionEnvironment(this.dependencies(service, model)) };
+    const probe = { httpGet: { path: '/healthz', port: ScaffoldGenerator.SERVICE_PORT } };
+    return [
+      {
+        apiVersion: 'apps/v1',
+        kind: 'Deployment',
+        metadata: { name: service.id, labels },
+        spec: {
+          replicas: settings.minReplicas,
+          selector: { matchLabels: labels },
+          strategy: { type: 'RollingUpdate', rollingUpdate: { maxUnavailable: 0, maxSurge: 1 } },
+          template: {
+            metadata: { labels },
+            spec: {
+              containers: [{
+                name: service.id,
+                image: `${service.id}:0.1.0`,
+                ports: [{ containerPort: ScaffoldGenerator.SERVICE_PORT }],
+                env: Object.entries(environment).map(([name, value]) => ({ name, value })),
+                resources: settings.resources,
+                readinessProbe: probe,
+                livenessProbe: { ...probe, initialDelaySeconds: 10 }
+              }]
+            }
+          }
+        }
+      },
+      {
+        apiVersion: 'v1',
+        kind: 'Service',
+        metadata: { name: service.id, labels },
+        spec: { selector: labels, ports: [{ name: 'http', port: 80, targetPort: ScaffoldGenerator.SERVICE_PORT }] }
+      },
+      {
+        apiVersion: 'autoscaling/v2',
+        kind: 'HorizontalPodAutoscaler',
+        metadata: { name: service.id },
+        spec: {
+          scaleTargetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: service.id },
+          minReplicas: settings.minReplicas,
+          maxReplicas: settings.maxReplicas,
+          metrics: settings.metrics.map(name => ({ type: 'Resource', resource: { name, target: { type: 'Utilization', averageUtilization: settings.utilization } } }))
+        }
+      }
+    ];
+  }
+
+  private serviceSkeleton(service: ArchitectureNode): Record<string, string> {
+    const python = service.technologies.some(technology => /fastapi|python|django|flask/i.test(technology));
+    const readme = `# ${service.name}\n\n${service.description || ''}\n\nDesign components: ${service.design_components.join(', ') || 'none'}.\nTechnologies: ${service.technologies.join(', ') || 'not specified'}.\n`;
+    if (python) {
+      return {
+        'README.md': readme,
+        'Dockerfile': [
+          'FROM python:3.12-slim',
+          'WORKDIR /app',
+          'COPY requirements.txt ./',
+          'RUN pip install --no-cache-dir -r requirements.txt',
+          'COPY app ./app',
+          `EXPOSE ${ScaffoldGenerator.SERVICE_PORT}`,
+          'USER nobody',
+          `CMD ["uvicorn", "app.main:app", "--host", "0.0.0.0", "--port", "${ScaffoldGenerator.SERVICE_PORT}"]`,
+          ''
+        ].join('\n'),
+        'requirements.txt': 'fastapi==0.111.0\nuvicorn==0.30.1\n',
+        'app/main.py': [
+          'from fastapi import FastAPI',
+          '',
+          `app = FastAPI(title="${service.name}")`,
+          '',
+          '',
+          '@app.get("/healthz")',
+          'def healthz():',
+          '    return {"status": "ok"}',
+          ''
+        ].join('\n')
+      };
+    }
+    return {
+      'README.md': readme,
+      'Dockerfile': [
+        'FROM node:20-alpine',
+        'WORKDIR /app',
+        'COPY package.json ./',
+        'RUN npm install --omit=dev',
+        'COPY src ./src',
+        `EXPOSE ${ScaffoldGenerator.SERVICE_PORT}`,
+        'USER node',
+        'CMD ["node", "src/index.js"]',
+        ''
+      ].join('\n'),
+      'package.json': `${JSON.stringify({ name: service.id, version: '0.1.0', private: true, type: 'module', scripts: { start: 'node src/index.js' } }, null, 2)}\n`,
+      'src/index.js': [
+        "import http from 'node:http';",
+        '',
+        `const port = Number(process.env.PORT || ${ScaffoldGenerator.SERVICE_PORT});`,
+        '',
+        'http.createServer((request, response) => {',
+        "  if (request.url === '/healthz') {",
+        "    response.writeHead(200, { 'content-type': 'application/json' });",
+        "    response.end(JSON.stringify({ status: 'ok' }));",
+        '    return;',
+        '  }',
+        '  response.writeHead(404);',
+        '  response.end();',
+        `}).listen(port, () => console.log('${service.name} listening on ' + port));`,
+        ''
+      ].join('\n')
+    };
+  }
+
+  private dependencies(service: ArchitectureNode, model: ArchitectureModel): ArchitectureNode[] {
+    return model.connections
+      .filter(connection => connection.from === service.id)
+      .map(connection => model.nodes.find(node => node.id === connection.to)!)
+      .filter(node => node && node.kind !== 'service');
+  }
+
+  private connectionEnvironment(nodes: ArchitectureNode[]): Record<string, string> {
+    const environment: Record<string, string> = {};
+    for (const node of nodes) {
+      const prefix = node.id.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+      environment[`${prefix}_HOST`] = node.id;
+      if (SCAFFOLD_BACKING_IMAGES[node.id]) environment[`${prefix}_PORT`] = String(SCAFFOLD_BACKING_IMAGES[node.id].port);
+    }
+    return environment;
+  }
+
+  validateCompose(compose: ComposeFile): string[] {
+    const errors: string[] = [];
+    const services = compose.services || {};
+    const names = Object.keys(services);
+    const hostPorts = new Map<string, string>(); // Published host port -> first service using it
+    if (names.length === 0) errors.push('compose file defines no services');
+    for (const name of names) {
+      const service = services[name];
+      if (!/^[a-z0-9][a-z0-9_.-]*$/.test(name)) errors.push(`service name '${name}' must be lowercase alphanumeric with - _ .`);
+      if (!service.image && !service.build) errors.push(`service '${name}' needs an image or a build context`);
+      for (const port of service.ports || []) {
+        if (!/^\d{1,5}(?::\d{1,5})?$/.test(port) || String(port).split(':').some((part: string) => Number(part) < 1 || Number(part) > 65535)) {
+          errors.push(`service '${name}' has an invalid port mapping '${port}'`);
+          continue;
+        }
+        const hostPort = String(port).includes(':') ? String(port).split(':')[0] : undefined;
+        if (hostPort && hostPorts.has(hostPort)) {
+          errors.push(`service '${name}' publishes host port ${hostPort}, which service '${hostPorts.get(hostPort)}' already uses`);
+        } else if (hostPort) {
+          hostPorts.set(hostPort, name);
+        }
+      }
+      for (const dependency of service.depends_on || []) {
+        if (!services[dependency]) errors.push(`service '${name}' depends on undefined service '${dependency}'`);
+      }
+    }
+    return errors;
+  }
+
+  validateKubernetes(manifests: KubernetesManifest[]): string[] {
+    const errors: string[] = [];
+    const dnsLabel = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+    const deployments = manifests.filter(manifest => manifest.kind === 'Deployment');
+
+    for (const manifest of manifests) {
+      const where = `${manifest.kind || 'manifest'} '${manifest.metadata?.name || '?'}'`;
+      if (!manifest.apiVersion || !manifest.kind) errors.push(`${where} needs apiVersion and kind`);
+      if (!manifest.metadata?.name || !dnsLabel.test(manifest.metadata.name) || manifest.metadata.name.length > 63) {
+        errors.push(`${where} needs metadata.name as a DNS-1123 label (lowercase alphanumeric and -, at most 63 characters)`);
+      }
+
+      if (manifest.kind === 'Deployment') {
+        const matchLabels = manifest.spec?.selector?.matchLabels || {};
+        const templateLabels = manifest.spec?.template?.metadata?.labels || {};
+        if (Object.keys(matchLabels).length === 0 || Object.entries(matchLabels).some(([key, value]) => templateLabels[key] !== value)) {
+          errors.push(`${where}: spec.selector.matchLabels must be non-empty and match the pod template labels`);
+        }
+        if (!Number.isInteger(manifest.spec?.replicas) || manifest.spec.replicas < 1) errors.push(`${where}: spec.replicas must be a positive integer`);
+        const containers = manifest.spec?.template?.spec?.containers || [];
+        if (containers.length === 0) errors.push(`${where} needs at least one container`);
+        for (const container of containers) {
+          if (!container.name || !dnsLabel.test(container.name)) errors.push(`${where}: container name '${container.name}' is not a DNS-1123 label`);
+          if (!container.image) errors.push(`${where}: container '${container.name}' needs an image`);
+          for (const port of container.ports || []) {
+            if (!Number.isInteger(port.containerPort) || port.containerPort < 1 || port.containerPort > 65535) errors.push(`${where}: containerPort ${port.containerPort} is out of range`);
+          }
+          const { requests = {}, limits = {} } = container.resources || {};
+          for (const resource of ['cpu', 'memory']) {
+            if (requests[resource] && limits[resource] && this.quantity(requests[resource]) > this.quantity(limits[resource])) {
+              errors.push(`${where}: ${resource} request ${requests[resource]} exceeds the limit ${limits[resource]}`);
+            }
+          }
+        }
+      }
+
+      if (manifest.kind === 'Service') {
+        const selector = manifest.spec?.selector || {};
+        if (Object.keys(selector).length === 0) errors.push(`${where} needs spec.selector`);
+        if (!deployments.some(deployment => Object.entries(selector).every(([key, value]) => deployment.spec?.template?.metadata?.labels?.[key] === value))) {
+          errors.push(`${where}: spec.selector matches no Deployment's pod labels`);
+        }
+        for (const port of manifest.spec?.ports || []) {
+          if (!Number.isInteger(port.port) || port.port < 1 || port.port > 65535) errors.push(`${where}: port ${port.port} is out of range`);
+        }
+      }
+
+      if (manifest.kind === 'HorizontalPodAutoscaler') {
+        const target = manifest.spec?.scaleTargetRef;
+        if (manifest.apiVersion !== 'autoscaling/v2') errors.push(`${where} should use autoscaling/v2`);
+        if (target?.kind !== 'Deployment' || !deployments.some(deployment => deployment.metadata?.name === target?.name)) {
+          errors.push(`${where}: scaleTargetRef must name a Deployment in the same file`);
+        }
+        if (!(manifest.spec?.minReplicas >= 1 && manifest.spec.minReplicas <= manifest.spec.maxReplicas)) {
+          errors.push(`${where}: minReplicas must be at least 1 and at most maxReplicas`);
+        }
+        const metrics = manifest.spec?.metrics || [];
+        if (metrics.length === 0) errors.push(`${where} needs at least one metric`);
+        for (const metric of metrics) {
+          const utilization = metric.resource?.target?.averageUtilization;
+          if (utilization !== undefined && (utilization < 1 || utilization > 100)) errors.push(`${where}: averageUtilization ${utilization} must be 1-100`);
+        }
+      }
+    }
+    return errors;
+  }
+
+  // Kubernetes quantity in base units: "500m" CPU is 0.5, "1Gi" memory is 1073741824.
+  private quantity(value: string | number): number {
+    const match = String(value).match(/^(\d+(?:\.\d+)?)(m|Ki|Mi|Gi|Ti|k|M|G|T)?$/);
+    if (!match) return NaN;
+    const factors: Record<string, number> = { m: 1e-3, Ki: 2 ** 10, Mi: 2 ** 20, Gi: 2 ** 30, Ti: 2 ** 40, k: 1e3, M: 1e6, G: 1e9, T: 1e12 };
+    return Number(match[1]) * (match[2] ? factors[match[2]] : 1);
+  }
+
+  // Minimal YAML emitter for the plain objects, arrays and scalars these artifacts use.
+  private toYaml(value: unknown, indent = 0): string {
+    const pad = '  '.repeat(indent);
+    const isNested = (item: unknown) => item !== null && typeof item === 'object' && Object.keys(item as object).length > 0;
+    if (Array.isArray(value)) {
+      return value.map(item => `${pad}- ${isNested(item) ? this.toYaml(item, indent + 1).trimStart() : this.yamlScalar(item)}`).join('\n');
+    }
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => isNested(item)
+        ? `${pad}${this.yamlScalar(key)}:\n${this.toYaml(item, indent + 1)}`
+        : `${pad}${this.yamlScalar(key)}: ${Array.isArray(item) ? '[]' : item !== null && typeof item === 'object' ? '{}' : this.yamlScalar(item)}`)
+      .join('\n');
+  }
+
+  private yamlScalar(value: unknown): string {
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    const text = String(value);
+    // Plain strings stay unquoted unless YAML would read them as another type
+    return /^[A-Za-z_./][\w./-]*$/.test(text) && !/^(?:true|false|yes|no|on|off|null|~)$/i.test(text) ? text : JSON.stringify(text);
+  }
+}
@@ -0,0 +1,300 @@
+import type { ExtractedRequirement } from "./architecture_interfaces.ts";
+import type { ArchitectureModel, ArchitectureNode } from "./architecture_modeler.ts";
+
+export type StrideCategory = 'spoofing' | 'tampering' | 'repudiation' | 'information-disclosure' | 'denial-of-service' | 'elevation-of-privilege';
+
+export interface DataFlowElement {
+  id: string; // EE1, P1, DS1, F1
+  name: string;
+  type: 'external-entity' | 'process' | 'data-store' | 'data-flow';
+  zone?: string; // Trust zone of a node: internet, edge, application or data
+  technologies: string[];
+  from?: string; // Flow endpoints, as element ids
+  to?: string;
+  crosses?: string; // Trust boundary id a flow crosses
+  design_components: string[];
+}
+
+export interface TrustBoundary {
+  id: string; // TB1
+  name: string;
+  between: string[]; // Trust zones on either side
+  flows: string[]; // Ids of the flows that cross it
+}
+
+export interface ThreatTemplate {
+  category: StrideCategory;
+  element: DataFlowElement['type'];
+  pattern?: RegExp;
+  severity: 'high' | 'medium' | 'low';
+  title: string;
+  mitigations: string[];
+}
+
+export interface StrideThreat {
+  id: string; // TH-01
+  element: string;
+  element_name: string;
+  category: StrideCategory;
+  title: string;
+  severity: 'high' | 'medium' | 'low';
+  mitigations: string[];
+  requirements: string[]; // Compliance requirements the threat bears on
+  rationale: string[];
+}
+
+export interface ThreatModel {
+  elements: DataFlowElement[];
+  boundaries: TrustBoundary[];
+  threats: StrideThreat[];
+  counts: Record<StrideCategory, number>;
+  markdown: string;
+}
+
+// STRIDE-per-element: the threat categories that apply to each data-flow element type.
+const STRIDE_PER_ELEMENT: Record<DataFlowElement['type'], StrideCategory[]> = {
+  'external-entity': ['spoofing', 'repudiation'],
+  'process': ['spoofing', 'tampering', 'repudiation', 'information-disclosure', 'denial-of-service', 'elevation-of-privilege'],
+  'data-store': ['tampering', 'information-disclosure', 'denial-of-service'],
+  'data-flow': ['tampering', 'information-disclosure', 'denial-of-service']
+};
+
+// Threats per STRIDE category and element type. For each element and category the first entry
+// whose `pattern` matches the element's name and technologies is used, so specific entries come
+// before the generic one. {element} is replaced by the element name.
+const THREAT_CATALOG: ThreatTemplate[] = [
+  {
+    category: 'spoofing', element: 'external-entity', severity: 'high',
+    title: 'An attacker poses as a {element} with stolen or forged credentials',
+    mitigations: ['MFA and short-lived OAuth 2.0/OIDC tokens', 'Rate limits and breached-password checks against credential stuffing']
+  },
+  {
+    category: 'repudiation', element: 'external-entity', severity: 'medium',
+    title: 'A {element} denies having performed an action',
+    mitigations: ['Audit log of security-relevant actions tied to the authenticated identity', 'Append-only log storage with a retention policy']
+  },
+  {
+    category: 'spoofing', element: 'process', pattern: /gateway/i, severity: 'high',
+    title: 'Requests bypass the {element} or impersonate it towards the services',
+    mitigations: ['mTLS between the gateway and services', 'Network policies that admit service traffic only from the gateway']
+  },
+  {
+    category: 'spoofing', element: 'process', severity: 'medium',
+    title: 'A caller impersonates another service or user when calling {element}',
+    mitigations: ['Service identity with mTLS or signed service tokens (SPIFFE)', 'Validate token signature, issuer, audience and expiry on every request']
+  },
+  {
+    category: 'tampering', element: 'process', severity: 'high',
+    title: 'Injected input alters what {element} executes or stores',
+    mitigations: ['Schema validation of every request', 'Parameterized queries and output encoding', 'Dependency and container image scanning in CI']
+  },
+  {
+    category: 'repudiation', element: 'process', pattern: /payment|billing|order/i, severity: 'high',
+    title: 'Transactions in {element} cannot be attributed or disputed reliably',
+    mitigations: ['Signed, immutable transaction records with user and request ids', 'Reconciliation reports against the payment provider']
+  },
+  {
+    category: 'repudiation', element: 'process', severity: 'medium',
+    title: 'Actions in {element} cannot be attributed to a user',
+    mitigations: ['Structured audit logs with user, action and request id', 'Forward logs to tamper-evident central storage']
+  },
+  {
+    category: 'information-disclosure', element: 'process', severity: 'medium',
+    title: '{element} leaks sensitive data through responses, errors or logs',
+    mitigations: ['Return only the fields a client needs and generic error messages', 'Redact secrets and personal data from logs']
+  },
+  {
+    category: 'denial-of-service', element: 'process', pattern: /gateway/i, severity: 'high',
+    title: 'Request floods exhaust the {element}',
+    mitigations: ['Rate limits and quotas per client', 'WAF and DDoS protection in front of the gateway', 'Autoscaling with an upper bound']
+  },
+  {
+    category: 'denial-of-service', element: 'process', pattern: /websocket|notification|collaboration|socket\.io/i, severity: 'medium',
+    title: 'Connection floods exhaust {element}',
+    mitigations: ['Connection limits per user and per node', 'Authenticate before upgrading to WebSocket', 'Idle timeouts and heartbeats']
+  },
+  {
+    category: 'denial-of-service', element: 'process', severity: 'medium',
+    title: 'Expensive requests exhaust {element}',
+    mitigations: ['Timeouts, payload size limits and bulkheads', 'Circuit breakers on downstream calls']
+  },
+  {
+    category: 'elevation-of-privilege', element: 'process', severity: 'high',
+    title: 'Broken access control lets users act beyond their role in {element}',
+    mitigations: ['Deny-by-default authorization checked server-side on every request', 'Least-privilege service accounts without shared admin credentials']
+  },
+  {
+    category: 'tampering', element: 'data-store', severity: 'medium',
+    title: 'Unauthorized modification of data in {element}',
+    mitigations: ['Least-privilege database roles per service', 'Integrity checks and point-in-time backups']
+  },
+  {
+    category: 'information-disclosure', element: 'data-store', pattern: /redis|memcached|cache/i, severity: 'medium',
+    title: 'Cached sessions or personal data are readable from {element}',
+    mitigations: ['Enable authentication, ACLs and TLS', 'Short TTLs, and never cache secrets']
+  },
+  {
+    category: 'information-disclosure', element: 'data-store', pattern: /kafka|rabbitmq|sqs|queue/i, severity: 'medium',
+    title: 'Messages on {element} are readable by any client',
+    mitigations: ['Topic or queue ACLs per service', 'TLS and SASL authentication for clients', 'Encrypt sensitive payload fields']
+  },
+  {
+    category: 'information-disclosure', element: 'data-store', severity: 'high',
+    title: 'Data in {element} is exposed through weak access control or unencrypted storage',
+    mitigations: ['Encryption at rest with managed keys', 'Reachable only from the application zone', 'Field-level encryption or tokenization for regulated data']
+  },
+  {
+    category: 'denial-of-service', element: 'data-store', severity: 'medium',
+    title: '{element} becomes unavailable or runs out of storage or connections',
+    mitigations: ['Replication with automated failover', 'Alerts on storage and connection capacity', 'Connection pools and quotas per service']
+  },
+  {
+    category: 'tampering', element: 'data-flow', severity: 'medium',
+    title: 'Traffic on {element} is modified in transit',
+    mitigations: ['TLS 1.2+ on every hop and mTLS inside the cluster', 'Sign messages that pass through intermediaries']
+  },
+  {
+    category: 'information-disclosure', element: 'data-flow', pattern: /websocket/i, severity: 'medium',
+    title: 'Hijacked WebSocket sessions on {element} expose real-time data',
+    mitigations: ['Authenticate the handshake and check the Origin header', 'Re-authorize every channel or document subscription']
+  },
+  {
+    category: 'information-disclosure', element: 'data-flow', severity: 'medium',
+    title: 'Traffic on {element} is intercepted',
+    mitigations: ['TLS everywhere, with HSTS on public endpoints', 'No tokens or personal data in URLs or query strings']
+  },
+  {
+    category: 'denial-of-service', element: 'data-flow', severity: 'low',
+    title: '{element} is flooded or interrupted',
+    mitigations: ['Connection limits and backpressure', 'Retries with exponential backoff and jitter']
+  }
+];
+
+// Builds a STRIDE threat model from the architecture model: nodes become external entities,
+// processes and data stores in trust zones, connections become data flows, and every flow between
+// zones crosses a trust boundary. Each element gets the STRIDE-per-element threats for its type.
+export class ThreatModeler {
+  private static readonly ZONES: Record<ArchitectureNode['kind'], string> = {
+    client: 'internet', gateway: 'edge', service: 'application', datastore: 'data', cache: 'data', search: 'data', queue: 'data'
+  };
+  private static readonly SEVERITIES: StrideThreat['severity'][] = ['low', 'medium', 'high'];
+
+  model(architecture: ArchitectureModel, requirements: ExtractedRequirement[]): ThreatModel {
+    const elements: DataFlowElement[] = [];
+    const nodeElements = new Map<string, DataFlowElement>();
+    const counters: Record<string, number> = {};
+    const nextId = (prefix: string) => `${prefix}${counters[prefix] = (counters[prefix] || 0) + 1}`;
+
+    for (const node of architecture.nodes) {
+      const type: DataFlowElement['type'] = node.kind === 'client' ? 'external-entity' : node.kind === 'gateway' || node.kind === 'service' ? 'process' : 'data-store';
+      const element: DataFlowElement = {
+        id: nextId(type === 'external-entity' ? 'EE' : type === 'process' ? 'P' : 'DS'),
+        name: node.name,
+        type,
+        zone: ThreatModeler.ZONES[node.kind],
+        technologies: node.technologies,
+        design_components: node.design_components
+      };
+      nodeElements.set(node.id, element);
+      elements.push(element);
+    }
+
+    const boundaries = new Map<string, TrustBoundary>();
+    for (const connection of architecture.connections) {
+      const from = nodeElements.get(connection.from);
+      const to = nodeElements.get(connection.to);
+      if (!from || !to) continue;
+      const flow: DataFlowElement = {
+        id: nextId('F'),
+        name: `${from.name} → ${to.name} (${connection.label})`,
+        type: 'data-flow',
+        technologies: [],
+        from: from.id,
+        to: to.id,
+        design_components: [...new Set([...from.design_components, ...to.design_components])]
+      };
+      if (from.zone !== to.zone) {
+        const zones = [from.zone!, to.zone!];
+        const name = zones.includes('internet') ? 'Internet boundary' : zones.includes('data') ? 'Data tier boundary' : 'Service perimeter';
+        const boundary = boundaries.get(name) || { id: `TB${boundaries.size + 1}`, name, between: [], flows: [] };
+        boundary.between = [...new Set([...boundary.between, ...zones])];
+        boundary.flows.push(flow.id);
+        boundaries.set(name, boundary);
+        flow.crosses = boundary.id;
+      }
+      elements.push(flow);
+    }
+
+    const compliance = requirements.filter(requirement => requirement.kind === 'compliance');
+    const internet = boundaries.get('Internet boundary');
+    // Processes clients reach directly, without a gateway in front
+    const exposed = new Set(elements.filter(element => internet && element.crosses === internet.id).map(element => element.to!));
+    const threats: StrideThreat[] = [];
+    for (const element of elements) {
+      const crossing = element.crosses ? [...boundaries.values()].find(boundary => boundary.id === element.crosses) : undefined;
+      for (const category of STRIDE_PER_ELEMENT[element.type]) {
+        const template = THREAT_CATALOG.find(candidate =>
+          candidate.category === category && candidate.element === element.type &&
+          (!candidate.pattern || candidate.pattern.test(`${element.name} ${element.technologies.join(' ')}`))
+        );
+        if (!template) continue;
+
+        let level = ThreatModeler.SEVERITIES.indexOf(template.severity);
+        const rationale: string[] = [];
+        let related: string[] = [];
+        if (element.zone === 'internet' || element.zone === 'edge' || exposed.has(element.id) || (internet && element.crosses === internet.id)) {
+          level++;
+          rationale.push('Exposed to the Internet');
+        } else if (element.type === 'data-flow' && !crossing) {
+          level--;
+          rationale.push('Stays inside one trust zone');
+        }
+        if (compliance.length > 0 && element.type === 'data-store' && (category === 'tampering' || category === 'information-disclosure')) {
+          level++;
+          related = compliance.map(requirement => requirement.id);
+          rationale.push(`May hold data regulated by ${compliance.map(requirement => `${requirement.id} (${requirement.source.text})`).join(', ')}`);
+        }
+
+        threats.push({
+          id: `TH-${String(threats.length + 1).padStart(2, '0')}`,
+          element: element.id,
+          element_name: element.name,
+          category,
+          title: template.title.replace('{element}', element.name),
+          severity: ThreatModeler.SEVERITIES[Math.max(0, Math.min(2, level))],
+          mitigations: template.mitigations,
+          requirements: related,
+          rationale
+        });
+      }
+    }
+
+    const counts = Object.fromEntries(
+      (['spoofing', 'tampering', 'repudiation', 'information-disclosure', 'denial-of-service', 'elevation-of-privilege'] as StrideCategory[])
+        .map(category => [category, threats.filter(threat => threat.category === category).length])
+    ) as Record<StrideCategory, number>;
+    const model: ThreatModel = { elements, boundaries: [...boundaries.values()], threats, counts, markdown: '' };
+    model.markdown = this.renderMarkdown(model);
+    return model;
+  }
+
+  private renderMarkdown(model: ThreatModel): string {
+    const cell = (text: string) => text.replace(/\|/g, '\\|');
+    const letter: Record<StrideCategory, string> = {
+      'spoofing': 'S', 'tampering': 'T', 'repudiation': 'R', 'information-disclosure': 'I', 'denial-of-service': 'D', 'elevation-of-privilege': 'E'
+    };
+    return [
+      'Data-flow elements:',
+      '',
+      '| ID | Element | Type | Trust zone | Technologies |',
+      '|----|---------|------|------------|--------------|',
+      ...model.elements.map(element => `| ${element.id} | ${cell(element.name)} | ${element.type} | ${element.zone || (element.crosses ? `crosses ${element.crosses}` : '-')} | ${cell(element.technologies.join(', ')) || '-'} |`),
+      '',
+      `Trust boundaries: ${model.boundaries.length === 0 ? 'none' : model.boundaries.map(boundary => `${boundary.id} ${boundary.name} (${boundary.between.join(' ↔ ')}; ${boundary.flows.join(', ')})`).join('; ')}`,
+      '',
+      '| ID | Element | STRIDE | Threat | Severity | Mitigations |',
+      '|----|---------|--------|--------|----------|-------------|',
+      ...model.threats.map(threat => `| ${threat.id} | ${threat.element} | ${letter[threat.category]} | ${cell(threat.title)} | ${threat.severity} | ${cell(threat.mitigations.join('; '))} |`)
+    ].join('\n');
+  }
+}
@@ -7,10 +7,540 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
+import * as nodePath from "node:path";
+import { readFileSync, readdirSync, realpathSync, promises as fs } from "node:fs";
+import { fileURLToPath } from "node:url";
 import { execute_command, read_file, write_to_file, replace_in_file, list_files, search_files, browser_action, web_fetch, use_mcp_tool, access_mcp_resource, list_code_definition_names } from "./tools/tool_wrappers.ts";
+import { WorkspaceSandbox, PathPolicyError, DEFAULT_DENYLIST } from "./tools/tool_sandbox.ts";
+import { CommandPolicy, loadCommandPolicyConfig } from "./tools/tool_command_policy.ts";
+import { ALGORITHM_CATALOG } from "./algorithms/algorithm_catalog.ts";
+import type { AlgorithmTemplate, ComplexityGrowth } from "./algorithms/algorithm_catalog.ts";
+import type { RequirementSpan, ExtractedRequirement, DesignElement, RemediationTarget } from "./architecture/architecture_interfaces.ts";
+import { numericParameterError, CapacityPlanner } from "./architecture/architecture_capacity_planner.ts";
+import type { CapacityParameters, CapacityPlan, NumericBound } from "./architecture/architecture_capacity_planner.ts";
+import { ArchitectureModeler } from "./architecture/architecture_modeler.ts";
+import type { ArchitectureModel, ArchitectureDiagrams } from "./architecture/architecture_modeler.ts";
+import { ScaffoldGenerator } from "./architecture/architecture_scaffold_generator.ts";
+import type { ScaffoldFile, DeploymentScaffold } from "./architecture/architecture_scaffold_generator.ts";
+import { AlternativesAnalyzer } from "./architecture/architecture_alternatives_analyzer.ts";
+import type { DesignAlternatives } from "./architecture/architecture_alternatives_analyzer.ts";
+import { DecisionRecorder } from "./architecture/architecture_decision_recorder.ts";
+import type { ArchitectureDecisionRecord } from "./architecture/architecture_decision_recorder.ts";
+import { RiskAssessor } from "./architecture/architecture_risk_assessor.ts";
+import type { RiskRegister } from "./architecture/architecture_risk_assessor.ts";
+import { ThreatModeler } from "./architecture/architecture_threat_modeler.ts";
+import type { ThreatModel } from "./architecture/architecture_threat_modeler.ts";
 // Fixed chalk import for ESM
 import chalk from 'chalk';
 
+const DEFAULT_TOOL_PLAN_STEPS = 5;
+const MAX_COGNITIVE_STEPS = 10;
+const DEFAULT_STEP_TIMEOUT_MS = 30_000;
+const DEFAULT_TOTAL_TIMEOUT_MS = 120_000;
+// setTimeout's largest delay; longer ones overflow and fire at once
+const MAX_TIMEOUT_MS = 2_147_483_647;
+const DEFAULT_ADR_DIRECTORY = 'docs/adr';
+const DEFAULT_SCAFFOLD_DIRECTORY = 'scaffold';
+// A path in the problem statement that starts with one of these names a workspace target even
+// before it is checked on disk, e.g. "review src/auth"
+const KNOWN_SOURCE_DIRECTORIES = ['src', 'lib', 'app', 'apps', 'packages', 'test', 'tests', 'spec', 'docs', 'scripts', 'tools', 'server', 'client', 'components', 'pages', 'cmd', 'internal', 'pkg'];
+
+const BUILT_IN_STRATEGIES: StrategyDefinition[] = [
+  {
+    name: 'system-architecture',
+    phases: [
+      { type: 'decompose', focus: 'system-requirements' },
+      { type: 'research', focus: 'architectural-patterns' },
+      { type: 'design', focus: 'component-design' },
+      { type: 'design', focus: 'database-design' },
+      { type: 'capacity', focus: 'capacity-planning' },
+      { type: 'design', focus: 'integration-strategy' },
+      { type: 'design', focus: 'deployment-architecture' },
+      { type: 'validate', focus: 'scalability-analysis' },
+      { type: 'synthesize', focus: 'comprehensive-architecture' }
+    ]
+  },
+  {
+    name: 'algorithmic',
+    phases: [
+      { type: 'decompose', focus: 'problem-constraints' },
+      { type: 'research', focus: 'algorithmic-approaches' },
+      { type: 'design', focus: 'algorithm-design' },
+      { type: 'validate', focus: 'complexity-analysis' },
+      { type: 'synthesize', focus: 'optimized-solution' }
+    ]
+  },
+  {
+    name: 'security',
+    phases: [
+      { type: 'decompose', focus: 'security-requirements' },
+      { type: 'research', focus: 'security-practices' },
+      { type: 'design', focus: 'component-design' },
+      { type: 'threat-model', focus: 'stride' },
+      { type: 'validate', focus: 'security-validation' },
+      { type: 'synthesize', focus: 'security-assessment' }
+    ]
+  },
+  {
+    name: 'business-strategy',
+    phases: [
+      { type: 'decompose', focus: 'business-objectives' },
+      { type: 'research', focus: 'market-analysis' },
+      { type: 'design', focus: 'strategic-plan' },
+      { type: 'validate', focus: 'risk-assessment' },
+      { type: 'synthesize', focus: 'actionable-strategy' }
+    ]
+  }
+];
+
+// Section layout of the final report per problem type. Sections are filled only from the
+// components a run produced; a section with no matching component is left out.
+const REPORT_TEMPLATES: Record<string, ReportTemplate> = {
+  'system-architecture': {
+    title: 'SYSTEM ARCHITECTURE',
+    sections: [
+      { heading: 'SYSTEM REQUIREMENTS', phaseTypes: ['decompose'] },
+      { heading: 'ARCHITECTURAL FOUNDATION', phaseTypes: ['research'] },
+      { heading: 'COMPONENT DESIGN', phaseTypes: ['design'], focus: ['component-design'] },
+      { heading: 'DATA ARCHITECTURE', phaseTypes: ['design'], focus: ['database-design'] },
+      { heading: 'INTEGRATION STRATEGY', phaseTypes: ['design'], focus: ['integration-strategy'] },
+      { heading: 'DEPLOYMENT ARCHITECTURE', phaseTypes: ['design'], focus: ['deployment-architecture'] },
+      { heading: 'ADDITIONAL DESIGN', phaseTypes: ['design'] },
+      { heading: 'CAPACITY PLAN', phaseTypes: ['capacity'] },
+      { heading: 'VALIDATION & RISK ASSESSMENT', phaseTypes: ['validate'] }
+    ]
+  },
+  'algorithmic': {
+    title: 'ALGORITHM DESIGN',
+    sections: [
+      { heading: 'PROBLEM CONSTRAINTS', phaseTypes: ['decompose'] },
+      { heading: 'CANDIDATE APPROACHES', phaseTypes: ['research'] },
+      { heading: 'ALGORITHM DESIGN', phaseTypes: ['design'] },
+      { heading: 'COMPLEXITY ANALYSIS', phaseTypes: ['validate'] }
+    ]
+  },
+  'security': {
+    title: 'SECURITY ASSESSMENT',
+    sections: [
+      { heading: 'SECURITY REQUIREMENTS', phaseTypes: ['decompose'] },
+      { heading: 'THREAT LANDSCAPE & PRACTICES', phaseTypes: ['research'] },
+      { heading: 'SECURITY CONTROLS', phaseTypes: ['design'] },
+      { heading: 'THREAT MODEL (STRIDE)', phaseTypes: ['threat-model'] },
+      { heading: 'SECURITY VALIDATION', phaseTypes: ['validate'] }
+    ]
+  },
+  'data-management': {
+    title: 'DATA MANAGEMENT PLAN',
+    sections: [
+      { heading: 'DATA REQUIREMENTS', phaseTypes: ['decompose'] },
+      { heading: 'DATA MANAGEMENT PRACTICES', phaseTypes: ['research'] },
+      { heading: 'DATA ARCHITECTURE', phaseTypes: ['design'] },
+      { heading: 'DATA VALIDATION', phaseTypes: ['validate'] }
+    ]
+  },
+  'optimization': {
+    title: 'OPTIMIZATION PLAN',
+    sections: [
+      { heading: 'PERFORMANCE GOALS', phaseTypes: ['decompose'] },
+      { heading: 'OPTIMIZATION TECHNIQUES', phaseTypes: ['research'] },
+      { heading: 'OPTIMIZATION DESIGN', phaseTypes: ['design'] },
+      { heading: 'EXPECTED IMPACT & VERIFICATION', phaseTypes: ['validate'] }
+    ]
+  },
+  'design': {
+    title: 'DESIGN PROPOSAL',
+    sections: [
+      { heading: 'DESIGN REQUIREMENTS', phaseTypes: ['decompose'] },
+      { heading: 'DESIGN RESEARCH', phaseTypes: ['research'] },
+      { heading: 'PROPOSED DESIGN', phaseTypes: ['design'] },
+      { heading: 'DESIGN VALIDATION', phaseTypes: ['validate'] }
+    ]
+  },
+  'business-strategy': {
+    title: 'BUSINESS STRATEGY',
+    sections: [
+      { heading: 'BUSINESS OBJECTIVES', phaseTypes: ['decompose'] },
+      { heading: 'MARKET ANALYSIS', phaseTypes: ['research'] },
+      { heading: 'STRATEGIC PLAN', phaseTypes: ['design'] },
+      { heading: 'RISK ASSESSMENT', phaseTypes: ['validate'] }
+    ]
+  }
+};
+
+const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  title: 'SOLUTION REPORT',
+  sections: [
+    { heading: 'REQUIREMENTS', phaseTypes: ['decompose'] },
+    { heading: 'RESEARCH', phaseTypes: ['research'] },
+    { heading: 'SOLUTION DESIGN', phaseTypes: ['design'] },
+    { heading: 'VALIDATION', phaseTypes: ['validate'] }
+  ]
+};
+
+// Appended to every template
+const COMMON_REPORT_SECTIONS: ReportSectionTemplate[] = [
+  { heading: 'REQUIREMENT REMEDIATION', phaseTypes: ['design'], focus: ['requirement-remediation'] },
+  { heading: 'DESIGN ALTERNATIVES', phaseTypes: ['alternatives'] },
+  { heading: 'THREAT MODEL', phaseTypes: ['threat-model'] },
+  { heading: 'CAPACITY PLAN', phaseTypes: ['capacity'] },
+  { heading: 'ARCHITECTURE DIAGRAM', phaseTypes: ['diagram'] },
+  { heading: 'ARCHITECTURE DECISIONS', phaseTypes: ['decision'] },
+  { heading: 'DEPLOYMENT SCAFFOLD', phaseTypes: ['scaffold'] },
+  { heading: 'RISK REGISTER', phaseTypes: ['risk'] },
+  { heading: 'IMPLEMENTATION PLAN', phaseTypes: ['synthesize'] },
+  { heading: 'EFFORT & COST ESTIMATE', phaseTypes: ['estimate'] },
+  { heading: 'CODE REVIEW FINDINGS', phaseTypes: ['analyze'] }
+];
+
+// Heading for components of phase types no section lists
+const UNMAPPED_REPORT_HEADING = 'ADDITIONAL ANALYSIS';
+
+// Role digests. Keywords pick the items a role cares about (and prioritize summary sentences);
+// `always` lists item kinds the role sees regardless of keywords; `actions` phrase an action item
+// per item kind. Custom roles from the request use CUSTOM_ROLE_ACTIONS and keywords only.
+const ROLE_PROFILES: Record<string, RoleProfile> = {
+  'project manager': {
+    keywords: ['timeline', 'budget', 'resource', 'scope', 'milestone', 'risk', 'status', 'stakeholder', 'progress', 'deadline', 'team', 'cost'],
+    always: ['gap', 'constraint', 'risk', 'blocker'],
+    actions: {
+      gap: 'Decide whether this is in scope and schedule the work: {item}',
+      constraint: 'Track against the plan: {item}',
+      risk: 'Assign an owner and a mitigation date: {item}',
+      blocker: 'Get this unblocked: {item}',
+      finding: 'Check the impact on scope or schedule: {item}'
+    }
+  },
+  'security engineer': {
+    keywords: ['security', 'vulnerability', 'authentication', 'authorization', 'encryption', 'compliance', 'threat', 'exploit', 'audit', 'gdpr', 'hipaa', 'pci', 'secret', 'credential', 'approval'],
+    always: ['blocker'],
+    actions: {
+      gap: 'Define the security control for: {item}',
+      constraint: 'Map the controls this requires: {item}',
+      risk: 'Threat-model and mitigate: {item}',
+      blocker: 'Review before approving: {item}',
+      finding: 'Review for security impact: {item}'
+    }
+  },
+  'developer': {
+    keywords: ['code', 'implementation', 'api', 'bug', 'feature', 'refactor', 'framework', 'library', 'test', 'deploy', 'service', 'design', 'latency', 'consistency'],
+    always: ['gap', 'blocker'],
+    actions: {
+      gap: 'Design and implement a component for: {item}',
+      constraint: 'Keep the implementation within: {item}',
+      risk: 'Add safeguards in code for: {item}',
+      blocker: 'Fix: {item}',
+      finding: 'Implement or prototype: {item}'
+    }
+  },
+  'qa engineer': {
+    keywords: ['test', 'bug', 'defect', 'quality', 'coverage', 'regression', 'scenario', 'validation', 'verify', 'latency', 'throughput', 'availability'],
+    always: ['gap', 'requirement'],
+    actions: {
+      gap: 'Write acceptance criteria before design starts: {item}',
+      requirement: 'Add a test that verifies: {item}',
+      constraint: 'Confirm test scope fits: {item}',
+      risk: 'Add a test scenario that exercises: {item}',
+      blocker: 'Reproduce and file: {item}',
+      finding: 'Cover with tests: {item}'
+    }
+  },
+  'devops engineer': {
+    keywords: ['deploy', 'pipeline', 'ci/cd', 'kubernetes', 'docker', 'infrastructure', 'monitor', 'log', 'scale', 'uptime', 'availability', 'throughput', 'latency', 'command', 'data volume'],
+    always: ['blocker'],
+    actions: {
+      gap: 'Plan infrastructure for: {item}',
+      requirement: 'Set an SLO and alert for: {item}',
+      constraint: 'Size infrastructure within: {item}',
+      risk: 'Add monitoring and a runbook for: {item}',
+      blocker: 'Investigate: {item}',
+      finding: 'Check operational impact: {item}'
+    }
+  }
+};
+
+const CUSTOM_ROLE_ACTIONS: RoleProfile['actions'] = {
+  gap: 'Follow up: {item}',
+  requirement: 'Confirm: {item}',
+  constraint: 'Confirm: {item}',
+  risk: 'Assess: {item}',
+  blocker: 'Resolve: {item}',
+  finding: 'Review: {item}'
+};
+
+const STRATEGY_PHASE_TYPES = ['decompose', 'research', 'design', 'capacity', 'threat-model', 'validate', 'synthesize'];
+
+const REAL_TOOL_NAMES = new Set([
+  'execute_command', 'read_file', 'write_to_file', 'replace_in_file', 'list_files', 'search_files',
+  'browser_action', 'web_fetch', 'use_mcp_tool', 'access_mcp_resource', 'list_code_definition_names'
+]);
+
+// Built-in knowledge pack. Teams can add or override entries with JSON packs in
+// COGNITIVE_KNOWLEDGE_DIR; an entry id that appears in several packs keeps its highest version.
+const BUILT_IN_KNOWLEDGE_PACK: KnowledgePack = {
+  name: 'built-in',
+  version: '1.0.0',
+  description: 'General architecture guidance shipped with the server',
+  entries: [
+    {
+      id: 'load-balancing',
+      version: '1.0.0',
+      title: 'Load balancing (round-robin, least connections, consistent hashing)',
+      tags: ['system-architecture', 'high-throughput', 'high-scale', 'high-availability', 'scalability'],
+      domains: ['system-requirements', 'architectural-patterns', 'scalability-analysis'],
+      summary: 'Spread requests over a pool of stateless instances behind an L4/L7 balancer; use consistent hashing when requests need shard or cache affinity.',
+      tradeoffs: ['Adds a network hop and a component to operate', 'Sticky sessions reduce balancing quality'],
+      when_to_use: ['More traffic than one instance can serve', 'Instances must be replaceable without downtime'],
+      when_not_to_use: ['Single-instance internal tools with no availability target']
+    },
+    {
+      id: 'caching',
+      version: '1.0.0',
+      title: 'Caching layers (Redis, Memcached, CDN)',
+      tags: ['low-latency', 'high-throughput', 'high-scale', 'optimization', 'performance', 'cache'],
+      domains: ['system-requirements', 'architectural-patterns', 'scalability-analysis', 'domain-knowledge'],
+      summary: 'Serve hot reads from memory or the edge with explicit TTLs and an invalidation strategy (cache-aside or write-through).',
+      tradeoffs: ['Stale reads unless invalidation is exact', 'Cold-start and stampede risk after flushes'],
+      when_to_use: ['Read-heavy workloads with repeated keys', 'Latency targets tighter than the datastore can meet'],
+      when_not_to_use: ['Write-heavy data that changes on every read', 'Data that must always be strongly consistent'],
+      avoid_tags: ['strong-consistency']
+    },
+    {
+      id: 'message-queues',
+      version: '1.0.0',
+      title: 'Message queues and logs (Kafka, RabbitMQ, SQS)',
+      tags: ['high-throughput', 'async', 'event', 'streaming', 'large-data', 'system-architecture'],
+      domains: ['system-requirements', 'architectural-patterns', 'integration-strategy'],
+      summary: 'Decouple producers from consumers with a durable queue or log so bursts are absorbed and work is processed at the consumer\'s pace.',
+      tradeoffs: ['Eventual consistency between producer and consumer', 'Requires idempotent consumers and dead-letter handling'],
+      when_to_use: ['Bursty write traffic', 'Work that can complete after the request returns', 'Fan-out to several consumers'],
+      when_not_to_use: ['Synchronous request/response paths with tight latency budgets'],
+      avoid_tags: ['low-latency']
+    },
+    {
+      id: 'microservices-api-gateway',
+      version: '1.0.0',
+      title: 'Microservices behind an API gateway',
+      tags: ['microservices', 'system-architecture', 'high-scale', 'scalability'],
+      domains: ['architectural-patterns', 'component-design', 'integration-strategy'],
+      summary: 'Split the system into independently deployable services per bounded context, fronted by a gateway that handles routing, authentication and rate limiting.',
+      tradeoffs: ['Independent scaling and deploys', 'Distributed failures, network latency and operational overhead'],
+      when_to_use: ['Several teams need to ship independently', 'Components have very different scaling profiles'],
+      when_not_to_use: ['Small teams or early products where a modular monolith ships faster', 'Tight deadlines without existing platform tooling'],
+      avoid_tags: ['small-team', 'tight-deadline']
+    },
+    {
+      id: 'modular-monolith',
+      version: '1.0.0',
+      title: 'Modular monolith',
+      tags: ['small-team', 'tight-deadline', 'cost-sensitive', 'system-architecture', 'design'],
+      domains: ['architectural-patterns', 'component-design', 'domain-knowledge'],
+      summary: 'One deployable with strict module boundaries and internal interfaces, so modules can be extracted into services later.',
+      tradeoffs: ['Simple operations and transactions', 'Scales as one unit; one bad release affects everything'],
+      when_to_use: ['Small teams', 'Unclear domain boundaries', 'Limited budget for platform work'],
+      when_not_to_use: ['Components with very different scaling or availability needs'],
+      avoid_tags: ['high-scale']
+    },
+    {
+      id: 'event-driven-architecture',
+      version: '1.0.0',
+      title: 'Event-driven architecture',
+      tags: ['real-time', 'event', 'async', 'high-throughput', 'system-architecture'],
+      domains: ['architectural-patterns', 'integration-strategy'],
+      summary: 'Services publish domain events and react to each other\'s events instead of calling each other directly.',
+      tradeoffs: ['Loose coupling and easy fan-out', 'Harder to trace flows and reason about ordering'],
+      when_to_use: ['Real-time updates to many subscribers', 'Integrations that should not block the core flow'],
+      when_not_to_use: ['Simple CRUD flows where a direct call is clearer']
+    },
+    {
+      id: 'cqrs-event-sourcing',
+      version: '1.0.0',
+      title: 'CQRS and event sourcing',
+      tags: ['data-management', 'audit', 'high-throughput', 'event'],
+      domains: ['architectural-patterns', 'system-requirements', 'domain-knowledge'],
+      summary: 'Separate the write model from read models; optionally store state as an append-only event log and project read views from it.',
+      tradeoffs: ['Independent read/write scaling and a full audit trail', 'More moving parts and eventually consistent reads'],
+      when_to_use: ['Read and write loads differ by orders of magnitude', 'Audit or compliance needs a complete change history'],
+      when_not_to_use: ['Simple domains', 'Small teams without event-store experience'],
+      avoid_tags: ['small-team']
+    },
+    {
+      id: 'saga-pattern',
+      version: '1.0.0',
+      title: 'Saga pattern for distributed transactions',
+      tags: ['microservices', 'payment', 'consistency', 'transactions'],
+      domains: ['architectural-patterns', 'integration-strategy'],
+      summary: 'Run a business transaction as a sequence of local transactions with compensating actions, orchestrated or choreographed.',
+      tradeoffs: ['Avoids distributed locks', 'Compensation logic is complex and intermediate states are visible'],
+      when_to_use: ['Transactions that span services that own their own data'],
+      when_not_to_use: ['Data that lives in a single database, where a local transaction suffices']
+    },
+    {
+      id: 'sharding-read-replicas',
+      version: '1.0.0',
+      title: 'Database sharding and read replicas',
+      tags: ['large-data', 'high-scale', 'high-throughput', 'data-management', 'database'],
+      domains: ['system-requirements', 'scalability-analysis', 'domain-knowledge'],
+      summary: 'Scale reads with replicas first; partition data by a high-cardinality key once a single primary cannot hold the write load or the data set.',
+      tradeoffs: ['Near-linear capacity growth', 'Cross-shard queries, rebalancing and hot keys'],
+      when_to_use: ['Data sets past a single node\'s storage', 'Write load past one primary'],
+      when_not_to_use: ['Data sets that fit comfortably on one node with headroom']
+    },
+    {
+      id: 'multi-region-active-active',
+      version: '1.0.0',
+      title: 'Multi-zone and multi-region redundancy',
+      tags: ['high-availability', 'disaster-recovery', 'system-architecture'],
+      domains: ['architectural-patterns', 'scalability-analysis', 'deployment-architecture'],
+      summary: 'Run redundant capacity across availability zones (and regions for the strictest targets) with automated failover and regular failover drills.',
+      tradeoffs: ['Survives zone or region loss', 'Higher cost and harder data replication'],
+      when_to_use: ['Availability targets of 99.95% or more', 'Regulatory disaster-recovery requirements'],
+      when_not_to_use: ['Internal tools with relaxed availability', 'Budgets that cannot carry duplicate capacity'],
+      avoid_tags: ['cost-sensitive']
+    },
+    {
+      id: 'circuit-breaker-resilience',
+      version: '1.0.0',
+      title: 'Circuit breakers, timeouts and bulkheads',
+      tags: ['high-availability', 'microservices', 'resilience'],
+      domains: ['integration-strategy', 'scalability-analysis'],
+      summary: 'Bound every remote call with a timeout, retry with jittered backoff, and trip a breaker so a failing dependency degrades a feature instead of the system.',
+      tradeoffs: ['Contains cascading failures', 'Needs tuning and a defined fallback per call'],
+      when_to_use: ['Any synchronous call to another service or third party'],
+      when_not_to_use: ['In-process calls']
+    },
+    {
+      id: 'observability-tracing',
+      version: '1.0.0',
+      title: 'Distributed tracing and SLO-based monitoring',
+      tags: ['microservices', 'high-availability', 'low-latency', 'observability'],
+      domains: ['integration-strategy', 'scalability-analysis', 'domain-knowledge'],
+      summary: 'Propagate trace context across services, record latency percentiles per endpoint and alert on SLO burn rate rather than raw thresholds.',
+      tradeoffs: ['Fast diagnosis of latency and errors', 'Telemetry storage cost and instrumentation effort'],
+      when_to_use: ['Latency percentile or availability targets must be proven', 'More than a handful of services'],
+      when_not_to_use: ['Prototypes that will be thrown away']
+    },
+    {
+      id: 'crdt-operational-transformation',
+      version: '1.0.0',
+      title: 'CRDTs and operational transformation for collaborative editing',
+      tags: ['collaboration', 'real-time', 'offline', 'conflict'],
+      domains: ['architectural-patterns', 'component-design', 'algorithmic-approaches'],
+      summary: 'Merge concurrent edits deterministically: OT with a central server, or CRDTs when peers must edit offline and converge later.',
+      tradeoffs: ['Conflict-free convergence', 'CRDT metadata growth; OT needs a central ordering service'],
+      when_to_use: ['Several users editing the same document concurrently', 'Offline edits that must sync later'],
+      when_not_to_use: ['Single-writer data, where optimistic locking is enough']
+    },
+    {
+      id: 'zero-trust-security',
+      version: '1.0.0',
+      title: 'Zero-trust access and least privilege',
+      tags: ['security', 'compliance', 'authentication', 'authorization'],
+      domains: ['domain-knowledge', 'architectural-patterns', 'integration-strategy', 'security-practices'],
+      summary: 'Authenticate and authorize every request (mTLS between services, short-lived tokens for users) and grant each identity only the permissions it needs.',
+      tradeoffs: ['Limits lateral movement after a breach', 'Identity and certificate infrastructure to run'],
+      when_to_use: ['Sensitive or regulated data', 'Services spread across networks or clouds'],
+      when_not_to_use: ['Never skipped outright; scale the rollout to the risk']
+    },
+    {
+      id: 'data-protection-compliance',
+      version: '1.0.0',
+      title: 'Data protection controls for regulated data (GDPR, HIPAA, PCI DSS)',
+      tags: ['compliance', 'gdpr', 'hipaa', 'pci-dss', 'soc-2', 'security', 'data-management', 'payment'],
+      domains: ['domain-knowledge', 'system-requirements', 'architectural-patterns', 'security-practices'],
+      summary: 'Classify data, encrypt it in transit and at rest with managed keys, minimize what is stored, keep audit logs, and isolate regulated data (e.g. tokenize card data to shrink PCI scope).',
+      tradeoffs: ['Reduces breach impact and audit scope', 'Key management, retention and data-subject request processes to operate'],
+      when_to_use: ['Personal, health or payment data is stored or processed'],
+      when_not_to_use: ['Public, non-personal data only']
+    },
+    {
+      id: 'profiling-first-optimization',
+      version: '1.0.0',
+      title: 'Measure-first performance optimization',
+      tags: ['optimization', 'performance', 'low-latency', 'algorithmic'],
+      domains: ['domain-knowledge', 'algorithmic-approaches'],
+      summary: 'Profile under representative load, fix the dominant cost (algorithmic complexity, I/O round trips, allocation) and re-measure against the latency target.',
+      tradeoffs: ['Effort goes where it pays off', 'Needs realistic load and data to be meaningful'],
+      when_to_use: ['A measurable latency or throughput target is missed'],
+      when_not_to_use: ['No baseline measurement exists yet']
+    },
+    {
+      id: 'incremental-market-validation',
+      version: '1.0.0',
+      title: 'Incremental market validation',
+      tags: ['business-strategy', 'market', 'tight-deadline', 'cost-sensitive'],
+      domains: ['market-analysis'],
+      summary: 'Test demand with the smallest experiment that can fail (landing page, pilot customer, concierge MVP) before committing the full budget.',
+      tradeoffs: ['Cheap learning and less sunk cost', 'Small samples can mislead; slower to full scale'],
+      when_to_use: ['Unproven demand or pricing', 'Budget or runway is limited'],
+      when_not_to_use: ['Regulatory or contractual commitments that fix scope up front']
+    }
+  ]
+};
+
+// Evidence that a design element addresses a requirement, by requirement kind. Budget,
+// deadline and team-size constraints are not met by components, and input size, memory limit
+// and update rate are checked by the complexity analysis, so they are not traced here.
+const REQUIREMENT_EVIDENCE: Partial<Record<ExtractedRequirement['kind'], EvidenceRule[]>> = {
+  'throughput': [
+    { label: 'load balancing', pattern: /load balanc/i, remedy: 'Load balancing across stateless service replicas' },
+    { label: 'autoscaling', pattern: /auto-?scal|autoscaler/i, remedy: 'Autoscaling on request rate and CPU utilization' },
+    { label: 'message queue', pattern: /kafka|rabbitmq|sqs|message queue|event bus/i, remedy: 'Message queue (Kafka) to absorb write bursts asynchronously' },
+    { label: 'rate limiting', pattern: /rate limit/i, remedy: 'Rate limiting per client at the gateway to protect capacity' },
+    { label: 'sharding', pattern: /shard/i, remedy: 'Sharding or partitioning of the largest tables by key' }
+  ],
+  'latency': [
+    { label: 'caching', pattern: /cache|caching|redis|memcached/i, remedy: 'Read-through caching of hot data in Redis' },
+    { label: 'CDN', pattern: /\bcdn\b|cloudfront|cloudflare/i, remedy: 'CDN edge caching for static assets and cacheable responses' },
+    { label: 'persistent connections', pattern: /websocket|socket\.io|grpc/i, remedy: 'Persistent gRPC connections between services' },
+    { label: 'read replicas', pattern: /read replica/i, remedy: 'Read replicas close to the services that query them' }
+  ],
+  'availability': [
+    { label: 'replication', pattern: /replica/i, remedy: 'Replicated datastores with a standby replica and automated promotion' },
+    { label: 'multi-region', pattern: /multi-region|multi-az|failover/i, remedy: 'Multi-AZ deployment with automated failover' },
+    { label: 'health checks', pattern: /health check/i, remedy: 'Health checks that remove unhealthy instances from rotation' },
+    { label: 'circuit breaker', pattern: /circuit breaker/i, remedy: 'Circuit breaker on every cross-service call' },
+    { label: 'rolling updates', pattern: /rolling update/i, remedy: 'Rolling updates with readiness gates for zero-downtime deploys' }
+  ],
+  'data-volume': [
+    { label: 'sharding', pattern: /shard|partition/i, remedy: 'Sharding or partitioning of the largest tables by key' },
+    { label: 'scalable storage', pattern: /gridfs|object storage|\bs3\b|elasticsearch|cluster/i, remedy: 'Object storage (S3) for bulk and archival data' },
+    { label: 'retention/TTL', pattern: /retention|ttl/i, remedy: 'Retention policies and TTL-based expiry for transient data' }
+  ],
+  'user-scale': [
+    { label: 'horizontal scaling', pattern: /horizontal|auto-?scal|autoscaler/i, remedy: 'Horizontal scaling of stateless services behind the gateway' },
+    { label: 'load balancing', pattern: /load balanc/i, remedy: 'Load balancing across stateless service replicas' },
+    { label: 'connection management', pattern: /connection (?:pool|management)|pgbouncer/i, remedy: 'Connection pooling (PgBouncer) to bound database connections' },
+    { label: 'CDN', pattern: /\bcdn\b/i, remedy: 'CDN edge caching for static assets and cacheable responses' }
+  ],
+  'compliance': [
+    { label: 'access control', pattern: /access control|rbac|permissions/i, remedy: 'Role-based access control (RBAC) on every endpoint' },
+    { label: 'secrets management', pattern: /secrets management|encrypt/i, remedy: 'Secrets management with encryption at rest and in transit' },
+    { label: 'audit trail', pattern: /audit|event sourcing/i, remedy: 'Append-only audit trail of security-relevant events' },
+    { label: 'network isolation', pattern: /network polic|isolation/i, remedy: 'Network policies isolating services that handle regulated data' }
+  ]
+};
+
+// Functional requirements are traced by what the statement asked for.
+const FUNCTIONAL_EVIDENCE: Array<{ requirement: RegExp; evidence: EvidenceRule[] }> = [
+  { requirement: /authentication/i, evidence: [{ label: 'authentication', pattern: /authenticat|jwt/i, remedy: 'Authentication service issuing short-lived JWTs' }] },
+  { requirement: /authorization/i, evidence: [{ label: 'access control', pattern: /access control|rbac|permissions/i, remedy: 'Role-based access control (RBAC) on every endpoint' }] },
+  { requirement: /real-?time/i, evidence: [{ label: 'real-time transport', pattern: /real-time|websocket|socket\.io/i, remedy: 'Real-time updates pushed over WebSocket connections' }] },
+  { requirement: /offline/i, evidence: [{ label: 'offline support', pattern: /offline/i, remedy: 'Offline queue on the client that syncs when connectivity returns' }] },
+  { requirement: /collaborat/i, evidence: [{ label: 'collaboration engine', pattern: /collaborat|operational transformation/i, remedy: 'Collaboration engine merging concurrent edits' }] },
+  { requirement: /conflict resolution/i, evidence: [{ label: 'conflict resolution', pattern: /conflict (?:resolution|prevention|detection)|conflict-free|vector clock|operational transformation|crdt|last-write-wins/i, remedy: 'Conflict resolution with vector clocks or CRDTs' }] },
+  { requirement: /consistency/i, evidence: [{ label: 'consistency mechanism', pattern: /consisten|saga|\bacid\b|event sourcing|optimistic locking/i, remedy: 'Consistency through sagas with compensating actions' }] },
+  { requirement: /search/i, evidence: [{ label: 'search index', pattern: /\bsearch|elasticsearch|opensearch|full-text/i, remedy: 'Search index (Elasticsearch) updated from change events' }] },
+  { requirement: /notification/i, evidence: [{ label: 'notifications', pattern: /notification|\bapns\b|\bfcm\b/i, remedy: 'Notification service for in-app and push delivery' }] },
+  { requirement: /payment/i, evidence: [{ label: 'payment handling', pattern: /payment|billing/i, remedy: 'Payment service integrating a PCI-compliant provider, with billing records' }] },
+  {
+    requirement: /microservice/i,
+    evidence: [
+      { label: 'service decomposition', pattern: /microservice|bounded context|service boundar|independently deployable|database per service|\b(?:user|account|auth|order|payment|billing|inventory|catalog|document|collaboration|notification|search) service\b/i, remedy: 'Service boundaries drawn around business capabilities' },
+      { label: 'inter-service communication', pattern: /service-to-service|inter-service|internal service communication|service mesh|service discovery|api gateway/i, remedy: 'API gateway routing to services found through service discovery' }
+    ]
+  }
+];
+
 interface ThoughtData {
   thought: string;
   thoughtNumber: number;
@@ -81,6 +611,19 @@ interface CognitiveThinkingInput {
   focus_areas?: Array<'sentiment' | 'key_concepts' | 'summary' | 'urgency' | 'tone' | 'research' | 'analysis'>;
   enable_real_tools?: boolean;
   summary_role?: string; // New parameter for role-based summarization
+  custom_roles?: CustomRole[];
+  digest_source?: 'result' | 'thought_session';
+  estimation?: EstimationParameters;
+  capacity?: CapacityParameters;
+  adr_format?: 'madr' | 'nygard';
+  write_adrs?: boolean;
+  adr_directory?: string;
+  generate_scaffold?: boolean;
+  scaffold_directory?: string;
+  generate_alternatives?: boolean;
+  step_timeout_ms?: number;
+  total_timeout_ms?: number;
+  approved_commands?: string[]; // approval_id values from earlier pending_approval records
 }
 
 interface CognitiveTraceStep {
@@ -92,6 +635,327 @@ interface CognitiveTraceStep {
   tool_called?: string;
   tool_args?: any;
   tool_result_summary?: string;
+  status?: 'completed' | 'error' | 'aborted' | 'pending_approval' | 'skipped';
+  abort_reason?: string;
+  error?: ToolErrorDetail;
+  plan?: Array<{ step: number; tool: string; purpose: string }>;
+  replan?: ReplanRecord;
+}
+
+interface StrategyPhase {
+  type: string;
+  focus: string;
+  tool?: string; // Real tool to call for 'tool' phases
+  remediation?: { iteration: number; trigger_step: number; targets: RemediationTarget[] }; // Set on phases inserted by re-planning
+}
+
+interface StrategyMatcher {
+  keywords?: string[];
+  patterns?: string[]; // Case-insensitive regular expressions
+  min_matches?: number;
+}
+
+interface StrategyDefinition {
+  name: string; // Problem type the strategy applies to
+  description?: string;
+  priority?: number;
+  matchers?: StrategyMatcher;
+  phases: StrategyPhase[];
+}
+
+interface ConfidenceFactor {
+  name: string;
+  weight: number;
+  score: number; // 0..1
+  detail: string;
+}
+
+interface ConfidenceBreakdown {
+  score: number; // Weighted mean of the factor scores
+  factors: ConfidenceFactor[];
+}
+
+interface EstimationParameters {
+  team_size?: number;
+  hourly_rate?: number; // USD per engineer-hour
+  hours_per_week?: number;
+  velocity?: number; // Component points per engineer-week
+}
+
+interface EstimateRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
+interface EffortEstimate {
+  model: 'component-points';
+  component_points: number;
+  adjusted_points: number;
+  multipliers: Array<{ factor: string; value: number; reason: string }>;
+  breakdown: Array<{ component: string; points: number }>;
+  team_size: number;
+  effort_engineer_weeks: EstimateRange;
+  duration_weeks: EstimateRange;
+  cost_usd: EstimateRange;
+  nominal_schedule_weeks: number;
+  constraint_checks: Array<{ requirement_id: string; status: 'within' | 'at-risk' | 'exceeds'; detail: string }>;
+  assumptions: string[];
+}
+
+interface RoleProfile {
+  keywords: string[];
+  always: DigestItem['kind'][];
+  actions: Partial<Record<DigestItem['kind'], string>>; // '{item}' is replaced with the item text
+}
+
+interface CustomRole {
+  name: string;
+  keywords: string[];
+}
+
+interface DigestItem {
+  kind: 'gap' | 'requirement' | 'constraint' | 'risk' | 'blocker' | 'finding';
+  text: string;
+  source: string; // Where the item came from, e.g. 'traceability', 'step 3', 'thought 2'
+}
+
+interface DigestActionItem {
+  action: string;
+  priority: 'high' | 'medium' | 'low';
+  source: string;
+}
+
+interface RoleDigest {
+  role: string;
+  source: 'result' | 'thought_session';
+  summary: string;
+  highlights: string[];
+  action_items: DigestActionItem[];
+}
+
+interface UrgencyAssessment {
+  level: 'critical' | 'high' | 'medium' | 'low';
+  score: number; // 0..1, sum of signal weights
+  deadline?: { text: string; days?: number };
+  severity_signals: string[];
+  signals: Array<{ signal: string; weight: number; text: string }>;
+}
+
+interface EntityAnalysis {
+  entities: Array<{ name: string; type: 'technology' | 'component' | 'acronym' | 'named'; mentions: number }>;
+  relationships: Array<{ source: string; relation: string; target: string; evidence: string }>;
+}
+
+interface FocusResearchEntry {
+  id: string;
+  title: string;
+  version: string;
+  pack: string;
+  summary: string;
+  matched_tags: string[];
+  cautions?: string[];
+}
+
+// Fast-mode results, one field per requested focus area
+interface FocusResults {
+  summary?: string;
+  sentiment?: 'positive' | 'negative' | 'neutral';
+  key_concepts?: string[];
+  tone?: 'formal' | 'informal' | 'urgent' | 'informative' | 'neutral';
+  urgency?: UrgencyAssessment;
+  research?: FocusResearchEntry[];
+  analysis?: EntityAnalysis;
+}
+
+// A kind of design evidence for a requirement, and the design bullet that would supply it
+interface EvidenceRule {
+  label: string;
+  pattern: RegExp;
+  remedy: string;
+}
+
+interface TraceabilityRow {
+  requirement_id: string;
+  requirement: string;
+  category: ExtractedRequirement['category'];
+  design_components: Array<{ id: string; name: string }>;
+  evidence: string[];
+  status: 'satisfied' | 'partial' | 'gap' | 'not-traced';
+  validated: boolean;
+}
+
+// A validation-driven re-planning iteration, recorded in the trace when it is triggered and
+// again when its re-validation shows which targeted requirements it resolved.
+interface ReplanRecord {
+  iteration: number;
+  trigger_step: number;
+  targets: Array<{ requirement_id: string; status: 'gap' | 'partial' }>;
+  inserted_steps?: number[];
+  resolved?: string[];
+  unresolved?: string[];
+}
+
+interface TraceabilityMatrix {
+  rows: TraceabilityRow[];
+  gaps: string[]; // Requirement ids no design component addresses
+  coverage: number; // Share of traceable requirements with at least one component
+}
+
+interface AlgorithmConstraints {
+  input_size: number;
+  memory_limit_mb?: number;
+  time_budget_ms?: number;
+  update_mode: 'static' | 'dynamic' | 'streaming';
+  update_rate?: number; // Updates/s
+  approximate_ok: boolean;
+  requirements: string[]; // Requirement ids the constraints came from
+  assumptions: string[];
+}
+
+interface AlgorithmCandidate {
+  id: string;
+  name: string;
+  family: AlgorithmTemplate['family'];
+  time: string;
+  space: string;
+  query?: string;
+  update?: string;
+  exact: boolean;
+  operations: number; // Estimated work to process the input
+  query_operations?: number;
+  memory_mb: number;
+  fit: number; // Higher is a better match for the constraints
+  rationale: string[];
+  pseudocode: string[];
+  pros: string[];
+  cons: string[];
+}
+
+interface AlgorithmCheck {
+  check: string;
+  status: 'ok' | 'violated';
+  detail: string;
+}
+
+interface AlgorithmDesign {
+  families: AlgorithmTemplate['family'][];
+  constraints: AlgorithmConstraints;
+  candidates: AlgorithmCandidate[]; // Best fit first
+  recommended?: string;
+  checks?: AlgorithmCheck[]; // Added by validation
+}
+
+interface KnowledgeEntry {
+  id: string;
+  version: string;
+  title: string;
+  tags: string[];
+  domains?: string[]; // Research focus values the entry applies to; omitted means any
+  summary: string;
+  tradeoffs: string[];
+  when_to_use: string[];
+  when_not_to_use: string[];
+  avoid_tags?: string[]; // Requirement tags that make the entry a poor fit
+  references?: string[];
+}
+
+interface KnowledgePack {
+  name: string;
+  version: string;
+  description?: string;
+  entries: KnowledgeEntry[];
+}
+
+interface KnowledgeQuery {
+  domain: string;
+  problemType?: string;
+  requirements: ExtractedRequirement[];
+  text: string;
+}
+
+interface KnowledgeMatch {
+  entry: KnowledgeEntry;
+  pack: string;
+  pack_version: string;
+  score: number;
+  matched_tags: string[];
+  cautions: string[];
+}
+
+interface KnowledgeCitation {
+  id: string;
+  title: string;
+  version: string;
+  pack: string;
+  pack_version: string;
+  step: number;
+}
+
+// A solution component tagged with the phase that produced it, used to fill report templates
+interface ReportComponent {
+  phaseType: string;
+  focus: string;
+  tool: string;
+  content: string;
+}
+
+interface ReportSectionTemplate {
+  heading: string;
+  phaseTypes: string[];
+  focus?: string[]; // Restrict to these phase focus values; without it the section takes any unclaimed component
+}
+
+interface ReportTemplate {
+  title: string;
+  sections: ReportSectionTemplate[];
+}
+
+// Intermediate results of a tool-driven plan, used to derive the next step's arguments
+interface ToolPlanState {
+  targetPath: string;
+  topic?: string;
+  listedFiles: string[];
+  matches: Array<{ file: string; line: number; text: string }>;
+  readFiles: Array<{ path: string; content: string }>;
+}
+
+interface ToolErrorDetail {
+  type: string;
+  code: string;
+  message: string;
+  path?: string;
+}
+
+// Progress of an orchestrated run, sent to the client as an MCP progress notification.
+// Each step reports its start, its tool call and its completion, so total is three per step.
+interface ProgressUpdate {
+  progress: number;
+  total: number;
+  message: string;
+  trace?: CognitiveTraceStep;
+}
+
+interface PendingApproval {
+  approval_id: string;
+  command: string;
+  reasons: string[];
+  destructive: boolean;
+  step?: number;
+}
+
+interface InternalToolResult {
+  summary: string;
+  content: string;
+  confidence: number;
+  data?: unknown; // Raw result of a real tool call
+  error?: ToolErrorDetail;
+  pending_approval?: PendingApproval;
+}
+
+interface ToolExecutionContext {
+  signal?: AbortSignal;
+  approvedCommands?: string[];
 }
 
 interface CognitiveThinkingOutput {
@@ -99,8 +963,27 @@ interface CognitiveThinkingOutput {
   cognitive_trace: CognitiveTraceStep[];
   tools_used_internally: string[];
   final_confidence_score: number;
+  confidence_breakdown?: ConfidenceBreakdown;
+  focus_results?: FocusResults;
+  role_digest?: RoleDigest;
+  estimate?: EffortEstimate;
+  architecture_decisions?: ArchitectureDecisionRecord[];
+  architecture_model?: ArchitectureModel;
+  diagrams?: ArchitectureDiagrams;
+  scaffold?: DeploymentScaffold;
+  design_alternatives?: DesignAlternatives[];
+  risk_register?: RiskRegister;
+  threat_model?: ThreatModel;
+  capacity_plan?: CapacityPlan;
+  algorithm_design?: AlgorithmDesign;
   processing_time_ms: number;
   next_action_suggestion?: string; // New field for actionable digests
+  aborted?: boolean;
+  abort_reason?: string;
+  pending_approval?: PendingApproval;
+  requirements?: ExtractedRequirement[];
+  knowledge_citations?: KnowledgeCitation[];
+  traceability?: TraceabilityMatrix;
 }
 
 interface ThoughtSuggestion {
@@ -144,13 +1027,37 @@ export class SequentialThinkingServer {
   private thoughtQualities: Record<number, ThoughtQuality> = {};
   private codeAnalysisCache: Record<number, CodeAnalysis> = {};
   private softwareInsightsCache: Record<number, SoftwareEngineeringInsight> = {};
+  private workspaceSandbox: WorkspaceSandbox;
+  private commandPolicy: CommandPolicy;
+  private strategyRegistry: StrategyRegistry = new StrategyRegistry(BUILT_IN_STRATEGIES);
+  private requirementExtractor: RequirementExtractor = new RequirementExtractor();
+  private summarizer: TextRankSummarizer = new TextRankSummarizer();
+  private effortEstimator: EffortEstimator = new EffortEstimator();
+  private capacityPlanner: CapacityPlanner = new CapacityPlanner();
+  private decisionRecorder: DecisionRecorder = new DecisionRecorder();
+  private architectureModeler: ArchitectureModeler = new ArchitectureModeler();
+  private scaffoldGenerator: ScaffoldGenerator = new ScaffoldGenerator();
+  private alternativesAnalyzer: AlternativesAnalyzer = new AlternativesAnalyzer();
+  private algorithmDesigner: AlgorithmDesigner = new AlgorithmDesigner();
+  private riskAssessor: RiskAssessor = new RiskAssessor();
+  private threatModeler: ThreatModeler = new ThreatModeler();
+  private knowledgeBase: KnowledgeBase = new KnowledgeBase([BUILT_IN_KNOWLEDGE_PACK]);
 
   constructor() {
     this.disableThoughtLogging = (process.env.DISABLE_THOUGHT_LOGGING || "").toLowerCase() === "true";
+    const extraDenylist = (process.env.COGNITIVE_WORKSPACE_DENYLIST || "").split(',').map(pattern => pattern.trim());
+    this.workspaceSandbox = new WorkspaceSandbox(process.env.COGNITIVE_WORKSPACE_ROOT || process.cwd(), [...DEFAULT_DENYLIST, ...extraDenylist]);
+    this.commandPolicy = new CommandPolicy(loadCommandPolicyConfig(), this.workspaceSandbox);
+    if (process.env.COGNITIVE_STRATEGIES_FILE) {
+      this.strategyRegistry.loadFromFile(process.env.COGNITIVE_STRATEGIES_FILE);
+    }
+    if (process.env.COGNITIVE_KNOWLEDGE_DIR) {
+      this.knowledgeBase.loadFromDirectory(process.env.COGNITIVE_KNOWLEDGE_DIR);
+    }
   }
 
   // New method for cognitive_thinking tool
-  public processCognitiveThought(input: unknown): { content: Array<{ type: string; text: string }>; isError?: boolean } {
+  public async processCognitiveThought(input: unknown, signal?: AbortSignal, onProgress?: (update: ProgressUpdate) => void): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
     const startTime = Date.now();
     try {
       const validatedInput = input as CognitiveThinkingInput;
@@ -158,9 +1065,28 @@ export class SequentialThinkingServer {
       if (!validatedInput.problem_statement || typeof validatedInput.problem_statement !== 'string') {
         throw new Error('Invalid input: problem_statement must be a string');
       }
+      const capacityError = this.capacityPlanner.validate(validatedInput.capacity);
+      if (capacityError) {
+        throw new Error(`Invalid input: ${capacityError}`);
+      }
+      const estimationError = this.effortEstimator.validate(validatedInput.estimation);
+      if (estimationError) {
+        throw new Error(`Invalid input: ${estimationError}`);
+      }
+      const roleError = this.roleInputError(validatedInput);
+      if (roleError) {
+        throw new Error(`Invalid input: ${roleError}`);
+      }
+      const timeoutError = this.timeoutInputError(validatedInput);
+      if (timeoutError) {
+        throw new Error(`Invalid input: ${timeoutError}`);
+      }
 
       if (validatedInput.autonomous_mode) {
-        const result = this.orchestrateCognitiveProcess(validatedInput);
+        const result = await this.orchestrateCognitiveProcess(validatedInput, signal, onProgress);
+        if (validatedInput.summary_role) {
+          result.role_digest = this.createRoleDigest(validatedInput, result);
+        }
         return {
           content: [{
             type: "text",
@@ -173,33 +1099,52 @@ export class SequentialThinkingServer {
         const focusAreas = validatedInput.focus_areas || ['summary', 'sentiment', 'key_concepts', 'tone'];
         const maxResponseLength = validatedInput.max_cognitive_steps ? validatedInput.max_cognitive_steps * 20 : 100; // Rough conversion
 
-        let summary: string | undefined;
-        let sentiment: string | undefined;
-        let keyConcepts: string[] | undefined;
-        let detectedTone: string | undefined;
+        const focusResults: FocusResults = {};
 
         if (focusAreas.includes('summary')) {
-          summary = this._internal_summarize(query, maxResponseLength);
+          const roleKeywords = validatedInput.summary_role ? this.resolveRoleProfile(validatedInput.summary_role, validatedInput.custom_roles).profile.keywords : [];
+          const summaryInput = validatedInput.digest_source === 'thought_session' ? this.thoughtSession().map(thought => thought.thought) : query;
+          focusResults.summary = this._internal_summarize(summaryInput, maxResponseLength, roleKeywords);
         }
         if (focusAreas.includes('sentiment')) {
-          sentiment = this._internal_sentiment(query);
+          focusResults.sentiment = this._internal_sentiment(query);
         }
         if (focusAreas.includes('key_concepts')) {
-          keyConcepts = this._internal_extract_key_concepts(query);
+          focusResults.key_concepts = this._internal_extract_key_concepts(query);
         }
         if (focusAreas.includes('tone')) {
-          detectedTone = this._internal_detect_tone(query);
+          focusResults.tone = this._internal_detect_tone(query);
+        }
+        if (focusAreas.includes('urgency')) {
+          focusResults.urgency = this._internal_assess_urgency(query);
+        }
+        if (focusAreas.includes('research')) {
+          focusResults.research = this._internal_research_focus(query);
+        }
+        if (focusAreas.includes('analysis')) {
+          focusResults.analysis = this._internal_analyze_entities(query);
         }
 
-        const confidenceScore = Math.random(); // Placeholder for heuristic confidence
+        const produced = Object.values(focusResults).filter(result => result !== undefined && (!Array.isArray(result) || result.length > 0)).length;
+        const wordCount = query.split(/\s+/).filter(word => word.length > 0).length;
+        const quantified = this.requirementExtractor.extract(query).filter(requirement => requirement.value !== undefined).length;
+        const evidenceCount = (focusResults.key_concepts?.length || 0) + quantified + (focusResults.analysis?.relationships.length || 0) + (focusResults.research?.length || 0);
+        const confidence = this.weighConfidence([
+          { name: 'focus_coverage', weight: 0.4, score: focusAreas.length === 0 ? 0 : produced / focusAreas.length, detail: `${produced}/${focusAreas.length} focus areas produced a result` },
+          { name: 'input_detail', weight: 0.3, score: Math.min(1, wordCount / 50), detail: `${wordCount} words in the problem statement` },
+          { name: 'evidence', weight: 0.3, score: Math.min(1, evidenceCount / 8), detail: `${evidenceCount} key concepts, quantified requirements, relationships and knowledge entries` }
+        ]);
 
         const processingTimeMs = Date.now() - startTime;
 
         const response: CognitiveThinkingOutput = {
-          solution_summary: summary || "No summary generated.",
+          solution_summary: focusResults.summary || "No summary generated.",
           cognitive_trace: [],
           tools_used_internally: [],
-          final_confidence_score: confidenceScore,
+          final_confidence_score: confidence.score,
+          confidence_breakdown: confidence,
+          focus_results: focusResults,
+          ...(validatedInput.summary_role ? { role_digest: this.createRoleDigest(validatedInput) } : {}),
           processing_time_ms: processingTimeMs
         };
 
@@ -228,22 +1173,55 @@ export class SequentialThinkingServer {
   }
 
   // Autonomous Cognitive Orchestrator
-  private orchestrateCognitiveProcess(input: CognitiveThinkingInput): CognitiveThinkingOutput {
+  private async orchestrateCognitiveProcess(input: CognitiveThinkingInput, signal?: AbortSignal, onProgress?: (update: ProgressUpdate) => void): Promise<CognitiveThinkingOutput> {
     const startTime = Date.now();
     const problemStatement = input.problem_statement;
-    const maxSteps = input.max_cognitive_steps || 5;
     const focusAreas = input.focus_areas || ['analysis'];
     const enableRealTools = input.enable_real_tools || false; // Get the flag
+    const stepTimeoutMs = input.step_timeout_ms || DEFAULT_STEP_TIMEOUT_MS;
+    const deadline = startTime + (input.total_timeout_ms || DEFAULT_TOTAL_TIMEOUT_MS);
     const cognitiveTrace: CognitiveTraceStep[] = [];
     const toolsUsed: string[] = [];
     let solutionComponents: string[] = [];
-    let confidence = 0.0;
+    let reportComponents: ReportComponent[] = [];
+    let abortReason: string | undefined;
+    let pendingApproval: PendingApproval | undefined;
+    let extractedRequirements: ExtractedRequirement[] | undefined;
+    const knowledgeCitations: KnowledgeCitation[] = [];
+    const designElements: DesignElement[] = [];
+    const validatedRequirementIds = new Set<string>();
+    let estimate: EffortEstimate | undefined;
+    const designAlternatives: DesignAlternatives[] = [];
+    let riskRegister: RiskRegister | undefined;
+    let threatModel: ThreatModel | undefined;
+    let capacityPlan: CapacityPlan | undefined;
+    let algorithmDesign: AlgorithmDesign | undefined;
 
     // Detect problem type and create dynamic solution strategy
     const problemType = this.detectProblemType(problemStatement);
-    const solutionStrategy = this.createSolutionStrategy(problemType, focusAreas);
+    const toolPlan = enableRealTools ? await this.createToolPlan(problemStatement, input.max_cognitive_steps || DEFAULT_TOOL_PLAN_STEPS) : null;
+    // Copied, because re-planning inserts phases into the running plan
+    const solutionStrategy = [...(toolPlan ? toolPlan.phases : this.createSolutionStrategy(problemType, focusAreas))];
+    // Without an explicit budget the whole strategy runs, so validation and synthesis are not cut off
+    const maxSteps = input.max_cognitive_steps || Math.min(MAX_COGNITIVE_STEPS, solutionStrategy.length);
+    let replanIteration = 0;
+    const stepCount = toolPlan ? Math.min(maxSteps, toolPlan.phases.length) : maxSteps;
+    const reportProgress = (progress: number, message: string, trace?: CognitiveTraceStep) => {
+      onProgress?.({ progress, total: stepCount * 3, message, ...(trace ? { trace } : {}) });
+    };
+
+    if (toolPlan) {
+      cognitiveTrace.push({
+        step: 0,
+        action: "Plan",
+        thought: `Problem references ${toolPlan.state.targetPath}${toolPlan.state.topic ? ` and topic '${toolPlan.state.topic}'` : ''}; inspecting the workspace with real tools`,
+        decision: toolPlan.phases.map(phase => phase.tool || '_internal_code_analysis').join(' → '),
+        plan: toolPlan.phases.map((phase, index) => ({ step: index + 1, tool: phase.tool || '_internal_code_analysis', purpose: phase.focus }))
+      });
+      reportProgress(0, `Planned ${stepCount} tool steps for ${toolPlan.state.targetPath}`, cognitiveTrace[cognitiveTrace.length - 1]);
+    }
 
-    for (let step = 1; step <= maxSteps; step++) {
+    for (let step = 1; step <= stepCount; step++) {
       const currentPhase = solutionStrategy[Math.min(step - 1, solutionStrategy.length - 1)];
       let thought = "";
       let decision = "";
@@ -266,30 +1244,69 @@ export class SequentialThinkingServer {
           toolToCall = "_internal_domain_research";
           // Only pass the initial requirements for context, not accumulated solutions  
           const initialRequirements = solutionComponents.length > 0 ? solutionComponents[0] : `Problem: ${problemStatement}`;
-          toolArgs = { domain: currentPhase.focus, context: initialRequirements };
+          toolArgs = { domain: currentPhase.focus, context: initialRequirements, requirements: extractedRequirements || [], problemType, problem: problemStatement };
           break;
 
         case 'design':
-          thought = `Designing solution architecture for: ${currentPhase.focus}`;
+          thought = currentPhase.remediation
+            ? `Designing for the requirements validation left unmet: ${currentPhase.remediation.targets.map(target => target.requirement.id).join(', ')}`
+            : `Designing solution architecture for: ${currentPhase.focus}`;
           decision = "Create detailed technical approach and implementation plan";
           toolToCall = "_internal_solution_design";
           // Only pass the initial requirements and problem statement, not accumulated solutions
           const basicRequirements = solutionComponents.length > 0 ? solutionComponents[0] : `Problem: ${problemStatement}`;
-          toolArgs = { requirements: [basicRequirements], focus: currentPhase.focus };
+          toolArgs = { requirements: [basicRequirements], focus: currentPhase.focus, ...(currentPhase.remediation ? { targets: currentPhase.remediation.targets } : {}) };
+          if (input.generate_alternatives && !currentPhase.remediation) {
+            // Each decision is compared once, by the first design phase that makes it
+            toolArgs.alternatives = { problem: problemStatement, requirements: extractedRequirements || [], step, exclude: designAlternatives.map(analysis => analysis.topic) };
+          }
+          if (currentPhase.focus === 'algorithm-design') {
+            toolArgs.algorithm = { problem: problemStatement, requirements: extractedRequirements || [] };
+          }
           break;
 
         case 'validate':
-          thought = `Validating solution against requirements and identifying potential issues`;
+          thought = currentPhase.remediation
+            ? `Re-validating after re-planning iteration ${currentPhase.remediation.iteration}`
+            : `Validating solution against requirements and identifying potential issues`;
           decision = "Assess feasibility, risks, and optimization opportunities";
           toolToCall = "_internal_solution_validation";
-          toolArgs = { solution: solutionComponents, originalProblem: problemStatement };
+          toolArgs = { solution: solutionComponents, originalProblem: problemStatement, requirements: extractedRequirements || [], designElements: [...designElements], capacityPlan, algorithmDesign };
+          break;
+
+        case 'capacity':
+          thought = `Sizing the design for the stated load, data volume and latency: ${currentPhase.focus}`;
+          decision = "Derive QPS, storage growth, connections, bandwidth and instance counts from the requirements";
+          toolToCall = "_internal_capacity_planning";
+          toolArgs = { designElements: [...designElements], requirements: extractedRequirements || [], parameters: input.capacity };
+          break;
+
+        case 'threat-model':
+          thought = `Modelling threats to the design with STRIDE per element: ${currentPhase.focus}`;
+          decision = "Build data-flow elements and trust boundaries from the design, then enumerate threats and mitigations";
+          toolToCall = "_internal_threat_modeling";
+          toolArgs = { designElements: [...designElements], requirements: extractedRequirements || [] };
           break;
 
         case 'synthesize':
           thought = `Synthesizing comprehensive solution from all components`;
           decision = "Integrate all elements into cohesive final solution";
           toolToCall = "_internal_solution_synthesis";
-          toolArgs = { components: solutionComponents, problemType };
+          toolArgs = { components: solutionComponents, problemType, designElements: [...designElements], requirements: extractedRequirements || [], estimation: input.estimation };
+          break;
+
+        case 'tool':
+          thought = `Gathering evidence from the workspace: ${currentPhase.focus}`;
+          decision = `Call ${currentPhase.tool} with arguments derived from earlier results`;
+          toolArgs = this.resolveToolPlanArgs(currentPhase, toolPlan!.state);
+          toolToCall = toolArgs ? currentPhase.tool : undefined;
+          break;
+
+        case 'analyze':
+          thought = `Analyzing the collected source files for: ${currentPhase.focus}`;
+          decision = "Review code structure, smells and risks in the files that were read";
+          toolToCall = "_internal_code_analysis";
+          toolArgs = { files: toolPlan ? toolPlan.state.readFiles : [], topic: toolPlan?.state.topic, matches: toolPlan ? toolPlan.state.matches : [] };
           break;
 
         default:
@@ -306,42 +1323,202 @@ export class SequentialThinkingServer {
         decision,
         tool_suggestion: toolToCall
       });
+      reportProgress(3 * step - 2, `Step ${step}/${stepCount}: ${currentPhase.type} phase started (${currentPhase.focus})`, cognitiveTrace[cognitiveTrace.length - 1]);
+
+      if (!toolToCall && currentPhase.type === 'tool') {
+        cognitiveTrace.push({
+          step,
+          action: "Act",
+          tool_called: currentPhase.tool,
+          tool_result_summary: `Skipped ${currentPhase.tool}: no candidate arguments from earlier steps`,
+          status: 'skipped'
+        });
+        reportProgress(3 * step, `Step ${step}/${stepCount}: skipped ${currentPhase.tool}`, cognitiveTrace[cognitiveTrace.length - 1]);
+        continue;
+      }
 
       // Execute the selected tool
       if (toolToCall) {
         toolsUsed.push(toolToCall);
+        let status: CognitiveTraceStep['status'] = 'completed';
+        let toolError: ToolErrorDetail | undefined;
         let result: any;
+        let validationMatrix: TraceabilityMatrix | undefined;
         
+        reportProgress(3 * step - 1, `Step ${step}/${stepCount}: calling ${toolToCall}`);
         try {
-          result = this.executeInternalTool(toolToCall, toolArgs, enableRealTools); // Pass the flag
+          const tool = toolToCall;
+          result = await this.runStepWithBudget(
+            stepSignal => this.executeInternalTool(tool, toolArgs, enableRealTools, { signal: stepSignal, approvedCommands: input.approved_commands }), // Pass the flag
+            Math.min(stepTimeoutMs, deadline - Date.now()),
+            stepTimeoutMs,
+            signal
+          );
           toolResultSummary = result.summary;
+          if (result.error) {
+            status = 'error';
+            toolError = result.error;
+          }
+          if (result.pending_approval) {
+            status = 'pending_approval';
+            pendingApproval = { ...result.pending_approval, step };
+          }
+          if (toolPlan && result.data !== undefined) {
+            this.recordToolPlanResult(toolPlan.state, tool, toolArgs, result.data);
+          }
+          if (currentPhase.type === 'decompose' && result.data?.requirements) {
+            extractedRequirements = result.data.requirements;
+          }
+          if (currentPhase.type === 'design' && result.content) {
+            designElements.push(...this.parseDesignElements(result.content, currentPhase.focus, step));
+          }
+          if (currentPhase.type === 'design' && result.data?.alternatives) {
+            designAlternatives.push(...result.data.alternatives);
+            result.data.alternatives.forEach((analysis: DesignAlternatives) =>
+              reportComponents.push({ phaseType: 'alternatives', focus: currentPhase.focus, tool, content: analysis.markdown })
+            );
+          }
+          if (currentPhase.type === 'design' && result.data?.algorithm_design) {
+            algorithmDesign = result.data.algorithm_design;
+          }
+          if (currentPhase.type === 'validate' && algorithmDesign && result.data?.complexity_checks) {
+            algorithmDesign = { ...algorithmDesign, checks: result.data.complexity_checks };
+          }
+          if (currentPhase.type === 'validate' && result.data?.traceability) {
+            validationMatrix = result.data.traceability;
+            result.data.traceability.rows.forEach((row: TraceabilityRow) => validatedRequirementIds.add(row.requirement_id));
+          }
+          if (currentPhase.type === 'validate' && result.data?.risk_register) {
+            // A re-validation reassesses the updated design, so only the latest register is reported
+            riskRegister = result.data.risk_register;
+            reportComponents = reportComponents.filter(component => component.phaseType !== 'risk');
+            reportComponents.push({ phaseType: 'risk', focus: currentPhase.focus, tool, content: result.data.risk_register.markdown });
+          }
+          if (currentPhase.type === 'capacity' && result.data?.capacity_plan) {
+            capacityPlan = result.data.capacity_plan;
+          }
+          if (currentPhase.type === 'validate' && capacityPlan && result.data?.capacity_checks) {
+            capacityPlan = { ...capacityPlan, checks: result.data.capacity_checks };
+          }
+          if (currentPhase.type === 'threat-model' && result.data?.threat_model) {
+            threatModel = result.data.threat_model;
+          }
+          if (currentPhase.type === 'synthesize' && result.data?.estimate) {
+            // Later synthesis steps re-estimate with more design detail, so only the latest estimate is reported
+            estimate = result.data.estimate;
+            reportComponents = reportComponents.filter(component => component.phaseType !== 'estimate');
+            reportComponents.push({ phaseType: 'estimate', focus: currentPhase.focus, tool, content: this.effortEstimator.describe(result.data.estimate) });
+          }
+          if (currentPhase.type === 'research' && result.data?.citations) {
+            knowledgeCitations.push(...result.data.citations.map((citation: Omit<KnowledgeCitation, 'step'>) => ({ ...citation, step })));
+          }
           
           // Add result to solution components
           if (result.content) {
             solutionComponents.push(result.content);
+            if (currentPhase.type === 'synthesize' && result.data?.report) {
+              // The synthesis repeats every earlier component, so the report takes only its own part, from the latest synthesis
+              reportComponents = reportComponents.filter(component => component.phaseType !== 'synthesize');
+              reportComponents.push({ phaseType: 'synthesize', focus: currentPhase.focus, tool, content: result.data.report });
+            } else {
+              if (currentPhase.type === 'validate' && currentPhase.remediation) {
+                // A re-validation checks the remediated design, so it supersedes the earlier validations in the report
+                reportComponents = reportComponents.filter(component => component.phaseType !== 'validate');
+              }
+              reportComponents.push({ phaseType: currentPhase.type, focus: currentPhase.focus, tool, content: result.content });
+            }
           }
           
-          // Update confidence based on result quality
-          confidence += result.confidence || (1.0 / maxSteps);
-          confidence = Math.min(confidence, 1.0);
-          
         } catch (error) {
-          toolResultSummary = `Error executing ${toolToCall}: ${error}`;
-          console.error(`Tool execution error:`, error);
+          if (error instanceof StepAbortedError) {
+            status = 'aborted';
+            abortReason = error.message;
+            toolResultSummary = `Step aborted: ${error.message}`;
+          } else {
+            status = 'error';
+            toolResultSummary = `Error executing ${toolToCall}: ${error}`;
+            console.error(`Tool execution error:`, error);
+          }
         }
 
         cognitiveTrace.push({
           step,
           action: "Act",
           tool_called: toolToCall,
-          tool_args: toolArgs,
-          tool_result_summary: toolResultSummary
+          tool_args: this.compactToolArgs(toolArgs),
+          tool_result_summary: toolResultSummary,
+          status,
+          ...(status === 'aborted' ? { abort_reason: abortReason } : {}),
+          ...(toolError ? { error: toolError } : {})
+        });
+        reportProgress(3 * step, `Step ${step}/${stepCount}: ${toolToCall} ${status}`, cognitiveTrace[cognitiveTrace.length - 1]);
+
+        // Stop on abort, and pause the run until the caller approves a pending command.
+        if (abortReason || pendingApproval) {
+          break;
+        }
+
+        if (validationMatrix && extractedRequirements) {
+          replanIteration = this.replanAfterValidation(solutionStrategy, step, stepCount, validationMatrix, extractedRequirements, currentPhase.remediation, replanIteration, cognitiveTrace);
+        }
+      }
+    }
+
+    const architectureModel = designElements.length > 0 ? this.architectureModeler.build(designElements) : undefined;
+    const diagrams = architectureModel && architectureModel.nodes.length > 0
+      ? this.architectureModeler.render(architectureModel, problemStatement.split(/(?<=[.!?])\s/)[0].substring(0, 80))
+      : undefined;
+    if (diagrams) {
+      reportComponents.push({ phaseType: 'diagram', focus: 'architecture-model', tool: 'architecture-model', content: `\`\`\`mermaid\n${diagrams.mermaid}\n\`\`\`` });
+    }
+
+    const canWrite = enableRealTools && !abortReason && !pendingApproval;
+    const decisions = designElements.length > 0
+      ? await this.recordDecisions(input, designElements, extractedRequirements || [], designAlternatives, canWrite, cognitiveTrace, stepCount + 1)
+      : undefined;
+    if (decisions && decisions.length > 0) {
+      if (decisions.some(decision => decision.file && decision.file.status !== 'exists')) {
+        toolsUsed.push('write_to_file');
+      }
+      reportComponents.push({
+        phaseType: 'decision',
+        focus: 'architecture-decisions',
+        tool: 'adr',
+        content: decisions.map(decision => `${decision.id} ${decision.title}: ${decision.decision}${decision.alternatives_conflict ? ` CONFLICT: ${decision.alternatives_conflict}` : ''}${decision.file ? ` [${decision.file.path}: ${decision.file.status}]` : ''}`).join('\n')
+      });
+    }
+
+    let scaffold: DeploymentScaffold | undefined;
+    if (input.generate_scaffold) {
+      if (architectureModel && architectureModel.nodes.some(node => node.kind === 'service')) {
+        scaffold = this.scaffoldGenerator.generate(architectureModel, designElements, extractedRequirements || [], input.scaffold_directory || DEFAULT_SCAFFOLD_DIRECTORY, capacityPlan);
+        if (canWrite) {
+          await this.writeScaffold(scaffold, cognitiveTrace, stepCount + 1);
+          toolsUsed.push('write_to_file');
+        }
+        reportComponents.push({
+          phaseType: 'scaffold',
+          focus: 'deployment-scaffold',
+          tool: 'scaffold',
+          content: [
+            ...scaffold.files.filter(file => file.kind !== 'skeleton').map(file => `${file.path}${file.status ? ` [${file.status}]` : ''}`),
+            `${scaffold.files.filter(file => file.kind === 'skeleton').length} service skeleton files under ${nodePath.posix.join(scaffold.directory, 'services')}`,
+            ...scaffold.issues.map(issue => `INVALID ${issue.path}: ${issue.message}`)
+          ].join('\n')
         });
+      } else {
+        cognitiveTrace.push({ step: stepCount + 1, action: 'Record', tool_result_summary: 'Skipped scaffold generation: the design names no services', status: 'skipped' });
       }
     }
 
+    const traceability = extractedRequirements
+      ? this.buildTraceabilityMatrix(extractedRequirements, designElements, validatedRequirementIds)
+      : undefined;
+
+    const confidence = this.assessRunConfidence(cognitiveTrace, stepCount, traceability, knowledgeCitations.length, toolPlan?.state);
+
     // Generate final comprehensive solution
-    const finalSolution = this.generateFinalSolution(solutionComponents, problemType, problemStatement);
+    const finalSolution = this.generateFinalSolution(reportComponents, problemType, problemStatement);
     const nextActionSuggestion = this.generateNextActionSuggestion(problemStatement, finalSolution, problemType);
     
     const processingTimeMs = Date.now() - startTime;
@@ -350,98 +1527,300 @@ export class SequentialThinkingServer {
       solution_summary: finalSolution,
       cognitive_trace: cognitiveTrace,
       tools_used_internally: [...new Set(toolsUsed)],
-      final_confidence_score: confidence,
+      final_confidence_score: confidence.score,
+      confidence_breakdown: confidence,
       processing_time_ms: processingTimeMs,
-      next_action_suggestion: nextActionSuggestion
+      next_action_suggestion: nextActionSuggestion,
+      ...(abortReason ? { aborted: true, abort_reason: abortReason } : {}),
+      ...(pendingApproval ? { pending_approval: pendingApproval } : {}),
+      ...(extractedRequirements ? { requirements: extractedRequirements } : {}),
+      ...(knowledgeCitations.length > 0 ? { knowledge_citations: knowledgeCitations } : {}),
+      ...(traceability ? { traceability } : {}),
+      ...(estimate ? { estimate } : {}),
+      ...(decisions && decisions.length > 0 ? { architecture_decisions: decisions } : {}),
+      ...(diagrams ? { architecture_model: architectureModel, diagrams } : {}),
+      ...(scaffold ? { scaffold } : {}),
+      ...(designAlternatives.length > 0 ? { design_alternatives: designAlternatives } : {}),
+      ...(riskRegister ? { risk_register: riskRegister } : {}),
+      ...(threatModel ? { threat_model: threatModel } : {}),
+      ...(capacityPlan ? { capacity_plan: capacityPlan } : {}),
+      ...(algorithmDesign ? { algorithm_design: algorithmDesign } : {})
     };
   }
 
-  // Simulated Internal "Tools" (placeholder implementations)
-  private _internal_web_fetch(url: string): string {
-    console.log(`_internal_web_fetch called for URL: ${url}`);
-    return `Simulated content from ${url}: This is placeholder content for web fetch.`;
-  }
+  // ADRs for the choices the design phases made. With write_adrs they are also written through
+  // the real write_to_file tool, so the workspace sandbox applies; existing records are not rewritten.
+  private async recordDecisions(input: CognitiveThinkingInput, elements: DesignElement[], requirements: ExtractedRequirement[], alternatives: DesignAlternatives[], canWrite: boolean, trace: CognitiveTraceStep[], step: number): Promise<ArchitectureDecisionRecord[]> {
+    const format = input.adr_format || 'madr';
+    if (!input.write_adrs) {
+      return this.decisionRecorder.record(elements, requirements, alternatives, format);
+    }
+    if (!canWrite) {
+      trace.push({
+        step,
+        action: 'Record',
+        tool_called: 'write_to_file',
+        tool_result_summary: input.enable_real_tools ? 'Skipped writing ADRs: the run did not complete' : 'Skipped writing ADRs: write_adrs requires enable_real_tools',
+        status: 'skipped'
+      });
+      return this.decisionRecorder.record(elements, requirements, alternatives, format);
+    }
 
-  private _internal_google_search(query: string): { results: { title: string; url: string }[] } {
-    console.log(`_internal_google_search called for query: ${query}`);
-    return {
-      results: [
-        { title: `Result 1 for ${query}`, url: `http://example.com/1?q=${query}` },
-        { title: `Result 2 for ${query}`, url: `http://example.com/2?q=${query}` }
-      ]
-    };
-  }
+    const directory = input.adr_directory || DEFAULT_ADR_DIRECTORY;
+    const listing = await this.executeInternalTool('list_files', { path: directory, recursive: false }, true);
+    const existing = this.decisionRecorder.existingNumbers(Array.isArray(listing.data) ? listing.data : []);
+    const records = this.decisionRecorder.record(elements, requirements, alternatives, format, existing);
 
-  private _internal_deep_analysis(text: string): { entities: string[]; concepts: string[] } {
-    console.log(`_internal_deep_analysis called for text: ${text.substring(0, 50)}...`);
-    const entities = text.match(/\b[A-Z][a-z]+\b/g) || [];
-    const concepts = this.extractConcepts(text); // Reuse existing concept extraction
-    return { entities: entities.slice(0, 3), concepts: concepts.slice(0, 3) };
+    for (const record of records) {
+      const path = nodePath.posix.join(directory, this.decisionRecorder.fileName(record));
+      if (existing.has(record.slug)) {
+        record.file = { path, status: 'exists' };
+        continue;
+      }
+      const result = await this.executeInternalTool('write_to_file', { path, content: record.markdown }, true);
+      const failed = Boolean(result.error) || result.data === undefined;
+      record.file = failed ? { path, status: 'error', detail: result.error?.message || result.content } : { path, status: 'written' };
+      trace.push({
+        step,
+        action: 'Record',
+        tool_called: 'write_to_file',
+        tool_args: { path },
+        tool_result_summary: failed ? result.summary : `Wrote ${record.id} to ${path}`,
+        status: failed ? 'error' : 'completed',
+        ...(result.error ? { error: result.error } : {})
+      });
+    }
+    return records;
   }
 
-  private _internal_summarize(text: string, maxLength: number, role?: string): string {
-    console.log(`_internal_summarize called for text: ${text.substring(0, 50)}... for role: ${role || 'general'}`);
-    const sentences = text.split('. ').filter(s => s.trim().length > 0);
-    let summarySentences: string[] = [];
-    let currentLength = 0;
+  // Re-planning after a validation step. A re-validation first records which of its iteration's
+  // targets were resolved. Requirements still unmet get a targeted design step and another
+  // validation inserted into the plan, provided the rest of the plan still fits in the step
+  // budget and the previous iteration resolved something. Returns the iteration count.
+  private replanAfterValidation(plan: StrategyPhase[], step: number, stepCount: number, matrix: TraceabilityMatrix, requirements: ExtractedRequirement[], previous: StrategyPhase['remediation'], iteration: number, trace: CognitiveTraceStep[]): number {
+    const targets = this.remediationTargets(matrix, requirements);
+    const describe = (items: RemediationTarget[]) => items.map(target => `${target.requirement.id} (${target.status})`).join(', ');
+    let previousResolvedAny = true;
+
+    if (previous) {
+      const unmet = new Set(matrix.rows.filter(row => row.status === 'gap' || row.status === 'partial').map(row => row.requirement_id));
+      const targetIds = previous.targets.map(target => target.requirement.id);
+      const resolved = targetIds.filter(id => !unmet.has(id));
+      const unresolved = targetIds.filter(id => unmet.has(id));
+      previousResolvedAny = resolved.length > 0;
+      trace.push({
+        step,
+        action: 'Re-plan',
+        thought: `Re-validation for iteration ${previous.iteration}: ${resolved.length}/${targetIds.length} targeted requirements resolved`,
+        decision: unresolved.length === 0 ? 'All targeted requirements are now satisfied' : `Still unmet: ${unresolved.join(', ')}`,
+        replan: {
+          iteration: previous.iteration,
+          trigger_step: previous.trigger_step,
+          targets: previous.targets.map(target => ({ requirement_id: target.requirement.id, status: target.status })),
+          resolved,
+          unresolved
+        }
+      });
+    }
 
-    const roleKeywords: { [key: string]: string[] } = {
-      'project manager': ['timeline', 'budget', 'resource', 'scope', 'milestone', 'risk', 'status', 'stakeholder', 'progress'],
-      'security engineer': ['security', 'vulnerability', 'authentication', 'authorization', 'encryption', 'compliance', 'threat', 'exploit', 'audit'],
-      'developer': ['code', 'implementation', 'api', 'bug', 'feature', 'refactor', 'framework', 'library', 'test', 'deploy'],
-      'qa engineer': ['test', 'bug', 'defect', 'quality', 'coverage', 'regression', 'scenario', 'validation', 'verify'],
-      'devops engineer': ['deploy', 'pipeline', 'ci/cd', 'kubernetes', 'docker', 'infrastructure', 'monitor', 'log', 'scale', 'uptime']
-    };
+    if (targets.length === 0) {
+      return iteration;
+    }
 
-    const keywords = role ? roleKeywords[role.toLowerCase()] || [] : [];
+    const spare = (stepCount - step) - Math.max(0, plan.length - step);
+    const reason = !previousResolvedAny
+      ? 'the previous iteration resolved none of its targets'
+      : spare < 2
+        ? `a targeted design and re-validation need 2 steps, but ${Math.max(0, spare)} remain within max_cognitive_steps (${stepCount}) after the planned phases`
+        : undefined;
 
-    // Prioritize sentences containing role-specific keywords
-    if (keywords.length > 0) {
-      const prioritizedSentences = sentences.filter(sentence =>
-        keywords.some(keyword => sentence.toLowerCase().includes(keyword))
-      );
-      const otherSentences = sentences.filter(sentence =>
-        !keywords.some(keyword => sentence.toLowerCase().includes(keyword))
-      );
-      // Take some prioritized sentences first, then fill with others
-      for (const sentence of prioritizedSentences) {
-        const words = sentence.split(' ');
-        if (currentLength + words.length <= maxLength) {
-          summarySentences.push(sentence);
-          currentLength += words.length;
-        } else {
-          break;
-        }
+    if (reason) {
+      trace.push({ step, action: 'Re-plan', thought: `Validation left ${targets.length} requirements unmet: ${describe(targets)}`, decision: `Not re-planning: ${reason}` });
+      return iteration;
+    }
+
+    const remediation = { iteration: iteration + 1, trigger_step: step, targets };
+    plan.splice(step, 0, { type: 'design', focus: 'requirement-remediation', remediation }, { type: 'validate', focus: 'remediation-check', remediation });
+    trace.push({
+      step,
+      action: 'Re-plan',
+      thought: `Validation left ${targets.length} requirements unmet: ${describe(targets)}`,
+      decision: `Iteration ${remediation.iteration}: targeted design at step ${step + 1}, re-validation at step ${step + 2}`,
+      replan: {
+        iteration: remediation.iteration,
+        trigger_step: step,
+        targets: targets.map(target => ({ requirement_id: target.requirement.id, status: target.status })),
+        inserted_steps: [step + 1, step + 2]
       }
-      if (currentLength < maxLength) {
-        for (const sentence of otherSentences) {
-          const words = sentence.split(' ');
-          if (currentLength + words.length <= maxLength) {
-            summarySentences.push(sentence);
-            currentLength += words.length;
-          } else {
-            break;
-          }
-        }
+    });
+    return remediation.iteration;
+  }
+
+  // Writes scaffold files through the real write_to_file tool, so the workspace sandbox applies.
+  // Files that failed validation or already exist are left alone.
+  private async writeScaffold(scaffold: DeploymentScaffold, trace: CognitiveTraceStep[], step: number): Promise<void> {
+    const listing = await this.executeInternalTool('list_files', { path: scaffold.directory, recursive: true }, true);
+    const existing = new Set((Array.isArray(listing.data) ? listing.data : []).map((entry: string) => nodePath.resolve(this.workspaceSandbox.root, entry)));
+    const failed: ScaffoldFile[] = [];
+
+    for (const file of scaffold.files) {
+      if (file.status === 'invalid') continue;
+      if (existing.has(nodePath.resolve(this.workspaceSandbox.root, file.path))) {
+        file.status = 'exists';
+        continue;
       }
-    } else {
-      // Original summarization logic for general role
-      for (const sentence of sentences) {
-        const words = sentence.split(' ');
-        if (currentLength + words.length <= maxLength) {
-          summarySentences.push(sentence);
-          currentLength += words.length;
-        } else {
-          break;
-        }
+      const result = await this.executeInternalTool('write_to_file', { path: file.path, content: file.content }, true);
+      if (result.error || result.data === undefined) {
+        file.status = 'error';
+        file.detail = result.error?.message || result.content;
+        failed.push(file);
+      } else {
+        file.status = 'written';
       }
     }
-    
-    let finalSummary = summarySentences.join('. ');
-    if (finalSummary.length > 0 && !finalSummary.endsWith('.')) {
-      finalSummary += '.';
+
+    const count = (status: ScaffoldFile['status']) => scaffold.files.filter(file => file.status === status).length;
+    trace.push({
+      step,
+      action: 'Record',
+      tool_called: 'write_to_file',
+      tool_args: { path: scaffold.directory },
+      tool_result_summary: `Wrote ${count('written')} scaffold files to ${scaffold.directory} (${count('exists')} existing, ${count('invalid')} invalid, ${failed.length} failed)${failed.length > 0 ? `: ${failed[0].detail}` : ''}`,
+      status: failed.length > 0 ? 'error' : 'completed'
+    });
+  }
+
+  // Confidence of an orchestrated run, derived only from what the run produced: how many
+  // requirements the design covers, how validation judged them, how many steps failed and
+  // how much evidence backs the result. Factors that do not apply to the run are left out.
+  private assessRunConfidence(trace: CognitiveTraceStep[], plannedSteps: number, traceability: TraceabilityMatrix | undefined, citationCount: number, toolState?: ToolPlanState): ConfidenceBreakdown {
+    const factors: ConfidenceFactor[] = [];
+    const attempted = trace.filter(entry => entry.action === 'Act' && entry.status !== 'skipped');
+    const completed = attempted.filter(entry => entry.status === 'completed').length;
+    // Every tool call counts, including the ADR and scaffold writes, and a call failed when its result carries an error.
+    const toolCalls = trace.filter(entry => entry.tool_called && entry.status !== 'skipped');
+    const failed = toolCalls.filter(entry => entry.error || entry.status === 'error' || entry.status === 'aborted').length;
+
+    if (traceability) {
+      const traceable = traceability.rows.filter(row => row.status !== 'not-traced');
+      factors.push({
+        name: 'requirement_coverage',
+        weight: 0.3,
+        score: traceable.length === 0 ? 0 : traceability.coverage,
+        detail: traceable.length === 0
+          ? 'no traceable requirements were extracted'
+          : `${traceable.length - traceability.gaps.length}/${traceable.length} requirements addressed by a design component`
+      });
+
+      const validated = traceable.filter(row => row.validated);
+      const validationScore = validated.reduce((sum, row) => sum + (row.status === 'satisfied' ? 1 : row.status === 'partial' ? 0.5 : 0), 0);
+      factors.push({
+        name: 'validation_outcomes',
+        weight: 0.2,
+        score: validated.length === 0 ? 0 : validationScore / validated.length,
+        detail: validated.length === 0
+          ? 'no requirement was checked by a validation phase'
+          : `${validated.filter(row => row.status === 'satisfied').length} satisfied, ${validated.filter(row => row.status === 'partial').length} partial, ${validated.filter(row => row.status === 'gap').length} gaps`
+      });
+    }
+
+    factors.push({
+      name: 'tool_reliability',
+      weight: 0.2,
+      score: toolCalls.length === 0 ? 0 : 1 - failed / toolCalls.length,
+      detail: `${failed} of ${toolCalls.length} tool calls failed or were aborted`
+    });
+
+    factors.push({
+      name: 'completion',
+      weight: 0.15,
+      score: plannedSteps === 0 ? 0 : completed / plannedSteps,
+      detail: `${completed}/${plannedSteps} planned steps completed`
+    });
+
+    const evidenceCount = citationCount +
+      (traceability ? traceability.rows.reduce((sum, row) => sum + row.evidence.length, 0) : 0) +
+      (toolState ? toolState.readFiles.length + Math.min(toolState.matches.length, 5) : 0);
+    factors.push({
+      name: 'evidence',
+      weight: 0.15,
+      score: Math.min(1, evidenceCount / 10),
+      detail: `${evidenceCount} pieces of supporting evidence (knowledge citations, traced design evidence, workspace files and matches)`
+    });
+
+    return this.weighConfidence(factors);
+  }
+
+  private weighConfidence(factors: ConfidenceFactor[]): ConfidenceBreakdown {
+    const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0);
+    const score = totalWeight === 0 ? 0 : factors.reduce((sum, factor) => sum + factor.weight * factor.score, 0) / totalWeight;
+    return {
+      score: Math.round(score * 100) / 100,
+      factors: factors.map(factor => ({ ...factor, score: Math.round(factor.score * 100) / 100 }))
+    };
+  }
+
+  // Runs one orchestration step, rejecting with StepAbortedError when the step budget,
+  // the total budget or the client's cancellation fires first. The step's own signal is
+  // aborted as well so real tools (e.g. a running command) can stop their work.
+  private runStepWithBudget<T>(task: (signal: AbortSignal) => Promise<T>, budgetMs: number, stepTimeoutMs: number, parentSignal?: AbortSignal): Promise<T> {
+    if (parentSignal?.aborted) {
+      return Promise.reject(new StepAbortedError('request cancelled by client'));
+    }
+    if (budgetMs <= 0) {
+      return Promise.reject(new StepAbortedError('total time budget exhausted'));
     }
-    return finalSummary;
+
+    const controller = new AbortController();
+    return new Promise<T>((resolve, reject) => {
+      const abort = (reason: string) => {
+        controller.abort(reason);
+        reject(new StepAbortedError(reason));
+      };
+      const onParentAbort = () => abort('request cancelled by client');
+      const timer = setTimeout(() => {
+        abort(budgetMs < stepTimeoutMs ? 'total time budget exhausted' : `step exceeded ${stepTimeoutMs}ms budget`);
+      }, budgetMs);
+      parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+
+      task(controller.signal).then(resolve, reject).finally(() => {
+        clearTimeout(timer);
+        parentSignal?.removeEventListener('abort', onParentAbort);
+      });
+    });
+  }
+
+  // Simulated Internal "Tools" (placeholder implementations)
+  private _internal_web_fetch(url: string): string {
+    console.log(`_internal_web_fetch called for URL: ${url}`);
+    return `Simulated content from ${url}: This is placeholder content for web fetch.`;
+  }
+
+  private _internal_google_search(query: string): { results: { title: string; url: string }[] } {
+    console.log(`_internal_google_search called for query: ${query}`);
+    return {
+      results: [
+        { title: `Result 1 for ${query}`, url: `http://example.com/1?q=${query}` },
+        { title: `Result 2 for ${query}`, url: `http://example.com/2?q=${query}` }
+      ]
+    };
+  }
+
+  private _internal_deep_analysis(text: string): { entities: string[]; concepts: string[] } {
+    console.log(`_internal_deep_analysis called for text: ${text.substring(0, 50)}...`);
+    const entities = text.match(/\b[A-Z][a-z]+\b/g) || [];
+    const concepts = this.extractConcepts(text); // Reuse existing concept extraction
+    return { entities: entities.slice(0, 3), concepts: concepts.slice(0, 3) };
+  }
+
+  private _internal_summarize(text: string | string[], maxLength: number, keywords: string[] = []): string {
+    return this.summarizer.summarize(text, maxLength, keywords);
+  }
+
+  // The thoughts recorded with cognitive_thinking, minus any a later revision replaced.
+  private thoughtSession(): ThoughtData[] {
+    const revised = new Set(this.thoughtHistory.filter(thought => thought.isRevision && thought.revisesThought).map(thought => thought.revisesThought));
+    return this.thoughtHistory.filter(thought => thought.isRevision || !revised.has(thought.thoughtNumber));
   }
 
   private _internal_sentiment(text: string): 'positive' | 'negative' | 'neutral' {
@@ -496,6 +1875,166 @@ export class SequentialThinkingServer {
     return 'neutral';
   }
 
+  private _internal_assess_urgency(text: string): UrgencyAssessment {
+    const lowerText = text.toLowerCase();
+    const signals: UrgencyAssessment['signals'] = [];
+
+    // Deadline: the closest explicit or relative deadline in the text
+    const relativeDeadlines: Array<{ pattern: RegExp; days: number }> = [
+      { pattern: /\b(?:right now|immediately|asap|as soon as possible)\b/, days: 0 },
+      { pattern: /\b(?:today|tonight|end of (?:the )?day|eod)\b/, days: 0 },
+      { pattern: /\btomorrow\b/, days: 1 },
+      { pattern: /\b(?:by|before|on) (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/, days: 7 },
+      { pattern: /\b(?:this|end of (?:the )?) ?week\b|\beow\b/, days: 7 },
+      { pattern: /\bnext week\b/, days: 14 },
+      { pattern: /\b(?:this|end of (?:the )?) ?month\b/, days: 30 }
+    ];
+    let deadline: UrgencyAssessment['deadline'];
+    for (const { pattern, days } of relativeDeadlines) {
+      const match = lowerText.match(pattern);
+      if (match && (!deadline || (deadline.days ?? Infinity) > days)) {
+        deadline = { text: text.slice(match.index!, match.index! + match[0].length), days };
+      }
+    }
+    for (const requirement of this.requirementExtractor.extract(text).filter(requirement => requirement.kind === 'deadline')) {
+      if (!deadline || (requirement.value !== undefined && (deadline.days ?? Infinity) > requirement.value)) {
+        deadline = { text: requirement.source.text, days: requirement.value };
+      }
+    }
+    if (deadline) {
+      const days = deadline.days;
+      const weight = days === undefined ? 0.1 : days <= 1 ? 0.5 : days <= 7 ? 0.35 : days <= 30 ? 0.2 : 0.1;
+      signals.push({ signal: `deadline in ${days === undefined ? 'an unspecified number of' : days} days`, weight, text: deadline.text });
+    }
+
+    const severityRules: Array<{ signal: string; pattern: RegExp; weight: number }> = [
+      { signal: 'production outage', pattern: /\b(?:outage|is down|went down|service unavailable|not responding)\b/, weight: 0.4 },
+      { signal: 'data loss or corruption', pattern: /\bdata (?:loss|corruption)|\b(?:lost|corrupted) data\b/, weight: 0.4 },
+      { signal: 'security incident', pattern: /\b(?:breach|compromised|exploit(?:ed)?|ransomware|leak(?:ed)?)\b/, weight: 0.4 },
+      { signal: 'severity label', pattern: /\b(?:sev[- ]?[01]|p0|p1|blocker|critical)\b/, weight: 0.3 },
+      { signal: 'customer impact', pattern: /\b(?:customers?|users?) (?:are |were )?(?:affected|impacted|blocked|unable)\b/, weight: 0.25 },
+      { signal: 'production environment', pattern: /\bproduction\b|\bprod\b/, weight: 0.15 },
+      { signal: 'revenue or compliance exposure', pattern: /\b(?:revenue|sla breach|penalt(?:y|ies)|regulator|audit finding)\b/, weight: 0.2 },
+      { signal: 'explicit urgency', pattern: /\b(?:urgent|urgently|emergency|asap|immediately|time[- ]sensitive)\b/, weight: 0.2 }
+    ];
+    for (const rule of severityRules) {
+      const match = lowerText.match(rule.pattern);
+      if (match) {
+        signals.push({ signal: rule.signal, weight: rule.weight, text: text.slice(match.index!, match.index! + match[0].length) });
+      }
+    }
+
+    const score = Math.min(1, signals.reduce((sum, signal) => sum + signal.weight, 0));
+    const level = score >= 0.7 ? 'critical' : score >= 0.45 ? 'high' : score >= 0.2 ? 'medium' : 'low';
+
+    return {
+      level,
+      score: Math.round(score * 100) / 100,
+      ...(deadline ? { deadline } : {}),
+      severity_signals: signals.filter(signal => !signal.signal.startsWith('deadline')).map(signal => signal.signal),
+      signals
+    };
+  }
+
+  // Entities are technologies, named components ("payment service"), acronyms and proper
+  // nouns; relationships are explicit verbs linking two entities in the same sentence.
+  private _internal_analyze_entities(text: string): EntityAnalysis {
+    const technologies = /\b(?:postgres(?:ql)?|mysql|mongodb|redis|kafka|rabbitmq|elasticsearch|cassandra|dynamodb|s3|kubernetes|k8s|docker|terraform|node\.?js|react|graphql|grpc|nginx|aws|gcp|azure|lambda|spark|airflow|snowflake|memcached|websockets?)\b/gi;
+    const components = /\b(?:[a-z][a-z-]+ ){0,2}(?:service|database|db|gateway|queue|cache|cluster|server|api|frontend|backend|worker|scheduler|pipeline|store|bus|broker)\b/gi;
+    const stopwords = new Set(['the', 'a', 'an', 'our', 'their', 'this', 'that', 'each', 'every', 'new', 'to', 'and', 'with', 'from', 'into', 'on', 'in', 'of', 'for', 'by', 'uses', 'use', 'calls', 'via']);
+    const entities = new Map<string, { name: string; type: EntityAnalysis['entities'][number]['type']; mentions: number }>();
+
+    const addEntity = (raw: string, type: EntityAnalysis['entities'][number]['type']) => {
+      const words = raw.trim().split(/\s+/);
+      while (words.length > 1 && stopwords.has(words[0].toLowerCase())) words.shift();
+      const name = words.join(' ');
+      const key = name.toLowerCase();
+      if (name.length < 2 || stopwords.has(key)) return;
+      const existing = entities.get(key);
+      if (existing) {
+        existing.mentions++;
+      } else {
+        entities.set(key, { name, type, mentions: 1 });
+      }
+    };
+
+    (text.match(technologies) || []).forEach(match => addEntity(match, 'technology'));
+    (text.match(components) || []).forEach(match => {
+      if (!entities.has(match.trim().toLowerCase())) addEntity(match, 'component');
+    });
+    // Acronyms ("PCI DSS", "SQS"), unless already part of a component name such as "API gateway"
+    (text.match(/\b[A-Z][A-Z0-9]{1,4}(?:[ -][A-Z][A-Z0-9]{1,4})*\b/g) || []).forEach(match => {
+      const partOfEntity = [...entities.keys()].some(key => new RegExp(`\\b${match.toLowerCase()}\\b`).test(key) && key !== match.toLowerCase());
+      if (!partOfEntity) addEntity(match, 'acronym');
+    });
+    // Proper nouns: capitalized words that do not start a sentence
+    for (const match of text.matchAll(/(?<![.!?]\s|^)\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\b/gm)) {
+      if (!entities.has(match[1].toLowerCase())) addEntity(match[1], 'named');
+    }
+
+    const relationVerbs: Array<{ relation: string; pattern: RegExp }> = [
+      { relation: 'depends_on', pattern: /\bdepends? on\b|\brel(?:y|ies) on\b|\brequires?\b/ },
+      { relation: 'writes_to', pattern: /\bwrites? (?:to|into)\b|\bstores? (?:in|into)\b|\bpersists? (?:to|in)\b|\bsaves? (?:to|in)\b/ },
+      { relation: 'reads_from', pattern: /\breads? from\b|\bqueries\b|\bfetch(?:es)? from\b/ },
+      { relation: 'publishes_to', pattern: /\bpublish(?:es)? (?:to|on)\b|\bsends? (?:events|messages)? ?to\b|\bemits? to\b/ },
+      { relation: 'consumes_from', pattern: /\bconsumes? from\b|\bsubscribes? to\b|\blistens? (?:to|on)\b/ },
+      { relation: 'calls', pattern: /\bcalls?\b|\binvokes?\b|\btalks? to\b/ },
+      { relation: 'uses', pattern: /\buses?\b|\busing\b|\bruns? on\b|\bbuilt (?:on|with)\b|\bbacked by\b/ },
+      { relation: 'replaces', pattern: /\breplaces?\b|\bmigrat(?:e|es|ing) (?:from|to)\b/ },
+      { relation: 'contains', pattern: /\bcontains?\b|\bincludes?\b|\bconsists? of\b/ },
+      { relation: 'causes', pattern: /\bcauses?\b|\bleads? to\b|\bresults? in\b|\btriggers?\b/ },
+      { relation: 'connects_to', pattern: /\bconnects? to\b|\bintegrates? with\b|\bbehind\b/ }
+    ];
+
+    const relationships: EntityAnalysis['relationships'] = [];
+    const names = [...entities.values()].map(entity => entity.name).sort((a, b) => b.length - a.length);
+    if (names.length > 1) {
+      const namePattern = new RegExp(`\\b(?:${names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\b`, 'gi');
+      for (const sentence of text.split(/(?<=[.!?])\s+|\n+/)) {
+        const found = [...sentence.matchAll(namePattern)];
+        let subject: string | undefined;
+        for (let i = 0; i < found.length - 1; i++) {
+          const between = sentence.slice(found[i].index! + found[i][0].length, found[i + 1].index!).toLowerCase();
+          if (between.split(/\s+/).filter(Boolean).length > 6) continue;
+          const verb = relationVerbs.find(candidate => candidate.pattern.test(between));
+          if (verb) {
+            // "A writes to B and publishes to C": the second verb still belongs to A
+            const coordinated = subject !== undefined && /^[\s,]*and\b/.test(between);
+            const source = coordinated ? subject! : entities.get(found[i][0].toLowerCase())?.name || found[i][0];
+            subject = source;
+            const target = entities.get(found[i + 1][0].toLowerCase())?.name || found[i + 1][0];
+            if (source.toLowerCase() !== target.toLowerCase()) {
+              relationships.push({ source, relation: verb.relation, target, evidence: sentence.trim() });
+            }
+          }
+        }
+      }
+    }
+
+    return {
+      entities: [...entities.values()].sort((a, b) => b.mentions - a.mentions || a.name.localeCompare(b.name)),
+      relationships
+    };
+  }
+
+  private _internal_research_focus(text: string): FocusResearchEntry[] {
+    const matches = this.knowledgeBase.search({
+      domain: 'domain-knowledge',
+      problemType: this.detectProblemType(text),
+      requirements: this.requirementExtractor.extract(text),
+      text
+    });
+    return matches.filter(match => match.matched_tags.length > 0).map(match => ({
+      id: match.entry.id,
+      title: match.entry.title,
+      version: match.entry.version,
+      pack: match.pack,
+      summary: match.entry.summary,
+      matched_tags: match.matched_tags,
+      ...(match.cautions.length > 0 ? { cautions: match.cautions } : {})
+    }));
+  }
+
   private validateThoughtData(input: unknown): ThoughtData {
     const data = input as Record<string, unknown>;
 
@@ -1454,101 +2993,281 @@ export class SequentialThinkingServer {
   
   private detectProblemType(problemStatement: string): string {
     const text = problemStatement.toLowerCase();
-    
-    if (text.includes('microservices') || text.includes('architecture') || text.includes('scalable') || text.includes('system design')) {
-      return 'system-architecture';
-    }
-    if (text.includes('algorithm') || text.includes('data structure') || text.includes('complexity')) {
-      return 'algorithmic';
-    }
-    if (text.includes('business') || text.includes('strategy') || text.includes('market') || text.includes('roi')) {
-      return 'business-strategy';
-    }
-    if (text.includes('optimize') || text.includes('performance') || text.includes('efficiency')) {
-      return 'optimization';
-    }
-    if (text.includes('design') || text.includes('ui') || text.includes('ux') || text.includes('interface')) {
-      return 'design';
-    }
-    if (text.includes('security') || text.includes('authentication') || text.includes('authorization')) {
-      return 'security';
+
+    // Strategies loaded from configuration take precedence over the built-in heuristics
+    const configuredType = this.strategyRegistry.match(problemStatement);
+    if (configuredType) {
+      return configuredType;
     }
-    if (text.includes('data') || text.includes('database') || text.includes('storage')) {
-      return 'data-management';
+    
+    // Whole words only ('ui' must not match "build" or "requires"). Security comes first: a secure
+    // API or an authorization review needs the threat model even when it also names a design.
+    const types: Array<[string, RegExp]> = [
+      ['security', /\b(?:security|secure|secured|authentication|authorization)\b/],
+      ['system-architecture', /\b(?:microservices?|architectures?|scalable|system design)\b/],
+      ['algorithmic', /\b(?:algorithms?|data structures?|complexity)\b/],
+      ['business-strategy', /\b(?:business|strategy|markets?|roi)\b/],
+      ['optimization', /\b(?:optimi[sz](?:e|es|ed|ing)|performance|efficiency)\b/],
+      ['design', /\b(?:design|ui|ux|interfaces?)\b/],
+      ['data-management', /\b(?:data|databases?|storage)\b/]
+    ];
+    const detected = types.find(([, pattern]) => pattern.test(text));
+    if (detected) {
+      return detected[0];
     }
     
     return 'general-problem';
   }
 
-  private createSolutionStrategy(problemType: string, focusAreas: string[]): Array<{type: string, focus: string}> {
-    const baseStrategy = [
+  private createSolutionStrategy(problemType: string, focusAreas: string[]): StrategyPhase[] {
+    const registered = this.strategyRegistry.get(problemType);
+    if (registered) {
+      return registered.phases;
+    }
+
+    return [
       { type: 'decompose', focus: 'requirements-analysis' },
       { type: 'research', focus: 'domain-knowledge' },
       { type: 'design', focus: 'solution-architecture' },
       { type: 'validate', focus: 'feasibility-assessment' },
       { type: 'synthesize', focus: 'final-integration' }
     ];
+  }
+
+  // Builds a real-tool plan when the problem statement points at code in the workspace,
+  // e.g. "review the auth module in ./src" → list_files → search_files → read_file → analysis.
+  // Returns null when the statement has no workspace target, so the caller falls back to
+  // the problem-type strategy.
+  private async createToolPlan(problemStatement: string, maxSteps: number): Promise<{ phases: StrategyPhase[]; state: ToolPlanState } | null> {
+    const text = problemStatement.toLowerCase();
+    const candidates = (problemStatement.match(/(?:^|[\s"'`(])((?:\.{1,2}\/|\/)?[\w.-]+(?:\/[\w.-]+)*\/?)(?=$|[\s"'`),;:])/g) || [])
+      .map(candidate => candidate.trim().replace(/^["'`(]/, '').replace(/[.,;:]+$/, ''))
+      .filter(candidate => candidate.includes('/') && !/^https?:/.test(candidate));
+    let pathMatch: string | undefined;
+    for (const candidate of candidates) {
+      if (await this.isWorkspacePath(candidate)) {
+        pathMatch = candidate;
+        break;
+      }
+    }
+    const directoryMatch = problemStatement.match(/\bin (?:the )?([\w.-]+) (?:directory|folder|dir)\b/i);
+    const mentionsCodebase = /\b(codebase|code base|repository|repo|source code|project files)\b/.test(text);
+    const targetPath = pathMatch || directoryMatch?.[1] || (mentionsCodebase ? '.' : undefined);
+
+    if (!targetPath) {
+      return null;
+    }
+
+    const wantsReview = /\b(review|audit|analy[sz]e|inspect|explain|understand|refactor|assess)\b/.test(text);
+    const wantsVerification = text.match(/\b(?:run|execute)\b.*?\b(tests?|lint|type-?check|build)\b/);
+    const topic = this.extractPlanTopic(problemStatement, targetPath);
+
+    const languagePatterns: Record<string, string> = {
+      'typescript': '*.{ts,tsx}',
+      'javascript': '*.{js,jsx,mjs,cjs}',
+      'python': '*.py',
+      'golang': '*.go',
+      'rust': '*.rs',
+      'java': '*.java'
+    };
+    const filePattern = Object.entries(languagePatterns).find(([language]) => text.includes(language))?.[1];
+
+    const phases: StrategyPhase[] = [{ type: 'tool', focus: `list files under ${targetPath}`, tool: 'list_files' }];
+    if (topic) {
+      phases.push({ type: 'tool', focus: `search for '${topic}'${filePattern ? ` in ${filePattern}` : ''}`, tool: 'search_files' });
+    }
+    if (wantsVerification) {
+      phases.push({ type: 'tool', focus: `run the project's ${wantsVerification[1]} command`, tool: 'execute_command' });
+    }
+    if (wantsReview || topic) {
+      // Leave room for the analysis step; read at most three files
+      const readSteps = Math.max(1, Math.min(3, maxSteps - phases.length - 1));
+      for (let i = 0; i < readSteps; i++) {
+        phases.push({ type: 'tool', focus: `read candidate file ${i + 1}`, tool: 'read_file' });
+      }
+    }
+    phases.push({ type: 'analyze', focus: topic ? `${topic} code review` : 'code review' });
+
+    return {
+      phases,
+      state: {
+        targetPath,
+        topic,
+        listedFiles: [],
+        matches: [],
+        readFiles: []
+      }
+    };
+  }
+
+  // A slash-separated token names a workspace target when it is explicitly relative ("./src"),
+  // starts at a well-known source directory ("src/auth") or exists inside the workspace sandbox.
+  // Prose such as "24/7", "CI/CD" or "reads/writes" is none of these.
+  private async isWorkspacePath(candidate: string): Promise<boolean> {
+    if (/^\.{1,2}\//.test(candidate) || KNOWN_SOURCE_DIRECTORIES.includes(candidate.split('/')[0])) {
+      return true;
+    }
+    try {
+      await fs.stat(await this.workspaceSandbox.resolve(candidate));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private extractPlanTopic(problemStatement: string, targetPath: string): string | undefined {
+    const explicit = problemStatement.match(/\b(?:the\s+)?([\w-]+)\s+(?:module|component|service|feature|logic|code|handler|layer|package)\b/i);
+    const stopWords = ['the', 'this', 'that', 'our', 'my', 'source', 'all', 'whole', 'entire', 'review', 'audit', 'project'];
+    if (explicit && !stopWords.includes(explicit[1].toLowerCase())) {
+      return explicit[1].toLowerCase();
+    }
+
+    const forMatch = problemStatement.match(/\b(?:for|about|related to|handling)\s+([\w-]{3,})/i);
+    if (forMatch && !problemStatement.includes(`${forMatch[1]}/`) && !targetPath.includes(forMatch[1])) {
+      return forMatch[1].toLowerCase();
+    }
+    return undefined;
+  }
+
+  private resolveToolPlanArgs(phase: StrategyPhase, state: ToolPlanState): any | null {
+    switch (phase.tool) {
+      case 'list_files':
+        return { path: state.targetPath, recursive: true };
+
+      case 'search_files': {
+        const regex = state.topic!.split('').map(char => /[a-z]/i.test(char) ? `[${char.toLowerCase()}${char.toUpperCase()}]` : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('');
+        const filePattern = phase.focus.match(/ in (\S+)$/)?.[1];
+        return { path: state.targetPath, regex, ...(filePattern ? { file_pattern: filePattern } : {}) };
+      }
+
+      case 'execute_command': {
+        const target = phase.focus.match(/project's (\S+) command/)?.[1] || 'test';
+        const commands: Record<string, string> = { 'lint': 'npm run lint', 'typecheck': 'npx tsc --noEmit', 'type-check': 'npx tsc --noEmit', 'build': 'npm run build' };
+        return { command: commands[target] || 'npm test', requires_approval: target === 'build' };
+      }
+
+      case 'read_file': {
+        const alreadyRead = new Set(state.readFiles.map(file => file.path));
+        const candidate = this.rankToolPlanCandidates(state).find(file => !alreadyRead.has(file));
+        return candidate ? { path: candidate } : null;
+      }
 
-    // Customize strategy based on problem type
-    switch (problemType) {
-      case 'system-architecture':
-        return [
-          { type: 'decompose', focus: 'system-requirements' },
-          { type: 'research', focus: 'architectural-patterns' },
-          { type: 'design', focus: 'component-design' },
-          { type: 'design', focus: 'database-design' },
-          { type: 'design', focus: 'integration-strategy' },
-          { type: 'design', focus: 'deployment-architecture' },
-          { type: 'validate', focus: 'scalability-analysis' },
-          { type: 'synthesize', focus: 'comprehensive-architecture' }
-        ];
-      
-      case 'algorithmic':
-        return [
-          { type: 'decompose', focus: 'problem-constraints' },
-          { type: 'research', focus: 'algorithmic-approaches' },
-          { type: 'design', focus: 'algorithm-design' },
-          { type: 'validate', focus: 'complexity-analysis' },
-          { type: 'synthesize', focus: 'optimized-solution' }
-        ];
-      
-      case 'business-strategy':
-        return [
-          { type: 'decompose', focus: 'business-objectives' },
-          { type: 'research', focus: 'market-analysis' },
-          { type: 'design', focus: 'strategic-plan' },
-          { type: 'validate', focus: 'risk-assessment' },
-          { type: 'synthesize', focus: 'actionable-strategy' }
-        ];
-      
       default:
-        return baseStrategy;
+        return null;
+    }
+  }
+
+  // Files with the most topic matches first, then listed source files whose path mentions the topic.
+  // Both tools return paths relative to the workspace root, which read_file resolves against.
+  private rankToolPlanCandidates(state: ToolPlanState): string[] {
+    const matchCounts = new Map<string, number>();
+    state.matches.forEach(match => matchCounts.set(match.file, (matchCounts.get(match.file) || 0) + 1));
+
+    const byMatches = [...matchCounts.entries()]
+      .sort(([fileA, countA], [fileB, countB]) => countB - countA || fileA.localeCompare(fileB))
+      .map(([file]) => file);
+
+    const sourceFiles = state.listedFiles
+      .filter(file => !file.endsWith('/') && /\.(ts|tsx|js|jsx|mjs|cjs|py|go|rs|java|cs|rb|php)$/.test(file));
+    const byPath = state.topic
+      ? sourceFiles.filter(file => file.toLowerCase().includes(state.topic!))
+      : sourceFiles;
+
+    return [...new Set([...byMatches, ...byPath])];
+  }
+
+  private recordToolPlanResult(state: ToolPlanState, toolName: string, args: any, data: unknown): void {
+    switch (toolName) {
+      case 'list_files':
+        state.listedFiles = Array.isArray(data) ? data.map(String) : [];
+        break;
+      case 'search_files':
+        state.matches = Array.isArray(data) ? data as ToolPlanState['matches'] : [];
+        break;
+      case 'read_file':
+        if (typeof data === 'string') {
+          state.readFiles.push({ path: args.path, content: data });
+        }
+        break;
+    }
+  }
+
+  // Keeps file contents, design elements and other bulky values out of the cognitive trace.
+  // Long strings are truncated, arrays of objects become their count and ids (or paths), long
+  // string arrays their count, and objects nested below the second level their key count.
+  private compactToolArgs(args: any, depth = 0): any {
+    if (typeof args === 'string') {
+      return args.length > 200 ? `${args.substring(0, 200)}… (${args.length} chars)` : args;
+    }
+    if (Array.isArray(args)) {
+      if (args.some(item => item && typeof item === 'object')) {
+        const ids = args.map(item => item?.id ?? item?.path ?? item?.name).filter(id => typeof id === 'string');
+        return { count: args.length, ...(ids.length > 0 ? { ids: ids.length > 20 ? [...ids.slice(0, 20), `… ${ids.length - 20} more`] : ids } : {}) };
+      }
+      return args.length > 20 ? `[${args.length} items]` : args.map(item => this.compactToolArgs(item, depth + 1));
     }
+    if (!args || typeof args !== 'object') {
+      return args;
+    }
+    if (depth >= 2) {
+      return `{${Object.keys(args).length} keys}`;
+    }
+    return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, this.compactToolArgs(value, depth + 1)]));
   }
 
-  private async executeInternalTool(toolName: string, args: any, enableRealTools: boolean): Promise<{ summary: string, content: string, confidence: number }> {
-    if (enableRealTools) {
+  private async executeInternalTool(toolName: string, args: any, enableRealTools: boolean, context: ToolExecutionContext = {}): Promise<InternalToolResult> {
+    if (enableRealTools && REAL_TOOL_NAMES.has(toolName)) {
       try {
         let toolResult: any;
+        const sandbox = this.workspaceSandbox;
         switch (toolName) {
-          case 'execute_command':
-            toolResult = await execute_command(args.command, args.requires_approval);
+          case 'execute_command': {
+            const evaluation = await this.commandPolicy.evaluate(args.command, Boolean(args.requires_approval), context.approvedCommands);
+            if (evaluation.decision === 'deny') {
+              return {
+                summary: `Blocked real tool: execute_command. ${evaluation.reasons.join('; ')}`,
+                content: `Error: command denied by policy: ${args.command}`,
+                confidence: 0.0,
+                error: { type: 'command_policy', code: 'denied', message: evaluation.reasons.join('; ') }
+              };
+            }
+            if (evaluation.decision === 'require-approval') {
+              return {
+                summary: `Approval required before running: ${args.command} (approval_id ${evaluation.approval_id})`,
+                content: '',
+                confidence: 0.0,
+                pending_approval: { approval_id: evaluation.approval_id, command: args.command, reasons: evaluation.reasons, destructive: evaluation.destructive }
+              };
+            }
+            toolResult = await execute_command(args.command, args.requires_approval, {
+              signal: context.signal,
+              cwd: sandbox.root,
+              env: this.commandPolicy.scrubEnvironment(),
+              max_output_bytes: this.commandPolicy.maxOutputBytes
+            });
             break;
+          }
           case 'read_file':
-            toolResult = await read_file(args.path);
+            toolResult = await read_file(await sandbox.resolve(args.path));
             break;
           case 'write_to_file':
-            toolResult = await write_to_file(args.path, args.content);
+            toolResult = await write_to_file(await sandbox.resolve(args.path), args.content);
             break;
           case 'replace_in_file':
-            toolResult = await replace_in_file(args.path, args.diff);
+            toolResult = await replace_in_file(await sandbox.resolve(args.path), args.diff);
             break;
-          case 'list_files':
-            toolResult = await list_files(args.path, args.recursive);
+          case 'list_files': {
+            const entries = await list_files(await sandbox.resolve(args.path), args.recursive, sandbox.root);
+            const allowed = await Promise.all(entries.map(entry => sandbox.isAllowed(nodePath.resolve(sandbox.root, entry))));
+            toolResult = entries.filter((_, index) => allowed[index]);
             break;
-          case 'search_files':
-            toolResult = await search_files(args.path, args.regex, args.file_pattern);
+          }
+          case 'search_files': {
+            const matches = await search_files(await sandbox.resolve(args.path), args.regex, args.file_pattern, sandbox.root);
+            const allowed = await Promise.all(matches.map(match => sandbox.isAllowed(nodePath.resolve(sandbox.root, match.file))));
+            toolResult = matches.filter((_, index) => allowed[index]);
             break;
+          }
           case 'browser_action':
             toolResult = await browser_action(args.action, args.url, args.coordinate, args.text);
             break;
@@ -1562,7 +3281,7 @@ export class SequentialThinkingServer {
             toolResult = await access_mcp_resource(args.server_name, args.uri);
             break;
           case 'list_code_definition_names':
-            toolResult = await list_code_definition_names(args.path);
+            toolResult = await list_code_definition_names(await sandbox.resolve(args.path), sandbox.root);
             break;
           default:
             return {
@@ -1574,13 +3293,24 @@ export class SequentialThinkingServer {
         return {
           summary: `Executed real tool: ${toolName}. Result: ${JSON.stringify(toolResult).substring(0, 100)}...`,
           content: JSON.stringify(toolResult),
-          confidence: 0.9
+          confidence: 0.9,
+          data: toolResult
         };
       } catch (error) {
+        if (error instanceof PathPolicyError) {
+          return {
+            summary: `Blocked real tool: ${toolName}. ${error.message}`,
+            content: `Error: ${error.message}`,
+            confidence: 0.0,
+            error: { type: 'path_policy', code: error.violation.code, message: error.violation.detail, path: error.violation.path }
+          };
+        }
+        const message = error instanceof Error ? error.message : String(error);
         return {
-          summary: `Error executing real tool: ${toolName}. Error: ${error instanceof Error ? error.message : String(error)}`,
-          content: `Error: ${error instanceof Error ? error.message : String(error)}`,
-          confidence: 0.1
+          summary: `Error executing real tool: ${toolName}. Error: ${message}`,
+          content: `Error: ${message}`,
+          confidence: 0.1,
+          error: { type: 'tool_error', code: (error as NodeJS.ErrnoException).code ?? 'error', message }
         };
       }
     } else {
@@ -1589,13 +3319,19 @@ export class SequentialThinkingServer {
         case '_internal_problem_decomposition':
           return this._internal_problem_decomposition(args.problem, args.focus);
         case '_internal_domain_research':
-          return this._internal_domain_research(args.domain, args.context);
+          return this._internal_domain_research(args.domain, args.context, args.requirements || [], args.problemType, args.problem);
         case '_internal_solution_design':
-          return this._internal_solution_design(args.requirements, args.focus);
+          return this._internal_solution_design(args.requirements, args.focus, args.targets || [], args.alternatives, args.algorithm);
         case '_internal_solution_validation':
-          return this._internal_solution_validation(args.solution, args.originalProblem);
+          return this._internal_solution_validation(args.solution, args.originalProblem, args.requirements || [], args.designElements || [], args.capacityPlan, args.algorithmDesign);
         case '_internal_solution_synthesis':
-          return this._internal_solution_synthesis(args.components, args.problemType);
+          return this._internal_solution_synthesis(args.components, args.problemType, args.designElements || [], args.requirements || [], args.estimation);
+        case '_internal_code_analysis':
+          return this._internal_code_analysis(args.files || [], args.matches || [], args.topic);
+        case '_internal_threat_modeling':
+          return this._internal_threat_modeling(args.designElements || [], args.requirements || []);
+        case '_internal_capacity_planning':
+          return this._internal_capacity_planning(args.designElements || [], args.requirements || [], args.parameters);
         default:
           // Fallback to existing internal analysis
           const result = this._internal_deep_analysis(args.text || '');
@@ -1608,129 +3344,106 @@ export class SequentialThinkingServer {
     }
   }
 
-  private _internal_problem_decomposition(problem: string, focus: string): { summary: string, content: string, confidence: number } {
-    const requirements: string[] = [];
-    const constraints: string[] = [];
-    const objectives: string[] = [];
-
-    // Extract scale requirements
-    if (problem.includes('users') || problem.includes('concurrent')) {
-      const userMatch = problem.match(/(\d+[^\s]*)\s+(?:concurrent\s+)?users/i);
-      if (userMatch) requirements.push(`Scale: ${userMatch[1]} concurrent users`);
-    }
-
-    // Extract performance requirements
-    if (problem.includes('latency') || problem.includes('ms') || problem.includes('response time')) {
-      const latencyMatch = problem.match(/(\d+)\s*ms/);
-      if (latencyMatch) requirements.push(`Response time: sub-${latencyMatch[1]}ms latency`);
-    }
-
-    // Extract functional requirements
-    const functionalKeywords = {
-      'authentication': 'User authentication and authorization',
-      'authorization': 'Role-based access control',
-      'real-time': 'Real-time collaborative editing',
-      'offline': 'Offline capability with sync',
-      'collaboration': 'Multi-user document collaboration',
-      'consistency': 'Data consistency across distributed nodes',
-      'conflict resolution': 'Operational transformation for conflicts'
-    };
-
-    Object.entries(functionalKeywords).forEach(([keyword, requirement]) => {
-      if (problem.toLowerCase().includes(keyword)) {
-        requirements.push(requirement);
-      }
-    });
-
-    // Extract technology requirements
-    if (problem.includes('microservices')) {
-      requirements.push('Microservices architecture pattern');
-    }
-    if (problem.includes('collaborative document editing')) {
-      requirements.push('Collaborative document editing platform');
-    }
-
-    // Define realistic constraints
-    const commonConstraints = [
-      'Budget: $500K-1M development cost',
-      'Timeline: 6-12 months to MVP',
-      'Team: 8-12 engineers maximum',
-      'Technology: Cloud-native, container-based'
-    ];
+  private _internal_problem_decomposition(problem: string, focus: string): InternalToolResult {
+    const extracted = this.requirementExtractor.extract(problem);
+    const describe = (requirement: ExtractedRequirement) => `${requirement.description} [${requirement.id}: "${requirement.source.text}"]`;
+    const byCategory = (category: ExtractedRequirement['category']) => extracted.filter(requirement => requirement.category === category).map(describe);
 
-    // Define clear objectives
-    const systemObjectives = [
-      'High Availability: 99.9% uptime',
-      'Scalability: Horizontal scaling capability',
-      'Performance: Sub-100ms response times',
-      'Security: Enterprise-grade security',
-      'Reliability: Fault-tolerant design'
-    ];
+    const requirements = byCategory('requirement');
+    const constraints = byCategory('constraint');
+    const objectives = byCategory('objective');
+    const quantified = extracted.filter(requirement => requirement.value !== undefined).length;
 
-    const finalRequirements = requirements.length > 0 ? requirements : ['Basic collaborative editing system'];
-    const finalConstraints = constraints.length > 0 ? constraints : commonConstraints;
-    const finalObjectives = objectives.length > 0 ? objectives : systemObjectives;
+    const finalRequirements = requirements.length > 0 ? requirements : ['None stated explicitly'];
+    const finalConstraints = constraints.length > 0 ? constraints : ['None stated explicitly'];
+    const finalObjectives = objectives.length > 0 ? objectives : ['None stated explicitly'];
 
     return {
-      summary: `Decomposed problem into ${finalRequirements.length} requirements, ${finalConstraints.length} constraints, ${finalObjectives.length} objectives`,
+      summary: `Decomposed problem into ${requirements.length} requirements, ${constraints.length} constraints, ${objectives.length} objectives (${quantified} quantified)`,
       content: `REQUIREMENTS: ${finalRequirements.join(' | ')}. CONSTRAINTS: ${finalConstraints.join(' | ')}. OBJECTIVES: ${finalObjectives.join(' | ')}.`,
-      confidence: 0.8
+      // Fewer explicit requirements means more of the design rests on assumptions
+      confidence: extracted.length === 0 ? 0.4 : Math.min(0.9, 0.5 + quantified * 0.1),
+      data: { requirements: extracted }
     };
   }
 
-  private _internal_domain_research(domain: string, context: string): { summary: string, content: string, confidence: number } {
-    const domainKnowledge: { [key: string]: string[] } = {
-      'system-requirements': [
-        'Load balancing strategies (round-robin, least connections, consistent hashing)',
-        'Database patterns (CQRS, Event Sourcing, Database per Service)',
-        'Caching strategies (Redis, Memcached, CDN)',
-        'Message queues (Kafka, RabbitMQ, AWS SQS)'
-      ],
-      'architectural-patterns': [
-        'Microservices architecture with API Gateway',
-        'Event-driven architecture for real-time updates',
-        'CQRS for read/write separation',
-        'Saga pattern for distributed transactions'
-      ],
-      'component-design': [
-        'User Service (authentication, authorization)',
-        'Document Service (CRUD operations, versioning)',
-        'Collaboration Service (operational transformation)',
-        'Notification Service (real-time updates)'
-      ],
-      'integration-strategy': [
-        'API Gateway for service orchestration',
-        'Event bus for service communication',
-        'Circuit breaker pattern for resilience',
-        'Distributed tracing for observability'
-      ],
-      'scalability-analysis': [
-        'Horizontal scaling with container orchestration',
-        'Database sharding and read replicas',
-        'CDN for global content delivery',
-        'Auto-scaling based on metrics'
-      ]
-    };
+  private _internal_domain_research(domain: string, context: string, requirements: ExtractedRequirement[] = [], problemType?: string, problem?: string): InternalToolResult {
+    const matches = this.knowledgeBase.search({ domain, problemType, requirements, text: context });
 
-    const knowledge = domainKnowledge[domain] || [
-      'Industry best practices and standards',
-      'Common patterns and anti-patterns',
-      'Performance optimization techniques',
-      'Security considerations'
-    ];
+    if (domain === 'algorithmic-approaches' && problem) {
+      // Candidates come from the algorithm catalog; entries from packs that cover the domain are added
+      const design = this.algorithmDesigner.design(problem, requirements);
+      const covering = matches.filter(match => match.entry.domains?.includes(domain));
+      return {
+        summary: `Shortlisted ${design.candidates.length} catalog algorithms${design.families.length > 0 ? ` (${design.families.join(', ')})` : ''}${covering.length > 0 ? ` and ${covering.length} knowledge entries` : ''}`,
+        content: `${this.algorithmDesigner.describeCandidates(design)}${covering.length > 0 ? `\nDOMAIN KNOWLEDGE:\n${covering.map((match, index) => `${index + 1}. ${match.entry.title} [${match.pack}@${match.pack_version}/${match.entry.id} v${match.entry.version}]: ${match.entry.summary}`).join('\n')}` : ''}`,
+        confidence: design.candidates.length === 0 ? 0.3 : Math.min(0.9, 0.6 + design.constraints.requirements.length * 0.1),
+        data: {
+          citations: covering.map(match => ({ id: match.entry.id, title: match.entry.title, version: match.entry.version, pack: match.pack, pack_version: match.pack_version }))
+        }
+      };
+    }
+
+    if (matches.length === 0) {
+      return {
+        summary: `No knowledge-pack entries matched ${domain}`,
+        content: `DOMAIN KNOWLEDGE: No curated guidance matched '${domain}' and the extracted requirements; add a knowledge pack covering this area.`,
+        confidence: 0.3,
+        data: { citations: [] }
+      };
+    }
+
+    const entries = matches.map((match, index) => {
+      const { entry } = match;
+      const lines = [
+        `${index + 1}. ${entry.title} [${match.pack}@${match.pack_version}/${entry.id} v${entry.version}]${match.matched_tags.length > 0 ? ` (matched: ${match.matched_tags.join(', ')})` : ''}`,
+        `   Pattern: ${entry.summary}`,
+        `   Trade-offs: ${entry.tradeoffs.join('; ')}`,
+        `   When to use: ${entry.when_to_use.join('; ')}`,
+        `   When not to use: ${entry.when_not_to_use.join('; ')}`
+      ];
+      if (match.cautions.length > 0) {
+        lines.push(`   Caution: requirements indicate ${match.cautions.join(', ')}`);
+      }
+      return lines.join('\n');
+    });
+    const packs = new Set(matches.map(match => match.pack));
 
     return {
-      summary: `Researched ${knowledge.length} relevant approaches for ${domain}`,
-      content: `DOMAIN KNOWLEDGE: ${knowledge.join('; ')}`,
-      confidence: 0.9
+      summary: `Selected ${matches.length} knowledge entries for ${domain} from ${packs.size} pack${packs.size === 1 ? '' : 's'}`,
+      content: `DOMAIN KNOWLEDGE:\n${entries.join('\n')}`,
+      confidence: Math.min(0.9, 0.5 + matches.filter(match => match.matched_tags.length > 0).length * 0.1),
+      data: {
+        citations: matches.map(match => ({ id: match.entry.id, title: match.entry.title, version: match.entry.version, pack: match.pack, pack_version: match.pack_version }))
+      }
     };
   }
 
-  private _internal_solution_design(requirements: string[], focus: string): { summary: string, content: string, confidence: number } {
+  private _internal_solution_design(requirements: string[], focus: string, targets: RemediationTarget[] = [], alternatives?: { problem: string; requirements: ExtractedRequirement[]; step: number; exclude: string[] }, algorithm?: { problem: string; requirements: ExtractedRequirement[] }): InternalToolResult {
     const requirementText = requirements.join(' ');
     let design = '';
+    let algorithmDesign: AlgorithmDesign | undefined;
 
     switch (focus) {
+      case 'algorithm-design':
+        if (algorithm) {
+          algorithmDesign = this.algorithmDesigner.design(algorithm.problem, algorithm.requirements);
+          design = this.algorithmDesigner.describe(algorithmDesign);
+          break;
+        }
+        design = `
+ALGORITHM DESIGN:
+No problem statement was passed to the design phase, so no algorithm could be matched.`;
+        break;
+
+      case 'requirement-remediation':
+        design = `
+UNMET REQUIREMENTS:
+${targets.map((target, index) => `
+${index + 1}. ${(target.requirement.kind === 'functional' ? target.requirement.description : target.requirement.kind.replace('-', ' ')).toUpperCase()} (${target.requirement.id}):
+${target.remedies.map(remedy => `   - ${remedy} (${target.requirement.description})`).join('\n')}`).join('\n')}`;
+        break;
+
       case 'component-design':
         design = `
 CORE MICROSERVICES ARCHITECTURE:
@@ -1885,147 +3598,469 @@ COMPREHENSIVE MICROSERVICES ARCHITECTURE:
    - Health checks and graceful degradation`;
     }
 
+    const analyses = alternatives
+      ? this.alternativesAnalyzer.analyze(focus, alternatives.step, alternatives.problem, alternatives.requirements, alternatives.exclude)
+      : [];
+
+    const data = {
+      ...(analyses.length > 0 ? { alternatives: analyses } : {}),
+      ...(algorithmDesign ? { algorithm_design: algorithmDesign } : {})
+    };
+    const recommended = algorithmDesign?.candidates.find(candidate => candidate.id === algorithmDesign!.recommended);
+
     return {
-      summary: `Generated detailed solution design for ${focus}`,
+      summary: `Generated detailed solution design for ${focus}${recommended ? `, recommending ${recommended.name} of ${algorithmDesign!.candidates.length} candidates` : ''}${analyses.length > 0 ? `, comparing ${analyses.map(analysis => `${analysis.options.length} ${analysis.title.toLowerCase()} options`).join(' and ')}` : ''}`,
       content: design,
-      confidence: 0.85
+      confidence: algorithmDesign && !recommended ? 0.3 : 0.85,
+      ...(Object.keys(data).length > 0 ? { data } : {})
     };
   }
 
-  private _internal_solution_validation(solution: string[], originalProblem: string): { summary: string, content: string, confidence: number } {
-    const solutionText = solution.join(' ');
-    const validationResults: string[] = [];
+  private _internal_solution_validation(solution: string[], originalProblem: string, requirements: ExtractedRequirement[] = [], designElements: DesignElement[] = [], capacityPlan?: CapacityPlan, algorithmDesign?: AlgorithmDesign): InternalToolResult {
+    const describeRisks = (register: RiskRegister) => register.risks.length === 0
+      ? 'RISKS: none identified from the design components and requirements'
+      : `RISKS: ${register.risks.length} in the risk register (${register.counts.high} high, ${register.counts.medium} medium, ${register.counts.low} low); highest ${register.risks[0].id} ${register.risks[0].title} (exposure ${register.risks[0].exposure})`;
+    const countRisks = (register: RiskRegister) => `identified ${register.risks.length} risks (${register.counts.high} high)`;
+    const capacityChecks = capacityPlan ? this.capacityPlanner.check(capacityPlan, designElements) : [];
+    const shortfalls = capacityChecks.filter(check => check.status === 'shortfall');
+    const capacityResults = capacityPlan
+      ? `\nCAPACITY: ${capacityChecks.length - shortfalls.length}/${capacityChecks.length} design figures meet the capacity plan${capacityChecks.map(check => `\n${check.status === 'ok' ? '✅' : '❌ SHORTFALL'} ${check.check}: ${check.detail}`).join('')}`
+      : '';
+    const countShortfalls = capacityPlan ? `, ${shortfalls.length} capacity shortfalls` : '';
+    const complexityChecks = algorithmDesign ? this.algorithmDesigner.check(algorithmDesign) : [];
+    const violations = complexityChecks.filter(check => check.status === 'violated');
+    const complexityResults = algorithmDesign
+      ? `\nCOMPLEXITY: ${complexityChecks.length === 0 ? 'no algorithm was recommended, so nothing to check' : `${complexityChecks.length - violations.length}/${complexityChecks.length} constraints met by ${algorithmDesign.candidates[0].name}`}${complexityChecks.map(check => `\n${check.status === 'ok' ? '✅' : '❌ VIOLATED'} ${check.check}: ${check.detail}`).join('')}`
+      : '';
+    const countViolations = algorithmDesign ? `, ${violations.length} complexity violations` : '';
+    const checkData = {
+      ...(capacityPlan ? { capacity_checks: capacityChecks } : {}),
+      ...(algorithmDesign ? { complexity_checks: complexityChecks } : {})
+    };
 
-    // Check if solution addresses scale requirements
-    if (originalProblem.includes('million') && solutionText.includes('scaling')) {
-      validationResults.push('✅ SCALE: Solution addresses million-user requirement with horizontal scaling');
-    } else if (originalProblem.includes('million')) {
-      validationResults.push('⚠️ SCALE: Solution may need additional scaling considerations');
+    if (requirements.length === 0) {
+      const register = this.riskAssessor.assess(designElements, [], [], shortfalls);
+      return {
+        summary: `No extracted requirements to validate ${solution.length} solution components against, ${countRisks(register)}${countShortfalls}${countViolations}`,
+        content: `VALIDATION: No requirements were extracted from the problem statement, so the design could not be traced. ${describeRisks(register)}${capacityResults}${complexityResults}`,
+        confidence: 0.4,
+        data: { risk_register: register, ...checkData }
+      };
     }
 
-    // Check latency requirements
-    if (originalProblem.includes('latency') && solutionText.includes('Redis')) {
-      validationResults.push('✅ LATENCY: Caching strategy should meet sub-100ms requirements');
-    } else if (originalProblem.includes('latency')) {
-      validationResults.push('⚠️ LATENCY: Additional optimization may be needed for latency requirements');
-    }
+    const matrix = this.buildTraceabilityMatrix(requirements, designElements, new Set(requirements.map(requirement => requirement.id)));
+    const register = this.riskAssessor.assess(designElements, requirements, this.remediationTargets(matrix, requirements), shortfalls);
+    const statusIcons: Record<TraceabilityRow['status'], string> = { 'satisfied': '✅', 'partial': '⚠️', 'gap': '❌ GAP', 'not-traced': '➖' };
+    const validationResults = matrix.rows.map(row => {
+      const prefix = `${statusIcons[row.status]} ${row.requirement_id} ${row.requirement}`;
+      switch (row.status) {
+        case 'gap':
+          return `${prefix}: no design component addresses this requirement`;
+        case 'not-traced':
+          return algorithmDesign && ['input-size', 'memory-limit', 'update-rate'].includes(requirements.find(requirement => requirement.id === row.requirement_id)?.kind || '')
+            ? `${prefix}: constraint, see the complexity analysis`
+            : `${prefix}: constraint, check against the effort and cost estimate`;
+        default:
+          return `${prefix} → ${row.design_components.map(component => `${component.id} ${component.name}`).join(', ')} (${row.evidence.join(', ')})`;
+      }
+    });
+    const traceable = matrix.rows.filter(row => row.status !== 'not-traced');
+    const addressed = traceable.length - matrix.gaps.length;
 
-    // Check real-time collaboration
-    if (originalProblem.includes('real-time') && solutionText.includes('WebSocket')) {
-      validationResults.push('✅ REAL-TIME: WebSocket implementation supports real-time collaboration');
-    }
+    return {
+      summary: `Traced ${traceable.length} requirements to ${designElements.length} design components: ${addressed} addressed, ${matrix.gaps.length} gaps; ${countRisks(register)}${countShortfalls}${countViolations}`,
+      content: `VALIDATION:\n${validationResults.join('\n')}\nCOVERAGE: ${addressed}/${traceable.length} traceable requirements addressed (${Math.round(matrix.coverage * 100)}%)${matrix.gaps.length > 0 ? `\nGAPS: ${matrix.gaps.join(', ')}` : ''}${capacityResults}${complexityResults}\n${describeRisks(register)}`,
+      confidence: Math.round((0.4 + 0.5 * matrix.coverage) * 100) / 100,
+      data: { traceability: matrix, risk_register: register, ...checkData }
+    };
+  }
 
-    // Check data consistency
-    if (originalProblem.includes('consistency') && solutionText.includes('Event sourcing')) {
-      validationResults.push('✅ CONSISTENCY: Event sourcing provides strong consistency guarantees');
+  // Splits a design phase's output into its numbered sections so requirements can be traced to them.
+  private parseDesignElements(content: string, focus: string, step: number): DesignElement[] {
+    const elements: DesignElement[] = [];
+    for (const line of content.split('\n')) {
+      const heading = line.match(/^\s*(\d+)\.\s+(.+?):\s*$/);
+      if (heading) {
+        elements.push({ id: `D${step}.${heading[1]}`, name: heading[2].trim(), focus, step, details: [] });
+      } else if (elements.length > 0 && /^\s*-\s+/.test(line)) {
+        elements[elements.length - 1].details.push(line.replace(/^\s*-\s+/, '').trim());
+      }
     }
+    return elements;
+  }
 
-    const risks = [
-      'Database bottlenecks under extreme load',
-      'Network partitions affecting real-time sync',
-      'Memory consumption with large documents',
-      'Complex operational transformation conflicts'
-    ];
+  private evidenceRules(requirement: ExtractedRequirement): EvidenceRule[] | undefined {
+    return requirement.kind === 'functional'
+      ? FUNCTIONAL_EVIDENCE.find(rule => rule.requirement.test(requirement.source.text))?.evidence
+      : REQUIREMENT_EVIDENCE[requirement.kind];
+  }
 
-    return {
-      summary: `Validated solution against ${validationResults.length} requirements, identified ${risks.length} potential risks`,
-      content: `VALIDATION: ${validationResults.join('; ')}. RISKS: ${risks.join('; ')}`,
-      confidence: 0.75
-    };
+  // Remediation targets for the requirements validation left as gaps or partially addressed:
+  // the evidence each one still lacks to be satisfied, as design bullets.
+  private remediationTargets(matrix: TraceabilityMatrix, requirements: ExtractedRequirement[]): RemediationTarget[] {
+    const targets: RemediationTarget[] = [];
+    for (const row of matrix.rows.filter(row => row.status === 'gap' || row.status === 'partial')) {
+      const requirement = requirements.find(candidate => candidate.id === row.requirement_id);
+      const missing = requirement ? (this.evidenceRules(requirement) || []).filter(rule => !row.evidence.includes(rule.label)) : [];
+      if (!requirement || missing.length === 0) continue;
+      const needed = requirement.kind === 'functional' ? 1 : 2 - row.evidence.length;
+      targets.push({ requirement, status: row.status as RemediationTarget['status'], remedies: missing.slice(0, needed).map(rule => rule.remedy) });
+    }
+    return targets;
   }
 
-  private _internal_solution_synthesis(components: string[], problemType: string): { summary: string, content: string, confidence: number } {
-    const synthesis = `
-COMPREHENSIVE SOLUTION SYNTHESIS:
+  private buildTraceabilityMatrix(requirements: ExtractedRequirement[], designElements: DesignElement[], validatedIds: Set<string>): TraceabilityMatrix {
+    const rows = requirements.map((requirement): TraceabilityRow => {
+      const evidencePatterns = this.evidenceRules(requirement);
+      const base = { requirement_id: requirement.id, requirement: requirement.description, category: requirement.category, validated: validatedIds.has(requirement.id) };
 
-${components.join('\n\n')}
+      if (!evidencePatterns) {
+        return { ...base, design_components: [], evidence: [], status: 'not-traced' };
+      }
 
-IMPLEMENTATION ROADMAP:
-1. Phase 1: Core infrastructure setup (API Gateway, basic services)
-2. Phase 2: Real-time collaboration engine implementation
-3. Phase 3: Scaling and optimization
-4. Phase 4: Advanced features and monitoring
+      const components: Array<{ id: string; name: string }> = [];
+      const evidence = new Set<string>();
+      for (const element of designElements) {
+        const text = `${element.name} ${element.details.join(' ')}`;
+        const found = evidencePatterns.filter(candidate => candidate.pattern.test(text));
+        if (found.length > 0) {
+          components.push({ id: element.id, name: element.name });
+          found.forEach(candidate => evidence.add(candidate.label));
+        }
+      }
 
-TECHNOLOGY STACK RECOMMENDATION:
-- Backend: Node.js/TypeScript with Express or Fastify
-- Database: PostgreSQL with Redis for caching
-- Message Queue: Apache Kafka for event streaming
-- Container: Docker with Kubernetes orchestration
-- Monitoring: Prometheus + Grafana + Jaeger for tracing
+      // One kind of evidence is a partial answer for quantitative targets; functional ones need only one.
+      const needed = requirement.kind === 'functional' ? 1 : 2;
+      const status = components.length === 0 ? 'gap' : evidence.size >= needed ? 'satisfied' : 'partial';
+      return { ...base, design_components: components, evidence: [...evidence], status };
+    });
 
-ESTIMATED EFFORT: 6-9 months with a team of 8-10 engineers
-ESTIMATED COST: $500K-$800K for initial development`;
+    const traceable = rows.filter(row => row.status !== 'not-traced');
+    const gaps = traceable.filter(row => row.status === 'gap').map(row => row.requirement_id);
 
     return {
-      summary: `Synthesized comprehensive solution with ${components.length} integrated components`,
+      rows,
+      gaps,
+      coverage: traceable.length === 0 ? 1 : Math.round(((traceable.length - gaps.length) / traceable.length) * 100) / 100
+    };
+  }
+
+  private _internal_threat_modeling(designElements: DesignElement[], requirements: ExtractedRequirement[]): InternalToolResult {
+    const architecture = designElements.length > 0 ? this.architectureModeler.build(designElements) : undefined;
+    if (!architecture || architecture.nodes.length === 0) {
+      return {
+        summary: 'No design components to build a data-flow model from',
+        content: 'THREAT MODEL: No design phase produced components before threat modelling, so there are no data-flow elements to analyse.',
+        confidence: 0.3
+      };
+    }
+
+    const model = this.threatModeler.model(architecture, requirements);
+    const flows = model.elements.filter(element => element.type === 'data-flow').length;
+    return {
+      summary: `Modelled ${model.elements.length - flows} elements and ${flows} data flows across ${model.boundaries.length} trust boundaries: ${model.threats.length} STRIDE threats (${model.threats.filter(threat => threat.severity === 'high').length} high)`,
+      content: model.markdown,
+      confidence: 0.8,
+      data: { threat_model: model }
+    };
+  }
+
+  private _internal_capacity_planning(designElements: DesignElement[], requirements: ExtractedRequirement[], parameters?: CapacityParameters): InternalToolResult {
+    const sized = requirements.filter(requirement => ['throughput', 'user-scale', 'data-volume'].includes(requirement.kind) && requirement.value !== undefined);
+    if (sized.length === 0) {
+      return {
+        summary: 'No load, user-scale or data-volume requirements to size the design from',
+        content: 'CAPACITY PLAN: The problem statement states no throughput, user count or data volume, so there is nothing to size. Add them to the problem statement to get a capacity plan.',
+        confidence: 0.3
+      };
+    }
+
+    const architecture = designElements.length > 0 ? this.architectureModeler.build(designElements) : undefined;
+    const services = architecture ? architecture.nodes.filter(node => node.kind === 'service').length : 0;
+    const plan = this.capacityPlanner.plan(requirements, designElements, services, parameters);
+    return {
+      summary: `Sized ${plan.load.peak_rps.toLocaleString('en-US')} peak req/s and ${plan.storage.daily_growth_gb} GB/day from ${plan.requirements.join(', ')}: ${plan.instances.application} application instances, ${plan.instances.write_primaries} write primaries, ${plan.instances.read_replicas} read replicas`,
+      content: this.capacityPlanner.describe(plan),
+      confidence: 0.7,
+      data: { capacity_plan: plan }
+    };
+  }
+
+  private _internal_solution_synthesis(components: string[], problemType: string, designElements: DesignElement[] = [], requirements: ExtractedRequirement[] = [], estimation?: EstimationParameters): InternalToolResult {
+    const estimate = this.effortEstimator.estimate(designElements, requirements, estimation);
+    const roadmap = `IMPLEMENTATION ROADMAP:
+1. Phase 1: Core infrastructure setup (API Gateway, basic services)
+2. Phase 2: Real-time collaboration engine implementation
+3. Phase 3: Scaling and optimization
+4. Phase 4: Advanced features and monitoring
+
+TECHNOLOGY STACK RECOMMENDATION:
+- Backend: Node.js/TypeScript with Express or Fastify
+- Database: PostgreSQL with Redis for caching
+- Message Queue: Apache Kafka for event streaming
+- Container: Docker with Kubernetes orchestration
+- Monitoring: Prometheus + Grafana + Jaeger for tracing`;
+    const synthesis = `
+COMPREHENSIVE SOLUTION SYNTHESIS:
+
+${components.join('\n\n')}
+
+${roadmap}
+
+${this.effortEstimator.describe(estimate)}`;
+
+    return {
+      summary: `Synthesized comprehensive solution with ${components.length} integrated components; estimated ${estimate.effort_engineer_weeks.expected} engineer-weeks`,
       content: synthesis,
-      confidence: 0.9
+      confidence: 0.9,
+      data: { estimate, report: roadmap }
     };
   }
 
-  private generateFinalSolution(components: string[], problemType: string, originalProblem: string): string {
+  private _internal_code_analysis(files: Array<{ path: string; content: string }>, matches: Array<{ file: string; line: number; text: string }>, topic?: string): { summary: string, content: string, confidence: number } {
+    if (files.length === 0) {
+      return {
+        summary: `No source files were read${topic ? ` for '${topic}'` : ''}; ${matches.length} search matches recorded`,
+        content: `CODE ANALYSIS: No source files were read. Search matches: ${matches.slice(0, 10).map(match => `${match.file}:${match.line}`).join(', ') || 'none'}`,
+        confidence: 0.3
+      };
+    }
+
+    const checks: Array<{ label: string; pattern: RegExp }> = [
+      { label: 'possible hard-coded credential', pattern: /(password|passwd|secret|api[_-]?key|token)\s*[:=]\s*['"][^'"\s]{4,}['"]/gi },
+      { label: 'dynamic code execution (eval/new Function)', pattern: /\beval\s*\(|new Function\s*\(/g },
+      { label: 'empty catch block', pattern: /catch\s*(?:\([^)]*\))?\s*\{\s*\}/g },
+      { label: 'untyped `any`', pattern: /:\s*any\b/g },
+      { label: 'console logging', pattern: /\bconsole\.(?:log|debug)\s*\(/g },
+      { label: 'TODO/FIXME marker', pattern: /\b(?:TODO|FIXME|HACK|XXX)\b/g }
+    ];
+
+    const reports = files.map(file => {
+      const lines = file.content.split(/\r?\n/);
+      const findings = checks
+        .map(check => ({ label: check.label, count: (file.content.match(check.pattern) || []).length }))
+        .filter(finding => finding.count > 0)
+        .map(finding => `${finding.label} ×${finding.count}`);
+      const longLines = lines.filter(line => line.length > 140).length;
+      if (longLines > 0) findings.push(`lines over 140 chars ×${longLines}`);
+      if (lines.length > 500) findings.push(`large module (${lines.length} lines)`);
+
+      const definitions = lines.filter(line => /^\s*(?:export\s+)?(?:async\s+)?(?:function|class|interface|def|func|fn)\s+\w+/.test(line)).length;
+      const patterns = this.identifyCodePatterns(file.content);
+      const topicMatches = matches.filter(match => nodePath.resolve(this.workspaceSandbox.root, match.file) === nodePath.resolve(this.workspaceSandbox.root, file.path)).length;
+
+      return `- ${file.path}: ${lines.length} lines, ${definitions} top-level definitions${topic ? `, ${topicMatches} '${topic}' matches` : ''}` +
+        `\n  Findings: ${findings.length > 0 ? findings.join('; ') : 'none'}` +
+        (patterns.length > 0 ? `\n  Patterns: ${patterns.join(', ')}` : '');
+    });
+
+    const matchedFiles = new Set(matches.map(match => match.file)).size;
+
+    return {
+      summary: `Analyzed ${files.length} source files${topic ? ` for '${topic}'` : ''} (${matches.length} matches across ${matchedFiles} files)`,
+      content: `CODE ANALYSIS:\n${reports.join('\n')}`,
+      confidence: 0.8
+    };
+  }
+
+  private generateFinalSolution(components: ReportComponent[], problemType: string, originalProblem: string): string {
     if (components.length === 0) {
       return `Unable to generate solution for: ${originalProblem}`;
     }
 
-    // Extract key components for better synthesis
-    const requirements = components.find(c => c.includes('REQUIREMENTS:')) || '';
-    const architecturalKnowledge = components.find(c => c.includes('DOMAIN KNOWLEDGE:')) || '';
-    const coreServices = components.find(c => c.includes('CORE MICROSERVICES')) || '';
-    const integration = components.find(c => c.includes('SERVICE INTEGRATION:')) || '';
-    const database = components.find(c => c.includes('POLYGLOT DATABASE:')) || '';
-    const deployment = components.find(c => c.includes('KUBERNETES DEPLOYMENT:')) || '';
-    const validation = components.find(c => c.includes('VALIDATION:')) || '';
+    const template = REPORT_TEMPLATES[problemType] || DEFAULT_REPORT_TEMPLATE;
+    const sections = [...template.sections, ...COMMON_REPORT_SECTIONS];
+    const claimed = new Set<ReportComponent>();
+    const sectionContent = new Map<ReportSectionTemplate, string[]>();
+
+    // Focus-specific sections claim their components first, so catch-all sections only get the rest
+    const claimOrder = [...sections.filter(section => section.focus), ...sections.filter(section => !section.focus)];
+    for (const section of claimOrder) {
+      const matching = components.filter(component =>
+        !claimed.has(component) &&
+        section.phaseTypes.includes(component.phaseType) &&
+        (!section.focus || section.focus.includes(component.focus))
+      );
+      matching.forEach(component => claimed.add(component));
+      sectionContent.set(section, matching.map(component => component.content.trim()).filter(content => content.length > 0));
+    }
+
+    const renderedSections = sections
+      .filter(section => (sectionContent.get(section) || []).length > 0)
+      .map(section => `### ${section.heading}\n${sectionContent.get(section)!.join('\n\n')}`);
+
+    // Phases no section maps (e.g. custom strategy phase types) still reach the report; raw tool output does not
+    const unclaimed = components
+      .filter(component => !claimed.has(component) && component.phaseType !== 'tool')
+      .map(component => component.content.trim())
+      .filter(content => content.length > 0);
+    if (unclaimed.length > 0) {
+      renderedSections.push(`### ${UNMAPPED_REPORT_HEADING}\n${unclaimed.join('\n\n')}`);
+    }
+
+    const headline = originalProblem.split(/(?<=[.!?])\s/)[0].substring(0, 80);
 
     return `
-## COMPREHENSIVE SOLUTION: Real-Time Collaborative Document Editing Platform
+## ${template.title}: ${headline}
 
 ### PROBLEM ANALYSIS
 ${originalProblem}
 
 **Problem Type:** ${problemType}
 
-### SYSTEM REQUIREMENTS
-${requirements}
+${renderedSections.join('\n\n')}`;
+  }
 
-### ARCHITECTURAL FOUNDATION
-${architecturalKnowledge}
+  // Digest of the orchestrator result (or, in fast mode, the problem statement), or of the
+  // thoughts recorded through cognitive_thinking when digest_source is 'thought_session'.
+  private createRoleDigest(input: CognitiveThinkingInput, result?: CognitiveThinkingOutput): RoleDigest {
+    const role = input.summary_role!;
+    if (input.digest_source === 'thought_session') {
+      const passages = this.thoughtSession().map(thought => ({ text: thought.thought, source: `thought ${thought.thoughtNumber}` }));
+      return this.buildRoleDigest(role, input.custom_roles, 'thought_session', this.collectTextDigestItems(passages), passages.map(passage => passage.text));
+    }
+    if (result) {
+      const reportText = result.solution_summary.split('\n').filter(line => !/^\s*(?:#|\*\*)/.test(line)).join(' ');
+      return this.buildRoleDigest(role, input.custom_roles, 'result', this.collectResultDigestItems(result), reportText);
+    }
+    return this.buildRoleDigest(role, input.custom_roles, 'result', this.collectTextDigestItems([{ text: input.problem_statement, source: 'problem statement' }]), input.problem_statement);
+  }
 
-### SOLUTION ARCHITECTURE
+  // Checked with the other input, so an unknown role fails the call before the run rather than after it.
+  private timeoutInputError(input: CognitiveThinkingInput): string | null {
+    for (const field of ['step_timeout_ms', 'total_timeout_ms'] as const) {
+      const value: unknown = input[field];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_TIMEOUT_MS)) {
+        return `${field} must be an integer at least 1 and at most ${MAX_TIMEOUT_MS} (got ${typeof value === 'number' ? value : JSON.stringify(value)})`;
+      }
+    }
+    return null;
+  }
 
-${coreServices}
+  private roleInputError(input: CognitiveThinkingInput): string | null {
+    if (input.digest_source === 'thought_session' && this.thoughtHistory.length === 0) {
+      return 'digest_source is thought_session, but no thoughts have been recorded with cognitive_thinking yet';
+    }
+    const customRoles: unknown = input.custom_roles;
+    if (customRoles !== undefined) {
+      if (!Array.isArray(customRoles)) {
+        return 'custom_roles must be an array';
+      }
+      const invalid = customRoles.findIndex(role => !role || typeof role.name !== 'string' || role.name.trim() === '' || !Array.isArray(role.keywords) || role.keywords.some((keyword: unknown) => typeof keyword !== 'string'));
+      if (invalid >= 0) {
+        return `custom_roles[${invalid}] needs a non-empty name and an array of string keywords`;
+      }
+    }
+    const role: unknown = input.summary_role;
+    if (role === undefined || role === '') {
+      return null;
+    }
+    if (typeof role !== 'string') {
+      return 'summary_role must be a string';
+    }
+    try {
+      this.resolveRoleProfile(role, input.custom_roles);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
 
-${database}
+  // Resolves a built-in role ("qa" matches "qa engineer") or a custom role from the request.
+  private resolveRoleProfile(role: string, customRoles: CustomRole[] = []): { name: string; profile: RoleProfile } {
+    const key = role.trim().toLowerCase();
+    const custom = customRoles.find(candidate => candidate.name.trim().toLowerCase() === key);
+    if (custom) {
+      return { name: custom.name, profile: { keywords: custom.keywords.map(keyword => keyword.toLowerCase()), always: ['blocker'], actions: CUSTOM_ROLE_ACTIONS } };
+    }
+    const builtIn = Object.keys(ROLE_PROFILES).find(name => name === key || name.startsWith(`${key} `));
+    if (builtIn) {
+      return { name: builtIn, profile: ROLE_PROFILES[builtIn] };
+    }
+    throw new Error(`Unknown summary_role '${role}': use one of ${Object.keys(ROLE_PROFILES).join(', ')} or define it in custom_roles`);
+  }
+
+  // Digest items from an orchestrator run: traceability gaps and constraints, uncovered
+  // requirements, validation risks, and steps that failed or wait for approval.
+  private collectResultDigestItems(result: CognitiveThinkingOutput): DigestItem[] {
+    const items: DigestItem[] = [];
+
+    if (result.traceability) {
+      for (const row of result.traceability.rows) {
+        if (row.status === 'gap') {
+          items.push({ kind: 'gap', text: `${row.requirement_id} ${row.requirement} has no design component`, source: 'traceability' });
+        } else if (row.status === 'partial') {
+          items.push({ kind: 'gap', text: `${row.requirement_id} ${row.requirement} is only partly addressed (${row.evidence.join(', ')})`, source: 'traceability' });
+        } else if (row.status === 'not-traced') {
+          items.push({ kind: 'constraint', text: `${row.requirement_id} ${row.requirement}`, source: 'traceability' });
+        } else {
+          items.push({ kind: 'requirement', text: `${row.requirement_id} ${row.requirement}`, source: 'traceability' });
+        }
+      }
+    } else {
+      for (const requirement of result.requirements || []) {
+        items.push({ kind: requirement.category === 'constraint' ? 'constraint' : 'requirement', text: `${requirement.id} ${requirement.description}`, source: 'requirements' });
+      }
+    }
 
-${integration}
+    if (result.risk_register) {
+      result.risk_register.risks.forEach(risk => items.push({ kind: 'risk', text: `${risk.id} ${risk.title} (${risk.rating}, owner ${risk.owner}): ${risk.mitigation}`, source: 'risk register' }));
+    } else {
+      const risks = result.solution_summary.match(/RISKS:\s*([^\n]+)/);
+      if (risks) {
+        risks[1].split(';').map(risk => risk.trim()).filter(risk => risk.length > 0)
+          .forEach(risk => items.push({ kind: 'risk', text: risk, source: 'validation' }));
+      }
+    }
 
-${deployment}
+    for (const step of result.cognitive_trace) {
+      if (step.status === 'error' || step.status === 'aborted') {
+        items.push({ kind: 'blocker', text: `Step ${step.step} ${step.tool_called} ${step.status}: ${step.error?.message || step.abort_reason || step.tool_result_summary}`, source: `step ${step.step}` });
+      }
+    }
+    if (result.pending_approval) {
+      items.push({ kind: 'blocker', text: `Command '${result.pending_approval.command}' awaits approval (${result.pending_approval.approval_id}): ${result.pending_approval.reasons.join('; ')}`, source: `step ${result.pending_approval.step}` });
+    }
 
-### VALIDATION & RISK ASSESSMENT
-${validation}
+    return items;
+  }
 
-### TECHNOLOGY STACK SUMMARY
-- **Backend Services:** Node.js + TypeScript + Express/Fastify
-- **Databases:** PostgreSQL (primary), MongoDB (documents), Redis (real-time), Elasticsearch (search)
-- **Message Queue:** Apache Kafka for event streaming
-- **Real-time Engine:** Socket.io + Operational Transformation (ShareJS)
-- **Container Platform:** Docker + Kubernetes
-- **API Gateway:** Kong or AWS API Gateway
-- **Monitoring:** Prometheus + Grafana + Jaeger + ELK Stack
+  // Digest items from free text (a problem statement or a thought session): open questions
+  // become gaps, sentences about risks become risks, and everything else is a finding.
+  private collectTextDigestItems(passages: Array<{ text: string; source: string }>): DigestItem[] {
+    const items: DigestItem[] = [];
+    for (const passage of passages) {
+      for (const sentence of this.summarizer.segment(passage.text)) {
+        const kind: DigestItem['kind'] = sentence.endsWith('?') ? 'gap'
+          : /\b(?:risks?|concerns?|issues?|problems?|might fail|could fail|bottlenecks?|vulnerab\w*)\b/i.test(sentence) ? 'risk'
+          : /\b(?:blocked|blocker|failing|broken|outage)\b/i.test(sentence) ? 'blocker'
+          : 'finding';
+        items.push({ kind, text: sentence, source: passage.source });
+      }
+    }
+    return items;
+  }
 
-### IMPLEMENTATION ROADMAP
-1. **Phase 1 (Months 1-2):** Core infrastructure and basic services
-2. **Phase 2 (Months 3-4):** Real-time collaboration engine
-3. **Phase 3 (Months 5-6):** Scaling and performance optimization
-4. **Phase 4 (Months 7-8):** Advanced features and monitoring
+  private buildRoleDigest(role: string, customRoles: CustomRole[] | undefined, source: RoleDigest['source'], items: DigestItem[], summaryText: string | string[]): RoleDigest {
+    const { name, profile } = this.resolveRoleProfile(role, customRoles);
+    const mentionsKeyword = (text: string) => profile.keywords.some(keyword => text.toLowerCase().includes(keyword));
+    const relevant = items.filter(item => profile.always.includes(item.kind) || mentionsKeyword(item.text));
+    const priorityOf = (kind: DigestItem['kind']): DigestActionItem['priority'] =>
+      kind === 'blocker' || kind === 'gap' ? 'high' : kind === 'risk' ? 'medium' : 'low';
+    const order = { high: 0, medium: 1, low: 2 };
 
-### ESTIMATED METRICS
-- **Development Time:** 8-10 months
-- **Team Size:** 10-12 engineers
-- **Infrastructure Cost:** $15K-25K/month
-- **Expected Performance:** <50ms latency for 1M concurrent users
+    const actionItems = relevant
+      .filter(item => profile.actions[item.kind])
+      .map(item => ({ action: profile.actions[item.kind]!.replace('{item}', item.text), priority: priorityOf(item.kind), source: item.source }))
+      .sort((a, b) => order[a.priority] - order[b.priority]);
 
-This solution provides a production-ready, scalable architecture capable of handling enterprise-level collaborative document editing requirements.`;
+    return {
+      role: name,
+      source,
+      summary: this._internal_summarize(summaryText, 60, profile.keywords),
+      highlights: relevant.filter(item => mentionsKeyword(item.text)).map(item => item.text).slice(0, 10),
+      action_items: actionItems.slice(0, 15)
+    };
   }
 
   private generateNextActionSuggestion(problemStatement: string, solutionSummary: string, problemType: string): string {
@@ -2053,6 +4088,1292 @@ This solution provides a production-ready, scalable architecture capable of hand
   }
 }
 
+class StepAbortedError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'StepAbortedError';
+  }
+}
+
+class StrategyRegistry {
+  private strategies: Map<string, StrategyDefinition> = new Map();
+
+  constructor(definitions: StrategyDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  register(definition: StrategyDefinition): void {
+    this.strategies.set(definition.name, definition);
+  }
+
+  get(name: string): StrategyDefinition | undefined {
+    return this.strategies.get(name);
+  }
+
+  list(): StrategyDefinition[] {
+    return Array.from(this.strategies.values());
+  }
+
+  // Returns the name of the best-matching strategy with matchers, or undefined if none apply
+  match(problemStatement: string): string | undefined {
+    const text = problemStatement.toLowerCase();
+    let best: { name: string; score: number; priority: number } | undefined;
+
+    for (const definition of this.strategies.values()) {
+      if (!definition.matchers) continue;
+      const { keywords = [], patterns = [], min_matches = 1 } = definition.matchers;
+      const score = keywords.filter(keyword => text.includes(keyword.toLowerCase())).length +
+        patterns.filter(pattern => new RegExp(pattern, 'i').test(problemStatement)).length;
+      const priority = definition.priority || 0;
+
+      if (score >= min_matches && (!best || priority > best.priority || (priority === best.priority && score > best.score))) {
+        best = { name: definition.name, score, priority };
+      }
+    }
+
+    return best?.name;
+  }
+
+  // Loads strategies from a JSON file ({ "strategies": [...] } or a bare array). Invalid entries
+  // are reported on stderr and skipped so a bad config never takes the server down.
+  loadFromFile(filePath: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`Could not load strategies from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const entries = Array.isArray(parsed) ? parsed : (parsed as { strategies?: unknown })?.strategies;
+    if (!Array.isArray(entries)) {
+      console.error(`Could not load strategies from ${filePath}: expected an array or a "strategies" array`);
+      return;
+    }
+
+    entries.forEach((entry, index) => {
+      const problem = this.validateDefinition(entry);
+      if (problem) {
+        console.error(`Skipping strategy #${index + 1} in ${filePath}: ${problem}`);
+      } else {
+        this.register(entry as StrategyDefinition);
+      }
+    });
+  }
+
+  private validateDefinition(entry: any): string | null {
+    if (!entry || typeof entry.name !== 'string' || entry.name.trim().length === 0) {
+      return 'name must be a non-empty string';
+    }
+    if (!Array.isArray(entry.phases) || entry.phases.length === 0) {
+      return `'${entry.name}' needs a non-empty phases array`;
+    }
+    const badPhase = entry.phases.find((phase: any) => !STRATEGY_PHASE_TYPES.includes(phase?.type) || typeof phase?.focus !== 'string' || phase.focus.length === 0);
+    if (badPhase) {
+      return `'${entry.name}' has an invalid phase ${JSON.stringify(badPhase)}; type must be one of ${STRATEGY_PHASE_TYPES.join(', ')} and focus a non-empty string`;
+    }
+    if (entry.priority !== undefined && typeof entry.priority !== 'number') {
+      return `'${entry.name}' priority must be a number`;
+    }
+    if (entry.matchers !== undefined) {
+      if (typeof entry.matchers !== 'object' || entry.matchers === null || Array.isArray(entry.matchers)) {
+        return `'${entry.name}' matchers must be an object`;
+      }
+      const { keywords, patterns, min_matches } = entry.matchers;
+      if ((keywords !== undefined && !Array.isArray(keywords)) || (patterns !== undefined && !Array.isArray(patterns))) {
+        return `'${entry.name}' matchers.keywords and matchers.patterns must be arrays`;
+      }
+      // An empty keyword or pattern would match every problem statement
+      const badKeyword = (keywords || []).find((keyword: unknown) => typeof keyword !== 'string' || keyword.trim().length === 0);
+      if (badKeyword !== undefined) {
+        return `'${entry.name}' has an invalid keyword ${JSON.stringify(badKeyword)}; keywords must be non-empty strings`;
+      }
+      const badPattern = (patterns || []).find((pattern: unknown) => typeof pattern !== 'string' || pattern.length === 0);
+      if (badPattern !== undefined) {
+        return `'${entry.name}' has an invalid pattern ${JSON.stringify(badPattern)}; patterns must be non-empty strings`;
+      }
+      if (min_matches !== undefined && typeof min_matches !== 'number') {
+        return `'${entry.name}' matchers.min_matches must be a number`;
+      }
+      for (const pattern of patterns || []) {
+        try {
+          new RegExp(pattern, 'i');
+        } catch {
+          return `'${entry.name}' has an invalid pattern ${JSON.stringify(pattern)}`;
+        }
+      }
+    }
+    return null;
+  }
+}
+
+// Extractive summarizer: sentences are ranked with TextRank (PageRank over a word-overlap
+// similarity graph), optionally biased towards sentences that mention given keywords, and
+// the best-ranked ones that fit the word budget are returned in their original order.
+export class TextRankSummarizer {
+  private static readonly ABBREVIATIONS = [
+    'e.g', 'i.e', 'etc', 'vs', 'cf', 'al', 'approx', 'incl', 'esp', 'fig', 'no', 'vol', 'dept', 'est',
+    'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'inc', 'ltd', 'co', 'corp',
+    'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec'
+  ];
+  private static readonly STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out', 'has', 'have',
+    'this', 'that', 'with', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'about', 'which', 'when', 'make', 'like',
+    'into', 'than', 'then', 'them', 'these', 'some', 'could', 'should', 'other', 'been', 'were', 'also', 'each', 'such', 'its',
+    'it\'s', 'via', 'per', 'how', 'who', 'why', 'use', 'using', 'used', 'need', 'needs', 'must', 'may', 'might', 'more', 'most'
+  ]);
+  private static readonly DAMPING = 0.85;
+
+  /** Splits text into sentences without breaking on abbreviations, decimals or code spans. */
+  segment(text: string): string[] {
+    const protectedSpans: string[] = [];
+    const protect = (span: string) => `\u0000${protectedSpans.push(span) - 1}\u0000`;
+
+    // Fenced code blocks stand alone; inline code and URLs are kept intact.
+    let working = text
+      .replace(/```[\s\S]*?```/g, block => `\n\n${protect(block)}\n\n`)
+      .replace(/`[^`\n]+`/g, protect)
+      .replace(/\bhttps?:\/\/\S+/g, protect);
+
+    const abbreviations = new RegExp(`\\b(${TextRankSummarizer.ABBREVIATIONS.map(abbreviation => abbreviation.replace(/\./g, '\\.')).join('|')})\\.`, 'gi');
+    working = working
+      .replace(abbreviations, match => match.replace(/\./g, '\u0001'))
+      .replace(/\b([A-Z])\.(?=\s*[A-Z]\.|\s+[A-Z][a-z])/g, '$1\u0001') // Initials: "J. Smith", "U.S."
+      .replace(/(\d)\.(\d)/g, '$1\u0001$2');
+
+    const sentences: string[] = [];
+    for (const block of working.split(/\n\s*\n|\n(?=\s*(?:[-*•]|\d+[.)])\s)/)) {
+      const parts = block.split(/(?<=[.!?]["')\]]*)\s+(?=["'(\[]?[A-Z0-9\u0000])/);
+      for (const part of parts) {
+        const sentence = part
+          .replace(/\s+/g, ' ')
+          .trim()
+          .replace(/\u0001/g, '.')
+          .replace(/\u0000(\d+)\u0000/g, (_, index) => protectedSpans[Number(index)]);
+        if (sentence.length > 0) sentences.push(sentence);
+      }
+    }
+    return sentences;
+  }
+
+  /**
+   * Summarizes one text, or several passages (e.g. the thoughts of a session) as one document.
+   * `maxWords` bounds the summary; `keywords` bias the ranking towards matching sentences.
+   */
+  summarize(input: string | string[], maxWords: number, keywords: string[] = []): string {
+    const sentences = (Array.isArray(input) ? input : [input]).flatMap(passage => this.segment(passage));
+    if (sentences.length === 0) return '';
+
+    const wordCounts = sentences.map(sentence => sentence.split(/\s+/).length);
+    const scores = this.rank(sentences, keywords);
+    // Code blocks are kept out of summaries; they rank on shared identifiers, not on content.
+    const candidates = sentences
+      .map((sentence, index) => ({ index, score: scores[index] }))
+      .filter(candidate => !sentences[candidate.index].startsWith('```'))
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    const selected: number[] = [];
+    let used = 0;
+    for (const candidate of candidates) {
+      if (used + wordCounts[candidate.index] <= maxWords) {
+        selected.push(candidate.index);
+        used += wordCounts[candidate.index];
+      }
+    }
+
+    if (selected.length === 0 && candidates.length > 0) {
+      // Even the best sentence is over budget: truncate it rather than return nothing.
+      return `${sentences[candidates[0].index].split(/\s+/).slice(0, Math.max(1, maxWords)).join(' ')}…`;
+    }
+
+    return selected.sort((a, b) => a - b).map(index => sentences[index]).join(' ');
+  }
+
+  private rank(sentences: string[], keywords: string[]): number[] {
+    const count = sentences.length;
+    const tokens = sentences.map(sentence => this.tokenize(sentence));
+    const weights: number[][] = sentences.map(() => new Array(count).fill(0));
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const similarity = this.similarity(tokens[i], tokens[j]);
+        weights[i][j] = similarity;
+        weights[j][i] = similarity;
+      }
+    }
+
+    // Personalization: uniform, plus extra teleport mass for keyword matches.
+    const lowerKeywords = keywords.map(keyword => keyword.toLowerCase());
+    const bias = sentences.map(sentence => 1 + lowerKeywords.filter(keyword => sentence.toLowerCase().includes(keyword)).length);
+    const biasTotal = bias.reduce((sum, value) => sum + value, 0);
+    const teleport = bias.map(value => value / biasTotal);
+
+    const outWeight = weights.map(row => row.reduce((sum, value) => sum + value, 0));
+    let scores = [...teleport];
+    for (let iteration = 0; iteration < 100; iteration++) {
+      // Sentences with no similar neighbour hand their score back through the teleport vector.
+      const dangling = scores.reduce((sum, score, index) => sum + (outWeight[index] === 0 ? score : 0), 0);
+      const next = teleport.map((share, i) => {
+        let incoming = 0;
+        for (let j = 0; j < count; j++) {
+          if (weights[j][i] > 0) incoming += (weights[j][i] / outWeight[j]) * scores[j];
+        }
+        return (1 - TextRankSummarizer.DAMPING) * share + TextRankSummarizer.DAMPING * (incoming + dangling * share);
+      });
+      const delta = next.reduce((max, score, index) => Math.max(max, Math.abs(score - scores[index])), 0);
+      scores = next;
+      if (delta < 1e-6) break;
+    }
+    return scores;
+  }
+
+  private tokenize(sentence: string): Set<string> {
+    const words = sentence.toLowerCase().match(/[a-z][a-z0-9'-]+/g) || [];
+    return new Set(words
+      .filter(word => word.length > 2 && !TextRankSummarizer.STOPWORDS.has(word))
+      .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)));
+  }
+
+  // Similarity from the original TextRank paper: shared words normalized by sentence lengths.
+  private similarity(a: Set<string>, b: Set<string>): number {
+    let overlap = 0;
+    a.forEach(word => { if (b.has(word)) overlap++; });
+    if (overlap === 0) return 0;
+    const normalizer = Math.log(a.size + 1) + Math.log(b.size + 1);
+    return overlap / normalizer;
+  }
+}
+
+// Component-point effort model. Each design component is sized by its kind and detail,
+// adjusted by COCOMO-style effort multipliers derived from the quantified requirements, and
+// converted to effort with the team's velocity. The COCOMO II nominal schedule is reported
+// next to the team-based duration so schedule compression shows up as a risk.
+export class EffortEstimator {
+  static readonly DEFAULTS = { hourly_rate: 100, hours_per_week: 40, velocity: 0.75, team_size: 6 };
+  static readonly WEEKS_PER_PERIOD = { month: 52 / 12, quarter: 13, year: 52 };
+  // Same ranges as the `estimation` input schema; a zero team or velocity would divide into Infinity
+  static readonly BOUNDS: Record<keyof EstimationParameters, NumericBound> = {
+    team_size: { min: 1, integer: true },
+    hourly_rate: { min: 0 },
+    hours_per_week: { min: 1 },
+    velocity: { min: 0, exclusive: true }
+  };
+
+  /** Returns why the `estimation` input is out of range, or null when it can be estimated with. */
+  validate(parameters: unknown): string | null {
+    return numericParameterError('estimation', parameters, EffortEstimator.BOUNDS);
+  }
+
+  estimate(designElements: DesignElement[], requirements: ExtractedRequirement[], parameters: EstimationParameters = {}): EffortEstimate {
+    const invalid = this.validate(parameters);
+    if (invalid) {
+      throw new Error(`Invalid estimation parameters: ${invalid}`);
+    }
+    const assumptions: string[] = [];
+    const fromDesign = designElements.length > 0;
+
+    const breakdown = fromDesign
+      ? designElements.map(element => ({ component: `${element.id} ${element.name}`, points: this.componentPoints(element) }))
+      : requirements.filter(requirement => requirement.category !== 'constraint').map(requirement => ({
+        component: `${requirement.id} ${requirement.description}`,
+        points: requirement.kind === 'functional' ? 3 : 2
+      }));
+    if (breakdown.length === 0) {
+      breakdown.push({ component: 'Unspecified scope', points: 10 });
+      assumptions.push('No design components or requirements were available; scope assumed to be 10 points');
+    }
+    assumptions.push(fromDesign
+      ? `Sized ${designElements.length} design components: services and gateways 5 points, datastores 4, messaging and integration 4, infrastructure 3, other 3, plus 0.5 per detail beyond the second (max +2)`
+      : 'Sized from requirements because no design components were produced: 3 points per functional requirement, 2 per quality requirement');
+
+    const componentPoints = breakdown.reduce((sum, item) => sum + item.points, 0);
+    const multipliers = this.effortMultipliers(requirements);
+    const adjustedPoints = multipliers.reduce((points, multiplier) => points * multiplier.value, componentPoints);
+
+    const teamRequirement = requirements.find(requirement => requirement.kind === 'team-size' && requirement.value !== undefined);
+    const teamSize = parameters.team_size ?? teamRequirement?.value ?? EffortEstimator.DEFAULTS.team_size;
+    const velocity = parameters.velocity ?? EffortEstimator.DEFAULTS.velocity;
+    const hourlyRate = parameters.hourly_rate ?? EffortEstimator.DEFAULTS.hourly_rate;
+    const hoursPerWeek = parameters.hours_per_week ?? EffortEstimator.DEFAULTS.hours_per_week;
+    const source = (value: unknown, fallback: string) => value !== undefined ? 'input' : fallback;
+    assumptions.push(`Team of ${teamSize} engineers (${parameters.team_size !== undefined ? 'input' : teamRequirement ? `requirement ${teamRequirement.id}` : 'default'})`);
+    assumptions.push(`Velocity ${velocity} points per engineer-week (${source(parameters.velocity, 'default')})`);
+    assumptions.push(`Blended rate $${hourlyRate}/hour at ${hoursPerWeek} hours/week (${source(parameters.hourly_rate, 'default')})`);
+
+    // Coordination overhead grows with team size beyond five engineers (4% per engineer).
+    const teamEfficiency = 1 / (1 + 0.04 * Math.max(0, teamSize - 5));
+    if (teamEfficiency < 1) {
+      assumptions.push(`Team efficiency ${Math.round(teamEfficiency * 100)}% for coordination overhead`);
+    }
+
+    const expectedEffort = adjustedPoints / velocity;
+    // Cone of uncertainty: tighter once a design exists than from requirements alone.
+    const [lowFactor, highFactor] = fromDesign ? [0.67, 1.5] : [0.5, 2];
+    assumptions.push(`Uncertainty range ${lowFactor}×–${highFactor}× (${fromDesign ? 'architecture' : 'requirements'} stage of the cone of uncertainty)`);
+
+    const range = (expected: number) => ({ low: this.round(expected * lowFactor), expected: this.round(expected), high: this.round(expected * highFactor) });
+    const effort = range(expectedEffort);
+    const duration = range(expectedEffort / (teamSize * teamEfficiency));
+    const expectedCost = range(expectedEffort * hoursPerWeek * hourlyRate);
+    const cost = { low: Math.round(expectedCost.low), expected: Math.round(expectedCost.expected), high: Math.round(expectedCost.high) };
+
+    // COCOMO II nominal schedule: TDEV = 3.67 × PM^0.28 months, with 4.33 weeks per month.
+    const personMonths = expectedEffort / 4.33;
+    const nominalScheduleWeeks = this.round(3.67 * Math.pow(Math.max(personMonths, 1), 0.28) * 4.33);
+    if (duration.expected < nominalScheduleWeeks * 0.75) {
+      assumptions.push(`Expected duration is under 75% of the COCOMO nominal schedule (${nominalScheduleWeeks} weeks); adding engineers may not compress it further`);
+    }
+
+    return {
+      model: 'component-points',
+      component_points: this.round(componentPoints),
+      adjusted_points: this.round(adjustedPoints),
+      multipliers,
+      breakdown,
+      team_size: teamSize,
+      effort_engineer_weeks: effort,
+      duration_weeks: duration,
+      cost_usd: cost,
+      nominal_schedule_weeks: nominalScheduleWeeks,
+      constraint_checks: this.checkConstraints(requirements, duration, cost),
+      assumptions
+    };
+  }
+
+  describe(estimate: EffortEstimate): string {
+    const money = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+    const lines = [
+      `ESTIMATED EFFORT: ${estimate.effort_engineer_weeks.expected} engineer-weeks (range ${estimate.effort_engineer_weeks.low}-${estimate.effort_engineer_weeks.high})`,
+      `ESTIMATED TIMELINE: ${estimate.duration_weeks.expected} weeks with ${estimate.team_size} engineers (range ${estimate.duration_weeks.low}-${estimate.duration_weeks.high}; COCOMO nominal ${estimate.nominal_schedule_weeks})`,
+      `ESTIMATED COST: ${money(estimate.cost_usd.expected)} (range ${money(estimate.cost_usd.low)}-${money(estimate.cost_usd.high)})`,
+      `SIZE: ${estimate.component_points} component points, ${estimate.adjusted_points} after multipliers${estimate.multipliers.length > 0 ? ` (${estimate.multipliers.map(multiplier => `${multiplier.factor} ×${multiplier.value}`).join(', ')})` : ''}`
+    ];
+    if (estimate.constraint_checks.length > 0) {
+      lines.push(`CONSTRAINTS: ${estimate.constraint_checks.map(check => `${check.requirement_id} ${check.status}: ${check.detail}`).join('; ')}`);
+    }
+    lines.push(`ASSUMPTIONS: ${estimate.assumptions.join('; ')}`);
+    return lines.join('\n');
+  }
+
+  private componentPoints(element: DesignElement): number {
+    const text = `${element.name} ${element.focus}`.toLowerCase();
+    const base = /service|gateway|api|engine/.test(text) ? 5
+      : /database|storage|store|index|cache|state|data/.test(text) ? 4
+      : /event|messag|queue|communication|integration|consistency/.test(text) ? 4
+      : /cluster|deploy|scaling|monitor|observab|infra/.test(text) ? 3
+      : 3;
+    return base + Math.min(2, Math.max(0, element.details.length - 2) * 0.5);
+  }
+
+  private effortMultipliers(requirements: ExtractedRequirement[]): EffortEstimate['multipliers'] {
+    const multipliers: EffortEstimate['multipliers'] = [];
+    const valueOf = (kind: ExtractedRequirement['kind']) => Math.max(...requirements.filter(requirement => requirement.kind === kind && requirement.value !== undefined).map(requirement => requirement.value!), -Infinity);
+
+    const availability = valueOf('availability');
+    if (availability >= 99.99) multipliers.push({ factor: 'availability', value: 1.25, reason: `${availability}% needs multi-zone redundancy and failover testing` });
+    else if (availability >= 99.9) multipliers.push({ factor: 'availability', value: 1.1, reason: `${availability}% needs redundancy and health-checked deploys` });
+
+    const throughput = valueOf('throughput');
+    if (throughput >= 10_000) multipliers.push({ factor: 'throughput', value: 1.2, reason: `${throughput} req/s needs load testing and horizontal scaling work` });
+    else if (throughput >= 1_000) multipliers.push({ factor: 'throughput', value: 1.1, reason: `${throughput} req/s needs load testing` });
+
+    const latencies = requirements.filter(requirement => requirement.kind === 'latency' && requirement.value !== undefined).map(requirement => requirement.value!);
+    if (latencies.length > 0 && Math.min(...latencies) <= 100) multipliers.push({ factor: 'latency', value: 1.15, reason: `${Math.min(...latencies)} ms target needs performance engineering` });
+
+    const regimes = requirements.filter(requirement => requirement.kind === 'compliance').length;
+    if (regimes > 0) multipliers.push({ factor: 'compliance', value: this.round(1 + Math.min(0.3, 0.12 * regimes)), reason: `${regimes} compliance regime${regimes === 1 ? ' adds' : 's add'} controls, evidence and audits` });
+
+    const users = valueOf('user-scale');
+    if (users >= 1_000_000) multipliers.push({ factor: 'scale', value: 1.15, reason: `${users.toLocaleString('en-US')} users` });
+
+    return multipliers;
+  }
+
+  private checkConstraints(requirements: ExtractedRequirement[], duration: EstimateRange, cost: EstimateRange): EffortEstimate['constraint_checks'] {
+    const checks: EffortEstimate['constraint_checks'] = [];
+    const classify = (limit: number, range: EstimateRange) => range.expected > limit ? 'exceeds' : range.high > limit ? 'at-risk' : 'within';
+
+    for (const requirement of requirements) {
+      if (requirement.kind === 'budget' && requirement.value !== undefined) {
+        const period = requirement.qualifier?.match(/per (month|quarter|year)/)?.[1] as keyof typeof EffortEstimator.WEEKS_PER_PERIOD | undefined;
+        if (period) {
+          // A recurring budget funds the project for as long as it runs, so each end of the cost
+          // range is compared with the budget over the matching duration.
+          const periods = (weeks: number) => weeks / EffortEstimator.WEEKS_PER_PERIOD[period];
+          const perPeriod = requirement.value;
+          const total = (weeks: number) => perPeriod * periods(weeks);
+          const status = cost.expected > total(duration.expected) ? 'exceeds' : cost.high > total(duration.high) ? 'at-risk' : 'within';
+          checks.push({ requirement_id: requirement.id, status, detail: `budget $${requirement.value.toLocaleString('en-US')}/${period} × ${this.round(periods(duration.expected))} ${period}s = $${Math.round(total(duration.expected)).toLocaleString('en-US')} vs expected $${Math.round(cost.expected).toLocaleString('en-US')} (high $${Math.round(cost.high).toLocaleString('en-US')})` });
+          continue;
+        }
+        const status = classify(requirement.value, cost);
+        checks.push({ requirement_id: requirement.id, status, detail: `budget $${requirement.value.toLocaleString('en-US')} vs expected $${Math.round(cost.expected).toLocaleString('en-US')} (high $${Math.round(cost.high).toLocaleString('en-US')})` });
+      }
+      if (requirement.kind === 'deadline' && requirement.value !== undefined) {
+        const weeks = this.round(requirement.value / 7);
+        const status = classify(weeks, duration);
+        checks.push({ requirement_id: requirement.id, status, detail: `deadline ${weeks} weeks vs expected ${duration.expected} weeks (high ${duration.high})` });
+      }
+    }
+    return checks;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
+
+// Matches the problem to ALGORITHM_CATALOG and ranks the candidates against the constraints
+// extracted from it: input size, memory limit, latency target, how often the data changes and
+// whether approximate answers are acceptable. Costs are estimated at the stated input size, or
+// from one day of the stated throughput or from the stated data volume when no size is given.
+export class AlgorithmDesigner {
+  static readonly OPERATIONS_PER_SECOND = 1e8;
+  static readonly DEFAULT_INPUT_SIZE = 1_000_000;
+  static readonly BYTES_PER_RECORD = 1_000;
+
+  design(problemStatement: string, requirements: ExtractedRequirement[]): AlgorithmDesign {
+    const constraints = this.constraints(problemStatement, requirements);
+    const candidates = ALGORITHM_CATALOG
+      .filter(template => template.tasks.test(problemStatement) && !template.excludes?.test(problemStatement))
+      .map(template => this.evaluate(template, constraints, problemStatement))
+      .sort((a, b) => b.fit - a.fit || a.operations - b.operations || a.memory_mb - b.memory_mb);
+
+    return {
+      families: [...new Set(candidates.map(candidate => candidate.family))],
+      constraints,
+      candidates,
+      ...(candidates.length > 0 ? { recommended: candidates[0].id } : {})
+    };
+  }
+
+  // Checks the recommended algorithm against the constraints, for the complexity analysis.
+  check(design: AlgorithmDesign): AlgorithmCheck[] {
+    const candidate = design.candidates.find(entry => entry.id === design.recommended);
+    if (!candidate) return [];
+    const { constraints } = design;
+    const checks: AlgorithmCheck[] = [];
+    const at = `at n = ${this.count(constraints.input_size)}`;
+
+    if (constraints.time_budget_ms !== undefined) {
+      const milliseconds = this.milliseconds(candidate.query_operations ?? candidate.operations);
+      checks.push({
+        check: 'time',
+        status: milliseconds <= constraints.time_budget_ms ? 'ok' : 'violated',
+        detail: `${candidate.name} takes ${this.duration(milliseconds)} per ${candidate.query_operations !== undefined ? 'query' : 'run'} ${at} against the ${constraints.time_budget_ms} ms target`
+      });
+    } else {
+      checks.push({
+        check: 'time',
+        status: candidate.operations <= 1e11 ? 'ok' : 'violated',
+        detail: `${candidate.name} needs ≈${this.count(candidate.operations)} operations ${at} (${this.duration(this.milliseconds(candidate.operations))})`
+      });
+    }
+
+    if (constraints.memory_limit_mb !== undefined) {
+      const fits = candidate.memory_mb <= constraints.memory_limit_mb;
+      checks.push({
+        check: 'memory',
+        status: fits ? 'ok' : 'violated',
+        detail: `≈${this.megabytes(candidate.memory_mb)} ${at} against the ${this.megabytes(constraints.memory_limit_mb)} limit`
+      });
+    }
+
+    if (constraints.update_mode !== 'static') {
+      checks.push({
+        check: 'updates',
+        status: candidate.update ? 'ok' : 'violated',
+        detail: candidate.update
+          ? `${constraints.update_mode === 'streaming' ? 'Processes each arriving item' : 'Applies each change'} in ${candidate.update}`
+          : `Rebuilds from scratch on every change${constraints.update_rate !== undefined ? ` at ${this.count(constraints.update_rate)} updates/s` : ''}`
+      });
+    }
+
+    if (!candidate.exact) {
+      checks.push({
+        check: 'accuracy',
+        status: constraints.approximate_ok ? 'ok' : 'violated',
+        detail: constraints.approximate_ok ? 'Answers are approximate, which the problem allows' : 'Answers are approximate, but the problem states no error tolerance'
+      });
+    }
+
+    return checks;
+  }
+
+  // Shortlist for the research phase: every candidate with its complexity and fit.
+  describeCandidates(design: AlgorithmDesign, limit = 5): string {
+    if (design.candidates.length === 0) {
+      return `CANDIDATE ALGORITHMS: No catalog algorithm matches the task. Name it in the problem statement (for example sort, search, shortest path, distinct count or edit distance).\n${this.describeConstraints(design.constraints)}`;
+    }
+    const lines = design.candidates.slice(0, limit).map((candidate, index) => [
+      `${index + 1}. ${candidate.name} [${candidate.family}] (fit ${candidate.fit > 0 ? '+' : ''}${candidate.fit})`,
+      `   Complexity: ${this.complexity(candidate)}`,
+      `   At n = ${this.count(design.constraints.input_size)}: ${this.cost(candidate)}`,
+      `   Fit: ${candidate.rationale.length > 0 ? candidate.rationale.join('; ') : 'no constraint favours or rules it out'}`
+    ].join('\n'));
+    return `CANDIDATE ALGORITHMS (${design.families.join(', ')}):\n${this.describeConstraints(design.constraints)}\n${lines.join('\n')}`;
+  }
+
+  // Design output: the recommended algorithm and two alternatives, as numbered design sections.
+  describe(design: AlgorithmDesign, limit = 3): string {
+    if (design.candidates.length === 0) {
+      return `\nALGORITHM DESIGN:\nNo catalog algorithm matches the task, so no algorithm was designed.\n${this.describeConstraints(design.constraints)}`;
+    }
+    const sections = design.candidates.slice(0, limit).map((candidate, index) => `
+${index + 1}. ${candidate.name.toUpperCase()} (${candidate.id === design.recommended ? 'RECOMMENDED' : 'ALTERNATIVE'}):
+   - Family: ${candidate.family}
+   - Complexity: ${this.complexity(candidate)}
+   - At n = ${this.count(design.constraints.input_size)}: ${this.cost(candidate)}
+   - Fit: ${candidate.rationale.length > 0 ? candidate.rationale.join('; ') : 'no constraint favours or rules it out'}
+   - Pros: ${candidate.pros.join('; ')}
+   - Cons: ${candidate.cons.join('; ')}
+   Pseudocode:
+${candidate.pseudocode.map(line => `      ${line}`).join('\n')}`);
+    return `\nALGORITHM DESIGN:\n${this.describeConstraints(design.constraints)}\n${sections.join('\n')}`;
+  }
+
+  private constraints(problemStatement: string, requirements: ExtractedRequirement[]): AlgorithmConstraints {
+    const assumptions: string[] = [];
+    const used = new Set<string>();
+    const valued = (kind: ExtractedRequirement['kind']) => requirements.filter(requirement => requirement.kind === kind && requirement.value !== undefined);
+    const pick = (kind: ExtractedRequirement['kind'], largest: boolean) => valued(kind).sort((a, b) => largest ? b.value! - a.value! : a.value! - b.value!)[0];
+
+    const sizes = valued('input-size');
+    const vertices = sizes.find(requirement => requirement.qualifier === 'vertices');
+    const edges = sizes.find(requirement => requirement.qualifier === 'edges');
+    let inputSize = AlgorithmDesigner.DEFAULT_INPUT_SIZE;
+    if (vertices && edges) {
+      inputSize = vertices.value! + edges.value!;
+      [vertices, edges].forEach(requirement => used.add(requirement.id));
+      assumptions.push('n = V + E for the graph');
+    } else if (sizes.length > 0) {
+      const largest = pick('input-size', true);
+      inputSize = largest.value!;
+      used.add(largest.id);
+    } else if (pick('throughput', true)) {
+      const throughput = pick('throughput', true);
+      inputSize = this.significant(throughput.value! * 86_400);
+      used.add(throughput.id);
+      assumptions.push(`No input size stated; n = one day of input at ${this.count(throughput.value!)} req/s`);
+    } else if (pick('data-volume', true)) {
+      const volume = pick('data-volume', true);
+      inputSize = this.significant(volume.value! * 1e9 / AlgorithmDesigner.BYTES_PER_RECORD);
+      used.add(volume.id);
+      assumptions.push(`No input size stated; n = ${this.count(volume.value!)} GB${volume.qualifier ? ` ${volume.qualifier}` : ''} of ${this.count(AlgorithmDesigner.BYTES_PER_RECORD)}-byte records`);
+    } else {
+      assumptions.push(`No input size stated; n = ${this.count(inputSize)} assumed`);
+    }
+
+    const memory = pick('memory-limit', false);
+    const latency = pick('latency', false);
+    const updateRate = pick('update-rate', true);
+    [memory, latency, updateRate].forEach(requirement => requirement && used.add(requirement.id));
+
+    const updateMode: AlgorithmConstraints['update_mode'] = /\bstream(?:s|ing)?\b|\bcontinuous(?:ly)?\b|\bunbounded\b|\bfirehose\b|\b(?:one|single) pass\b|\bas (?:they|events|items) arrive/i.test(problemStatement)
+      ? 'streaming'
+      : updateRate || /\bupdat|\binsert|\bdelet|\bdynamic\b|\bfrequent(?:ly)? chang|\bchang(?:es|ing) (?:often|frequently|constantly)|\bmutable\b/i.test(problemStatement)
+        ? 'dynamic'
+        : 'static';
+    if (updateMode === 'static') {
+      assumptions.push('The problem mentions no updates, so the data is treated as static');
+    }
+    const approximate = /\bapproximat|\bestimat|\berror (?:rate|bound|tolerance)|\bfalse positives?|\broughly\b|\bsketch|\bprobabilistic/i.test(problemStatement);
+    assumptions.push(`${this.count(AlgorithmDesigner.OPERATIONS_PER_SECOND)} simple operations per second on one core`);
+
+    return {
+      input_size: inputSize,
+      ...(memory ? { memory_limit_mb: memory.value } : {}),
+      ...(latency ? { time_budget_ms: latency.value } : {}),
+      update_mode: updateMode,
+      ...(updateRate ? { update_rate: updateRate.value } : {}),
+      approximate_ok: approximate,
+      requirements: requirements.filter(requirement => used.has(requirement.id)).map(requirement => requirement.id),
+      assumptions
+    };
+  }
+
+  private evaluate(template: AlgorithmTemplate, constraints: AlgorithmConstraints, problemStatement: string): AlgorithmCandidate {
+    const n = constraints.input_size;
+    const operations = this.operations(template.growth, n);
+    const queryOperations = template.query_growth ? this.operations(template.query_growth, n) : undefined;
+    const memory = template.memory === 'constant' ? (template.fixed_kb || 0) / 1024 : this.operations(template.memory, n) * template.bytes_per_item / 1e6;
+    const rationale: string[] = [];
+    let fit = 0;
+
+    if (template.requires) {
+      if (template.requires.pattern.test(problemStatement)) {
+        fit += 1;
+        rationale.push(`Has ${template.requires.reason}`);
+      } else {
+        fit -= 4;
+        rationale.push(`Needs ${template.requires.reason}, which the problem does not state`);
+      }
+    }
+    for (const condition of template.favoured_by || []) {
+      if (condition.pattern.test(problemStatement)) {
+        fit += 2;
+        rationale.push(`Suits the problem: ${condition.reason}`);
+      }
+    }
+    for (const condition of template.penalized_by || []) {
+      if (condition.pattern.test(problemStatement)) {
+        fit -= 4;
+        rationale.push(`Poor fit: ${condition.reason}`);
+      }
+    }
+
+    if (constraints.time_budget_ms !== undefined) {
+      const milliseconds = this.milliseconds(queryOperations ?? operations);
+      const unit = queryOperations !== undefined ? 'query' : 'run';
+      fit += milliseconds <= constraints.time_budget_ms ? 1 : -3;
+      rationale.push(`${this.duration(milliseconds)} per ${unit} ${milliseconds <= constraints.time_budget_ms ? 'within' : 'over'} the ${constraints.time_budget_ms} ms target`);
+    } else if (operations > 1e11) {
+      fit -= 3;
+      rationale.push(`≈${this.count(operations)} operations is impractical at this size`);
+    } else if (operations > 1e9) {
+      fit -= 1;
+      rationale.push(`≈${this.count(operations)} operations take seconds at this size`);
+    }
+
+    if (constraints.memory_limit_mb !== undefined) {
+      if (memory <= constraints.memory_limit_mb) {
+        fit += template.external ? 2 : 1;
+        rationale.push(template.external
+          ? `Works within the ${this.megabytes(constraints.memory_limit_mb)} limit however large the input grows`
+          : `Fits the ${this.megabytes(constraints.memory_limit_mb)} limit (≈${this.megabytes(memory)})`);
+      } else {
+        fit -= 4;
+        rationale.push(`Needs ≈${this.megabytes(memory)}, over the ${this.megabytes(constraints.memory_limit_mb)} limit`);
+      }
+    }
+
+    if (constraints.update_mode === 'streaming') {
+      fit += template.streaming ? 3 : template.update ? 1 : -3;
+      rationale.push(template.streaming ? 'Processes the stream in one pass' : template.update ? `Accepts items one at a time (${template.update})` : 'Needs the whole input before it can answer');
+    } else if (constraints.update_mode === 'dynamic') {
+      fit += template.update ? 2 : -2;
+      rationale.push(template.update ? `Applies changes in ${template.update}` : 'Rebuilds on every change');
+    }
+
+    if (!template.exact) {
+      fit += constraints.approximate_ok ? 2 : -3;
+      rationale.push(constraints.approximate_ok ? 'Approximate answers are acceptable' : 'Answers are approximate, and the problem states no error tolerance');
+    }
+
+    return {
+      id: template.id,
+      name: template.name,
+      family: template.family,
+      time: template.time,
+      space: template.space,
+      ...(template.query ? { query: template.query } : {}),
+      ...(template.update ? { update: template.update } : {}),
+      exact: template.exact,
+      operations: Math.round(operations),
+      ...(queryOperations !== undefined ? { query_operations: Math.round(queryOperations) } : {}),
+      memory_mb: Math.round(memory * 100) / 100,
+      fit,
+      rationale,
+      pseudocode: template.pseudocode,
+      pros: template.pros,
+      cons: template.cons
+    };
+  }
+
+  private describeConstraints(constraints: AlgorithmConstraints): string {
+    const parts = [
+      `n = ${this.count(constraints.input_size)}`,
+      constraints.memory_limit_mb !== undefined ? `memory limit ${this.megabytes(constraints.memory_limit_mb)}` : 'no memory limit',
+      constraints.time_budget_ms !== undefined ? `${constraints.time_budget_ms} ms target` : 'no latency target',
+      `${constraints.update_mode} data${constraints.update_rate !== undefined ? ` (${this.count(constraints.update_rate)} updates/s)` : ''}`,
+      constraints.approximate_ok ? 'approximate answers allowed' : 'exact answers'
+    ];
+    return `CONSTRAINTS: ${parts.join('; ')}${constraints.requirements.length > 0 ? ` [${constraints.requirements.join(', ')}]` : ''}. ASSUMPTIONS: ${constraints.assumptions.join('; ')}`;
+  }
+
+  private complexity(candidate: AlgorithmCandidate): string {
+    return [`time ${candidate.time}`, `space ${candidate.space}`, candidate.query ? `query ${candidate.query}` : '', `updates ${candidate.update || 'need a rebuild'}`].filter(Boolean).join(', ');
+  }
+
+  private cost(candidate: AlgorithmCandidate): string {
+    return `≈${this.count(candidate.operations)} operations (${this.duration(this.milliseconds(candidate.operations))})${candidate.query_operations !== undefined ? `, ≈${this.count(candidate.query_operations)} operation${candidate.query_operations === 1 ? '' : 's'} per query` : ''}, ≈${this.megabytes(candidate.memory_mb)} of memory`;
+  }
+
+  private operations(growth: ComplexityGrowth, n: number): number {
+    const log = Math.log2(Math.max(n, 2));
+    switch (growth) {
+      case 'constant': return 1;
+      case 'log': return log;
+      case 'linear': return n;
+      case 'linearithmic': return n * log;
+      case 'quadratic': return n * n;
+    }
+  }
+
+  private milliseconds(operations: number): number {
+    return operations / AlgorithmDesigner.OPERATIONS_PER_SECOND * 1000;
+  }
+
+  // Rounds a derived size to three significant figures, since the rates behind it are rounded.
+  private significant(value: number): number {
+    return Math.max(1, Number(value.toPrecision(3)));
+  }
+
+  private count(value: number): string {
+    return value >= 1e9 ? value.toExponential(1).replace('e+', 'e') : Math.round(value).toLocaleString('en-US');
+  }
+
+  private duration(milliseconds: number): string {
+    if (milliseconds < 1) return 'under 1 ms';
+    if (milliseconds < 1000) return `≈${Math.round(milliseconds)} ms`;
+    if (milliseconds < 60_000) return `≈${Math.round(milliseconds / 100) / 10} s`;
+    if (milliseconds < 3_600_000) return `≈${Math.round(milliseconds / 6_000) / 10} min`;
+    return `≈${Math.round(milliseconds / 360_000) / 10} h`;
+  }
+
+  private megabytes(value: number): string {
+    return value >= 1000 ? `${Math.round(value / 100) / 10} GB` : value >= 1 ? `${Math.round(value * 10) / 10} MB` : `${Math.max(1, Math.round(value * 1024))} KB`;
+  }
+}
+
+export class RequirementExtractor {
+  private static readonly MULTIPLIERS: Record<string, number> = {
+    'k': 1e3, 'thousand': 1e3, 'm': 1e6, 'mm': 1e6, 'million': 1e6, 'b': 1e9, 'bn': 1e9, 'billion': 1e9
+  };
+  private static readonly WORD_NUMBERS: Record<string, number> = {
+    'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5, 'six': 6, 'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10, 'eleven': 11, 'twelve': 12
+  };
+  private static readonly NUMBER = String.raw`(\d[\d,]*(?:\.\d+)?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)`;
+  private static readonly SCALE = String.raw`(?:\s*(k|m|mm|b|bn|thousand|million|billion)\b)?`;
+
+  private requirements: ExtractedRequirement[] = [];
+  private claimed: Array<[number, number]> = [];
+
+  extract(text: string): ExtractedRequirement[] {
+    this.requirements = [];
+    this.claimed = [];
+
+    // Order matters: earlier extractors claim their spans first
+    this.extractAvailability(text);
+    this.extractLatency(text);
+    this.extractUpdateRate(text);
+    this.extractThroughput(text);
+    this.extractMemoryLimit(text);
+    this.extractDataVolume(text);
+    this.extractBudget(text);
+    this.extractDeadline(text);
+    this.extractTeamSize(text);
+    this.extractUserScale(text);
+    this.extractInputSize(text);
+    this.extractCompliance(text);
+    this.extractFunctional(text);
+
+    return this.requirements
+      .sort((a, b) => a.source.start - b.source.start)
+      .map((requirement, index) => ({ ...requirement, id: `REQ-${index + 1}` }));
+  }
+
+  private parseNumber(raw: string, scale?: string): number {
+    const lower = raw.toLowerCase();
+    const base = RequirementExtractor.WORD_NUMBERS[lower] ?? parseFloat(lower.replace(/,/g, ''));
+    return base * (scale ? RequirementExtractor.MULTIPLIERS[scale.toLowerCase()] || 1 : 1);
+  }
+
+  private add(requirement: Omit<ExtractedRequirement, 'id'>): void {
+    const { start, end } = requirement.source;
+    if (this.claimed.some(([claimedStart, claimedEnd]) => start < claimedEnd && end > claimedStart)) {
+      return;
+    }
+    this.claimed.push([start, end]);
+    this.requirements.push({ id: '', ...requirement });
+  }
+
+  private forEachMatch(text: string, pattern: RegExp, handler: (match: RegExpExecArray) => void): void {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(text)) !== null) {
+      handler(match);
+    }
+  }
+
+  private span(match: RegExpExecArray): RequirementSpan {
+    return { start: match.index, end: match.index + match[0].length, text: match[0] };
+  }
+
+  private formatNumber(value: number): string {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+  }
+
+  private extractAvailability(text: string): void {
+    const nines: Record<string, number> = { 'two': 99, 'three': 99.9, 'four': 99.99, 'five': 99.999, 'six': 99.9999 };
+    this.forEachMatch(text, /\b(two|three|four|five|six) nines\b/i, match => {
+      const value = nines[match[1].toLowerCase()];
+      this.add(this.availability(value, this.span(match)));
+    });
+    this.forEachMatch(text, /(\d{2}(?:\.\d+)?)\s*%\s*(?:uptime|availability|available|sla)|(?:uptime|availability|sla)[^.%\d]{0,25}(\d{2}(?:\.\d+)?)\s*%/i, match => {
+      this.add(this.availability(parseFloat(match[1] || match[2]), this.span(match)));
+    });
+  }
+
+  private availability(value: number, source: RequirementSpan): Omit<ExtractedRequirement, 'id'> {
+    const downtimeMinutesPerMonth = (1 - value / 100) * 30 * 24 * 60;
+    return {
+      kind: 'availability',
+      category: 'objective',
+      description: `Availability: ${value}% (≈${this.formatNumber(Math.round(downtimeMinutesPerMonth * 10) / 10)} min downtime/month)`,
+      value,
+      unit: '%',
+      source
+    };
+  }
+
+  private extractLatency(text: string): void {
+    const pattern = /(?:sub-?|under |below |less than |<\s*|<=\s*|within )?(\d+(?:\.\d+)?)\s*(ms|milliseconds?|seconds?|secs?|s)\b/i;
+    this.forEachMatch(text, pattern, match => {
+      const windowStart = Math.max(0, match.index - 50);
+      const context = text.slice(windowStart, match.index + match[0].length + 50).toLowerCase();
+      if (!/latency|response|respond|p\d{2}|percentile|round[- ]trip|load time|render|quer(?:y|ies) (?:must|should)|lookups? (?:must|should)/.test(context)) {
+        return;
+      }
+      const percentile = context.match(/\bp(\d{2,3}(?:\.\d+)?)\b/) || context.match(/\b(\d{2}(?:\.\d+)?)(?:th|st|nd|rd) percentile/);
+      const unit = match[2].toLowerCase();
+      const value = parseFloat(match[1]) * (unit.startsWith('ms') || unit.startsWith('milli') ? 1 : 1000);
+      const qualifier = percentile ? `p${percentile[1]}` : undefined;
+      this.add({
+        kind: 'latency',
+        category: 'objective',
+        description: `Latency: ${qualifier ? `${qualifier} ` : ''}≤ ${this.formatNumber(value)} ms`,
+        value,
+        unit: 'ms',
+        qualifier,
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractThroughput(text: string): void {
+    const perUnit = String.raw`(second|sec|s|minute|min|hour|hr|day)`;
+    const pattern = new RegExp(
+      `${RequirementExtractor.NUMBER}${RequirementExtractor.SCALE}\\s*(?:(rps|qps|tps)\\b|(?:requests?|req|queries|transactions|events|messages|writes|reads|orders|operations|ops)\\s*(?:per|\\/|a)\\s*${perUnit}\\b)`,
+      'i'
+    );
+    const secondsPer: Record<string, number> = { 'second': 1, 'sec': 1, 's': 1, 'minute': 60, 'min': 60, 'hour': 3600, 'hr': 3600, 'day': 86400 };
+    this.forEachMatch(text, pattern, match => {
+      const raw = this.parseNumber(match[1], match[2]);
+      const value = match[3] ? raw : raw / secondsPer[match[4].toLowerCase()];
+      const rounded = Math.round(value * 100) / 100;
+      this.add({
+        kind: 'throughput',
+        category: 'requirement',
+        description: `Throughput: ${this.formatNumber(rounded)} req/s${match[3] ? ` (${match[3].toUpperCase()})` : ''}`,
+        value: rounded,
+        unit: 'req/s',
+        qualifier: match[3] ? match[3].toUpperCase() : undefined,
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractUpdateRate(text: string): void {
+    const pattern = new RegExp(
+      `${RequirementExtractor.NUMBER}${RequirementExtractor.SCALE}\\s*(?:[a-z-]+\\s+)?(updates|inserts|insertions|deletes|deletions|modifications|changes|mutations|edits)\\s*(?:per|\\/|a)\\s*(second|sec|s|minute|min|hour|hr|day)\\b`,
+      'i'
+    );
+    const secondsPer: Record<string, number> = { 'second': 1, 'sec': 1, 's': 1, 'minute': 60, 'min': 60, 'hour': 3600, 'hr': 3600, 'day': 86400 };
+    this.forEachMatch(text, pattern, match => {
+      const value = Math.round(this.parseNumber(match[1], match[2]) / secondsPer[match[4].toLowerCase()] * 100) / 100;
+      this.add({
+        kind: 'update-rate',
+        category: 'requirement',
+        description: `Update rate: ${this.formatNumber(value)} ${match[3].toLowerCase()}/s`,
+        value,
+        unit: 'updates/s',
+        qualifier: match[3].toLowerCase(),
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractMemoryLimit(text: string): void {
+    const toMegabytes: Record<string, number> = { 'kb': 1e-3, 'mb': 1, 'gb': 1e3, 'tb': 1e6 };
+    const size = String.raw`(\d[\d,]*(?:\.\d+)?)\s*(kb|mb|gb|tb|kilobytes?|megabytes?|gigabytes?|terabytes?)\b`;
+    const pattern = new RegExp(`${size}\\s+(?:of\\s+)?(?:memory|ram|heap)\\b|\\b(?:memory|ram|heap)(?:\\s+(?:limit|budget|cap))?\\s*(?:of|is|:|under|below|within|at most|<=?|≤)?\\s*${size}|\\bfits? (?:in|into|within)\\s+${size}`, 'i');
+    this.forEachMatch(text, pattern, match => {
+      const amount = match[1] || match[3] || match[5];
+      const unit = (match[2] || match[4] || match[6]).toLowerCase();
+      const value = parseFloat(amount.replace(/,/g, '')) * toMegabytes[unit.substring(0, 1) + 'b'];
+      this.add({
+        kind: 'memory-limit',
+        category: 'constraint',
+        description: `Memory limit: ${this.formatNumber(value)} MB`,
+        value,
+        unit: 'MB',
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractDataVolume(text: string): void {
+    const toGigabytes: Record<string, number> = { 'kb': 1e-6, 'mb': 1e-3, 'gb': 1, 'tb': 1e3, 'pb': 1e6 };
+    const pattern = /(\d[\d,]*(?:\.\d+)?)\s*(kb|mb|gb|tb|pb|kilobytes?|megabytes?|gigabytes?|terabytes?|petabytes?)\b(?:\s*(?:of\s+\w+\s*)?(?:per|\/|a|each)\s*(day|week|month|year|hour))?/i;
+    this.forEachMatch(text, pattern, match => {
+      const unitKey = match[2].toLowerCase().substring(0, 1) + 'b';
+      const value = parseFloat(match[1].replace(/,/g, '')) * toGigabytes[unitKey];
+      const qualifier = match[3] ? `per ${match[3].toLowerCase()}` : undefined;
+      this.add({
+        kind: 'data-volume',
+        category: 'requirement',
+        description: `Data volume: ${this.formatNumber(value)} GB${qualifier ? ` ${qualifier}` : ''}`,
+        value,
+        unit: 'GB',
+        qualifier,
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractBudget(text: string): void {
+    const amount = String.raw`(?:\$|usd\s*|€|eur\s*)\s?(\d[\d,]*(?:\.\d+)?)\s*(k|m|mm|b|bn|thousand|million|billion)?\b`;
+    const pattern = new RegExp(`${amount}(?:\\s*(?:-|–|to)\\s*(?:\\$|€)?\\s?(\\d[\\d,]*(?:\\.\\d+)?)\\s*(k|m|mm|b|bn|thousand|million|billion)?\\b)?(?:\\s*(?:per|\\/|a)\\s*(month|year|quarter))?`, 'i');
+    const handle = (match: RegExpExecArray, low: number, high?: number, period?: string) => {
+      const qualifier = [high !== undefined ? `range ${this.formatNumber(low)}-${this.formatNumber(high)}` : undefined, period ? `per ${period.toLowerCase()}` : undefined]
+        .filter(Boolean).join(', ') || undefined;
+      this.add({
+        kind: 'budget',
+        category: 'constraint',
+        description: `Budget: ${high !== undefined ? `$${this.formatNumber(low)}-$${this.formatNumber(high)}` : `$${this.formatNumber(low)}`}${period ? `/${period.toLowerCase()}` : ''}`,
+        value: high ?? low,
+        unit: 'USD',
+        qualifier,
+        source: this.span(match)
+      });
+    };
+    this.forEachMatch(text, pattern, match => {
+      const low = this.parseNumber(match[1], match[2] || match[4]);
+      const high = match[3] ? this.parseNumber(match[3], match[4]) : undefined;
+      handle(match, low, high, match[5]);
+    });
+    this.forEachMatch(text, /\bbudget(?:\s+(?:of|is|around|about|under|capped at))?\s+(\d[\d,]*(?:\.\d+)?)\s*(k|m|mm|b|bn|thousand|million|billion)?\b/i, match => {
+      handle(match, this.parseNumber(match[1], match[2]));
+    });
+  }
+
+  private extractDeadline(text: string): void {
+    const daysPer: Record<string, number> = { 'day': 1, 'week': 7, 'month': 30, 'quarter': 91, 'year': 365 };
+    const pattern = new RegExp(`\\b(?:in|within|by|over|under|next|deadline of|timeline of|launch in|ship in)\\s+(?:the\\s+next\\s+)?${RequirementExtractor.NUMBER}\\s*(days?|weeks?|months?|quarters?|years?)\\b`, 'i');
+    this.forEachMatch(text, pattern, match => {
+      const count = this.parseNumber(match[1]);
+      const unit = match[2].toLowerCase().replace(/s$/, '');
+      const value = count * daysPer[unit];
+      this.add({
+        kind: 'deadline',
+        category: 'constraint',
+        description: `Deadline: ${this.formatNumber(count)} ${unit}${count === 1 ? '' : 's'} (${this.formatNumber(value)} days)`,
+        value,
+        unit: 'days',
+        source: this.span(match)
+      });
+    });
+    this.forEachMatch(text, /\b(?:by|before|deadline(?: of)?)\s+((?:Q[1-4]|H[12])\s*\d{4}|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{4}|end of (?:the )?(?:year|quarter|\d{4}))/i, match => {
+      this.add({
+        kind: 'deadline',
+        category: 'constraint',
+        description: `Deadline: ${match[1]}`,
+        unit: 'date',
+        qualifier: match[1],
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractTeamSize(text: string): void {
+    // Only engineering roles or "team of" count: "250,000 members" or "1,500 people per day" are not the team.
+    const roles = String.raw`(?:engineers?|developers?|devs?|programmers)`;
+    const pattern = new RegExp(`(?<![\\d,.])\\b(?:team of\\s+)?(\\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)(?:\\s*(?:-|–|to)\\s*(\\d+))?\\s*(?:(?:full[- ]time|senior|junior|backend|frontend|software)\\s+)?${roles}\\b|\\bteam of\\s+(\\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\\b`, 'i');
+    this.forEachMatch(text, pattern, match => {
+      const low = this.parseNumber(match[1] || match[3]);
+      const high = match[2] ? parseInt(match[2], 10) : undefined;
+      this.add({
+        kind: 'team-size',
+        category: 'constraint',
+        description: `Team: ${high !== undefined ? `${low}-${high}` : low} engineers`,
+        value: high ?? low,
+        unit: 'engineers',
+        qualifier: high !== undefined ? `range ${low}-${high}` : undefined,
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractUserScale(text: string): void {
+    const pattern = new RegExp(`${RequirementExtractor.NUMBER}${RequirementExtractor.SCALE}\\+?\\s*(concurrent|simultaneous|daily active|monthly active|active|registered|total)?\\s*users\\b|\\b(dau|mau)\\s+(?:of\\s+)?(\\d[\\d,]*(?:\\.\\d+)?)${RequirementExtractor.SCALE}`, 'i');
+    this.forEachMatch(text, pattern, match => {
+      const value = match[1] ? this.parseNumber(match[1], match[2]) : this.parseNumber(match[5], match[6]);
+      const rawQualifier = (match[3] || match[4] || '').toLowerCase();
+      const qualifier = rawQualifier === 'dau' || rawQualifier === 'daily active' ? 'daily active'
+        : rawQualifier === 'mau' || rawQualifier === 'monthly active' ? 'monthly active'
+        : rawQualifier === 'simultaneous' ? 'concurrent'
+        : rawQualifier || undefined;
+      this.add({
+        kind: 'user-scale',
+        category: 'requirement',
+        description: `Scale: ${this.formatNumber(value)}${qualifier ? ` ${qualifier}` : ''} users`,
+        value,
+        unit: 'users',
+        qualifier,
+        source: this.span(match)
+      });
+    });
+    // Open connections are concurrent users: "2M WebSocket connections"
+    const connections = new RegExp(`${RequirementExtractor.NUMBER}${RequirementExtractor.SCALE}\\+?\\s*(?:(?:concurrent|simultaneous|open|persistent)\\s+(?:websocket\\s+)?|websocket\\s+)connections\\b`, 'i');
+    this.forEachMatch(text, connections, match => {
+      const value = this.parseNumber(match[1], match[2]);
+      this.add({
+        kind: 'user-scale',
+        category: 'requirement',
+        description: `Scale: ${this.formatNumber(value)} concurrent connections`,
+        value,
+        unit: 'users',
+        qualifier: 'concurrent',
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractInputSize(text: string): void {
+    const size = String.raw`(?:(?:(\d+(?:\.\d+)?)\s*(?:x|×|\*)\s*)?10\^(\d+)|(\d+(?:\.\d+)?)e(\d+)|${RequirementExtractor.NUMBER}${RequirementExtractor.SCALE})`;
+    const items = String.raw`(items|elements|records|rows|keys|integers|numbers|entries|documents|strings|words|urls|vertices|edges|nodes|points|values|objects|ids|intervals|sequences|files|lines|players|products|transactions)`;
+    // "top 100 players" is a result size, not an input size
+    const pattern = new RegExp(`(?<!\\b(?:top|first|last|bottom)\\s+|[\\d.,])${size}\\+?\\s*(?:input\\s+)?${items}\\b|\\bn\\s*(?:=|<=|≤|<|up to|of)\\s*${size}`, 'i');
+    const valueOf = (groups: Array<string | undefined>) => groups[1] !== undefined
+      ? parseFloat(groups[0] || '1') * Math.pow(10, parseInt(groups[1], 10))
+      : groups[3] !== undefined
+        ? parseFloat(groups[2]!) * Math.pow(10, parseInt(groups[3], 10))
+        : this.parseNumber(groups[4]!, groups[5]);
+    this.forEachMatch(text, pattern, match => {
+      const noun = match[7]?.toLowerCase();
+      const value = noun ? valueOf(match.slice(1, 7)) : valueOf(match.slice(8, 14));
+      this.add({
+        kind: 'input-size',
+        category: 'requirement',
+        description: noun ? `Input size: ${this.formatNumber(value)} ${noun}` : `Input size: n = ${this.formatNumber(value)}`,
+        value,
+        unit: 'items',
+        qualifier: noun,
+        source: this.span(match)
+      });
+    });
+  }
+
+  private extractCompliance(text: string): void {
+    const regimes: Array<{ name: string; pattern: RegExp }> = [
+      { name: 'GDPR', pattern: /\bGDPR\b/i },
+      { name: 'HIPAA', pattern: /\bHIPAA\b/i },
+      { name: 'PCI DSS', pattern: /\bPCI(?:[- ]?DSS)?\b/i },
+      { name: 'SOC 2', pattern: /\bSOC[- ]?2\b/i },
+      { name: 'ISO 27001', pattern: /\bISO[- ]?27001\b/i },
+      { name: 'CCPA', pattern: /\bCCPA\b/i },
+      { name: 'SOX', pattern: /\b(?:SOX|Sarbanes[- ]Oxley)\b/i },
+      { name: 'FedRAMP', pattern: /\bFedRAMP\b/i }
+    ];
+    regimes.forEach(regime => {
+      const match = regime.pattern.exec(text);
+      if (match) {
+        this.add({
+          kind: 'compliance',
+          category: 'constraint',
+          description: `Compliance: ${regime.name}`,
+          qualifier: regime.name,
+          source: this.span(match)
+        });
+      }
+    });
+  }
+
+  private extractFunctional(text: string): void {
+    const functionalKeywords: Array<{ pattern: RegExp; description: string }> = [
+      { pattern: /\bauthentication\b/i, description: 'User authentication' },
+      { pattern: /\bauthorization\b/i, description: 'Role-based access control' },
+      { pattern: /\breal-?time\b/i, description: 'Real-time updates' },
+      { pattern: /\boffline\b/i, description: 'Offline capability with sync' },
+      { pattern: /\bcollaborat(?:ion|ive)\b/i, description: 'Multi-user collaboration' },
+      { pattern: /\bconsistency\b/i, description: 'Data consistency across distributed nodes' },
+      { pattern: /\bconflict resolution\b/i, description: 'Conflict resolution for concurrent edits' },
+      { pattern: /\bsearch\b/i, description: 'Search' },
+      { pattern: /\bnotifications?\b/i, description: 'Notifications' },
+      { pattern: /\bpayments?\b/i, description: 'Payment processing' },
+      { pattern: /\bmicroservices?\b/i, description: 'Microservices architecture pattern' }
+    ];
+    functionalKeywords.forEach(({ pattern, description }) => {
+      const match = pattern.exec(text);
+      if (match) {
+        this.add({ kind: 'functional', category: 'requirement', description, source: this.span(match) });
+      }
+    });
+  }
+}
+
+export class KnowledgeBase {
+  private entries = new Map<string, { entry: KnowledgeEntry; pack: string; packVersion: string }>();
+
+  constructor(packs: KnowledgePack[] = []) {
+    packs.forEach(pack => this.register(pack));
+  }
+
+  // Later packs override an entry only when they carry the same or a higher version.
+  register(pack: KnowledgePack): void {
+    for (const entry of pack.entries) {
+      const existing = this.entries.get(entry.id);
+      if (!existing || compareVersions(entry.version, existing.entry.version) >= 0) {
+        this.entries.set(entry.id, { entry, pack: pack.name, packVersion: pack.version });
+      }
+    }
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  // Loads every *.json pack in a directory, in name order. Invalid packs and entries are
+  // reported on stderr and skipped, as with strategy files.
+  loadFromDirectory(directory: string): void {
+    let files: string[];
+    try {
+      files = readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      console.error(`Could not read knowledge packs from ${directory}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    for (const file of files) {
+      const filePath = nodePath.join(directory, file);
+      let parsed: any;
+      try {
+        parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+      } catch (error) {
+        console.error(`Could not load knowledge pack ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+      if (!parsed || typeof parsed.name !== 'string' || typeof parsed.version !== 'string' || !Array.isArray(parsed.entries)) {
+        console.error(`Could not load knowledge pack ${filePath}: expected "name", "version" and an "entries" array`);
+        continue;
+      }
+
+      const entries = parsed.entries.filter((entry: any, index: number) => {
+        const problem = this.validateEntry(entry);
+        if (problem) {
+          console.error(`Skipping entry #${index + 1} in ${filePath}: ${problem}`);
+        }
+        return !problem;
+      });
+      this.register({ name: parsed.name, version: parsed.version, description: parsed.description, entries });
+    }
+  }
+
+  /** Ranks entries against the research domain and the requirements extracted from the problem. */
+  search(query: KnowledgeQuery, limit: number = 5): KnowledgeMatch[] {
+    const queryTags = this.requirementTags(query.requirements);
+    if (query.problemType) queryTags.add(query.problemType);
+    const queryTerms = new Set((query.text.toLowerCase().match(/[a-z][a-z0-9-]{2,}/g) || []));
+
+    const matches: KnowledgeMatch[] = [];
+    for (const { entry, pack, packVersion } of this.entries.values()) {
+      const matchedTags = entry.tags.filter(tag => queryTags.has(tag) || queryTerms.has(tag));
+      const cautions = (entry.avoid_tags || []).filter(tag => queryTags.has(tag));
+      const domainMatch = !entry.domains || entry.domains.includes(query.domain);
+      if (matchedTags.length === 0 && !(domainMatch && entry.domains)) {
+        continue;
+      }
+
+      const score = matchedTags.length * 3 + (domainMatch ? 2 : 0) - cautions.length * 2;
+      if (score > 0) {
+        matches.push({ entry, pack, pack_version: packVersion, score, matched_tags: matchedTags, cautions });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.entry.id.localeCompare(b.entry.id))
+      .slice(0, limit);
+  }
+
+  // Turns quantified requirements into the coarse tags packs are written against.
+  private requirementTags(requirements: ExtractedRequirement[]): Set<string> {
+    const tags = new Set<string>();
+    for (const requirement of requirements) {
+      const value = requirement.value;
+      switch (requirement.kind) {
+        case 'throughput':
+          tags.add('throughput');
+          if (value !== undefined && value >= 1000) tags.add('high-throughput');
+          break;
+        case 'latency':
+          if (value !== undefined && value <= 200) tags.add('low-latency');
+          break;
+        case 'availability':
+          if (value !== undefined && value >= 99.9) tags.add('high-availability');
+          break;
+        case 'data-volume':
+          if (value !== undefined && (value >= 1000 || (requirement.qualifier === 'per day' && value >= 10))) tags.add('large-data');
+          break;
+        case 'user-scale':
+          if (value !== undefined && value >= 100_000) tags.add('high-scale');
+          break;
+        case 'budget':
+          if (value !== undefined && value < 250_000) tags.add('cost-sensitive');
+          break;
+        case 'deadline':
+          if (value !== undefined && value <= 90) tags.add('tight-deadline');
+          break;
+        case 'team-size':
+          if (value !== undefined && value <= 5) tags.add('small-team');
+          break;
+        case 'compliance':
+          tags.add('compliance');
+          tags.add((requirement.qualifier || '').toLowerCase().replace(/\s+/g, '-'));
+          break;
+        case 'functional':
+          requirement.source.text.toLowerCase().split(/[\s-]+/).forEach(word => tags.add(word));
+          tags.add(requirement.source.text.toLowerCase().replace(/\s+/g, '-'));
+          break;
+      }
+    }
+    return tags;
+  }
+
+  private validateEntry(entry: any): string | null {
+    if (!entry || typeof entry.id !== 'string' || entry.id.trim().length === 0) {
+      return 'id must be a non-empty string';
+    }
+    if (typeof entry.version !== 'string' || !/^\d+(\.\d+)*$/.test(entry.version)) {
+      return `'${entry.id}' version must be a dotted number such as "1.2.0"`;
+    }
+    if (typeof entry.title !== 'string' || typeof entry.summary !== 'string') {
+      return `'${entry.id}' needs a title and a summary`;
+    }
+    for (const field of ['tags', 'tradeoffs', 'when_to_use', 'when_not_to_use']) {
+      if (!Array.isArray(entry[field]) || entry[field].some((item: unknown) => typeof item !== 'string')) {
+        return `'${entry.id}' ${field} must be an array of strings`;
+      }
+    }
+    for (const field of ['domains', 'avoid_tags', 'references']) {
+      if (entry[field] !== undefined && (!Array.isArray(entry[field]) || entry[field].some((item: unknown) => typeof item !== 'string'))) {
+        return `'${entry.id}' ${field} must be an array of strings when present`;
+      }
+    }
+    return null;
+  }
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
 class KnowledgeGraph {
   private nodes: Map<string, ConceptNode> = new Map();
   private edges: ConceptEdge[] = [];
@@ -2160,10 +5481,9 @@ Use this tool for open-ended questions, multi-step problem-solving, or when you
       },
       max_cognitive_steps: {
         type: "integer",
-        description: "Maximum internal steps for autonomous reasoning.",
-        default: 5,
+        description: "Maximum internal steps for autonomous reasoning. Defaults to the number of phases in the chosen strategy.",
         minimum: 1,
-        maximum: 10
+        maximum: MAX_COGNITIVE_STEPS
       },
       focus_areas: {
         type: "array",
@@ -2171,12 +5491,111 @@ Use this tool for open-ended questions, multi-step problem-solving, or when you
           type: "string",
           enum: ["sentiment", "key_concepts", "summary", "urgency", "tone", "research", "analysis"]
         },
-        description: "Specific areas to guide the autonomous analysis (optional)."
+        description: "Specific areas to guide the autonomous analysis (optional). With autonomous_mode false, selects the fast-mode analyses returned in focus_results."
       },
       enable_real_tools: {
         type: "boolean",
         description: "If true, enables the use of real external tools (e.g., read_file, execute_command) instead of simulated ones.",
         default: false
+      },
+      summary_role: {
+        type: "string",
+        description: "Adds a role_digest with role-specific highlights and action items. Built-in roles: project manager, security engineer, developer, qa engineer, devops engineer (a prefix such as \"qa\" works), or a name from custom_roles."
+      },
+      custom_roles: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            keywords: { type: "array", items: { type: "string" } }
+          },
+          required: ["name", "keywords"]
+        },
+        description: "Additional roles for summary_role, each defined by the keywords that make an item relevant to it."
+      },
+      digest_source: {
+        type: "string",
+        enum: ["result", "thought_session"],
+        description: "What the summary and role digest cover: this call's input and result (default) or the thoughts recorded so far with cognitive_thinking.",
+        default: "result"
+      },
+      estimation: {
+        type: "object",
+        properties: {
+          team_size: { type: "integer", minimum: 1, description: "Engineers on the team. Defaults to a team size stated in the problem, else 6." },
+          hourly_rate: { type: "number", minimum: 0, description: "Blended cost per engineer-hour in USD (default 100)." },
+          hours_per_week: { type: "number", minimum: 1, description: "Working hours per engineer-week (default 40)." },
+          velocity: { type: "number", exclusiveMinimum: 0, description: "Component points one engineer delivers per week (default 0.75)." }
+        },
+        description: "Team parameters for the effort, timeline and cost estimate produced by the synthesis phase."
+      },
+      capacity: {
+        type: "object",
+        properties: {
+          requests_per_instance: { type: "number", exclusiveMinimum: 0, description: "Sustained req/s one application instance serves (default 500)." },
+          connections_per_instance: { type: "number", exclusiveMinimum: 0, description: "Concurrent WebSocket connections one node holds (default 50000)." },
+          db_reads_per_node: { type: "number", exclusiveMinimum: 0, description: "Read queries/s one database node serves (default 5000)." },
+          db_writes_per_node: { type: "number", exclusiveMinimum: 0, description: "Writes/s one database primary accepts (default 2000)." },
+          db_connections_per_node: { type: "integer", minimum: 1, description: "Connection limit of one database node (default 500)." },
+          pool_size_per_instance: { type: "integer", minimum: 1, description: "Database connections each application instance opens (default 20)." },
+          cache_ops_per_node: { type: "number", exclusiveMinimum: 0, description: "Operations/s one cache node serves (default 100000)." },
+          storage_per_node_gb: { type: "number", exclusiveMinimum: 0, description: "Usable disk per database node in GB (default 2000)." },
+          peak_to_average: { type: "number", minimum: 1, description: "Ratio of peak to average load (default 3)." },
+          read_ratio: { type: "number", minimum: 0, maximum: 1, description: "Share of requests that only read (default 0.8)." },
+          request_kb: { type: "number", minimum: 0, description: "Average request size in KB (default 2)." },
+          response_kb: { type: "number", minimum: 0, description: "Average response size in KB (default 16)." },
+          record_kb: { type: "number", minimum: 0, description: "KB stored per write, used when no data volume is stated (default 2)." },
+          replication_factor: { type: "integer", minimum: 1, description: "Copies kept of each record (default 3)." },
+          concurrency_ratio: { type: "number", exclusiveMinimum: 0, maximum: 1, description: "Share of users online at peak when no concurrent user count is stated (default 0.1)." },
+          requests_per_user_per_minute: { type: "number", exclusiveMinimum: 0, description: "Requests per online user per minute, used when no throughput is stated (default 6)." },
+          horizon_months: { type: "integer", minimum: 1, description: "Months of storage growth to project (default 36)." }
+        },
+        description: "Per-node capacity assumptions for the capacity-planning phase."
+      },
+      adr_format: {
+        type: "string",
+        enum: ["madr", "nygard"],
+        description: "Format of the Architecture Decision Records generated from design phases (default madr)."
+      },
+      write_adrs: {
+        type: "boolean",
+        description: "Write the generated ADRs into adr_directory with write_to_file. Requires enable_real_tools; paths are checked against the workspace sandbox."
+      },
+      adr_directory: {
+        type: "string",
+        description: "Workspace-relative directory for written ADRs (default docs/adr)."
+      },
+      generate_scaffold: {
+        type: "boolean",
+        description: "Generate docker-compose.yml, Kubernetes Deployment/Service/HPA manifests and a skeleton per service from the design. Files are written into scaffold_directory when enable_real_tools is set, inside the workspace sandbox."
+      },
+      scaffold_directory: {
+        type: "string",
+        description: "Workspace-relative directory for the scaffold (default scaffold)."
+      },
+      generate_alternatives: {
+        type: "boolean",
+        description: "Have design phases compare two to four competing options per decision (e.g. modular monolith vs microservices, OT vs CRDT), scored against quality attributes weighted from the requirements, with a decision matrix and sensitivity analysis."
+      },
+      approved_commands: {
+        type: "array",
+        items: { type: "string" },
+        description: "approval_id values from a previous pending_approval response. Matching execute_command calls run instead of pausing the run again."
+      },
+      step_timeout_ms: {
+        type: "integer",
+        description: "Wall-clock budget for a single orchestration step in milliseconds. Steps that exceed it are aborted.",
+        default: 30000,
+        minimum: 1,
+        maximum: 2147483647
+      },
+      total_timeout_ms: {
+        type: "integer",
+        description: "Wall-clock budget for the whole orchestration run in milliseconds. The run stops and reports a partial result when it is exhausted.",
+        default: 120000,
+        minimum: 1,
+        maximum: 2147483647
       }
     },
     required: ["problem_statement"]
@@ -2272,9 +5691,23 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [COGNITIVE_ARCHITECT_TOOL, COGNITIVE_THINKING_TOOL],
 }));
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   if (request.params.name === "cognitive_architect") {
-    return thinkingServer.processCognitiveThought(request.params.arguments);
+    // Clients that send a progress token get a notification per phase start, tool call and completion
+    const progressToken = request.params._meta?.progressToken;
+    const onProgress = progressToken === undefined ? undefined : (update: ProgressUpdate) => {
+      server.notification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: update.progress,
+          total: update.total,
+          message: update.message,
+          ...(update.trace ? { _meta: { cognitive_trace_step: update.trace } } : {})
+        }
+      }).catch(error => console.error('Failed to send progress notification:', error));
+    };
+    return thinkingServer.processCognitiveThought(request.params.arguments, extra.signal, onProgress);
   } else if (request.params.name === "cognitive_thinking") {
     return thinkingServer.processThought(request.params.arguments);
   }
@@ -2294,7 +5727,18 @@ async function runServer() {
   console.error("Cognitive Architect MCP Server v2.0.0 - Advanced AI Reasoning Engine");
 }
 
-runServer().catch((error) => {
-  console.error("Fatal error running server:", error);
-  process.exit(1);
-});
+// Only the entry point starts the stdio transport, so test/ can import the classes above.
+function isEntryPoint(): boolean {
+  try {
+    return Boolean(process.argv[1]) && realpathSync(process.argv[1]) === realpathSync(fileURLToPath(import.meta.url));
+  } catch {
+    return false;
+  }
+}
+
+if (isEntryPoint()) {
+  runServer().catch((error) => {
+    console.error("Fatal error running server:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AlgorithmDesigner, RequirementExtractor } from "../index.ts";
+import { ALGORITHM_CATALOG } from "../algorithms/algorithm_catalog.ts";
+
+function design(problem: string) {
+  return new AlgorithmDesigner().design(problem, new RequirementExtractor().extract(problem));
+}
+
+test('catalog entries have unique ids and size their fixed-memory structures', () => {
+  const ids = ALGORITHM_CATALOG.map(template => template.id);
+  assert.equal(new Set(ids).size, ids.length);
+  for (const template of ALGORITHM_CATALOG) {
+    assert.ok(template.pseudocode.length > 0, template.id);
+    assert.ok(template.memory !== 'constant' || template.fixed_kb !== undefined, template.id);
+  }
+});
+
+test('ranks the heavy-hitter sketches, not the bounded heap, for the most frequent items in a stream', () => {
+  const result = design('Find the top 10 most frequent items in a stream of 1 billion events per day with 64 MB of memory');
+  const ids = result.candidates.map(candidate => candidate.id);
+  assert.ok(!ids.includes('top-k-heap'));
+  assert.equal(result.recommended, 'space-saving');
+  assert.ok(ids.indexOf('misra-gries') < ids.indexOf('count-min-sketch'));
+  assert.equal(result.constraints.update_mode, 'streaming');
+});
+
+test('keeps the bounded heap for top-k by score', () => {
+  const result = design('Show the top 10 players on a leaderboard of 5 million players');
+  assert.equal(result.recommended, 'top-k-heap');
+  assert.equal(result.constraints.input_size, 5_000_000);
+});
+
+test('derives n from one day of throughput when no input size is stated', () => {
+  const result = design('Find the top 10 most frequent items in a stream of 1 billion events per day with 64 MB of memory');
+  assert.equal(result.constraints.input_size, 1e9);
+  assert.deepEqual(result.constraints.requirements, ['REQ-1', 'REQ-2']);
+  assert.ok(result.constraints.assumptions.some(assumption => assumption.includes('one day of input')));
+});
+
+test('derives n from the data volume, and falls back to the default without either', () => {
+  assert.equal(design('Sort 2 TB of log lines').constraints.input_size, 2e9);
+  const unsized = design('Sort the records');
+  assert.equal(unsized.constraints.input_size, AlgorithmDesigner.DEFAULT_INPUT_SIZE);
+  assert.match(unsized.constraints.assumptions[0], /No input size stated; n = 1,000,000 assumed/);
+});
+
+test('checks the recommended algorithm against the memory limit', () => {
+  const result = design('Sort 10^9 integers with 512 MB of memory');
+  assert.equal(result.recommended, 'external-merge-sort');
+  const checks = new AlgorithmDesigner().check(result);
+  assert.equal(checks.find(check => check.check === 'memory')!.status, 'ok');
+});
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ArchitectureModeler } from "../architecture/architecture_modeler.ts";
+import { SequentialThinkingServer } from "../index.ts";
+
+const modeler = new ArchitectureModeler();
+const element = (id: string, name: string, details: string[]) => ({ id, name, focus: 'component-design', step: 3, details });
+
+const model = modeler.build([
+  element('D3.1', 'API GATEWAY', ['Kong for request routing to the order service']),
+  element('D3.2', 'ORDER SERVICE', ['Order CRUD', 'Publishes order events to Kafka', 'Technology: Node.js + Express + PostgreSQL']),
+  element('D3.3', 'BILLING SERVICE', ['Consumes order events from Kafka', 'Technology: Go + Redis'])
+]);
+
+test('models services, datastores and queues with the design components they came from', () => {
+  assert.deepEqual(model.nodes.map(node => `${node.id}:${node.kind}`), [
+    'client:client', 'api-gateway:gateway', 'order-service:service', 'postgresql:datastore', 'kafka:queue', 'billing-service:service', 'redis:cache'
+  ]);
+  const order = model.nodes.find(node => node.id === 'order-service')!;
+  assert.deepEqual(order.technologies, ['Node.js', 'Express']);
+  assert.deepEqual(model.nodes.find(node => node.id === 'kafka')!.design_components, ['D3.2', 'D3.3']);
+
+  const edges = model.connections.map(connection => `${connection.from}->${connection.to}:${connection.mode}`);
+  assert.ok(edges.includes('client->api-gateway:sync'));
+  assert.ok(edges.includes('api-gateway->order-service:sync'));
+  assert.ok(edges.includes('order-service->postgresql:sync'));
+  assert.ok(edges.includes('billing-service->redis:sync'));
+  assert.ok(edges.includes('order-service->kafka:async'));
+});
+
+test('renders the model as Mermaid, PlantUML and C4 container diagrams', () => {
+  const diagrams = modeler.render(model, 'Shop');
+  const mermaid = diagrams.mermaid.split('\n');
+  assert.equal(mermaid[0], 'flowchart LR');
+  assert.ok(mermaid.includes('  postgresql[("PostgreSQL")]'));
+  assert.ok(mermaid.includes('  order_service["Order Service<br/>Node.js, Express"]'));
+  assert.ok(mermaid.includes('  order_service -.->|"publishes/consumes events"| kafka'));
+
+  assert.match(diagrams.plantuml, /^@startuml\n[\s\S]*\n@enduml$/);
+  assert.ok(diagrams.plantuml.includes('queue "Apache Kafka" as kafka'));
+  assert.ok(diagrams.plantuml.includes('order_service ..> kafka : publishes/consumes events'));
+
+  assert.ok(diagrams.c4_container.includes('System_Boundary(system, "Shop") {'));
+  assert.ok(diagrams.c4_container.includes('ContainerDb(postgresql, "PostgreSQL", "PostgreSQL", "Used by Order Service")'));
+  assert.ok(diagrams.c4_container.includes('Rel(order_service, kafka, "publishes/consumes events", "async")'));
+});
+
+test('returns the diagrams from an orchestrated run and puts the flowchart in the report', async () => {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Design a real-time collaborative editor using microservices', autonomous_mode: true, max_cognitive_steps: 4 });
+  const result = JSON.parse(response.content[0].text);
+  assert.ok(result.architecture_model.nodes.some((node: any) => node.id === 'collaboration-service'));
+  assert.ok(result.solution_summary.includes(`### ARCHITECTURE DIAGRAM\n\`\`\`mermaid\n${result.diagrams.mermaid}\n\`\`\``));
+});
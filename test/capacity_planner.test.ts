@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CapacityPlanner } from "../architecture/architecture_capacity_planner.ts";
+import { RequirementExtractor, SequentialThinkingServer } from "../index.ts";
+
+const requirements = (text: string) => new RequirementExtractor().extract(text);
+const element = (id: string, name: string, details: string[]) => ({ id, name, focus: 'database-design', step: 4, details });
+
+test('sizes instances from the throughput requirement at the latency-driven utilization', () => {
+  const plan = new CapacityPlanner().plan(requirements('Serve 10,000 requests per second with 99.99% availability and p99 latency under 100 ms'), [], 1);
+  assert.equal(plan.load.peak_rps, 10_000);
+  assert.equal(plan.load.peak_reads, 8_000);
+  assert.equal(plan.load.peak_writes, 2_000);
+  assert.equal(plan.target_utilization, 0.6);
+  // ceil(10,000 / (500 × 0.6)), ceil(8,000 / (5,000 × 0.6)), ceil(2,000 / (2,000 × 0.6))
+  assert.equal(plan.instances.application, 34);
+  assert.equal(plan.instances.read_replicas, 3);
+  assert.equal(plan.instances.write_primaries, 2);
+  assert.deepEqual(plan.requirements, ['REQ-1', 'REQ-2', 'REQ-3']);
+});
+
+test('derives peak load from users when no throughput is stated', () => {
+  const plan = new CapacityPlanner().plan(requirements('A forum for 5 million users'), [], 2);
+  assert.equal(plan.connections.concurrent_users, 500_000);
+  assert.equal(plan.load.peak_rps, 50_000);
+  assert.equal(plan.instances.services, 2);
+  assert.equal(plan.instances.application, plan.instances.per_service * 2);
+});
+
+test('keeps the redundancy minimum without load requirements and honours overrides', () => {
+  const planner = new CapacityPlanner();
+  const plan = planner.plan([], [], 1);
+  assert.equal(plan.load.peak_rps, 0);
+  assert.equal(plan.instances.application, 2);
+  const tuned = planner.plan(requirements('1,000 requests per second'), [], 1, { requests_per_instance: 100 });
+  assert.equal(tuned.instances.application, Math.ceil(1000 / (100 * 0.7)));
+  assert.equal(tuned.parameters.requests_per_instance, 100);
+});
+
+test('projects storage growth from a periodic data-volume requirement', () => {
+  const plan = new CapacityPlanner().plan(requirements('Store 1 TB of data and ingest 10 GB per day'), [], 1);
+  assert.equal(plan.storage.initial_gb, 1000);
+  assert.equal(plan.storage.daily_growth_gb, 10);
+  const twelve = plan.storage.projections.find(projection => projection.months === 12)!;
+  assert.equal(twelve.logical_gb, Math.round((1000 + 10 * 30.4 * 12) * 10) / 10);
+  assert.equal(twelve.raw_gb, Math.round(twelve.logical_gb * 3 * 10) / 10);
+});
+
+test('flags the design figures that fall short of the plan', () => {
+  const planner = new CapacityPlanner();
+  const plan = planner.plan(requirements('Serve 10,000 requests per second with 99.99% availability and p99 latency under 100 ms'), [], 1);
+  const checks = planner.check(plan, [element('D4.1', 'PRIMARY DATABASE', ['PostgreSQL with 2 read replicas'])]);
+  const byName = Object.fromEntries(checks.map(check => [check.check, check]));
+  assert.equal(byName['read replicas'].status, 'shortfall');
+  assert.equal(byName['write capacity'].status, 'shortfall');
+  assert.ok(byName['write capacity'].remedy);
+
+  const sharded = planner.check(plan, [element('D4.1', 'PRIMARY DATABASE', ['PostgreSQL with 3 read replicas behind PgBouncer, sharded by user id'])]);
+  assert.ok(sharded.every(check => check.status === 'ok'));
+});
+
+test('rejects capacity parameters that would divide by zero or shrink storage', () => {
+  const planner = new CapacityPlanner();
+  assert.equal(planner.validate(undefined), null);
+  assert.equal(planner.validate({ requests_per_instance: 250, read_ratio: 1 }), null);
+  assert.equal(planner.validate({ requests_per_instance: 0 }), 'capacity.requests_per_instance must be a finite number greater than 0 (got 0)');
+  assert.equal(planner.validate({ storage_per_node_gb: -5 }), 'capacity.storage_per_node_gb must be a finite number greater than 0 (got -5)');
+  assert.equal(planner.validate({ read_ratio: 1.5 }), 'capacity.read_ratio must be a finite number at least 0 and at most 1 (got 1.5)');
+  assert.equal(planner.validate({ replication_factor: 2.5 }), 'capacity.replication_factor must be an integer at least 1 (got 2.5)');
+  assert.equal(planner.validate({ peak_to_average: '3' }), 'capacity.peak_to_average must be a finite number at least 1 (got "3")');
+  assert.equal(planner.validate([]), 'capacity must be an object');
+  assert.throws(() => planner.plan([], [], 1, { requests_per_instance: 0 }), /requests_per_instance/);
+});
+
+test('returns an input error before the run for invalid capacity parameters', async () => {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Serve 1,000 requests per second', autonomous_mode: true, capacity: { requests_per_instance: 0 } });
+  assert.equal(response.isError, true);
+  assert.match(JSON.parse(response.content[0].text).error, /^Invalid input: capacity\.requests_per_instance must be/);
+});
+
+test('runs the capacity plan and the validation it feeds within the default step budget', async () => {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Design a scalable architecture serving 10,000 requests per second', autonomous_mode: true });
+  const result = JSON.parse(response.content[0].text);
+  const tools = result.cognitive_trace.filter((step: any) => step.action === 'Act').map((step: any) => step.tool_called);
+  assert.equal(tools.length, 9);
+  assert.ok(tools.indexOf('_internal_capacity_planning') < tools.indexOf('_internal_solution_validation'));
+  assert.equal(tools[tools.length - 1], '_internal_solution_synthesis');
+});
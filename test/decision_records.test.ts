@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, readdirSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as nodePath from "node:path";
+import { SequentialThinkingServer } from "../index.ts";
+
+const problem_statement = 'Design a real-time collaborative editor using microservices for 100,000 users';
+
+async function run(input: Record<string, unknown>, root?: string) {
+  const previous = process.env.COGNITIVE_WORKSPACE_ROOT;
+  if (root) process.env.COGNITIVE_WORKSPACE_ROOT = root;
+  try {
+    const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement, autonomous_mode: true, max_cognitive_steps: 4, ...input });
+    return JSON.parse(response.content[0].text);
+  } finally {
+    if (previous === undefined) delete process.env.COGNITIVE_WORKSPACE_ROOT;
+    else process.env.COGNITIVE_WORKSPACE_ROOT = previous;
+  }
+}
+
+test('records each significant design choice with its drivers, options and source components', async () => {
+  const result = await run({ adr_format: 'nygard' });
+  const style = result.architecture_decisions[0];
+  assert.equal(style.id, 'ADR-0001');
+  assert.equal(style.title, 'Split the system into independently deployable microservices');
+  assert.equal(style.status, 'proposed');
+  assert.deepEqual(style.drivers, ['REQ-4: Scale: 100,000 users']);
+  assert.match(style.context, /D3\.1 USER SERVICE/);
+  assert.ok(style.options.length >= 2);
+  assert.match(style.markdown, /^# 1\. Split the system into independently deployable microservices\n\nDate: \d{4}-\d{2}-\d{2}\n\n## Status\n\nProposed\n/);
+  assert.ok(result.architecture_decisions.some((decision: any) => decision.title === 'Use PostgreSQL as the primary transactional store'));
+});
+
+test('writes MADR files after the existing ADRs and does not rewrite decisions already on disk', async () => {
+  const root = realpathSync(mkdtempSync(nodePath.join(tmpdir(), 'adr-')));
+  const directory = nodePath.join(root, 'docs', 'adr');
+  mkdirSync(directory, { recursive: true });
+  writeFileSync(nodePath.join(directory, '0001-use-markdown.md'), '# 1. Use Markdown\n');
+
+  const first = await run({ enable_real_tools: true, write_adrs: true }, root);
+  const files = readdirSync(directory).sort();
+  assert.equal(files[1], '0002-split-the-system-into-independently-deployable-microservices.md');
+  assert.equal(files.length, first.architecture_decisions.length + 1);
+  assert.match(readFileSync(nodePath.join(directory, files[1]), 'utf8'), /^# Split the system into independently deployable microservices\n/);
+  const writes = first.cognitive_trace.filter((step: any) => step.action === 'Record');
+  assert.equal(writes.length, first.architecture_decisions.length);
+  assert.ok(writes.every((step: any) => step.tool_called === 'write_to_file' && step.status === 'completed'));
+
+  const second = await run({ enable_real_tools: true, write_adrs: true }, root);
+  assert.deepEqual(readdirSync(directory).sort(), files);
+  assert.equal(second.architecture_decisions[0].id, 'ADR-0002');
+  assert.ok(second.architecture_decisions.every((decision: any) => decision.file.status === 'exists'));
+  assert.equal(second.cognitive_trace.filter((step: any) => step.action === 'Record').length, 0);
+});
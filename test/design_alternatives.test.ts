@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RequirementExtractor, SequentialThinkingServer } from "../index.ts";
+
+async function run(problem_statement: string) {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement, autonomous_mode: true, generate_alternatives: true });
+  return JSON.parse(response.content[0].text);
+}
+
+// Microservices and OT in the design, while the budget and team size favour simpler options
+const collaborative = run('Design a real-time collaborative document editor for 100,000 users with offline support, a $5,000 per month budget and a team of 4 engineers');
+
+test('flags an advisory recommendation that the design, and its ADR, did not take', async () => {
+  const result = await collaborative;
+  const style = result.design_alternatives.find((analysis: any) => analysis.topic === 'architecture-style');
+  assert.equal(style.baseline, 'microservices');
+  assert.notEqual(style.recommended, 'microservices');
+  assert.match(style.conflict, /use Microservices; adopting/);
+  assert.match(style.markdown, /\*\*Recommended \(advisory\):\*\* .*\*\*Conflict:\*\*/);
+
+  const adr = result.architecture_decisions.find((record: any) => record.slug === 'split-the-system-into-independently-deployable-microservices');
+  assert.match(adr.decision, /Chosen option: "Microservices"/);
+  assert.match(adr.alternatives_conflict, /recommends "Modular monolith" .* over "Microservices"/);
+  assert.match(adr.markdown, /\nConflict: The design alternatives analysis/);
+});
+
+test('leaves records without a conflicting analysis unflagged', async () => {
+  const result = await collaborative;
+  const conflicted = new Set(result.design_alternatives.filter((analysis: any) => analysis.conflict).map((analysis: any) => analysis.topic));
+  for (const analysis of result.design_alternatives) {
+    assert.equal(Boolean(analysis.conflict), analysis.recommended !== analysis.baseline, analysis.topic);
+  }
+  const flagged = result.architecture_decisions.filter((record: any) => record.alternatives_conflict).map((record: any) => record.slug);
+  assert.equal(flagged.length, conflicted.size);
+  assert.ok(!flagged.includes('route-external-traffic-through-an-api-gateway'));
+});
+
+test('rules out the options a high-scale requirement disqualifies', async () => {
+  const result = await run('Design a chat platform for 2 million concurrent users with 50,000 requests per second and 99.99% availability');
+  const style = result.design_alternatives.find((analysis: any) => analysis.topic === 'architecture-style');
+  assert.notEqual(style.recommended, 'modular-monolith');
+  const monolith = style.matrix.find((row: any) => row.option === 'modular-monolith');
+  assert.equal(monolith.rank, 3);
+  assert.match(monolith.disqualified, /^REQ-\d \(50,000 requests per second\): .*20,000 req\/s/);
+  assert.match(style.markdown, /\*\*Ruled out:\*\* Modular monolith, REQ-/);
+  assert.ok(style.sensitivity.every((result: any) => result.new_leader !== 'modular-monolith'));
+});
+
+test('rules out serverless for long-lived connections at scale', () => {
+  const text = 'Design a notification service holding 2M WebSocket connections';
+  const requirements = new RequirementExtractor().extract(text);
+  assert.deepEqual(requirements.filter(requirement => requirement.kind === 'user-scale').map(requirement => [requirement.value, requirement.qualifier]), [[2_000_000, 'concurrent']]);
+  const [style] = new SequentialThinkingServer()['alternativesAnalyzer'].analyze('component-design', 3, text, requirements);
+  assert.equal(style.recommended, 'microservices');
+  assert.deepEqual(style.matrix.filter((row: any) => row.disqualified).map((row: any) => row.option).sort(), ['modular-monolith', 'serverless']);
+  assert.equal(style.margin, undefined);
+  assert.match(style.markdown, /\*\*Recommended \(advisory\):\*\* Microservices, the only option not ruled out\./);
+});
@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EffortEstimator, RequirementExtractor, SequentialThinkingServer } from "../index.ts";
+
+const requirements = (text: string) => new RequirementExtractor().extract(text);
+
+test('falls back to ten points of scope and the default team', () => {
+  const estimate = new EffortEstimator().estimate([], []);
+  assert.equal(estimate.component_points, 10);
+  assert.equal(estimate.team_size, 6);
+  // 10 points at 0.75 points per engineer-week; six engineers at 1 / (1 + 0.04) efficiency
+  assert.equal(estimate.effort_engineer_weeks.expected, 13.3);
+  assert.equal(estimate.duration_weeks.expected, 2.3);
+  assert.equal(estimate.cost_usd.expected, 53_333);
+  assert.deepEqual([estimate.effort_engineer_weeks.low, estimate.effort_engineer_weeks.high], [6.7, 26.7]);
+});
+
+test('sizes design components and applies requirement multipliers', () => {
+  const elements = [
+    { id: 'D3.1', name: 'USER SERVICE', focus: 'component-design', step: 3, details: ['a', 'b', 'c', 'd'] },
+    { id: 'D4.1', name: 'PRIMARY DATABASE', focus: 'database-design', step: 4, details: [] }
+  ];
+  const estimate = new EffortEstimator().estimate(elements, requirements('Serve 10,000 requests per second with 99.99% availability'));
+  assert.deepEqual(estimate.breakdown.map(item => item.points), [6, 4]);
+  assert.deepEqual(estimate.multipliers.map(multiplier => [multiplier.factor, multiplier.value]), [['availability', 1.25], ['throughput', 1.2]]);
+  assert.equal(estimate.adjusted_points, 15);
+});
+
+test('uses the team-size requirement unless the input overrides it', () => {
+  const estimator = new EffortEstimator();
+  assert.equal(estimator.estimate([], requirements('We have a team of 3 engineers')).team_size, 3);
+  assert.equal(estimator.estimate([], requirements('We have a team of 3 engineers'), { team_size: 4 }).team_size, 4);
+});
+
+test('checks budget and deadline constraints against the estimate', () => {
+  const estimate = new EffortEstimator().estimate([], requirements('The budget is $20,000 and it must ship in 6 months'));
+  const statuses = Object.fromEntries(estimate.constraint_checks.map(check => [check.detail.split(' ')[0], check.status]));
+  assert.equal(statuses.budget, 'exceeds');
+  assert.equal(statuses.deadline, 'within');
+});
+
+test('rejects a zero team or velocity instead of estimating Infinity', () => {
+  const estimator = new EffortEstimator();
+  assert.equal(estimator.validate({ team_size: 4, velocity: 1, hourly_rate: 0 }), null);
+  assert.equal(estimator.validate({ velocity: 0 }), 'estimation.velocity must be a finite number greater than 0 (got 0)');
+  assert.equal(estimator.validate({ team_size: 0 }), 'estimation.team_size must be an integer at least 1 (got 0)');
+  assert.equal(estimator.validate({ hours_per_week: Number.POSITIVE_INFINITY }), 'estimation.hours_per_week must be a finite number at least 1 (got Infinity)');
+  assert.throws(() => estimator.estimate([], [], { velocity: 0, team_size: 0 }), /Invalid estimation parameters/);
+});
+
+test('returns an input error before the run for invalid estimation parameters', async () => {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Build a booking site', autonomous_mode: true, estimation: { velocity: 0, team_size: 0 } });
+  assert.equal(response.isError, true);
+  assert.match(JSON.parse(response.content[0].text).error, /^Invalid input: estimation\.velocity must be/);
+});
+
+test('scales a recurring budget by the project duration before comparing it with the cost', () => {
+  const estimator = new EffortEstimator();
+  const monthly = estimator.estimate([], requirements('We can spend $150,000 per month'), { team_size: 4 });
+  const [check] = monthly.constraint_checks;
+  const months = monthly.duration_weeks.expected / (52 / 12);
+  assert.equal(check.status, 'within');
+  assert.match(check.detail, new RegExp(`^budget \\$150,000/month × ${Math.round(months * 10) / 10} months = \\$${Math.round(150_000 * months).toLocaleString('en-US')} vs expected`));
+  assert.equal(estimator.estimate([], requirements('We can spend $5,000 per month'), { team_size: 4 }).constraint_checks[0].status, 'exceeds');
+});
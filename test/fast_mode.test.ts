@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SequentialThinkingServer } from "../index.ts";
+
+async function fast(problem_statement: string, focus_areas: string[]) {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement, autonomous_mode: false, focus_areas });
+  return JSON.parse(response.content[0].text);
+}
+
+test('rates urgency from the closest deadline and severity signals', async () => {
+  const incident = (await fast('Production outage: checkout fails for all customers. Fix it by tomorrow.', ['urgency'])).focus_results.urgency;
+  assert.equal(incident.level, 'critical');
+  assert.deepEqual(incident.deadline, { text: 'tomorrow', days: 1 });
+  assert.ok(incident.severity_signals.includes('production outage'));
+
+  const chore = (await fast('Ship the changelog within 2 weeks.', ['urgency'])).focus_results.urgency;
+  assert.equal(chore.level, 'medium');
+  assert.equal(chore.deadline.days, 14);
+
+  assert.equal((await fast('Tidy up the wiki.', ['urgency'])).focus_results.urgency.level, 'low');
+});
+
+test('returns knowledge entries matched to the problem type and requirements', async () => {
+  const research = (await fast('Design a scalable system architecture handling 20,000 requests per second with 99.99% availability', ['research'])).focus_results.research;
+  assert.equal(research[0].id, 'load-balancing');
+  assert.ok(research[0].matched_tags.includes('high-throughput'));
+  assert.ok(research.every((entry: any) => entry.pack === 'built-in'));
+});
+
+test('extracts entities and the relationships between them with their sentence', async () => {
+  const result = await fast('The order service calls the payment service. The checkout service writes to PostgreSQL.', ['analysis']);
+  const { entities, relationships } = result.focus_results.analysis;
+  assert.deepEqual(entities.map((entity: any) => `${entity.name}:${entity.type}`).sort(), ['PostgreSQL:technology', 'checkout service:component', 'order service:component', 'payment service:component']);
+  assert.deepEqual(relationships.map((relation: any) => `${relation.source} ${relation.relation} ${relation.target}`), ['order service calls payment service', 'checkout service writes_to PostgreSQL']);
+  assert.equal(relationships[0].evidence, 'The order service calls the payment service.');
+  assert.deepEqual(result.cognitive_trace, []);
+});
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SequentialThinkingServer } from "../index.ts";
+
+test('reports the synthesis roadmap once, without repeating the earlier components', async () => {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Design a booking site for 10,000 users with 99.9% availability', autonomous_mode: true });
+  const result = JSON.parse(response.content[0].text);
+  assert.ok(result.tools_used_internally.includes('_internal_solution_synthesis'));
+  const summary: string = result.solution_summary;
+  assert.match(summary, /### IMPLEMENTATION PLAN\nIMPLEMENTATION ROADMAP:/);
+  assert.match(summary, /TECHNOLOGY STACK RECOMMENDATION:/);
+  assert.ok(!summary.includes('COMPREHENSIVE SOLUTION SYNTHESIS'));
+  assert.equal(summary.split('IMPLEMENTATION ROADMAP:').length, 2);
+  assert.equal(summary.split('### EFFORT & COST ESTIMATE').length, 2);
+});
+
+test('keeps components of unmapped phase types under a catch-all section, but not raw tool output', () => {
+  const server = new SequentialThinkingServer();
+  const summary = server['generateFinalSolution']([
+    { phaseType: 'decompose', focus: 'requirements', tool: '_internal_problem_decomposition', content: 'REQUIREMENTS: bookings' },
+    { phaseType: 'explore', focus: 'options', tool: 'custom', content: 'Explored a waitlist option' },
+    { phaseType: 'tool', focus: 'read candidate file 1', tool: 'read_file', content: 'raw file body' }
+  ], 'custom-type', 'Design a booking site');
+  assert.match(summary, /### REQUIREMENTS\nREQUIREMENTS: bookings/);
+  assert.match(summary, /### ADDITIONAL ANALYSIS\nExplored a waitlist option/);
+  assert.ok(!summary.includes('raw file body'));
+});
+
+test('reports only the latest validation after re-planning', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  const response = await new SequentialThinkingServer().processCognitiveThought({
+    problem_statement: 'Design a GDPR compliant payments platform with audit logging, offline mode and video streaming for 10,000 users',
+    autonomous_mode: true,
+    max_cognitive_steps: 10
+  });
+  const result = JSON.parse(response.content[0].text);
+  assert.ok(result.cognitive_trace.some((entry: { decision: string }) => /^Iteration 1: targeted design/.test(entry.decision)));
+  const summary: string = result.solution_summary;
+  const validation = summary.slice(summary.indexOf('### DESIGN VALIDATION'), summary.indexOf('### REQUIREMENT REMEDIATION'));
+  assert.equal(validation.split('VALIDATION:').length, 2);
+  assert.match(validation, /COVERAGE: 4\/4 traceable requirements addressed \(100%\)/);
+  assert.ok(!validation.includes('GAP'));
+});
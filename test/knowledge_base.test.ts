@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as nodePath from "node:path";
+import { KnowledgeBase, RequirementExtractor, SequentialThinkingServer } from "../index.ts";
+
+function entry(id: string, version: string, fields: Record<string, unknown> = {}) {
+  return { id, version, title: `${id} guidance`, tags: [], summary: `${id} summary`, tradeoffs: [], when_to_use: [], when_not_to_use: [], ...fields };
+}
+
+function packDirectory(packs: Record<string, unknown>) {
+  const directory = mkdtempSync(nodePath.join(tmpdir(), 'knowledge-'));
+  for (const [file, content] of Object.entries(packs)) {
+    writeFileSync(nodePath.join(directory, file), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return directory;
+}
+
+const query = (text: string, domain = 'architectural-patterns') =>
+  ({ domain, problemType: 'system-architecture', requirements: new RequirementExtractor().extract(text), text });
+
+test('ranks entries by the tags derived from quantified requirements and flags avoided tags', () => {
+  const knowledge = new KnowledgeBase([{
+    name: 'team', version: '1', entries: [
+      entry('sharding', '1.0.0', { tags: ['high-throughput', 'large-data'] }),
+      entry('single-node', '1.0.0', { tags: ['high-throughput'], avoid_tags: ['high-availability'] }),
+      entry('unrelated', '1.0.0', { tags: ['market-analysis'], domains: ['business-objectives'] })
+    ]
+  }]);
+  const matches = knowledge.search(query('Handle 20,000 requests per second over 5 TB of data with 99.99% uptime'));
+  assert.deepEqual(matches.map(match => match.entry.id), ['sharding', 'single-node']);
+  assert.deepEqual(matches[0].matched_tags, ['high-throughput', 'large-data']);
+  assert.deepEqual(matches[1].cautions, ['high-availability']);
+});
+
+test('loads packs from a directory, keeps the highest entry version and skips invalid entries', (t) => {
+  const errors = t.mock.method(console, 'error', () => {});
+  const knowledge = new KnowledgeBase([{ name: 'built-in', version: '1.0.0', entries: [entry('caching', '1.2.0', { tags: ['low-latency'] })] }]);
+  knowledge.loadFromDirectory(packDirectory({
+    'a-older.json': { name: 'older', version: '1', entries: [entry('caching', '1.1.9', { tags: ['low-latency'] })] },
+    'b-acme.json': { name: 'acme', version: '2024.1', entries: [entry('caching', '1.10.0', { tags: ['low-latency'] }), entry('broken', 'latest'), { title: 'no id' }] },
+    'c-invalid.json': '{ not json',
+    'notes.txt': 'ignored'
+  }));
+
+  assert.equal(knowledge.size(), 1);
+  const [match] = knowledge.search(query('Keep p99 latency under 100 ms'));
+  assert.equal(match.pack, 'acme');
+  assert.equal(match.entry.version, '1.10.0');
+
+  const messages = errors.mock.calls.map(call => String(call.arguments[0]));
+  assert.equal(messages.length, 3);
+  assert.match(messages[0], /Skipping entry #2 in .*b-acme\.json: 'broken' version must be a dotted number/);
+  assert.match(messages[1], /Skipping entry #3 in .*b-acme\.json: id must be a non-empty string/);
+  assert.match(messages[2], /Could not load knowledge pack .*c-invalid\.json/);
+});
+
+test('cites the pack entries the research phase used', async () => {
+  const previous = process.env.COGNITIVE_KNOWLEDGE_DIR;
+  process.env.COGNITIVE_KNOWLEDGE_DIR = packDirectory({
+    'acme.json': { name: 'acme', version: '2024.1', entries: [entry('acme-edge-cache', '1.0.0', { tags: ['low-latency', 'system-architecture'], domains: ['architectural-patterns'] })] }
+  });
+  try {
+    const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Design a system architecture for a catalog API that must respond in under 100ms', autonomous_mode: true });
+    const result = JSON.parse(response.content[0].text);
+    const citation = result.knowledge_citations.find((candidate: any) => candidate.id === 'acme-edge-cache');
+    assert.deepEqual({ ...citation, step: undefined }, { id: 'acme-edge-cache', title: 'acme-edge-cache guidance', version: '1.0.0', pack: 'acme', pack_version: '2024.1', step: undefined });
+    assert.equal(result.cognitive_trace.find((step: any) => step.step === citation.step && step.tool_called).tool_called, '_internal_domain_research');
+  } finally {
+    if (previous === undefined) delete process.env.COGNITIVE_KNOWLEDGE_DIR;
+    else process.env.COGNITIVE_KNOWLEDGE_DIR = previous;
+  }
+});
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SequentialThinkingServer } from "../index.ts";
+
+async function run(input: Record<string, unknown>) {
+  const updates: Array<{ progress: number; total: number; message: string; trace?: any }> = [];
+  const response = await new SequentialThinkingServer().processCognitiveThought(input, undefined, update => updates.push(update));
+  return { updates, result: JSON.parse(response.content[0].text) };
+}
+
+test('reports phase start, tool call and completion for every step', async () => {
+  const { updates, result } = await run({ problem_statement: 'Design a booking site for 10,000 users', autonomous_mode: true, max_cognitive_steps: 3 });
+  assert.equal(updates.length, 9);
+  assert.ok(updates.every(update => update.total === 9));
+  assert.deepEqual(updates.map(update => update.progress), [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+  const [start, call, done] = updates;
+  assert.match(start.message, /^Step 1\/3: decompose phase started \(/);
+  assert.equal(call.message, `Step 1/3: calling ${result.cognitive_trace[1].tool_called}`);
+  assert.equal(call.trace, undefined);
+  assert.equal(done.message, `Step 1/3: ${result.cognitive_trace[1].tool_called} completed`);
+  assert.deepEqual(done.trace, result.cognitive_trace[1]);
+  assert.deepEqual(start.trace, result.cognitive_trace[0]);
+});
+
+test('sends nothing in fast mode', async () => {
+  const { updates } = await run({ problem_statement: 'Design a booking site', autonomous_mode: false });
+  assert.deepEqual(updates, []);
+});
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RequirementExtractor } from "../index.ts";
+
+const extract = (text: string) => new RequirementExtractor().extract(text)
+  .map(requirement => ({ kind: requirement.kind, value: requirement.value, unit: requirement.unit, qualifier: requirement.qualifier }));
+
+test('normalizes quality requirements to their units', () => {
+  assert.deepEqual(extract('Design a chat system for 1 million concurrent users with p99 latency under 200 ms, 10,000 messages per second and 99.99% availability'), [
+    { kind: 'user-scale', value: 1_000_000, unit: 'users', qualifier: 'concurrent' },
+    { kind: 'latency', value: 200, unit: 'ms', qualifier: 'p99' },
+    { kind: 'throughput', value: 10_000, unit: 'req/s', qualifier: undefined },
+    { kind: 'availability', value: 99.99, unit: '%', qualifier: undefined }
+  ]);
+});
+
+test('converts rates, word numbers and availability nines', () => {
+  const [throughput] = extract('It must handle 3.6 million requests per hour');
+  assert.equal(throughput.kind, 'throughput');
+  assert.equal(throughput.value, 1000);
+  assert.deepEqual(extract('four nines of availability').map(requirement => requirement.value), [99.99]);
+});
+
+test('numbers each requirement in statement order and keeps its source span', () => {
+  const text = 'Sort 10^7 integers with 64 MB of memory';
+  const requirements = new RequirementExtractor().extract(text);
+  assert.deepEqual(requirements.map(requirement => requirement.id), ['REQ-1', 'REQ-2']);
+  for (const requirement of requirements) {
+    assert.equal(text.slice(requirement.source.start, requirement.source.end), requirement.source.text);
+  }
+});
+
+test('extracts input sizes, memory limits and update rates for algorithm design', () => {
+  assert.deepEqual(extract('Sort 10^7 integers with 64 MB of memory'), [
+    { kind: 'input-size', value: 1e7, unit: 'items', qualifier: 'integers' },
+    { kind: 'memory-limit', value: 64, unit: 'MB', qualifier: undefined }
+  ]);
+  assert.deepEqual(extract('n = 1e5').map(requirement => requirement.value), [1e5]);
+  assert.deepEqual(extract('Dedupe 2 billion URLs with a memory limit of 1 GB').map(requirement => [requirement.kind, requirement.value]), [
+    ['input-size', 2e9],
+    ['memory-limit', 1000]
+  ]);
+  assert.deepEqual(extract('20,000 score updates per second').map(requirement => [requirement.kind, requirement.value]), [['update-rate', 20_000]]);
+});
+
+test('does not read result sizes or digits inside other numbers as input sizes', () => {
+  assert.deepEqual(extract('Keep the top 100 players from 50 million players').map(requirement => requirement.value), [50_000_000]);
+  assert.deepEqual(extract('the first 10 records').length, 0);
+});
+
+test('extracts nothing from a statement without quantities', () => {
+  assert.deepEqual(extract('Make the onboarding flow friendlier'), []);
+});
+
+test('reads team size only from engineering roles or "team of"', () => {
+  const teamSizes = (text: string) => extract(text).filter(requirement => requirement.kind === 'team-size').map(requirement => requirement.value);
+  assert.deepEqual(teamSizes('A community platform for 250,000 members'), []);
+  assert.deepEqual(teamSizes('Check in 1,500 people per day'), []);
+  assert.deepEqual(teamSizes('We have 4 backend engineers'), [4]);
+  assert.deepEqual(teamSizes('A team of 6 people'), [6]);
+  assert.deepEqual(teamSizes('3-5 developers are available'), [5]);
+});
+
+test('reads latency in seconds written as s', () => {
+  assert.deepEqual(extract('The API must respond within 2s'), [{ kind: 'latency', value: 2000, unit: 'ms', qualifier: undefined }]);
+  assert.deepEqual(extract('p95 latency under 1.5 s'), [{ kind: 'latency', value: 1500, unit: 'ms', qualifier: 'p95' }]);
+});
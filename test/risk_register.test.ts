@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RiskAssessor } from "../architecture/architecture_risk_assessor.ts";
+import { RequirementExtractor, SequentialThinkingServer } from "../index.ts";
+
+const element = (id: string, name: string, details: string[]) => ({ id, name, focus: 'database-design', step: 3, details });
+const elements = [
+  element('D3.1', 'PRIMARY DATABASE (PostgreSQL)', ['Orders and payments', 'Read replicas for query scaling']),
+  element('D3.2', 'CACHE (Redis)', ['Read-through caching of product pages'])
+];
+
+test('scores catalog risks from the design components that carry them and escalates them by requirement', () => {
+  const calm = new RiskAssessor().assess(elements, new RequirementExtractor().extract('Build a shop'));
+  const busy = new RiskAssessor().assess(elements, new RequirementExtractor().extract('Build a shop for 20,000 requests per second'));
+
+  const calmDatabase = calm.risks.find(risk => risk.risk === 'database-write-bottleneck')!;
+  assert.deepEqual([calmDatabase.likelihood, calmDatabase.impact, calmDatabase.exposure, calmDatabase.rating], [2, 4, 8, 'medium']);
+  assert.deepEqual(calmDatabase.design_components, ['D3.1']);
+
+  const busyDatabase = busy.risks.find(risk => risk.risk === 'database-write-bottleneck')!;
+  assert.equal(busyDatabase.likelihood, 3);
+  assert.deepEqual(busyDatabase.requirements, ['REQ-1']);
+  assert.match(busyDatabase.rationale.join(' '), /REQ-1: write volume at the stated throughput \(likelihood \+1\)/);
+
+  assert.ok(calm.risks.some(risk => risk.risk === 'cache-stampede'));
+  assert.ok(!calm.risks.some(risk => risk.risk === 'consumer-lag'));
+});
+
+test('orders risks by exposure, numbers them and counts them per rating', () => {
+  const register = new RiskAssessor().assess(elements, new RequirementExtractor().extract('Build a shop for 20,000 requests per second'));
+  assert.deepEqual(register.risks.map(risk => risk.id), register.risks.map((_, index) => `RISK-${String(index + 1).padStart(2, '0')}`));
+  for (let i = 1; i < register.risks.length; i++) {
+    assert.ok(register.risks[i - 1].exposure >= register.risks[i].exposure);
+  }
+  const counts = { high: 0, medium: 0, low: 0 };
+  register.risks.forEach(risk => counts[risk.rating]++);
+  assert.deepEqual(register.counts, counts);
+  assert.equal(register.markdown.split('\n').length, register.risks.length + 2);
+  assert.match(register.markdown, /^\| ID \| Risk \| Category \| Likelihood \| Impact \| Exposure \| Owner \| Mitigation \| Triggers \|/);
+});
+
+test('adds a risk for each unmet requirement and reports the register from validation', async () => {
+  const register = new RiskAssessor().assess(elements, [], [{
+    requirement: new RequirementExtractor().extract('Add search')[0],
+    status: 'gap',
+    remedies: ['Search index (Elasticsearch) updated from change events']
+  }]);
+  const gap = register.risks.find(risk => risk.risk === 'requirement-gap')!;
+  assert.equal(gap.title, 'REQ-1 Search is not addressed by the design');
+  assert.equal(gap.mitigation, 'Search index (Elasticsearch) updated from change events');
+
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Design a booking platform with payments for 50,000 users', autonomous_mode: true, max_cognitive_steps: 8 });
+  const result = JSON.parse(response.content[0].text);
+  assert.ok(result.risk_register.risks.length > 0);
+  assert.ok(result.solution_summary.includes(`### RISK REGISTER\n${result.risk_register.markdown}`));
+});
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SequentialThinkingServer } from "../index.ts";
+
+async function call(input: Record<string, unknown>) {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Design a booking site for 10,000 users', autonomous_mode: true, ...input });
+  return { response, body: JSON.parse(response.content[0].text) };
+}
+
+test('rejects an unknown summary_role before the run', async () => {
+  const { response, body } = await call({ summary_role: 'astronaut' });
+  assert.equal(response.isError, true);
+  assert.match(body.error, /^Invalid input: Unknown summary_role 'astronaut': use one of project manager, /);
+  assert.equal(body.cognitive_trace, undefined);
+});
+
+test('rejects malformed custom_roles', async () => {
+  assert.equal((await call({ custom_roles: { name: 'x' } })).body.error, 'Invalid input: custom_roles must be an array');
+  assert.equal((await call({ summary_role: 'astronaut', custom_roles: [{ name: 'astronaut', keywords: [42] }] })).body.error, 'Invalid input: custom_roles[0] needs a non-empty name and an array of string keywords');
+});
+
+test('accepts built-in role prefixes and custom roles', async () => {
+  const builtIn = await call({ summary_role: 'qa' });
+  assert.equal(builtIn.response.isError, undefined);
+  assert.ok(builtIn.body.role_digest);
+  const custom = await call({ summary_role: 'Astronaut', custom_roles: [{ name: 'astronaut', keywords: ['booking'] }] });
+  assert.equal(custom.response.isError, undefined);
+  assert.ok(custom.body.role_digest);
+});
+
+test('rejects a thought_session digest before the run when no thoughts were recorded', async () => {
+  for (const autonomous_mode of [true, false]) {
+    const { response, body } = await call({ summary_role: 'qa', digest_source: 'thought_session', autonomous_mode });
+    assert.equal(response.isError, true);
+    assert.equal(body.error, 'Invalid input: digest_source is thought_session, but no thoughts have been recorded with cognitive_thinking yet');
+    assert.equal(body.cognitive_trace, undefined);
+  }
+});
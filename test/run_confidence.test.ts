@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as nodePath from "node:path";
+import { SequentialThinkingServer } from "../index.ts";
+
+async function run(input: Record<string, unknown>, signal?: AbortSignal) {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ autonomous_mode: true, ...input }, signal);
+  return JSON.parse(response.content[0].text);
+}
+
+const factor = (result: any, name: string) => result.confidence_breakdown.factors.find((entry: any) => entry.name === name);
+
+test('a clean run scores full tool reliability and completion', async () => {
+  const result = await run({ problem_statement: 'Design a chat system for 1 million concurrent users with p99 latency under 200 ms', max_cognitive_steps: 5 });
+  assert.deepEqual(result.confidence_breakdown.factors.map((entry: any) => entry.name), ['requirement_coverage', 'validation_outcomes', 'tool_reliability', 'completion', 'evidence']);
+  assert.deepEqual(factor(result, 'tool_reliability'), { name: 'tool_reliability', weight: 0.2, score: 1, detail: '0 of 5 tool calls failed or were aborted' });
+  assert.deepEqual(factor(result, 'completion'), { name: 'completion', weight: 0.15, score: 1, detail: '5/5 planned steps completed' });
+  assert.equal(result.final_confidence_score, result.confidence_breakdown.score);
+});
+
+test('tool calls whose results carry an error lower tool reliability', async () => {
+  const previous = process.env.COGNITIVE_WORKSPACE_ROOT;
+  process.env.COGNITIVE_WORKSPACE_ROOT = realpathSync(mkdtempSync(nodePath.join(tmpdir(), 'confidence-')));
+  try {
+    const result = await run({ problem_statement: 'Review the auth module in ./src', enable_real_tools: true });
+    const calls = result.cognitive_trace.filter((step: any) => step.tool_called && step.status !== 'skipped');
+    const failed = calls.filter((step: any) => step.error);
+    assert.ok(failed.length > 0);
+    const reliability = factor(result, 'tool_reliability');
+    assert.equal(reliability.detail, `${failed.length} of ${calls.length} tool calls failed or were aborted`);
+    assert.equal(reliability.score, Math.round((1 - failed.length / calls.length) * 100) / 100);
+  } finally {
+    if (previous === undefined) delete process.env.COGNITIVE_WORKSPACE_ROOT;
+    else process.env.COGNITIVE_WORKSPACE_ROOT = previous;
+  }
+});
+
+test('an aborted run scores no tool reliability and no completion', async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const result = await run({ problem_statement: 'Design a chat system for 1 million concurrent users', max_cognitive_steps: 5 }, controller.signal);
+  assert.deepEqual(factor(result, 'tool_reliability'), { name: 'tool_reliability', weight: 0.2, score: 0, detail: '1 of 1 tool calls failed or were aborted' });
+  assert.deepEqual(factor(result, 'completion'), { name: 'completion', weight: 0.15, score: 0, detail: '0/5 planned steps completed' });
+});
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CapacityPlanner } from "../architecture/architecture_capacity_planner.ts";
+import { ArchitectureModeler } from "../architecture/architecture_modeler.ts";
+import { ScaffoldGenerator } from "../architecture/architecture_scaffold_generator.ts";
+import { RequirementExtractor } from "../index.ts";
+
+const elements = [
+  { id: 'D3.1', name: 'USER SERVICE', focus: 'component-design', step: 3, details: ['Technology: Node.js with PostgreSQL'] },
+  { id: 'D3.2', name: 'CHAT SERVICE', focus: 'component-design', step: 3, details: ['Technology: Node.js, Redis and Kafka'] },
+  { id: 'D6.1', name: 'API GATEWAY', focus: 'integration-strategy', step: 6, details: ['Kong routes requests to the services'] }
+];
+
+function scaffold() {
+  const model = new ArchitectureModeler().build(elements);
+  return new ScaffoldGenerator().generate(model, elements, [], 'scaffold');
+}
+
+test('emits a valid compose file and manifests for every service', () => {
+  const result = scaffold();
+  assert.deepEqual(result.issues, []);
+  assert.deepEqual(result.files.filter(file => file.kind === 'kubernetes').map(file => file.path), ['scaffold/k8s/user-service.yaml', 'scaffold/k8s/chat-service.yaml']);
+  assert.ok(result.files.every(file => file.status !== 'invalid'));
+});
+
+test('quotes YAML scalars that would otherwise change type', () => {
+  const compose = scaffold().files.find(file => file.kind === 'compose')!.content;
+  assert.match(compose, /^services:\n  postgresql:\n    image: "postgres:16"\n/);
+  assert.match(compose, /KONG_DATABASE: "off"\n/);
+  assert.match(compose, /PORT: "8080"\n/);
+  assert.match(compose, /ports:\n      - "5432:5432"\n/);
+  assert.match(compose, /build: \.\/services\/user-service\n/);
+  assert.match(compose, /depends_on:\n      - postgresql\n      - kafka\n/);
+});
+
+test('nests sequences of mappings and separates manifests', () => {
+  const manifests = scaffold().files.find(file => file.path.endsWith('user-service.yaml'))!.content;
+  assert.equal(manifests.split('\n---\n').length, 3);
+  assert.match(manifests, /containers:\n        - name: user-service\n          image: "user-service:0\.1\.0"\n/);
+  assert.match(manifests, /env:\n            - name: PORT\n              value: "8080"\n/);
+  assert.match(manifests, /replicas: 2\n/);
+});
+
+test('validation reports broken compose services and manifests', () => {
+  const generator = new ScaffoldGenerator();
+  assert.deepEqual(generator.validateCompose({ services: { api: { build: '.', ports: ['99999:80'], depends_on: ['db'] } } }), [
+    "service 'api' has an invalid port mapping '99999:80'",
+    "service 'api' depends on undefined service 'db'"
+  ]);
+  assert.deepEqual(generator.validateKubernetes([{ apiVersion: 'v1', kind: 'Service', metadata: { name: 'Bad_Name' }, spec: { selector: { app: 'x' }, ports: [{ port: 80 }] } }]), [
+    "Service 'Bad_Name' needs metadata.name as a DNS-1123 label (lowercase alphanumeric and -, at most 63 characters)",
+    "Service 'Bad_Name': spec.selector matches no Deployment's pod labels"
+  ]);
+});
+
+test('publishes Kong and DynamoDB Local on different host ports', () => {
+  const withDynamo = [
+    { id: 'D3.1', name: 'ORDER SERVICE', focus: 'component-design', step: 3, details: ['Technology: Node.js with DynamoDB'] },
+    elements[2]
+  ];
+  const result = new ScaffoldGenerator().generate(new ArchitectureModeler().build(withDynamo), withDynamo, [], 'scaffold');
+  assert.deepEqual(result.issues, []);
+  const compose = result.files.find(file => file.kind === 'compose')!.content;
+  assert.match(compose, /image: "kong:3\.6"\n(?:.*\n)*?    ports:\n      - "8000:8000"\n/);
+  assert.match(compose, /image: "amazon\/dynamodb-local:2\.5\.2"\n    ports:\n      - "8100:8000"\n/);
+  assert.match(compose, /DYNAMODB_PORT: "8000"\n/);
+});
+
+test('validation rejects two services publishing the same host port', () => {
+  assert.deepEqual(new ScaffoldGenerator().validateCompose({ services: { gateway: { image: 'kong:3.6', ports: ['8000:8000'] }, dynamodb: { image: 'amazon/dynamodb-local', ports: ['8000:8000'] }, api: { build: '.', ports: ['8080'] } } }), [
+    "service 'dynamodb' publishes host port 8000, which service 'gateway' already uses"
+  ]);
+});
+
+test('sizes the autoscaler from the capacity plan', () => {
+  const requirements = new RequirementExtractor().extract('Serve 10,000 requests per second with p99 latency under 100 ms');
+  const plan = new CapacityPlanner().plan(requirements, [], 2);
+  const result = new ScaffoldGenerator().generate(new ArchitectureModeler().build(elements), elements, requirements, 'scaffold', plan);
+  const manifests = result.files.find(file => file.path.endsWith('chat-service.yaml'))!.content;
+  // ceil(10,000 / (500 × 0.6)) = 34 instances, 17 for each of the two services
+  assert.equal(plan.instances.per_service, 17);
+  assert.match(manifests, /minReplicas: 2\n  maxReplicas: 17\n/);
+  assert.match(manifests, /averageUtilization: 60\n/);
+  assert.ok(result.assumptions.includes("Replicas 2-17 (maximum from the capacity plan's 17 instances per service), scaling on cpu at 60% utilization"));
+  assert.match(scaffold().files.find(file => file.path.endsWith('chat-service.yaml'))!.content, /maxReplicas: 10\n/);
+});
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SequentialThinkingServer } from "../index.ts";
+
+async function run(input: Record<string, unknown>, signal?: AbortSignal, onProgress?: (update: { progress: number; message: string }) => void) {
+  const response = await new SequentialThinkingServer().processCognitiveThought(input, signal, onProgress);
+  return { isError: response.isError, result: JSON.parse(response.content[0].text) };
+}
+
+const abortedSteps = (result: any) => result.cognitive_trace.filter((entry: { status?: string }) => entry.status === 'aborted');
+
+test('rejects step and total timeouts outside 1 to 2147483647 ms', async () => {
+  for (const [field, value] of [['step_timeout_ms', 0], ['step_timeout_ms', 1.5], ['total_timeout_ms', -1], ['total_timeout_ms', 2_147_483_648], ['total_timeout_ms', '500']] as const) {
+    const { isError, result } = await run({ problem_statement: 'Design a booking site', autonomous_mode: true, [field]: value });
+    assert.equal(isError, true, `${field}=${value}`);
+    assert.equal(result.error, `Invalid input: ${field} must be an integer at least 1 and at most 2147483647 (got ${JSON.stringify(value)})`);
+  }
+});
+
+test('stops with a partial result when the total budget runs out', async () => {
+  // Each phase start spends 20 ms, so the 10 ms budget is gone before the first tool call
+  const { result } = await run({ problem_statement: 'Design a booking site for 10,000 users', autonomous_mode: true, total_timeout_ms: 10 }, undefined, update => {
+    if (/phase started/.test(update.message)) {
+      const until = Date.now() + 20;
+      while (Date.now() < until) { /* busy-wait */ }
+    }
+  });
+  assert.equal(result.aborted, true);
+  assert.equal(result.abort_reason, 'total time budget exhausted');
+  const aborted = abortedSteps(result);
+  assert.equal(aborted.length, 1);
+  assert.equal(aborted[0].abort_reason, 'total time budget exhausted');
+  assert.equal(result.cognitive_trace.at(-1), aborted[0]);
+});
+
+test('stops when the client cancels the request through its abort signal', async () => {
+  const controller = new AbortController();
+  const { result } = await run({ problem_statement: 'Design a booking site for 10,000 users', autonomous_mode: true }, controller.signal, update => {
+    if (/^Step 2\/\d+: .* phase started/.test(update.message)) controller.abort();
+  });
+  assert.equal(result.aborted, true);
+  assert.equal(result.abort_reason, 'request cancelled by client');
+  const aborted = abortedSteps(result);
+  assert.equal(aborted.length, 1);
+  assert.equal(aborted[0].step, 2);
+  assert.ok(result.cognitive_trace.filter((entry: { tool_called?: string }) => entry.tool_called).length >= 1);
+});
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as nodePath from "node:path";
+import { SequentialThinkingServer } from "../index.ts";
+
+const phases = [{ type: 'decompose', focus: 'incident-timeline' }, { type: 'synthesize', focus: 'postmortem-report' }];
+
+// Builds a server with COGNITIVE_STRATEGIES_FILE pointing at the given strategies.
+function load(strategies: unknown[]) {
+  const file = nodePath.join(mkdtempSync(nodePath.join(tmpdir(), 'strategies-')), 'strategies.json');
+  writeFileSync(file, JSON.stringify({ strategies }));
+  const previous = process.env.COGNITIVE_STRATEGIES_FILE;
+  process.env.COGNITIVE_STRATEGIES_FILE = file;
+  try {
+    return new SequentialThinkingServer()['strategyRegistry'];
+  } finally {
+    if (previous === undefined) delete process.env.COGNITIVE_STRATEGIES_FILE;
+    else process.env.COGNITIVE_STRATEGIES_FILE = previous;
+  }
+}
+
+test('skips strategies whose matchers are not non-empty strings, with a message on stderr', (t) => {
+  const errors = t.mock.method(console, 'error', () => {});
+  const registry = load([
+    { name: 'numeric-keyword', matchers: { keywords: ['incident', 42] }, phases },
+    { name: 'empty-keyword', matchers: { keywords: [''] }, phases },
+    { name: 'object-pattern', matchers: { patterns: [{ source: 'outage' }] }, phases },
+    { name: 'null-matchers', matchers: null, phases },
+    { name: 'incident-postmortem', matchers: { keywords: ['incident'], patterns: ['root[- ]cause'] }, phases }
+  ]);
+  const names = registry.list().map(strategy => strategy.name);
+  assert.ok(names.includes('incident-postmortem'));
+  for (const skipped of ['numeric-keyword', 'empty-keyword', 'object-pattern', 'null-matchers']) {
+    assert.ok(!names.includes(skipped), skipped);
+  }
+
+  const messages = errors.mock.calls.map(call => String(call.arguments[0]));
+  assert.equal(messages.length, 4);
+  assert.match(messages[0], /^Skipping strategy #1 in .*: 'numeric-keyword' has an invalid keyword 42; keywords must be non-empty strings$/);
+  assert.match(messages[1], /^Skipping strategy #2 in .*: 'empty-keyword' has an invalid keyword ""/);
+  assert.match(messages[2], /^Skipping strategy #3 in .*: 'object-pattern' has an invalid pattern \{"source":"outage"\}; patterns must be non-empty strings$/);
+  assert.match(messages[3], /^Skipping strategy #4 in .*: 'null-matchers' matchers must be an object$/);
+
+  assert.equal(registry.match('Write up the checkout incident'), 'incident-postmortem');
+  assert.equal(registry.match('Design a checkout page'), undefined);
+});
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TextRankSummarizer } from "../index.ts";
+
+const summarizer = new TextRankSummarizer();
+
+test('does not split sentences on abbreviations, initials, decimals, URLs or code', () => {
+  const text = 'Dr. Smith met the U.S. team, e.g. the platform group. Version 2.5 ships today. ' +
+    'See https://example.com/a.b?x=1 for docs. Call `client.send()` first.\n\n```ts\nconst a = 1. b = 2;\n```\n\nThen deploy.';
+  assert.deepEqual(summarizer.segment(text), [
+    'Dr. Smith met the U.S. team, e.g. the platform group.',
+    'Version 2.5 ships today.',
+    'See https://example.com/a.b?x=1 for docs.',
+    'Call `client.send()` first.',
+    '```ts\nconst a = 1. b = 2;\n```',
+    'Then deploy.'
+  ]);
+});
+
+test('keeps the central sentences within the word budget, in their original order', () => {
+  const text = [
+    'The payment service stores card tokens in the vault.',
+    'Lunch is at noon.',
+    'The payment service calls the vault for every card charge.',
+    'Card tokens from the vault are cached by the payment service.'
+  ].join(' ');
+  const summary = summarizer.summarize(text, 22);
+  assert.equal(summary, 'The payment service stores card tokens in the vault. Card tokens from the vault are cached by the payment service.');
+  assert.ok(!summarizer.summarize(text, 30).includes('Lunch'));
+});
+
+test('biases the ranking towards keywords, never selects code blocks and truncates an oversized sentence', () => {
+  const passages = ['The cache layer cuts database load.', 'The database cache needs tuning.', '```\ncache database cache database\n```'];
+  assert.equal(summarizer.summarize(passages, 6), 'The database cache needs tuning.');
+  assert.equal(summarizer.summarize(passages, 6, ['load']), 'The cache layer cuts database load.');
+  assert.ok(!summarizer.summarize(passages, 100).includes('```'));
+  assert.equal(summarizer.summarize('One two three four five six seven.', 3), 'One two three…');
+  assert.equal(summarizer.summarize('', 10), '');
+});
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SequentialThinkingServer } from "../index.ts";
+
+async function run(problem_statement: string) {
+  const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement, autonomous_mode: true });
+  return JSON.parse(response.content[0].text);
+}
+
+test('detects security problems by whole words, before the other problem types', () => {
+  const server = new SequentialThinkingServer();
+  const detect = (text: string) => server['detectProblemType'](text);
+  assert.equal(detect('Build secure authentication for our payment API'), 'security');
+  assert.equal(detect('Assess authorization for the admin portal, which requires PCI compliance'), 'security');
+  assert.equal(detect('Design a secure microservices architecture'), 'security');
+  assert.equal(detect('Write a guide that requires a build step'), 'general-problem');
+  assert.equal(detect('Redesign the UI of the settings page'), 'design');
+});
+
+for (const statement of ['Build secure authentication for our payment API', 'Assess authorization for the admin portal, which requires PCI compliance']) {
+  test(`runs the STRIDE threat-model phase for "${statement}"`, async () => {
+    const result = await run(statement);
+    const threatStep = result.cognitive_trace.find((step: any) => step.tool_called === '_internal_threat_modeling');
+    assert.equal(threatStep?.status, 'completed');
+    assert.match(result.solution_summary, /THREAT MODEL \(STRIDE\)/);
+  });
+}
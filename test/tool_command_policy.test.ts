@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as nodePath from "node:path";
+import { CommandPolicy, DEFAULT_COMMAND_ALLOWLIST, DEFAULT_MAX_OUTPUT_BYTES, commandApprovalId, loadCommandPolicyConfig } from "../tools/tool_command_policy.ts";
+import { WorkspaceSandbox } from "../tools/tool_sandbox.ts";
+
+function policy(denylist: string[] = []) {
+  const root = realpathSync(mkdtempSync(nodePath.join(tmpdir(), 'policy-')));
+  mkdirSync(nodePath.join(root, 'src'));
+  return new CommandPolicy({ allowlist: DEFAULT_COMMAND_ALLOWLIST, denylist, maxOutputBytes: DEFAULT_MAX_OUTPUT_BYTES }, new WorkspaceSandbox(root));
+}
+
+test('allows read-only allowlisted commands inside the workspace', async () => {
+  const commands = policy();
+  for (const command of ['ls', 'ls -la src', 'cat package.json', 'head -n 20 src/index.ts', 'grep -n TODO src/index.ts', "find . -name '*.ts'", 'git log --oneline -5', 'git status && npm test', 'git show HEAD:package.json', 'cat "src/a b.ts"', "grep -e 'x y' src"]) {
+    const evaluation = await commands.evaluate(command, false);
+    assert.equal(evaluation.decision, 'allow', `${command}: ${evaluation.reasons.join('; ')}`);
+  }
+});
+
+test('requires approval for the shell metacharacter bypasses', async () => {
+  const commands = policy();
+  for (const command of ['ls & rm -r src', 'ls `rm -r src`', 'echo $(rm -r src)', 'echo pwned > package.json', 'cat < /etc/shadow', 'ls 2>&1']) {
+    const evaluation = await commands.evaluate(command, false);
+    assert.equal(evaluation.decision, 'require-approval', command);
+    assert.ok(evaluation.reasons.some(reason => reason.startsWith('shell metacharacter')), command);
+  }
+});
+
+test('requires approval for allowlisted commands with unsafe arguments', async () => {
+  const commands = policy();
+  for (const command of ['find . -delete', 'find src -name x -exec rm {} ;', 'git log --output=/tmp/x', 'git diff --no-index /etc/passwd src', 'grep -rn secret .']) {
+    assert.equal((await commands.evaluate(command, false)).decision, 'require-approval', command);
+  }
+});
+
+test('checks path arguments against the workspace sandbox', async () => {
+  const commands = policy();
+  for (const command of ['cat /etc/shadow', 'head ../outside.txt', 'ls /', 'cat .env', 'find / -name passwd', 'cat ~/.ssh/id_rsa', 'cat $HOME/.npmrc', 'cat src/*', 'wc --files0-from=/etc/hosts']) {
+    const evaluation = await commands.evaluate(command, false);
+    assert.equal(evaluation.decision, 'require-approval', `${command}: ${evaluation.reasons.join('; ')}`);
+  }
+  assert.match((await commands.evaluate('cat /etc/shadow', false)).reasons.join(';'), /outside-workspace/);
+});
+
+test('reads quoted, escaped, attached-option and rev:path arguments the way the shell and git do', async () => {
+  const commands = policy(['npm publish*']);
+  for (const command of ['cat ".en"v', "cat '.e'nv", 'cat .e\\nv', 'cat "$HOME"/.npmrc', 'grep -f.env src', 'grep --file=.e"nv" src', 'git show HEAD:.env', 'git show :./.env', 'git diff .env']) {
+    const evaluation = await commands.evaluate(command, false);
+    assert.equal(evaluation.decision, 'require-approval', `${command}: ${evaluation.reasons.join('; ')}`);
+  }
+  assert.match((await commands.evaluate('cat ".en"v', false)).reasons.join(';'), /denied-pattern.*'\.env'/);
+  assert.match((await commands.evaluate('git show HEAD:.env', false)).reasons.join(';'), /denied-pattern/);
+  assert.equal((await commands.evaluate('npm "publish"', false)).decision, 'deny');
+  assert.equal((await commands.evaluate("cat 'src/*'", false)).decision, 'allow');
+});
+
+test('keeps the destructive rules, the denylist and approval by id', async () => {
+  const commands = policy(['npm publish*']);
+  const destructive = await commands.evaluate('rm -rf build', false);
+  assert.equal(destructive.decision, 'require-approval');
+  assert.equal(destructive.destructive, true);
+  assert.equal((await commands.evaluate('rm -rf build', false, [commandApprovalId('rm -rf build')])).decision, 'allow');
+  assert.equal((await commands.evaluate('ls && npm publish', false, [commandApprovalId('ls && npm publish')])).decision, 'deny');
+  assert.equal((await commands.evaluate('ls', true)).decision, 'require-approval');
+});
+
+test('loads the allowlist, denylist and output cap from the environment', () => {
+  const config = loadCommandPolicyConfig({ COGNITIVE_COMMAND_ALLOWLIST: 'make test, ls*', COGNITIVE_COMMAND_DENYLIST: 'curl*', COGNITIVE_COMMAND_MAX_OUTPUT_BYTES: 'nope' });
+  assert.deepEqual(config.allowlist, ['make test', 'ls*']);
+  assert.deepEqual(config.denylist, ['curl*']);
+  assert.equal(config.maxOutputBytes, DEFAULT_MAX_OUTPUT_BYTES);
+});
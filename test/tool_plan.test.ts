@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, writeFileSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as nodePath from "node:path";
+import { SequentialThinkingServer } from "../index.ts";
+
+// Runs a problem with real tools against a fresh workspace holding modules/billing/invoice.ts.
+async function run(problem_statement: string) {
+  const root = realpathSync(mkdtempSync(nodePath.join(tmpdir(), 'plan-')));
+  mkdirSync(nodePath.join(root, 'modules', 'billing'), { recursive: true });
+  writeFileSync(nodePath.join(root, 'modules', 'billing', 'invoice.ts'), 'export class InvoiceService {}\n');
+  const previous = process.env.COGNITIVE_WORKSPACE_ROOT;
+  process.env.COGNITIVE_WORKSPACE_ROOT = root;
+  try {
+    const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement, autonomous_mode: true, enable_real_tools: true });
+    return { text: response.content[0].text, result: JSON.parse(response.content[0].text) };
+  } finally {
+    if (previous === undefined) delete process.env.COGNITIVE_WORKSPACE_ROOT;
+    else process.env.COGNITIVE_WORKSPACE_ROOT = previous;
+  }
+}
+
+const listedPath = (result: any) => result.cognitive_trace.find((step: any) => step.tool_called === 'list_files')?.tool_args.path;
+
+test('does not take slash-separated prose for a workspace path', async () => {
+  const { result } = await run('Design a 24/7 support chat with CI/CD, where agents handle reads/writes to tickets');
+  assert.ok(!result.tools_used_internally.includes('list_files'));
+  assert.ok(result.tools_used_internally.includes('_internal_solution_design'));
+});
+
+test('plans real tools for explicit, well-known and existing paths', async () => {
+  assert.equal(listedPath((await run('Review the billing code in ./modules')).result), './modules');
+  assert.equal(listedPath((await run('Audit the handlers under src/api')).result), 'src/api');
+  assert.equal(listedPath((await run('Review the invoice logic in modules/billing')).result), 'modules/billing');
+});
+
+test('summarizes design elements and nested objects in the trace tool_args', async () => {
+  const { result } = await run('Design a 24/7 support chat for 50,000 users with CI/CD and 99.9% availability');
+  const validation = result.cognitive_trace.find((step: any) => step.tool_called === '_internal_solution_validation');
+  assert.equal(typeof validation.tool_args.designElements.count, 'number');
+  assert.ok(validation.tool_args.designElements.ids.every((id: unknown) => typeof id === 'string'));
+  assert.equal(typeof validation.tool_args.requirements.count, 'number');
+  for (const step of result.cognitive_trace) {
+    assert.ok(JSON.stringify(step.tool_args ?? {}).length < 4_000, `step ${step.step} tool_args`);
+  }
+});
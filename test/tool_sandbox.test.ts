@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as nodePath from "node:path";
+import { WorkspaceSandbox, PathPolicyError } from "../tools/tool_sandbox.ts";
+
+function workspace() {
+  const base = realpathSync(mkdtempSync(nodePath.join(tmpdir(), 'sandbox-')));
+  const root = nodePath.join(base, 'root');
+  const outside = nodePath.join(base, 'outside');
+  mkdirSync(nodePath.join(root, 'src'), { recursive: true });
+  mkdirSync(outside);
+  writeFileSync(nodePath.join(root, 'src', 'index.ts'), 'export {};\n');
+  writeFileSync(nodePath.join(outside, 'secret.txt'), 'secret\n');
+  return { root, outside, sandbox: new WorkspaceSandbox(root) };
+}
+
+async function violation(sandbox: WorkspaceSandbox, path: string): Promise<string> {
+  try {
+    await sandbox.resolve(path);
+  } catch (error) {
+    assert.ok(error instanceof PathPolicyError);
+    return error.violation.code;
+  }
+  assert.fail(`expected '${path}' to be rejected`);
+}
+
+test('resolves paths inside the workspace, including files that do not exist yet', async () => {
+  const { root, sandbox } = workspace();
+  assert.equal(await sandbox.resolve('src/index.ts'), nodePath.join(root, 'src', 'index.ts'));
+  assert.equal(await sandbox.resolve('./src/new/file.ts'), nodePath.join(root, 'src', 'new', 'file.ts'));
+});
+
+test('rejects paths that leave the workspace', async () => {
+  const { sandbox, outside } = workspace();
+  assert.equal(await violation(sandbox, '../outside/secret.txt'), 'outside-workspace');
+  assert.equal(await violation(sandbox, nodePath.join(outside, 'secret.txt')), 'outside-workspace');
+  assert.equal(await violation(sandbox, 'a\u0000b'), 'invalid-path');
+});
+
+test('rejects denylisted paths and their descendants', async () => {
+  const { sandbox } = workspace();
+  assert.equal(await violation(sandbox, '.env'), 'denied-pattern');
+  assert.equal(await violation(sandbox, '.env.local'), 'denied-pattern');
+  assert.equal(await violation(sandbox, 'src/.git/config'), 'denied-pattern');
+  assert.equal(await violation(sandbox, 'keys/server.pem'), 'denied-pattern');
+});
+
+test('rejects symlinks that point outside the workspace, for existing and new files', async () => {
+  const { root, outside, sandbox } = workspace();
+  symlinkSync(nodePath.join(outside, 'secret.txt'), nodePath.join(root, 'src', 'creds.ts'));
+  symlinkSync(outside, nodePath.join(root, 'link'));
+  assert.equal(await violation(sandbox, 'src/creds.ts'), 'symlink-escape');
+  assert.equal(await violation(sandbox, 'link/new-file.txt'), 'symlink-escape');
+  assert.equal(await sandbox.isAllowed(nodePath.join(root, 'src', 'index.ts')), true);
+  assert.equal(await sandbox.isAllowed(nodePath.join(root, 'src', 'creds.ts')), false);
+});
@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, symlinkSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as nodePath from "node:path";
+import { execute_command, read_file, write_to_file, replace_in_file, list_files, search_files, list_code_definition_names, browser_action, web_fetch, matchesGlob } from "../tools/tool_wrappers.ts";
+import { SequentialThinkingServer } from "../index.ts";
+
+function project() {
+  const root = realpathSync(mkdtempSync(nodePath.join(tmpdir(), 'tools-')));
+  mkdirSync(nodePath.join(root, 'src', 'node_modules'), { recursive: true });
+  writeFileSync(nodePath.join(root, 'src', 'app.ts'), 'export class App {\n  start(port: number) {\n    // TODO: read config\n  }\n}\nexport function main() {}\n');
+  writeFileSync(nodePath.join(root, 'src', 'notes.md'), 'TODO: docs\n');
+  writeFileSync(nodePath.join(root, 'src', 'node_modules', 'dep.ts'), '// TODO: vendored\n');
+  return root;
+}
+
+test('writes, reads and edits files with SEARCH/REPLACE blocks', async () => {
+  const root = project();
+  const file = nodePath.join(root, 'out', 'config.json');
+  assert.deepEqual(await write_to_file(file, '{"port": 80}\n'), { path: file, bytes_written: 13 });
+  assert.equal(await read_file(file), '{"port": 80}\n');
+  const result = await replace_in_file(file, '<<<<<<< SEARCH\n"port": 80\n=======\n"port": 8080\n>>>>>>> REPLACE');
+  assert.deepEqual(result, { path: file, replacements: 1 });
+  assert.equal(readFileSync(file, 'utf8'), '{"port": 8080}\n');
+  await assert.rejects(replace_in_file(file, '<<<<<<< SEARCH\nmissing\n=======\nx\n>>>>>>> REPLACE'), /SEARCH block not found/);
+  await assert.rejects(read_file(nodePath.join(root, 'absent.txt')), { code: 'ENOENT' });
+});
+
+test('lists, searches and outlines source files without descending into node_modules', async () => {
+  const root = project();
+  const src = nodePath.join(root, 'src');
+  assert.deepEqual((await list_files(src, true)).map(entry => nodePath.basename(entry)), ['app.ts', 'node_modules', 'notes.md']);
+  assert.deepEqual((await search_files(src, 'TODO')).map(match => `${nodePath.basename(match.file)}:${match.line}:${match.text}`), ['app.ts:3:// TODO: read config', 'notes.md:1:TODO: docs']);
+  assert.deepEqual((await search_files(src, 'TODO', '*.md')).map(match => nodePath.basename(match.file)), ['notes.md']);
+  assert.deepEqual((await list_code_definition_names(src)).map(definition => `${definition.kind} ${definition.name}:${definition.line}`), ['class App:1', 'method start:2', 'function main:6']);
+  assert.equal(matchesGlob('src/deep/app.ts', 'src/**/*.{ts,tsx}'), true);
+  assert.equal(matchesGlob('src/app.js', '*.ts'), false);
+});
+
+test('runs commands with exit code and output, and fails the tools that need a browser or network', async () => {
+  const root = project();
+  const ok = await execute_command('echo hello && echo oops 1>&2', false, { cwd: root });
+  assert.deepEqual([ok.exit_code, ok.stdout, ok.stderr, ok.timed_out, ok.truncated], [0, 'hello\n', 'oops\n', false, false]);
+  assert.equal((await execute_command('exit 3', false, { cwd: root })).exit_code, 3);
+  const long = await execute_command('printf "%0100d" 0', false, { cwd: root, max_output_bytes: 10 });
+  assert.equal(long.truncated, true);
+  await assert.rejects(browser_action('launch', 'https://example.com'), /without a browser/);
+  await assert.rejects(web_fetch('https://example.com'), /runs offline/);
+});
+
+// A workspace whose src/creds.ts and src/linked/ are symlinks to a file and a directory outside it.
+function workspace() {
+  const base = realpathSync(mkdtempSync(nodePath.join(tmpdir(), 'wrappers-')));
+  const root = nodePath.join(base, 'root');
+  const outside = nodePath.join(base, 'outside');
+  mkdirSync(nodePath.join(root, 'src'), { recursive: true });
+  mkdirSync(outside);
+  writeFileSync(nodePath.join(root, 'src', 'auth.ts'), 'export class AuthService {}\n// password hashing\n');
+  writeFileSync(nodePath.join(outside, 'secret.ts'), 'export const authToken = "hunter2-outside-secret";\n');
+  symlinkSync(nodePath.join(outside, 'secret.ts'), nodePath.join(root, 'src', 'creds.ts'));
+  symlinkSync(outside, nodePath.join(root, 'src', 'linked'));
+  return { root };
+}
+
+test('file tools neither list nor read symlinked files and directories', async () => {
+  const { root } = workspace();
+  const src = nodePath.join(root, 'src');
+  const listed = (await list_files(src, true)).map(entry => nodePath.basename(entry));
+  assert.deepEqual(listed, ['auth.ts']);
+  assert.deepEqual((await search_files(src, 'auth|password')).map(match => nodePath.basename(match.file)), ['auth.ts']);
+  assert.deepEqual((await list_code_definition_names(src)).map(definition => definition.name), ['AuthService']);
+});
+
+test('an orchestrated code review does not leak a symlinked file from outside the workspace', async () => {
+  const { root } = workspace();
+  const previous = process.env.COGNITIVE_WORKSPACE_ROOT;
+  process.env.COGNITIVE_WORKSPACE_ROOT = root;
+  try {
+    const server = new SequentialThinkingServer();
+    const response = await server.processCognitiveThought({ problem_statement: 'Review the auth module in ./src', autonomous_mode: true, enable_real_tools: true });
+    const text = response.content[0].text;
+    assert.ok(!text.includes('hunter2-outside-secret'));
+    assert.ok(JSON.parse(text).tools_used_internally.includes('list_files'));
+  } finally {
+    if (previous === undefined) delete process.env.COGNITIVE_WORKSPACE_ROOT;
+    else process.env.COGNITIVE_WORKSPACE_ROOT = previous;
+  }
+});
+
+test('a real tool that throws fails its step with a tool_error', async () => {
+  const root = realpathSync(mkdtempSync(nodePath.join(tmpdir(), 'wrappers-')));
+  const previous = process.env.COGNITIVE_WORKSPACE_ROOT;
+  process.env.COGNITIVE_WORKSPACE_ROOT = root;
+  try {
+    const server = new SequentialThinkingServer();
+    const response = await server.processCognitiveThought({ problem_statement: 'Review the auth module in ./src', autonomous_mode: true, enable_real_tools: true });
+    const listing = JSON.parse(response.content[0].text).cognitive_trace.find((step: any) => step.tool_called === 'list_files');
+    assert.equal(listing.status, 'error');
+    assert.equal(listing.error.type, 'tool_error');
+    assert.equal(listing.error.code, 'ENOENT');
+    assert.match(listing.error.message, /no such file or directory/);
+  } finally {
+    if (previous === undefined) delete process.env.COGNITIVE_WORKSPACE_ROOT;
+    else process.env.COGNITIVE_WORKSPACE_ROOT = previous;
+  }
+});
+
+test('listing tools return paths relative to the given base', async () => {
+  const root = project();
+  const src = nodePath.join(root, 'src');
+  assert.deepEqual(await list_files(src, false, root), ['src/app.ts', 'src/node_modules', 'src/notes.md']);
+  assert.deepEqual((await search_files(src, 'TODO', '*.md', root)).map(match => match.file), ['src/notes.md']);
+  assert.deepEqual((await list_code_definition_names(src, root)).map(definition => definition.file), ['src/app.ts', 'src/app.ts', 'src/app.ts']);
+});
+
+test('an orchestrated code review reads the files it found, relative to the workspace root', async () => {
+  const { root } = workspace();
+  const previous = process.env.COGNITIVE_WORKSPACE_ROOT;
+  process.env.COGNITIVE_WORKSPACE_ROOT = root;
+  try {
+    const response = await new SequentialThinkingServer().processCognitiveThought({ problem_statement: 'Review the auth module in ./src', autonomous_mode: true, enable_real_tools: true });
+    const trace = JSON.parse(response.content[0].text).cognitive_trace;
+    const summary = (tool: string) => trace.find((step: any) => step.tool_called === tool).tool_result_summary;
+    assert.match(summary('list_files'), /Result: \["src\/auth\.ts"\]/);
+    assert.match(summary('search_files'), /Result: \[\{"file":"src\/auth\.ts","line":1,/);
+    const read = trace.find((step: any) => step.tool_called === 'read_file');
+    assert.equal(read.tool_args.path, 'src/auth.ts');
+    assert.equal(read.status, 'completed');
+  } finally {
+    if (previous === undefined) delete process.env.COGNITIVE_WORKSPACE_ROOT;
+    else process.env.COGNITIVE_WORKSPACE_ROOT = previous;
+  }
+});
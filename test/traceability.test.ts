@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RequirementExtractor, SequentialThinkingServer } from "../index.ts";
+
+function trace(problem: string, sections: Array<[string, string[]]>) {
+  const requirements = new RequirementExtractor().extract(problem);
+  const elements = sections.map(([name, details], index) => ({ id: `D3.${index + 1}`, name, focus: 'component-design', step: 3, details }));
+  return new SequentialThinkingServer()['buildTraceabilityMatrix'](requirements, elements, new Set());
+}
+
+const row = (matrix: ReturnType<typeof trace>, requirement: RegExp) => matrix.rows.find(candidate => requirement.test(candidate.requirement))!;
+
+test('does not take any mention of "service" as evidence of a microservice decomposition', () => {
+  const matrix = trace('Design a support desk using microservices', [
+    ['CUSTOMER SERVICE PORTAL', ['Ticket queue for service level agreements', 'Technology: Django monolith']],
+    ['CLUSTER SETUP', ['Network policies for service isolation']]
+  ]);
+  const microservices = row(matrix, /microservice/i);
+  assert.equal(microservices.status, 'gap');
+  assert.deepEqual(microservices.design_components, []);
+});
+
+test('traces a microservice decomposition to named domain services and their communication', () => {
+  const matrix = trace('Design a support desk using microservices', [
+    ['USER SERVICE', ['JWT-based authentication']],
+    ['API GATEWAY', ['Request routing to the services']],
+    ['MONITORING', ['Prometheus for metrics collection']]
+  ]);
+  const microservices = row(matrix, /microservice/i);
+  assert.equal(microservices.status, 'satisfied');
+  assert.deepEqual(microservices.design_components.map(component => component.name), ['USER SERVICE', 'API GATEWAY']);
+  assert.deepEqual(microservices.evidence, ['service decomposition', 'inter-service communication']);
+});
+
+test('does not take research or generic pushes as search or notification evidence', () => {
+  const matrix = trace('Build a marketplace with search and notifications', [
+    ['MARKET RESEARCH', ['User research interviews', 'Push releases weekly']]
+  ]);
+  assert.equal(row(matrix, /search/i).status, 'gap');
+  assert.equal(row(matrix, /notification/i).status, 'gap');
+});
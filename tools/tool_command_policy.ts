@@ -0,0 +1,258 @@
+import { createHash } from "node:crypto";
+import { WorkspaceSandbox, PathPolicyError } from "./tool_sandbox.ts";
+
+// Approval policy for execute_command. The whole command is checked against
+// the destructive-command rules and for shell metacharacters, and each of its
+// shell segments (`&&`, `||`, `;`, `|`) against the denylist, the allowlist,
+// the unsafe-argument rules and the workspace sandbox; the strictest outcome wins.
+// Commands that need approval are not run: the orchestrator returns a
+// pending-approval record whose id can be passed back to approve it.
+
+export type CommandDecision = 'allow' | 'require-approval' | 'deny';
+
+export interface CommandPolicyConfig {
+  allowlist: string[];
+  denylist: string[];
+  maxOutputBytes: number;
+}
+
+export interface CommandEvaluation {
+  decision: CommandDecision;
+  approval_id: string;
+  reasons: string[];
+  destructive: boolean;
+}
+
+export const DEFAULT_COMMAND_ALLOWLIST = [
+  'ls*', 'pwd', 'cat *', 'head *', 'tail *', 'wc *', 'grep *', 'find *', 'echo *', 'which *',
+  'git status*', 'git diff*', 'git log*', 'git show*', 'git branch', 'git rev-parse*',
+  'node --version', 'npm --version', 'npm ls*', 'npm test*', 'npm run test*', 'npm run lint*', 'npm run type-check*',
+  'npx tsc --noEmit*', 'tsc --noEmit*'
+];
+
+export const DEFAULT_MAX_OUTPUT_BYTES = 256 * 1024;
+
+const DESTRUCTIVE_RULES: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /\brm\s+(?:-[a-zA-Z]*[rR][a-zA-Z]*\s+-?[a-zA-Z]*[fF]|-[a-zA-Z]*[fF][a-zA-Z]*\s+-?[a-zA-Z]*[rR]|-[a-zA-Z]*(?:rf|fr)[a-zA-Z]*|--recursive\b.*--force\b|--force\b.*--recursive\b)/i, reason: 'recursive forced delete (rm -rf)' },
+  { pattern: /\bgit\s+push\b.*(?:\s--force(?:-with-lease)?\b|\s-f\b|\s\+\S+)/, reason: 'force push rewrites remote history' },
+  { pattern: /\bgit\s+reset\s+--hard\b/, reason: 'hard reset discards local changes' },
+  { pattern: /\bgit\s+clean\s+-[a-zA-Z]*f/, reason: 'git clean deletes untracked files' },
+  { pattern: /\bmkfs(?:\.\w+)?\b/, reason: 'filesystem format (mkfs)' },
+  { pattern: /\bdd\b.*\bof=/, reason: 'raw device write (dd of=)' },
+  { pattern: />\s*\/dev\/(?:sd|nvme|hd|disk)\w*/, reason: 'redirect onto a block device' },
+  { pattern: /\b(?:shutdown|reboot|halt|poweroff)\b/, reason: 'host power state change' },
+  { pattern: /\bchmod\s+(?:-R\s+)?0?777\b/, reason: 'world-writable permissions' },
+  { pattern: /\bchown\s+-R\b/, reason: 'recursive ownership change' },
+  { pattern: /:\(\)\s*\{\s*:\|:&\s*\};:/, reason: 'fork bomb' },
+  { pattern: /\b(?:curl|wget)\b[^|]*\|\s*(?:sudo\s+)?(?:ba|z)?sh\b/, reason: 'pipes a remote script into a shell' },
+  { pattern: /\bsudo\b/, reason: 'privilege escalation (sudo)' },
+  { pattern: /\bDROP\s+(?:TABLE|DATABASE|SCHEMA)\b/i, reason: 'drops database objects' },
+  { pattern: /\bkubectl\s+delete\b/, reason: 'deletes cluster resources' },
+  { pattern: /\bterraform\s+destroy\b/, reason: 'destroys provisioned infrastructure' },
+  { pattern: /\bnpm\s+publish\b/, reason: 'publishes a package' }
+];
+
+// Background jobs, command substitution and redirection hide commands or writes from the segment checks.
+const SHELL_METACHARACTERS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /(?<!&)&(?!&)/, reason: 'runs a command in the background (&)' },
+  { pattern: /`/, reason: 'command substitution (`...`)' },
+  { pattern: /\$\(/, reason: 'command substitution ($(...))' },
+  { pattern: /[<>]/, reason: 'redirection (< or >)' }
+];
+
+// Arguments that make an allowlisted command write, delete, run other commands or read past the sandbox.
+const UNSAFE_ARGUMENT_RULES: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /^find\b.*\s-(?:delete|exec|execdir|ok|okdir|fprint0?|fprintf|fls)\b/, reason: 'find can delete files, run commands or write files' },
+  { pattern: /^git\b.*\s--output\b/, reason: 'git --output writes to a file' },
+  { pattern: /^git\b.*\s--no-index\b/, reason: 'git --no-index reads files outside the repository' },
+  { pattern: /^[ef]?grep\b.*\s(?:-[a-zA-Z]*[rR][a-zA-Z]*|--recursive|--dereference-recursive)(?:\s|$)/, reason: 'recursive grep reads files the workspace denylist hides' }
+];
+
+// Commands whose arguments are checked against the workspace sandbox.
+const PATH_ARGUMENT_COMMANDS = new Set(['ls', 'cat', 'head', 'tail', 'wc', 'grep', 'egrep', 'fgrep', 'find', 'git']);
+
+const SENSITIVE_ENV_PATTERN = /(SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY|ACCESS_?KEY|AUTH|SESSION|COOKIE)/i;
+const PRESERVED_ENV = new Set(['PATH', 'HOME', 'USER', 'SHELL', 'LANG', 'LC_ALL', 'TERM', 'TMPDIR', 'TEMP', 'TMP', 'NODE_ENV', 'CI', 'SYSTEMROOT', 'COMSPEC', 'PATHEXT']);
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+function splitCommandSegments(command: string): string[] {
+  return command.split(/&&|\|\||;|\||\n/).map(segment => segment.trim()).filter(segment => segment.length > 0);
+}
+
+interface ShellWord {
+  text: string;
+  expands: boolean;
+  globs: boolean;
+}
+
+// Splits a segment into words the way the shell does: adjacent quoted and unquoted parts join into
+// one word and backslashes escape the next character, so `".en"v` and `.e\nv` both read as .env.
+// Each word records whether the shell would still expand it ($VAR, a leading ~) or glob it.
+function shellWords(segment: string): ShellWord[] {
+  const words: ShellWord[] = [];
+  let word: ShellWord | undefined;
+  let quote: '' | '"' | "'" = '';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (!quote && /\s/.test(char)) {
+      if (word) words.push(word);
+      word = undefined;
+      continue;
+    }
+    word ??= { text: '', expands: false, globs: false };
+    if (quote === "'") {
+      if (char === "'") quote = '';
+      else word.text += char;
+    } else if (char === '\\') {
+      const next = segment[++i] ?? '';
+      // Inside double quotes a backslash only escapes $, `, " and itself.
+      word.text += quote === '"' && !'$`"\\'.includes(next) ? char + next : next;
+    } else if (quote === '"') {
+      if (char === '"') quote = '';
+      else {
+        if (char === '$') word.expands = true;
+        word.text += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else {
+      if (char === '$' || (char === '~' && /(?:^|[=:])$/.test(word.text))) word.expands = true;
+      if ('*?['.includes(char)) word.globs = true;
+      word.text += char;
+    }
+  }
+  if (word) words.push(word);
+  return words;
+}
+
+export function commandApprovalId(command: string): string {
+  return `cmd-${createHash('sha256').update(command.trim()).digest('hex').substring(0, 12)}`;
+}
+
+export function loadCommandPolicyConfig(env: NodeJS.ProcessEnv = process.env): CommandPolicyConfig {
+  const parseList = (value: string | undefined) => (value || '').split(',').map(pattern => pattern.trim()).filter(pattern => pattern.length > 0);
+  const allowlist = parseList(env.COGNITIVE_COMMAND_ALLOWLIST);
+  const maxOutputBytes = Number(env.COGNITIVE_COMMAND_MAX_OUTPUT_BYTES);
+
+  return {
+    allowlist: allowlist.length > 0 ? allowlist : DEFAULT_COMMAND_ALLOWLIST,
+    denylist: parseList(env.COGNITIVE_COMMAND_DENYLIST),
+    maxOutputBytes: Number.isFinite(maxOutputBytes) && maxOutputBytes > 0 ? maxOutputBytes : DEFAULT_MAX_OUTPUT_BYTES
+  };
+}
+
+export class CommandPolicy {
+  readonly maxOutputBytes: number;
+  private allowlist: RegExp[];
+  private denylist: Array<{ source: string; pattern: RegExp }>;
+  private sandbox: WorkspaceSandbox;
+
+  constructor(config: CommandPolicyConfig, sandbox: WorkspaceSandbox) {
+    this.allowlist = config.allowlist.map(wildcardToRegExp);
+    this.denylist = config.denylist.map(source => ({ source, pattern: wildcardToRegExp(source) }));
+    this.maxOutputBytes = config.maxOutputBytes;
+    this.sandbox = sandbox;
+  }
+
+  async evaluate(command: string, requiresApproval: boolean, approvedIds: string[] = []): Promise<CommandEvaluation> {
+    const approvalId = commandApprovalId(command);
+    const reasons: string[] = [];
+    let decision = 'allow' as CommandDecision;
+    let destructive = false;
+
+    const escalate = (next: CommandDecision, reason: string) => {
+      reasons.push(reason);
+      if (next === 'deny' || (next === 'require-approval' && decision === 'allow')) {
+        decision = next;
+      }
+    };
+
+    if (requiresApproval) {
+      escalate('require-approval', 'caller flagged the command as requiring approval');
+    }
+
+    // Destructive rules run on the whole command: some of them (curl | sh, fork bombs) span segments.
+    for (const rule of DESTRUCTIVE_RULES) {
+      if (rule.pattern.test(command)) {
+        destructive = true;
+        escalate('require-approval', `destructive: ${rule.reason}`);
+      }
+    }
+
+    for (const rule of SHELL_METACHARACTERS) {
+      if (rule.pattern.test(command)) {
+        escalate('require-approval', `shell metacharacter: ${rule.reason}`);
+      }
+    }
+
+    for (const segment of splitCommandSegments(command)) {
+      // The denylist also sees the segment with its quotes and escapes removed, so `npm "publish"` still matches.
+      const unquoted = shellWords(segment).map(word => word.text).join(' ');
+      const denied = this.denylist.find(entry => entry.pattern.test(segment) || entry.pattern.test(unquoted));
+      if (denied) {
+        escalate('deny', `'${segment}' matches denylist pattern '${denied.source}'`);
+        continue;
+      }
+      if (!destructive && !this.allowlist.some(pattern => pattern.test(segment))) {
+        escalate('require-approval', `'${segment}' is not on the command allowlist`);
+      }
+      for (const rule of UNSAFE_ARGUMENT_RULES.filter(rule => rule.pattern.test(segment))) {
+        escalate('require-approval', `'${segment}': ${rule.reason}`);
+      }
+      for (const reason of await this.pathViolations(segment)) {
+        escalate('require-approval', reason);
+      }
+    }
+
+    if (decision === 'require-approval' && approvedIds.includes(approvalId)) {
+      decision = 'allow';
+      reasons.push(`approved by caller (${approvalId})`);
+    }
+
+    return { decision, approval_id: approvalId, reasons, destructive };
+  }
+
+  // Resolves each argument of a file-reading command through the workspace sandbox: plain words,
+  // the values of --option=value and of attached short options (-f.env), and the path of git's
+  // <rev>:<path> blobs. Words the shell would still expand (globs, ~, $VAR) cannot be checked, so
+  // they need approval as well.
+  private async pathViolations(segment: string): Promise<string[]> {
+    const [program, ...words] = shellWords(segment);
+    if (!program || !PATH_ARGUMENT_COMMANDS.has(program.text)) return [];
+    const reasons: string[] = [];
+    for (const word of words) {
+      let value = word.text.startsWith('--') ? word.text.split('=').slice(1).join('=')
+        : word.text.startsWith('-') ? word.text.slice(2) : word.text;
+      if (program.text === 'git' && !word.text.startsWith('-')) value = value.slice(value.indexOf(':') + 1);
+      if (!value) continue;
+      if (word.expands) {
+        reasons.push(`'${segment}': '${value}' is expanded by the shell and cannot be checked against the workspace sandbox`);
+      } else if (word.globs) {
+        reasons.push(`'${segment}': glob '${value}' cannot be checked against the workspace denylist`);
+      } else {
+        try {
+          await this.sandbox.resolve(value);
+        } catch (error) {
+          if (!(error instanceof PathPolicyError)) throw error;
+          reasons.push(`'${segment}': ${error.message}`);
+        }
+      }
+    }
+    return reasons;
+  }
+
+  /** Copies the environment without variables that look like credentials. */
+  scrubEnvironment(env: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+    const scrubbed: NodeJS.ProcessEnv = {};
+    for (const [name, value] of Object.entries(env)) {
+      if (PRESERVED_ENV.has(name.toUpperCase()) || !SENSITIVE_ENV_PATTERN.test(name)) {
+        scrubbed[name] = value;
+      }
+    }
+    return scrubbed;
+  }
+}
@@ -53,3 +53,42 @@ export interface access_mcp_resource {
 export interface list_code_definition_names {
     path: string;
 }
+
+export interface execute_command_result {
+    command: string;
+    exit_code: number | null;
+    stdout: string;
+    stderr: string;
+    timed_out: boolean;
+    truncated: boolean;
+}
+
+export interface execute_command_options {
+    signal?: AbortSignal;
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    max_output_bytes?: number;
+}
+
+export interface write_to_file_result {
+    path: string;
+    bytes_written: number;
+}
+
+export interface replace_in_file_result {
+    path: string;
+    replacements: number;
+}
+
+export interface search_files_match {
+    file: string;
+    line: number;
+    text: string;
+}
+
+export interface code_definition {
+    file: string;
+    line: number;
+    kind: string;
+    name: string;
+}
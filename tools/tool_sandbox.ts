@@ -0,0 +1,129 @@
+import { promises as fs } from "node:fs";
+import * as nodePath from "node:path";
+import { matchesGlob } from "./tool_wrappers.ts";
+
+// Workspace sandbox for the real file tools. Every path handed to read_file,
+// write_to_file, replace_in_file, list_files, search_files or
+// list_code_definition_names is resolved against the workspace root and must
+// stay inside it, both lexically and after following symlinks.
+
+export const DEFAULT_DENYLIST = [
+  '.git',
+  '**/.git/**',
+  '.env',
+  '.env.*',
+  '**/.ssh/**',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  'id_rsa*',
+  'id_ed25519*',
+  '.npmrc'
+];
+
+export type PathPolicyViolationCode = 'invalid-path' | 'outside-workspace' | 'symlink-escape' | 'denied-pattern';
+
+export interface PathPolicyViolation {
+  code: PathPolicyViolationCode;
+  path: string;
+  detail: string;
+}
+
+export class PathPolicyError extends Error {
+  readonly violation: PathPolicyViolation;
+
+  constructor(violation: PathPolicyViolation) {
+    super(`Path policy violation (${violation.code}) for '${violation.path}': ${violation.detail}`);
+    this.name = 'PathPolicyError';
+    this.violation = violation;
+  }
+}
+
+export class WorkspaceSandbox {
+  readonly root: string;
+  private denylist: string[];
+
+  constructor(root: string, denylist: string[] = DEFAULT_DENYLIST) {
+    this.root = nodePath.resolve(root);
+    this.denylist = denylist.filter(pattern => pattern.trim().length > 0);
+  }
+
+  /**
+   * Resolves a tool path against the workspace root, throwing PathPolicyError when the
+   * path escapes the workspace (via `..`, an absolute path or a symlink) or hits the denylist.
+   */
+  async resolve(requestedPath: string): Promise<string> {
+    if (typeof requestedPath !== 'string' || requestedPath.length === 0 || requestedPath.includes('\u0000')) {
+      throw new PathPolicyError({ code: 'invalid-path', path: String(requestedPath), detail: 'path must be a non-empty string' });
+    }
+
+    const absolutePath = nodePath.resolve(this.root, requestedPath);
+    if (!this.isInside(this.root, absolutePath)) {
+      throw new PathPolicyError({ code: 'outside-workspace', path: requestedPath, detail: `resolves outside the workspace root ${this.root}` });
+    }
+
+    const deniedBy = this.deniedBy(absolutePath);
+    if (deniedBy) {
+      throw new PathPolicyError({ code: 'denied-pattern', path: requestedPath, detail: `matches denylist pattern '${deniedBy}'` });
+    }
+
+    // Follow symlinks on the longest existing prefix so writes to new files are checked too.
+    const realRoot = await fs.realpath(this.root);
+    const realPath = await this.realpathOfExistingPrefix(absolutePath);
+    if (!this.isInside(realRoot, realPath)) {
+      throw new PathPolicyError({ code: 'symlink-escape', path: requestedPath, detail: `follows a symlink to ${realPath}, outside the workspace` });
+    }
+    const realDeniedBy = this.deniedBy(nodePath.join(this.root, nodePath.relative(realRoot, realPath)));
+    if (realDeniedBy) {
+      throw new PathPolicyError({ code: 'denied-pattern', path: requestedPath, detail: `follows a symlink to a path matching denylist pattern '${realDeniedBy}'` });
+    }
+
+    return absolutePath;
+  }
+
+  /** Returns true when a path resolves inside the workspace, after following symlinks, and matches no denylist pattern. */
+  async isAllowed(path: string): Promise<boolean> {
+    try {
+      await this.resolve(path);
+      return true;
+    } catch (error) {
+      if (error instanceof PathPolicyError) return false;
+      throw error;
+    }
+  }
+
+  private deniedBy(absolutePath: string): string | undefined {
+    const relativePath = nodePath.relative(this.root, absolutePath);
+    if (!relativePath) return undefined;
+    const segments = relativePath.split(nodePath.sep);
+    // Check every ancestor as well, so 'secrets/.env/x' is caught by '.env'.
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const candidate = segments.slice(0, depth).join('/');
+      const pattern = this.denylist.find(glob => matchesGlob(candidate, glob));
+      if (pattern) return pattern;
+    }
+    return undefined;
+  }
+
+  private isInside(root: string, candidate: string): boolean {
+    const relativePath = nodePath.relative(root, candidate);
+    return relativePath === '' || (!relativePath.startsWith('..') && !nodePath.isAbsolute(relativePath));
+  }
+
+  private async realpathOfExistingPrefix(absolutePath: string): Promise<string> {
+    let current = absolutePath;
+    const missing: string[] = [];
+    while (true) {
+      try {
+        const real = await fs.realpath(current);
+        return nodePath.join(real, ...missing.reverse());
+      } catch {
+        const parent = nodePath.dirname(current);
+        if (parent === current) return absolutePath;
+        missing.push(nodePath.basename(current));
+        current = parent;
+      }
+    }
+  }
+}
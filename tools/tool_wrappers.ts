@@ -1,16 +1,242 @@
-import { execute_command as ExecuteCommandArgs, read_file as ReadFileArgs, write_to_file as WriteToFileArgs, replace_in_file as ReplaceInFileArgs, list_files as ListFilesArgs, search_files as SearchFilesArgs, browser_action as BrowserActionArgs, web_fetch as WebFetchArgs, use_mcp_tool as UseMcpToolArgs, access_mcp_resource as AccessMcpResourceArgs, list_code_definition_names as ListCodeDefinitionNamesArgs } from "./tool_interfaces.ts";
-
-declare function execute_command(command: ExecuteCommandArgs['command'], requires_approval: ExecuteCommandArgs['requires_approval']): Promise<any>;
-declare function read_file(path: ReadFileArgs['path']): Promise<any>;
-declare function write_to_file(path: WriteToFileArgs['path'], content: WriteToFileArgs['content']): Promise<any>;
-declare function replace_in_file(path: ReplaceInFileArgs['path'], diff: ReplaceInFileArgs['diff']): Promise<any>;
-declare function list_files(path: ListFilesArgs['path'], recursive?: ListFilesArgs['recursive']): Promise<any>;
-declare function search_files(path: SearchFilesArgs['path'], regex: SearchFilesArgs['regex'], file_pattern?: SearchFilesArgs['file_pattern']): Promise<any>;
-declare function browser_action(action: BrowserActionArgs['action'], url?: BrowserActionArgs['url'], coordinate?: BrowserActionArgs['coordinate'], text?: BrowserActionArgs['text']): Promise<any>;
-declare function web_fetch(url: WebFetchArgs['url']): Promise<any>;
-declare function use_mcp_tool(server_name: UseMcpToolArgs['server_name'], tool_name: UseMcpToolArgs['tool_name'], arguments: UseMcpToolArgs['arguments']): Promise<any>;
-declare function access_mcp_resource(server_name: AccessMcpResourceArgs['server_name'], uri: AccessMcpResourceArgs['uri']): Promise<any>;
-declare function list_code_definition_names(path: ListCodeDefinitionNamesArgs['path']): Promise<any>;
+import { exec } from "node:child_process";
+import { promises as fs } from "node:fs";
+import * as nodePath from "node:path";
+import type { execute_command as ExecuteCommandArgs, read_file as ReadFileArgs, write_to_file as WriteToFileArgs, replace_in_file as ReplaceInFileArgs, list_files as ListFilesArgs, search_files as SearchFilesArgs, browser_action as BrowserActionArgs, web_fetch as WebFetchArgs, use_mcp_tool as UseMcpToolArgs, access_mcp_resource as AccessMcpResourceArgs, list_code_definition_names as ListCodeDefinitionNamesArgs, execute_command_result as ExecuteCommandResult, execute_command_options as ExecuteCommandOptions, write_to_file_result as WriteToFileResult, replace_in_file_result as ReplaceInFileResult, search_files_match as SearchFilesMatch, code_definition as CodeDefinition } from "./tool_interfaces.ts";
+
+// Local implementations of the tools exposed to the autonomous orchestrator.
+// File-system tools resolve paths against the process working directory, and
+// the listing tools return paths relative to `base` (by default that directory);
+// tools that need a browser, the network or another MCP server fail with an
+// explanatory error instead of pretending to succeed.
+
+const COMMAND_TIMEOUT_MS = 60_000;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const MAX_LISTED_FILES = 1000;
+const MAX_SEARCH_MATCHES = 300;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'coverage']);
+
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.cs', '.rb', '.php']);
+const DEFINITION_PATTERNS: Array<{ kind: string; pattern: RegExp }> = [
+  { kind: 'class', pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/ },
+  { kind: 'interface', pattern: /^\s*(?:export\s+)?interface\s+([A-Za-z_$][\w$]*)/ },
+  { kind: 'type', pattern: /^\s*(?:export\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*=/ },
+  { kind: 'function', pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/ },
+  { kind: 'function', pattern: /^\s*(?:export\s+)?const\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*=>/ },
+  { kind: 'method', pattern: /^\s+(?:public\s+|private\s+|protected\s+)?(?:static\s+)?(?:async\s+)?([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$/ },
+  { kind: 'function', pattern: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/ },
+  { kind: 'function', pattern: /^\s*func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/ },
+  { kind: 'function', pattern: /^\s*(?:pub\s+)?fn\s+([A-Za-z_]\w*)/ }
+];
+const NON_METHOD_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function']);
+
+/**
+ * Converts a simple glob (`*`, `**`, `?`, `{a,b}`) into an anchored regular expression.
+ * Patterns without a slash match against the file's base name.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const followedBySlash = glob[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+      } else {
+        const options = glob.slice(i + 1, close).split(',').map(option => option.replace(/[.+^${}()|[\]\\]/g, '\\$&'));
+        source += `(?:${options.join('|')})`;
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const normalized = relativePath.split(nodePath.sep).join('/');
+  const target = glob.includes('/') ? normalized : nodePath.posix.basename(normalized);
+  return globToRegExp(glob).test(target);
+}
+
+// Symbolic links are skipped: their targets may lie outside the workspace sandbox, which only
+// checks the paths it is given, so neither a linked file nor a linked directory is listed or read.
+async function walkDirectory(root: string, recursive: boolean, limit: number): Promise<string[]> {
+  const results: string[] = [];
+  const queue: string[] = [root];
+
+  while (queue.length > 0 && results.length < limit) {
+    const directory = queue.shift()!;
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (results.length >= limit) break;
+      const fullPath = nodePath.join(directory, entry.name);
+      if (entry.isSymbolicLink()) continue;
+      if (entry.isDirectory()) {
+        results.push(`${fullPath}${nodePath.sep}`);
+        if (recursive && !SKIPPED_DIRECTORIES.has(entry.name)) {
+          queue.push(fullPath);
+        }
+      } else {
+        results.push(fullPath);
+      }
+    }
+  }
+
+  return results;
+}
+
+function parseSearchReplaceBlocks(diff: string): Array<{ search: string; replace: string }> {
+  const blockPattern = /<<<<<<< SEARCH\r?\n([\s\S]*?)\r?\n?=======\r?\n([\s\S]*?)\r?\n?>>>>>>> REPLACE/g;
+  const blocks: Array<{ search: string; replace: string }> = [];
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(diff)) !== null) {
+    blocks.push({ search: match[1], replace: match[2] });
+  }
+  return blocks;
+}
+
+async function execute_command(command: ExecuteCommandArgs['command'], requires_approval: ExecuteCommandArgs['requires_approval'], options: ExecuteCommandOptions = {}): Promise<ExecuteCommandResult> {
+  if (!command || typeof command !== 'string') {
+    throw new Error('execute_command requires a non-empty command string');
+  }
+
+  const maxOutputBytes = options.max_output_bytes || MAX_OUTPUT_BYTES;
+  const isOverLimit = (output: string) => Buffer.byteLength(output) >= maxOutputBytes;
+  const truncate = (output: string) => isOverLimit(output)
+    ? `${Buffer.from(output).subarray(0, maxOutputBytes).toString('utf8')}\n[output truncated at ${maxOutputBytes} bytes]`
+    : output;
+
+  return new Promise(resolve => {
+    exec(command, { cwd: options.cwd || process.cwd(), env: options.env, timeout: COMMAND_TIMEOUT_MS, maxBuffer: maxOutputBytes, signal: options.signal }, (error, stdout, stderr) => {
+      const execError = error as (NodeJS.ErrnoException & { code?: number | string; killed?: boolean }) | null;
+      const overflowed = execError?.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER';
+      resolve({
+        command,
+        exit_code: execError ? (typeof execError.code === 'number' ? execError.code : null) : 0,
+        stdout: truncate(String(stdout)),
+        stderr: truncate(String(stderr)) || (execError && typeof execError.code !== 'number' && !overflowed ? execError.message : ''),
+        timed_out: Boolean(execError?.killed) && !overflowed,
+        truncated: overflowed || isOverLimit(String(stdout)) || isOverLimit(String(stderr))
+      });
+    });
+  });
+}
+
+async function read_file(path: ReadFileArgs['path']): Promise<string> {
+  return fs.readFile(nodePath.resolve(path), 'utf8');
+}
+
+async function write_to_file(path: WriteToFileArgs['path'], content: WriteToFileArgs['content']): Promise<WriteToFileResult> {
+  const target = nodePath.resolve(path);
+  await fs.mkdir(nodePath.dirname(target), { recursive: true });
+  await fs.writeFile(target, content, 'utf8');
+  return { path: target, bytes_written: Buffer.byteLength(content, 'utf8') };
+}
+
+async function replace_in_file(path: ReplaceInFileArgs['path'], diff: ReplaceInFileArgs['diff']): Promise<ReplaceInFileResult> {
+  const target = nodePath.resolve(path);
+  const blocks = parseSearchReplaceBlocks(diff);
+  if (blocks.length === 0) {
+    throw new Error('replace_in_file expects one or more <<<<<<< SEARCH / ======= / >>>>>>> REPLACE blocks');
+  }
+
+  let content = await fs.readFile(target, 'utf8');
+  for (const block of blocks) {
+    const index = content.indexOf(block.search);
+    if (index === -1) {
+      throw new Error(`SEARCH block not found in ${path}: ${block.search.substring(0, 80)}`);
+    }
+    content = content.slice(0, index) + block.replace + content.slice(index + block.search.length);
+  }
+
+  await fs.writeFile(target, content, 'utf8');
+  return { path: target, replacements: blocks.length };
+}
+
+async function list_files(path: ListFilesArgs['path'], recursive?: ListFilesArgs['recursive'], base: string = process.cwd()): Promise<string[]> {
+  const root = nodePath.resolve(path);
+  const entries = await walkDirectory(root, Boolean(recursive), MAX_LISTED_FILES);
+  return entries.map(entry => nodePath.relative(base, entry) || '.');
+}
+
+async function search_files(path: SearchFilesArgs['path'], regex: SearchFilesArgs['regex'], file_pattern?: SearchFilesArgs['file_pattern'], base: string = process.cwd()): Promise<SearchFilesMatch[]> {
+  const root = nodePath.resolve(path);
+  const pattern = new RegExp(regex);
+  const files = (await walkDirectory(root, true, MAX_LISTED_FILES * 10)).filter(entry => !entry.endsWith(nodePath.sep));
+  const matches: SearchFilesMatch[] = [];
+
+  for (const file of files) {
+    if (matches.length >= MAX_SEARCH_MATCHES) break;
+    if (file_pattern && !matchesGlob(nodePath.relative(root, file), file_pattern)) continue;
+
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch {
+      continue;
+    }
+    if (content.includes('\u0000')) continue; // Binary file
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (matches.length < MAX_SEARCH_MATCHES && pattern.test(line)) {
+        matches.push({ file: nodePath.relative(base, file), line: index + 1, text: line.trim().substring(0, 200) });
+      }
+    });
+  }
+
+  return matches;
+}
+
+async function browser_action(action: BrowserActionArgs['action'], url?: BrowserActionArgs['url'], coordinate?: BrowserActionArgs['coordinate'], text?: BrowserActionArgs['text']): Promise<never> {
+  throw new Error(`browser_action '${action}' is unavailable: this server runs without a browser, so pages cannot be launched or driven${url ? ` (requested ${url})` : ''}`);
+}
+
+async function web_fetch(url: WebFetchArgs['url']): Promise<never> {
+  throw new Error(`web_fetch is unavailable: this server runs offline and cannot retrieve ${url}`);
+}
+
+async function use_mcp_tool(server_name: UseMcpToolArgs['server_name'], tool_name: UseMcpToolArgs['tool_name'], tool_arguments: UseMcpToolArgs['arguments']): Promise<never> {
+  throw new Error(`use_mcp_tool is unavailable: no client connection to MCP server '${server_name}' is configured, so '${tool_name}' cannot be called`);
+}
+
+async function access_mcp_resource(server_name: AccessMcpResourceArgs['server_name'], uri: AccessMcpResourceArgs['uri']): Promise<never> {
+  throw new Error(`access_mcp_resource is unavailable: no client connection to MCP server '${server_name}' is configured, so ${uri} cannot be read`);
+}
+
+async function list_code_definition_names(path: ListCodeDefinitionNamesArgs['path'], base: string = process.cwd()): Promise<CodeDefinition[]> {
+  const root = nodePath.resolve(path);
+  const files = (await walkDirectory(root, false, MAX_LISTED_FILES))
+    .filter(entry => SOURCE_EXTENSIONS.has(nodePath.extname(entry)));
+  const definitions: CodeDefinition[] = [];
+
+  for (const file of files) {
+    const lines = (await fs.readFile(file, 'utf8')).split(/\r?\n/);
+    lines.forEach((line, index) => {
+      for (const { kind, pattern } of DEFINITION_PATTERNS) {
+        const match = line.match(pattern);
+        if (match && !NON_METHOD_KEYWORDS.has(match[1])) {
+          definitions.push({ file: nodePath.relative(base, file), line: index + 1, kind, name: match[1] });
+          break;
+        }
+      }
+    });
+  }
+
+  return definitions;
+}
 
 export {
   execute_command,